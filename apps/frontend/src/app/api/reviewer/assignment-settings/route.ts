@@ -0,0 +1,50 @@
+/**
+ * Reviewer Assignment Settings API Routes
+ * GET /api/reviewer/assignment-settings - Get the reviewer's assignment preferences
+ * PUT /api/reviewer/assignment-settings - Update the reviewer's assignment preferences
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewAssignmentService } from '@repo/server/services/review-assignment.service'
+import { updateReviewAssignmentSettingsSchema } from '@repo/server/lib/schemas'
+
+/**
+ * GET /api/reviewer/assignment-settings
+ * Get whether the reviewer accepts assignments, their capacity and expertise
+ */
+export async function GET() {
+  try {
+    const reviewer = await requireReviewer()
+    const settings = await ReviewAssignmentService.getSettings(reviewer)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * PUT /api/reviewer/assignment-settings
+ * Update the reviewer's assignment preferences
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const reviewer = await requireReviewer()
+    const body = await request.json()
+    const validatedData = updateReviewAssignmentSettingsSchema.parse(body)
+
+    const settings = await ReviewAssignmentService.updateSettings(reviewer, validatedData)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Dataset Export API Route
+ * GET /api/reviewer/export - Download all approved tasks with a manifest
+ * Query params (all optional):
+ *   - category: string
+ *   - difficulty: EASY | MEDIUM | HARD
+ *   - approvedFrom / approvedTo: ISO date (inclusive range on the approval date)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { DatasetExportService } from '@repo/server/services/dataset-export.service'
+import { datasetExportQuerySchema } from '@repo/server/lib/schemas'
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireReviewer()
+    const searchParams = request.nextUrl.searchParams
+    const filters = datasetExportQuerySchema.parse({
+      category: searchParams.get('category') ?? undefined,
+      difficulty: searchParams.get('difficulty') ?? undefined,
+      approvedFrom: searchParams.get('approvedFrom') ?? undefined,
+      approvedTo: searchParams.get('approvedTo') ?? undefined,
+    })
+
+    const { fileName, archive } = await DatasetExportService.exportApprovedTasks(filters)
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': String(archive.length),
+      },
+    })
+  } catch (error) {
+    console.error('[GET /api/reviewer/export] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
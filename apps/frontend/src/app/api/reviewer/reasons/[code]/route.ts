@@ -0,0 +1,38 @@
+/**
+ * Review Reason API Route
+ * PUT /api/reviewer/reasons/[code] - Relabel, archive or restore a reason
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewReasonService } from '@repo/server/services/review-reason.service'
+import { reviewReasonParamSchema, updateReviewReasonSchema } from '@repo/server/lib/schemas'
+
+/**
+ * PUT /api/reviewer/reasons/[code]
+ * Review leads only; codes can't change
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const lead = await requireReviewer()
+    const { code } = reviewReasonParamSchema.parse(await params)
+    const data = updateReviewReasonSchema.parse(await request.json())
+
+    const reason = await ReviewReasonService.updateReason(code, data, lead)
+    return NextResponse.json({ reason })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
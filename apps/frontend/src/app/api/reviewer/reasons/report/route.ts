@@ -0,0 +1,35 @@
+/**
+ * Review Reason Report API Route
+ * GET /api/reviewer/reasons/report - The most given reasons overall, per category and per author
+ * Query params (all optional):
+ *   - from / to: ISO date (inclusive range on the review date)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { ReviewReasonService } from '@repo/server/services/review-reason.service'
+import { reviewReasonReportQuerySchema } from '@repo/server/lib/schemas'
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireReviewer()
+    const searchParams = request.nextUrl.searchParams
+    const query = reviewReasonReportQuerySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    })
+
+    const report = await ReviewReasonService.getReport(query)
+    return NextResponse.json({ report })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
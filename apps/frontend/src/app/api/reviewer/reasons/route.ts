@@ -0,0 +1,51 @@
+/**
+ * Review Reasons API Route
+ * GET /api/reviewer/reasons - List the reason catalog
+ * POST /api/reviewer/reasons - Add a reason to the catalog
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewReasonService } from '@repo/server/services/review-reason.service'
+import { createReviewReasonSchema } from '@repo/server/lib/schemas'
+
+/**
+ * GET /api/reviewer/reasons
+ * Query params:
+ *   - includeArchived: 'true' (optional) - include archived reasons
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireReviewer()
+    const includeArchived = request.nextUrl.searchParams.get('includeArchived') === 'true'
+    const reasons = await ReviewReasonService.listReasons(includeArchived)
+    return NextResponse.json({ reasons })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/reviewer/reasons
+ * Review leads only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const lead = await requireReviewer()
+    const data = createReviewReasonSchema.parse(await request.json())
+
+    const reason = await ReviewReasonService.createReason(data, lead)
+    return NextResponse.json({ reason }, { status: HTTP_STATUS.CREATED })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
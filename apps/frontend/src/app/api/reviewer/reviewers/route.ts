@@ -0,0 +1,23 @@
+/**
+ * Reviewers API Route
+ * GET /api/reviewer/reviewers - List reviewers
+ */
+
+import { NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+
+import { ReviewLeaseService } from '@repo/server/services/review-lease.service'
+
+/**
+ * GET /api/reviewer/reviewers
+ * List reviewers a task can be reassigned to
+ */
+export async function GET() {
+  try {
+    await requireReviewer()
+    const reviewers = await ReviewLeaseService.listReviewers()
+    return NextResponse.json({ reviewers })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
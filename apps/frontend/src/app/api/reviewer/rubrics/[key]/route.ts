@@ -0,0 +1,64 @@
+/**
+ * Rubric API Route
+ * PUT /api/reviewer/rubrics/[key] - Save a new version of a rubric template
+ * DELETE /api/reviewer/rubrics/[key] - Archive a rubric template
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { RubricService } from '@repo/server/services/rubric.service'
+import { rubricParamSchema, rubricTemplateSchema } from '@repo/server/lib/schemas'
+
+/**
+ * PUT /api/reviewer/rubrics/[key]
+ * Review leads only; the previous version stays with the reviews scored against it
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const lead = await requireReviewer()
+    const { key } = rubricParamSchema.parse(await params)
+    const data = rubricTemplateSchema.parse(await request.json())
+
+    const template = await RubricService.updateTemplate(key, data, lead)
+    return NextResponse.json({ template })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/reviewer/rubrics/[key]
+ * Review leads only
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const lead = await requireReviewer()
+    const { key } = rubricParamSchema.parse(await params)
+
+    await RubricService.archiveTemplate(key, lead)
+    return NextResponse.json({ message: 'Rubric archived' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
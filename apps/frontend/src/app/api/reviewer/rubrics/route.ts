@@ -0,0 +1,49 @@
+/**
+ * Rubrics API Route
+ * GET /api/reviewer/rubrics - List the rubric templates in use
+ * POST /api/reviewer/rubrics - Create a rubric template
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { RubricService } from '@repo/server/services/rubric.service'
+import { rubricTemplateSchema } from '@repo/server/lib/schemas'
+
+/**
+ * GET /api/reviewer/rubrics
+ * The latest version of each template in use
+ */
+export async function GET() {
+  try {
+    await requireReviewer()
+    const templates = await RubricService.listTemplates()
+    return NextResponse.json({ templates })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/reviewer/rubrics
+ * Review leads only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const lead = await requireReviewer()
+    const data = rubricTemplateSchema.parse(await request.json())
+
+    const template = await RubricService.createTemplate(data, lead)
+    return NextResponse.json({ template }, { status: HTTP_STATUS.CREATED })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
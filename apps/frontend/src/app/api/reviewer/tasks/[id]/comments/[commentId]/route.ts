@@ -0,0 +1,37 @@
+/**
+ * Reviewer Task Comment API Route
+ * DELETE /api/reviewer/tasks/[id]/comments/[commentId] - Delete an inline comment
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewCommentService } from '@repo/server/services/review-comment.service'
+import { commentParamSchema } from '@repo/server/lib/schemas'
+
+/**
+ * DELETE /api/reviewer/tasks/[id]/comments/[commentId]
+ * Reviewers can only delete their own comments
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const reviewer = await requireReviewer()
+    const { id, commentId } = commentParamSchema.parse(await params)
+
+    await ReviewCommentService.deleteComment(id, commentId, reviewer)
+    return NextResponse.json({ message: 'Comment deleted' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Reviewer Task Comments API Route
+ * POST /api/reviewer/tasks/[id]/comments - Comment on lines of a task's files
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewCommentService } from '@repo/server/services/review-comment.service'
+import { idParamSchema, createReviewCommentSchema } from '@repo/server/lib/schemas'
+
+/**
+ * POST /api/reviewer/tasks/[id]/comments
+ * Anchor a comment to a line range of one of the task's files
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const reviewer = await requireReviewer()
+    const { id } = await params
+    const body = await request.json()
+
+    // Validate ID and body
+    idParamSchema.parse({ id })
+    const data = createReviewCommentSchema.parse(body)
+
+    const comment = await ReviewCommentService.createComment(id, data, reviewer)
+    return NextResponse.json({ comment }, { status: HTTP_STATUS.CREATED })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
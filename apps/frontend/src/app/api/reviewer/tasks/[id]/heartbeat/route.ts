@@ -0,0 +1,40 @@
+/**
+ * Reviewer Heartbeat API Route
+ * POST /api/reviewer/tasks/[id]/heartbeat - Renew the reviewer's claim on a task
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewLeaseService } from '@repo/server/services/review-lease.service'
+import { idParamSchema } from '@repo/server/lib/schemas'
+
+/**
+ * POST /api/reviewer/tasks/[id]/heartbeat
+ * Extend the lease on a task the reviewer has in review
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const reviewer = await requireReviewer()
+    const { id } = await params
+
+    // Validate ID
+    idParamSchema.parse({ id })
+
+    const reviewLeaseExpiresAt = await ReviewLeaseService.renew(id, reviewer)
+    return NextResponse.json({ reviewLeaseExpiresAt })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Reviewer Reassign Review API Route
+ * POST /api/reviewer/tasks/[id]/reassign - Hand a task to another reviewer (review leads only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewLeaseService } from '@repo/server/services/review-lease.service'
+import { ReviewService } from '@repo/server/services/review.service'
+import { idParamSchema, reassignReviewSchema } from '@repo/server/lib/schemas'
+
+/**
+ * POST /api/reviewer/tasks/[id]/reassign
+ * Move a task awaiting review, and any claim on it, to another reviewer
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const lead = await requireReviewer()
+    const { id } = await params
+    const body = await request.json()
+
+    // Validate ID and body
+    idParamSchema.parse({ id })
+    const { reviewerId } = reassignReviewSchema.parse(body)
+
+    await ReviewLeaseService.reassign(id, lead, reviewerId)
+    const task = await ReviewService.getTaskForReview(id, lead.id)
+    return NextResponse.json({ task, message: 'Review reassigned' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Reviewer Release Review API Route
+ * POST /api/reviewer/tasks/[id]/release - Give up the reviewer's claim on a task
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireReviewer, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+
+import { ReviewLeaseService } from '@repo/server/services/review-lease.service'
+import { ReviewService } from '@repo/server/services/review.service'
+import { idParamSchema } from '@repo/server/lib/schemas'
+
+/**
+ * POST /api/reviewer/tasks/[id]/release
+ * Return a task the reviewer has in review to the queue (IN_REVIEW → SUBMITTED)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const reviewer = await requireReviewer()
+    const { id } = await params
+
+    // Validate ID
+    idParamSchema.parse({ id })
+
+    await ReviewLeaseService.release(id, reviewer)
+    const task = await ReviewService.getTaskForReview(id, reviewer.id)
+    return NextResponse.json({ task, message: 'Review released' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
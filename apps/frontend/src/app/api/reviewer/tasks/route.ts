@@ -2,8 +2,9 @@
  * Reviewer Tasks API Route
  * GET /api/reviewer/tasks - Get tasks for reviewer
  * Query params:
- *   - filter: 'pending' | 'history' | 'all' (default: 'all')
+ *   - filter: 'pending' | 'assigned' | 'history' | 'all' (default: 'all')
  *   - limit: number (optional)
+ *   - reason: string (optional) - only tasks with a review giving this reason code
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -14,7 +15,8 @@ import { TaskService } from '@repo/server/services/task.service'
 /**
  * GET /api/reviewer/tasks
  * Get tasks for reviewer with optional filter
- * - pending: SUBMITTED, IN_REVIEW (tasks awaiting review)
+ * - pending: SUBMITTED, IN_REVIEW, PARTIALLY_APPROVED (tasks awaiting review)
+ * - assigned: tasks awaiting review that are assigned to this reviewer
  * - history: APPROVED, REJECTED, CHANGES_REQUESTED (tasks this reviewer has reviewed)
  * - all: all of the above
  */
@@ -23,9 +25,11 @@ export async function GET(request: NextRequest) {
     const reviewer = await requireReviewer()
     const searchParams = request.nextUrl.searchParams
     const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined
-    const filter = (searchParams.get('filter') || 'all') as 'pending' | 'history' | 'all'
+    const filter = (searchParams.get('filter') || 'all') as 'pending' | 'assigned' | 'history' | 'all'
     
-    const tasks = await TaskService.getReviewerTasks(reviewer.id, filter, limit)
+    const reason = searchParams.get('reason') || undefined
+    
+    const tasks = await TaskService.getReviewerTasks(reviewer.id, filter, limit, reason)
     return NextResponse.json({ tasks })
   } catch (error) {
     console.error('[GET /api/reviewer/tasks] Error:', error)
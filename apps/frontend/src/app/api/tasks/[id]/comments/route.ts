@@ -0,0 +1,40 @@
+/**
+ * Task Comments API Route
+ * GET /api/tasks/:id/comments - Get reviewers' inline comments on a task's files
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { TaskService } from '@repo/server/services/task.service'
+import { ReviewCommentService } from '@repo/server/services/review-comment.service'
+import { idParamSchema } from '@repo/server/lib/schemas'
+
+/**
+ * GET /api/tasks/:id/comments
+ * Visible to anyone who can see the task
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id } = await params
+    idParamSchema.parse({ id })
+
+    await TaskService.getTaskById(id, user) // Checks the user can see the task
+    const comments = await ReviewCommentService.listComments(id)
+    return NextResponse.json({ comments })
+  } catch (error) {
+    console.error('[GET /api/tasks/:id/comments] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Task Export API Route
+ * GET /api/tasks/:id/export - Download a task as a Terminal-Bench directory archive
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { TaskExportService } from '@repo/server/services/task-export.service'
+import { exportQuerySchema } from '@repo/server/lib/schemas'
+
+/**
+ * GET /api/tasks/:id/export
+ * Query params: version (optional) - export a history version instead of the current task
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id } = await params
+    const { version } = exportQuerySchema.parse({
+      version: request.nextUrl.searchParams.get('version') ?? undefined,
+    })
+
+    const { fileName, archive } = await TaskExportService.exportTask(id, user, version)
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': String(archive.length),
+      },
+    })
+  } catch (error) {
+    console.error('[GET /api/tasks/:id/export] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Task Lint API Route
+ * GET /api/tasks/:id/lint - Lint a task's files
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { TaskService } from '@repo/server/services/task.service'
+import { idParamSchema } from '@repo/server/lib/schemas'
+
+/**
+ * GET /api/tasks/:id/lint
+ * Error-severity issues block submission
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id } = await params
+    idParamSchema.parse({ id })
+
+    const lint = await TaskService.lintTask(id, user)
+    return NextResponse.json(lint)
+  } catch (error) {
+    console.error('[GET /api/tasks/:id/lint] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
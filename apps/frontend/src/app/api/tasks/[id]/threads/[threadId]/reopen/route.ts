@@ -0,0 +1,37 @@
+/**
+ * Thread Reopen API Route
+ * POST /api/tasks/:id/threads/:threadId/reopen - Reopen a resolved discussion thread
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { DiscussionService } from '@repo/server/services/discussion.service'
+import { threadParamSchema } from '@repo/server/lib/schemas'
+
+/**
+ * POST /api/tasks/:id/threads/:threadId/reopen
+ * Anyone taking part in the discussion
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id, threadId } = threadParamSchema.parse(await params)
+
+    const thread = await DiscussionService.reopen(id, threadId, user)
+    return NextResponse.json({ thread })
+  } catch (error) {
+    console.error('[POST /api/tasks/:id/threads/:threadId/reopen] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
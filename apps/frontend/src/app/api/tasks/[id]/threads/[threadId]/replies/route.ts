@@ -0,0 +1,38 @@
+/**
+ * Thread Replies API Route
+ * POST /api/tasks/:id/threads/:threadId/replies - Reply to a discussion thread
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { DiscussionService } from '@repo/server/services/discussion.service'
+import { threadParamSchema, replyToThreadSchema } from '@repo/server/lib/schemas'
+
+/**
+ * POST /api/tasks/:id/threads/:threadId/replies
+ * Replying doesn't change whether the thread is resolved
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id, threadId } = threadParamSchema.parse(await params)
+    const data = replyToThreadSchema.parse(await request.json())
+
+    const thread = await DiscussionService.reply(id, threadId, data, user)
+    return NextResponse.json({ thread }, { status: HTTP_STATUS.CREATED })
+  } catch (error) {
+    console.error('[POST /api/tasks/:id/threads/:threadId/replies] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
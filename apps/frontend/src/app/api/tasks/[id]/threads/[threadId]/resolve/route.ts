@@ -0,0 +1,37 @@
+/**
+ * Thread Resolve API Route
+ * POST /api/tasks/:id/threads/:threadId/resolve - Mark a discussion thread resolved
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { DiscussionService } from '@repo/server/services/discussion.service'
+import { threadParamSchema } from '@repo/server/lib/schemas'
+
+/**
+ * POST /api/tasks/:id/threads/:threadId/resolve
+ * Whoever started the thread, or a reviewer
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id, threadId } = threadParamSchema.parse(await params)
+
+    const thread = await DiscussionService.resolve(id, threadId, user)
+    return NextResponse.json({ thread })
+  } catch (error) {
+    console.error('[POST /api/tasks/:id/threads/:threadId/resolve] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Task Threads API Route
+ * GET /api/tasks/:id/threads - Get the discussion threads on a task
+ * POST /api/tasks/:id/threads - Open a discussion thread
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { z } from 'zod'
+import { DiscussionService } from '@repo/server/services/discussion.service'
+import { idParamSchema, createThreadSchema } from '@repo/server/lib/schemas'
+
+/**
+ * GET /api/tasks/:id/threads
+ * Threads on the task and its reviews, with their messages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id } = await params
+    idParamSchema.parse({ id })
+
+    const threads = await DiscussionService.listThreads(id, user)
+    return NextResponse.json({ threads })
+  } catch (error) {
+    console.error('[GET /api/tasks/:id/threads] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/tasks/:id/threads
+ * Open a thread on the task, or on one of its reviews
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser()
+    const { id } = await params
+    const body = await request.json()
+
+    // Validate ID and body
+    idParamSchema.parse({ id })
+    const data = createThreadSchema.parse(body)
+
+    const thread = await DiscussionService.openThread(id, data, user)
+    return NextResponse.json({ thread }, { status: HTTP_STATUS.CREATED })
+  } catch (error) {
+    console.error('[POST /api/tasks/:id/threads] Error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      )
+    }
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Task Import API Route
+ * POST /api/tasks/import - Create a task from a task directory archive
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth'
+import { HTTP_STATUS } from '@repo/types'
+import { TaskImportService } from '@repo/server/services/task-import.service'
+import { MAX_ARCHIVE_UPLOAD_BYTES } from '@repo/server/lib/archive'
+
+const ARCHIVE_TOO_LARGE = `Archive exceeds the maximum upload size of ${MAX_ARCHIVE_UPLOAD_BYTES / (1024 * 1024)} MB`
+
+/**
+ * Read the request body, stopping once it exceeds the upload limit
+ * Returns null when the body is too large.
+ */
+async function readArchiveBody(request: NextRequest): Promise<Buffer | null> {
+  const declared = Number(request.headers.get('content-length'))
+  if (declared > MAX_ARCHIVE_UPLOAD_BYTES) {
+    return null
+  }
+
+  if (!request.body) {
+    return Buffer.alloc(0)
+  }
+
+  // Content-Length may be missing or wrong, so count what actually arrives
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > MAX_ARCHIVE_UPLOAD_BYTES) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * POST /api/tasks/import
+ * Create a new DRAFT task from a .tar.gz, .tar or .zip archive sent as the raw body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser()
+    const archive = await readArchiveBody(request)
+
+    if (!archive) {
+      return NextResponse.json({ error: ARCHIVE_TOO_LARGE }, { status: HTTP_STATUS.PAYLOAD_TOO_LARGE })
+    }
+
+    const { task, unrecognizedFiles } = await TaskImportService.importTask(archive, user)
+    return NextResponse.json(
+      { task, unrecognizedFiles, message: 'Task imported successfully' },
+      { status: HTTP_STATUS.CREATED }
+    )
+  } catch (error) {
+    console.error('[POST /api/tasks/import] Error:', error)
+    return handleApiError(error)
+  }
+}
@@ -53,6 +53,7 @@ const getStatusDot = (state: string) => {
     DRAFT: 'status-dot-draft',
     SUBMITTED: 'status-dot-submitted',
     IN_REVIEW: 'status-dot-in-review',
+    PARTIALLY_APPROVED: 'status-dot-partially-approved',
     APPROVED: 'status-dot-approved',
     REJECTED: 'status-dot-rejected',
     CHANGES_REQUESTED: 'status-dot-changes',
@@ -65,6 +66,7 @@ const getStateBadgeClass = (state: string) => {
     DRAFT: 'badge-draft',
     SUBMITTED: 'badge-submitted',
     IN_REVIEW: 'badge-in-review',
+    PARTIALLY_APPROVED: 'badge-partially-approved',
     APPROVED: 'badge-approved',
     REJECTED: 'badge-rejected',
     CHANGES_REQUESTED: 'badge-changes',
@@ -160,7 +162,7 @@ function CreatorDashboard() {
 
   const stats = {
     total: tasks.length,
-    pending: tasks.filter((t: any) => ['SUBMITTED', 'IN_REVIEW'].includes(t.state)).length,
+    pending: tasks.filter((t: any) => ['SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED'].includes(t.state)).length,
     approved: tasks.filter((t: any) => t.state === 'APPROVED').length,
     needsWork: tasks.filter((t: any) => ['REJECTED', 'CHANGES_REQUESTED'].includes(t.state)).length,
   }
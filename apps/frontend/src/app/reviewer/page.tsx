@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
-import { reviewerApi } from '@/lib/api-client'
+import { api, reviewerApi } from '@/lib/api-client'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
@@ -12,6 +12,13 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Input } from '@/components/ui/input'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   ContextMenu,
   ContextMenuContent,
@@ -31,19 +38,34 @@ import {
   XCircle,
   AlertCircle,
   Timer,
+  UserCheck,
   ClipboardCheck,
   ExternalLink,
   ClipboardCopy,
   Play,
+  PackageOpen,
+  Inbox,
+  UserCog,
+  ListChecks,
+  Tags,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { PageHeader } from '@/components/page-header'
 import { useToast } from '@/hooks/use-toast'
+import { DatasetExportModal, ReviewAssignmentModal, ReviewReasonsModal, RubricTemplatesModal } from '@/components/modals'
+import { StabilityBadge } from '@/components/task-stability'
+import { useReviewReasons } from '@/hooks/use-reviews'
+
+type QueueTab = 'all' | 'pending' | 'assigned' | 'history'
+
+// Select value for not filtering by review reason
+const ANY_REASON = 'any'
 
 const getStateBadgeClass = (state: string) => {
   const classes: Record<string, string> = {
     SUBMITTED: 'badge-submitted',
     IN_REVIEW: 'badge-in-review',
+    PARTIALLY_APPROVED: 'badge-partially-approved',
     APPROVED: 'badge-approved',
     REJECTED: 'badge-rejected',
     CHANGES_REQUESTED: 'badge-changes',
@@ -66,6 +88,7 @@ const getStateIcon = (state: string) => {
     case 'REJECTED': return XCircle
     case 'CHANGES_REQUESTED': return AlertCircle
     case 'IN_REVIEW': return Timer
+    case 'PARTIALLY_APPROVED': return UserCheck
     default: return Clock
   }
 }
@@ -76,6 +99,7 @@ const getStateColor = (state: string) => {
     case 'REJECTED': return 'text-red-500'
     case 'CHANGES_REQUESTED': return 'text-orange-500'
     case 'IN_REVIEW': return 'text-blue-500'
+    case 'PARTIALLY_APPROVED': return 'text-teal-500'
     default: return 'text-amber-500'
   }
 }
@@ -85,11 +109,27 @@ export default function ReviewerDashboardPage() {
   const queryClient = useQueryClient()
   const { toast } = useToast()
   const [searchQuery, setSearchQuery] = useState('')
-  const [activeTab, setActiveTab] = useState<'all' | 'pending' | 'history'>('all')
+  const [activeTab, setActiveTab] = useState<QueueTab>('all')
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false)
+  const [isAssignmentModalOpen, setIsAssignmentModalOpen] = useState(false)
+  const [isRubricsModalOpen, setIsRubricsModalOpen] = useState(false)
+  const [isReasonsModalOpen, setIsReasonsModalOpen] = useState(false)
+  const [reasonFilter, setReasonFilter] = useState(ANY_REASON)
+
+  // The signed-in reviewer, to tell their assignments apart
+  const { data: me } = useQuery({
+    queryKey: ['user', 'me'],
+    queryFn: () => api.auth.getMe(),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  // Archived reasons included, since past reviews may have given them
+  const { data: reasons = [] } = useReviewReasons({ includeArchived: true })
 
   const { data: tasks = [], isLoading, error } = useQuery({
-    queryKey: ['reviewer', 'tasks', activeTab],
-    queryFn: () => reviewerApi.listTasks({ filter: activeTab }),
+    queryKey: ['reviewer', 'tasks', activeTab, reasonFilter],
+    queryFn: () =>
+      reviewerApi.listTasks({ filter: activeTab, reason: reasonFilter === ANY_REASON ? undefined : reasonFilter }),
     staleTime: 30000,
     gcTime: 5 * 60 * 1000,
   })
@@ -128,7 +168,8 @@ export default function ReviewerDashboardPage() {
     return matchesSearch
   })
 
-  const pendingTasks = tasks.filter((t: any) => t.state === 'SUBMITTED' || t.state === 'IN_REVIEW')
+  const pendingTasks = tasks.filter((t: any) => ['SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED'].includes(t.state))
+  const assignedTasks = pendingTasks.filter((t: any) => !!me && t.assigneeId === me.id)
   const historyTasks = tasks.filter((t: any) =>
     t.state === 'APPROVED' || t.state === 'REJECTED' || t.state === 'CHANGES_REQUESTED'
   )
@@ -163,11 +204,41 @@ export default function ReviewerDashboardPage() {
         breadcrumbs={[
           { label: "Review Queue", icon: <ClipboardCheck className="size-3.5 text-primary" /> }
         ]}
+        actions={
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setIsAssignmentModalOpen(true)} className="gap-2">
+              <UserCog className="size-4" />
+              Assignments
+            </Button>
+            <Button variant="outline" onClick={() => setIsReasonsModalOpen(true)} className="gap-2">
+              <Tags className="size-4" />
+              Reasons
+            </Button>
+            {me?.isReviewLead && (
+              <Button variant="outline" onClick={() => setIsRubricsModalOpen(true)} className="gap-2">
+                <ListChecks className="size-4" />
+                Rubrics
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setIsExportModalOpen(true)} className="gap-2">
+              <PackageOpen className="size-4" />
+              Export Approved
+            </Button>
+          </div>
+        }
+      />
+      <DatasetExportModal open={isExportModalOpen} onOpenChange={setIsExportModalOpen} />
+      <ReviewAssignmentModal open={isAssignmentModalOpen} onOpenChange={setIsAssignmentModalOpen} />
+      <RubricTemplatesModal open={isRubricsModalOpen} onOpenChange={setIsRubricsModalOpen} />
+      <ReviewReasonsModal
+        open={isReasonsModalOpen}
+        onOpenChange={setIsReasonsModalOpen}
+        canManage={!!me?.isReviewLead}
       />
 
       {/* Filters & Tabs */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'all' | 'pending' | 'history')} className="w-full sm:w-auto">
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as QueueTab)} className="w-full sm:w-auto">
           <TabsList>
             <TabsTrigger value="all" className="gap-1.5">
               All
@@ -178,6 +249,11 @@ export default function ReviewerDashboardPage() {
               Pending
               <Badge variant="secondary" className="text-xs ml-1">{pendingTasks.length}</Badge>
             </TabsTrigger>
+            <TabsTrigger value="assigned" className="gap-1.5">
+              <Inbox className="h-3.5 w-3.5" />
+              Assigned to me
+              <Badge variant="secondary" className="text-xs ml-1">{assignedTasks.length}</Badge>
+            </TabsTrigger>
             <TabsTrigger value="history" className="gap-1.5">
               <History className="h-3.5 w-3.5" />
               Reviewed
@@ -186,14 +262,30 @@ export default function ReviewerDashboardPage() {
           </TabsList>
         </Tabs>
 
-        <div className="relative w-full sm:w-64">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search tasks..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9"
-          />
+        <div className="flex w-full sm:w-auto items-center gap-2">
+          <Select value={reasonFilter} onValueChange={setReasonFilter}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_REASON}>Any review reason</SelectItem>
+              {reasons.map((reason) => (
+                <SelectItem key={reason.code} value={reason.code}>
+                  {reason.label}{!reason.isActive && ' (archived)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search tasks..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
         </div>
       </div>
 
@@ -222,11 +314,15 @@ export default function ReviewerDashboardPage() {
               <CheckSquare className="h-5 w-5 text-muted-foreground" />
             </div>
             <h3 className="font-medium mb-1">
-              {tasks.length === 0 ? 'All caught up!' : 'No matching tasks'}
+              {tasks.length === 0 && reasonFilter === ANY_REASON ? 'All caught up!' : 'No matching tasks'}
             </h3>
             <p className="text-sm text-muted-foreground">
               {tasks.length === 0
-                ? 'There are no tasks awaiting review right now'
+                ? reasonFilter !== ANY_REASON
+                  ? 'No tasks have a review giving this reason'
+                  : activeTab === 'assigned'
+                  ? 'No tasks are assigned to you right now'
+                  : 'There are no tasks awaiting review right now'
                 : 'Try adjusting your search query'}
             </p>
           </CardContent>
@@ -237,7 +333,7 @@ export default function ReviewerDashboardPage() {
             if (!task?.id) return null
             const taskState = task.state || 'SUBMITTED'
             const StateIcon = getStateIcon(taskState)
-            const isPending = taskState === 'SUBMITTED' || taskState === 'IN_REVIEW'
+            const isPending = ['SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED'].includes(taskState)
             const isCompleted = taskState === 'APPROVED' || taskState === 'REJECTED' || taskState === 'CHANGES_REQUESTED'
             const canStartReview = taskState === 'SUBMITTED'
 
@@ -263,6 +359,9 @@ export default function ReviewerDashboardPage() {
                                   {task.difficulty}
                                 </Badge>
                               )}
+                              {task.stabilityReport && (
+                                <StabilityBadge report={task.stabilityReport} className="text-[10px] px-1.5 py-0" />
+                              )}
                             </div>
                             <div className="flex items-center gap-3 mt-0.5">
                               {task.author && (
@@ -277,6 +376,14 @@ export default function ReviewerDashboardPage() {
                                   {new Date(task.createdAt).toLocaleDateString()}
                                 </span>
                               )}
+                              {isPending && task.assignee && (
+                                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                  <Inbox className="h-3 w-3" />
+                                  {task.assignee.id === me?.id
+                                    ? 'Assigned to you'
+                                    : `Assigned to ${task.assignee.name || task.assignee.email}`}
+                                </span>
+                              )}
                               {task.reviews && task.reviews.length > 0 && (
                                 <span className="text-xs text-muted-foreground">
                                   {task.reviews.length} review{task.reviews.length !== 1 ? 's' : ''}
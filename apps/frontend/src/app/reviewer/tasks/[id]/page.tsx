@@ -11,7 +11,7 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { ConfirmModal } from '@/components/modals'
+import { ConfirmModal, ReassignReviewModal } from '@/components/modals'
 import { ReviewSidebar } from '@/components/review-sidebar'
 import { ActivitySidebar } from '@/components/activity-sidebar'
 import { DiffViewer } from '@/components/ui/diff-viewer'
@@ -29,19 +29,42 @@ import {
   XCircle,
   AlertTriangle,
   User,
-  Copy,
-  Check,
   ClipboardCheck,
   GitCompare,
+  Repeat,
+  FlaskConical,
+  SquareTerminal,
+  UserCheck,
+  Undo2,
+  UserRoundCog,
+  MessagesSquare,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import Link from 'next/link'
 import { PageHeader } from '@/components/page-header'
+import { ExportTaskButton } from '@/components/export-task-button'
+import { TaskLintIssues } from '@/components/task-lint-issues'
+import { TaskRunStatus } from '@/components/task-run-status'
+import { TaskVerification } from '@/components/task-verification'
+import { StabilityBadge, TaskStabilityCheck } from '@/components/task-stability'
+import { TaskTestResults } from '@/components/task-test-results'
+import { TaskRecording } from '@/components/run-recording-player'
+import { TaskTerminalButton } from '@/components/task-terminal'
+import { ReviewConsensusSummary } from '@/components/review-consensus'
+import { ResourceLimitTiles } from '@/components/task-resource-limits'
+import { TaskFileComments, OutdatedReviewComments } from '@/components/review-comments'
+import { TaskDiscussions } from '@/components/task-discussions'
+import { useTaskLint, useTaskComments } from '@/hooks/use-tasks'
+import { useTaskThreads } from '@/hooks/use-threads'
+import { useReviewHeartbeat, useReleaseReview, useReviewReasons } from '@/hooks/use-reviews'
+import { getResourceWarnings } from '@repo/types'
+import type { TaskFileField } from '@repo/types'
 
 const getStateBadgeClass = (state: string) => {
   const classes: Record<string, string> = {
     SUBMITTED: 'badge-submitted',
     IN_REVIEW: 'badge-in-review',
+    PARTIALLY_APPROVED: 'badge-partially-approved',
     APPROVED: 'badge-approved',
     REJECTED: 'badge-rejected',
     CHANGES_REQUESTED: 'badge-changes',
@@ -58,37 +81,6 @@ const getDifficultyBadgeClass = (difficulty: string) => {
   return classes[difficulty] || ''
 }
 
-function CodeBlock({ content, filename }: { content: string; filename: string }) {
-  const [copied, setCopied] = useState(false)
-
-  const handleCopy = async () => {
-    await navigator.clipboard.writeText(content)
-    setCopied(true)
-    setTimeout(() => setCopied(false), 2000)
-  }
-
-  return (
-    <div className="rounded-xl border border-border/50 overflow-hidden">
-      <div className="flex items-center justify-between px-4 py-2 bg-secondary/30 border-b border-border/50">
-        <span className="text-sm font-mono text-muted-foreground">{filename}</span>
-        <Button
-          variant="ghost"
-          size="icon-sm"
-          onClick={handleCopy}
-          className="h-7 w-7"
-        >
-          {copied ? <Check className="size-3.5 text-emerald-500" /> : <Copy className="size-3.5" />}
-        </Button>
-      </div>
-      <ScrollArea className="h-[300px]">
-        <pre className="p-4 text-sm font-mono leading-relaxed">
-          <code className="text-muted-foreground">{content}</code>
-        </pre>
-      </ScrollArea>
-    </div>
-  )
-}
-
 export default function ReviewerTaskDetailPage() {
   const params = useParams()
   const router = useRouter()
@@ -96,6 +88,8 @@ export default function ReviewerTaskDetailPage() {
   const taskId = params.id as string
 
   const [isStartReviewModalOpen, setIsStartReviewModalOpen] = useState(false)
+  const [isReleaseModalOpen, setIsReleaseModalOpen] = useState(false)
+  const [isReassignModalOpen, setIsReassignModalOpen] = useState(false)
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['reviewer', 'tasks', taskId],
@@ -109,6 +103,25 @@ export default function ReviewerTaskDetailPage() {
     enabled: !!data, // Only fetch when task is loaded
   })
 
+  // Lint findings for the task's files
+  const { data: lint } = useTaskLint(taskId)
+
+  // Inline comments on the task's files
+  const { data: comments = [] } = useTaskComments(taskId)
+
+  // Author–reviewer discussions; open ones are counted on the tab
+  const { data: threads = [] } = useTaskThreads(taskId)
+
+  // The signed-in reviewer, to find their own decision among others'
+  const { data: me } = useQuery({
+    queryKey: ['user', 'me'],
+    queryFn: () => api.auth.getMe(),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  // Labels for the reasons given in reviews, archived ones included
+  const { data: reasons } = useReviewReasons({ includeArchived: true })
+
   // Fetch audit logs for activity sidebar
   const { data: auditLogs = [], isLoading: isLoadingAudit } = useQuery({
     queryKey: ['audit', 'task', taskId],
@@ -125,6 +138,12 @@ export default function ReviewerTaskDetailPage() {
     },
   })
 
+  const releaseReviewMutation = useReleaseReview(taskId)
+
+  // Keep this reviewer's claim alive while they have the task open
+  const isClaimHolder = data?.state === 'IN_REVIEW' && !!me && data.reviewerId === me.id
+  useReviewHeartbeat(taskId, isClaimHolder)
+
   if (isLoading) {
     return (
       <div className="w-full h-full px-8 py-6 overflow-y-auto">
@@ -194,24 +213,34 @@ export default function ReviewerTaskDetailPage() {
   }
 
   const canStartReview = task.state === 'SUBMITTED'
-  const canReview = ['IN_REVIEW', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED'].includes(task.state)
+  const canReassign = !!me?.isReviewLead && ['SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED'].includes(task.state)
+  const claimHolderName = task.reviewer?.name || task.reviewer?.email || 'another reviewer'
+  const leaseExpiresAt = task.reviewLeaseExpiresAt
+    ? new Date(task.reviewLeaseExpiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null
+  const canReview = ['IN_REVIEW', 'PARTIALLY_APPROVED', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED'].includes(task.state)
   
-  // Only pre-fill when editing a decision on the SAME version (not after resubmission)
-  // If task is IN_REVIEW or SUBMITTED, it's a fresh review cycle - don't pre-fill
-  const isEditingExistingDecision = ['APPROVED', 'REJECTED', 'CHANGES_REQUESTED'].includes(task.state)
-  const latestReview = isEditingExistingDecision && task.reviews && task.reviews.length > 0 
-    ? task.reviews[0] 
+  // Only pre-fill when editing this reviewer's decision on the SAME version (not after resubmission)
+  // A resubmission starts a fresh review round, with no standing decisions - don't pre-fill
+  const consensus = task.reviewConsensus
+  const ownSignOff = [...(consensus?.approvals ?? []), ...(consensus?.objections ?? [])]
+    .find((signOff) => signOff.reviewer.id === me?.id)
+  const latestReview = ownSignOff
+    ? task.reviews?.find((review) => review.id === ownSignOff.reviewId) ?? null
     : null
   const hasChanges = diffData && diffData.changes && diffData.changes.length > 0
   const isResubmission = hasChanges && (task.state === 'SUBMITTED' || task.state === 'IN_REVIEW')
 
   const files = [
-    { name: 'task.yaml', content: task.taskYaml },
-    { name: 'docker-compose.yaml', content: task.dockerComposeYaml },
-    { name: 'solution.sh', content: task.solutionSh },
-    { name: 'run-tests.sh', content: task.runTestsSh },
-    { name: 'tests.json', content: task.testsJson },
-  ].filter((f): f is { name: string; content: string } => f.content !== null && f.content !== undefined)
+    { name: 'task.yaml', field: 'taskYaml', content: task.taskYaml },
+    { name: 'docker-compose.yaml', field: 'dockerComposeYaml', content: task.dockerComposeYaml },
+    { name: 'solution.sh', field: 'solutionSh', content: task.solutionSh },
+    { name: 'run-tests.sh', field: 'runTestsSh', content: task.runTestsSh },
+    ...task.testFiles.map((file) => ({ name: `tests/${file.path}`, field: `tests/${file.path}`, content: file.content })),
+  ].filter((f): f is { name: string; field: TaskFileField; content: string } => f.content !== null && f.content !== undefined)
+  const lintIssues = lint?.issues ?? []
+  const openThreadCount = threads.filter((thread) => !thread.resolvedAt).length
+  const resourceWarnings = getResourceWarnings(task)
 
   return (
     <div className="flex flex-1 h-full min-h-0">
@@ -225,15 +254,33 @@ export default function ReviewerTaskDetailPage() {
           { label: task.title }
         ]}
         actions={
-              canStartReview ? (
-              <Button
-                onClick={() => setIsStartReviewModalOpen(true)}
-                className="gap-2 bg-teal-600 hover:bg-teal-700"
-              >
-                <Play className="size-4" />
-                Start Review
-              </Button>
-              ) : undefined
+              <div className="flex gap-2">
+                <TaskVerification taskId={task.id} />
+                <TaskRunStatus taskId={task.id} />
+                <ExportTaskButton taskId={task.id} />
+                <TaskTerminalButton taskId={task.id} />
+                {canReassign && (
+                  <Button variant="outline" onClick={() => setIsReassignModalOpen(true)} className="gap-2">
+                    <UserRoundCog className="size-4" />
+                    Reassign
+                  </Button>
+                )}
+                {isClaimHolder && (
+                  <Button variant="outline" onClick={() => setIsReleaseModalOpen(true)} className="gap-2">
+                    <Undo2 className="size-4" />
+                    Release Review
+                  </Button>
+                )}
+                {canStartReview && (
+                  <Button
+                    onClick={() => setIsStartReviewModalOpen(true)}
+                    className="gap-2 bg-teal-600 hover:bg-teal-700"
+                  >
+                    <Play className="size-4" />
+                    Start Review
+                  </Button>
+                )}
+              </div>
         }
       />
       <div className="space-y-6">
@@ -242,6 +289,7 @@ export default function ReviewerTaskDetailPage() {
           <Badge variant="outline" className={cn("text-xs", getStateBadgeClass(task.state || ''))}>
             {task.state === 'SUBMITTED' ? 'Awaiting Review' : (task.state || '').replace('_', ' ')}
           </Badge>
+          {task.stabilityReport && <StabilityBadge report={task.stabilityReport} />}
           <div className="flex items-center gap-4 text-sm text-muted-foreground">
             {task.author && (
               <span className="flex items-center gap-1.5">
@@ -283,7 +331,27 @@ export default function ReviewerTaskDetailPage() {
           <div className="flex-1">
             <p className="font-medium text-blue-400">Review in Progress</p>
             <p className="text-sm text-muted-foreground">
-              You are currently reviewing this task. Use the panel on the right to submit your decision.
+              {isClaimHolder
+                ? 'You are currently reviewing this task. Use the panel on the right to submit your decision. Your claim is kept while this page is open.'
+                : `${claimHolderName} is reviewing this task.${leaseExpiresAt ? ` It returns to the queue at ${leaseExpiresAt} unless they come back to it.` : ''}`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Status Banner for PARTIALLY_APPROVED */}
+      {task.state === 'PARTIALLY_APPROVED' && (
+        <div className="rounded-xl border border-teal-500/30 bg-teal-500/5 p-4 flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-teal-500/10">
+            <UserCheck className="size-5 text-teal-400" />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium text-teal-400">Partially Approved</p>
+            <p className="text-sm text-muted-foreground">
+              {consensus
+                ? `Approved by ${consensus.approvals.length} of the ${consensus.requiredApprovals} reviewers this task needs.`
+                : 'Approved by some of the reviewers this task needs.'}{' '}
+              {ownSignOff ? 'Waiting for other reviewers to sign off.' : 'Use the panel on the right to add your decision.'}
             </p>
           </div>
         </div>
@@ -334,6 +402,23 @@ export default function ReviewerTaskDetailPage() {
         </div>
       )}
 
+      {/* Resource warnings: network access or unusually large limits */}
+      {resourceWarnings.length > 0 && (
+        <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4 flex items-start gap-3">
+          <div className="p-2 rounded-lg bg-amber-500/10">
+            <AlertTriangle className="size-5 text-amber-400" />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium text-amber-400">Check Resource Settings</p>
+            <ul className="mt-1 space-y-0.5 text-sm text-muted-foreground">
+              {resourceWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Content Tabs */}
       <Tabs defaultValue="overview" className="w-full">
         <TabsList className="mb-4 bg-secondary/30">
@@ -351,6 +436,10 @@ export default function ReviewerTaskDetailPage() {
               Files ({files.length})
             </TabsTrigger>
           )}
+          <TabsTrigger value="discussion" className="gap-2">
+            <MessagesSquare className="size-4" />
+            Discussion{openThreadCount > 0 && ` (${openThreadCount})`}
+          </TabsTrigger>
           {diffData && (
             <TabsTrigger value="changes" className="gap-2">
               <GitCompare className="size-4" />
@@ -361,6 +450,20 @@ export default function ReviewerTaskDetailPage() {
 
         <TabsContent value="overview" className="mt-0">
           <div className="grid md:grid-cols-2 gap-6">
+            {consensus && (
+              <Card className="border-border/50 md:col-span-2">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-base font-medium flex items-center gap-2">
+                    <UserCheck className="size-4 text-muted-foreground" />
+                    Sign-offs
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReviewConsensusSummary consensus={consensus} currentUserId={me?.id} />
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="border-border/50">
               <CardHeader className="pb-4">
                 <CardTitle className="text-base font-medium flex items-center gap-2">
@@ -404,9 +507,70 @@ export default function ReviewerTaskDetailPage() {
                     <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Test Timeout</p>
                     <p className="text-xl font-semibold">{task.maxTestTimeoutSec}s</p>
                   </div>
+                  <ResourceLimitTiles limits={task} />
                 </div>
               </CardContent>
             </Card>
+
+            {lint && (
+              <Card className="border-border/50 md:col-span-2">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-base font-medium flex items-center gap-2">
+                    <ClipboardCheck className="size-4 text-muted-foreground" />
+                    Lint
+                    {lint.errorCount > 0 && (
+                      <Badge variant="outline" className="border-red-500/30 text-red-500">
+                        {lint.errorCount} error{lint.errorCount !== 1 ? 's' : ''}
+                      </Badge>
+                    )}
+                    {lint.warningCount > 0 && (
+                      <Badge variant="outline" className="border-amber-500/30 text-amber-500">
+                        {lint.warningCount} warning{lint.warningCount !== 1 ? 's' : ''}
+                      </Badge>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <TaskLintIssues issues={lint.issues} showFile emptyMessage="No lint issues found" />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="border-border/50 md:col-span-2">
+              <CardHeader className="pb-4">
+                <CardTitle className="text-base font-medium flex items-center gap-2">
+                  <FlaskConical className="size-4 text-muted-foreground" />
+                  Test Results
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TaskTestResults taskId={task.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/50 md:col-span-2">
+              <CardHeader className="pb-4">
+                <CardTitle className="text-base font-medium flex items-center gap-2">
+                  <SquareTerminal className="size-4 text-muted-foreground" />
+                  Terminal Recording
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TaskRecording taskId={task.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/50 md:col-span-2">
+              <CardHeader className="pb-4">
+                <CardTitle className="text-base font-medium flex items-center gap-2">
+                  <Repeat className="size-4 text-muted-foreground" />
+                  Stability
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TaskStabilityCheck taskId={task.id} report={task.stabilityReport} />
+              </CardContent>
+            </Card>
           </div>
         </TabsContent>
 
@@ -428,14 +592,32 @@ export default function ReviewerTaskDetailPage() {
 
         <TabsContent value="files" className="mt-0">
           <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Click a line to comment on it; shift-click to comment on a range of lines.
+            </p>
+            <OutdatedReviewComments taskId={task.id} comments={comments} canDelete currentUserId={me?.id} />
             {files.map((file) => (
-              <div key={file.name}>
-                <CodeBlock content={file.content} filename={file.name} />
+              <div key={file.name} className="space-y-2">
+                <TaskFileComments
+                  taskId={task.id}
+                  field={file.field}
+                  filename={file.name}
+                  content={file.content}
+                  comments={comments}
+                  annotations={lintIssues.filter((issue) => issue.field === file.field)}
+                  canComment
+                  currentUserId={me?.id}
+                />
+                <TaskLintIssues issues={lintIssues.filter((issue) => issue.field === file.field)} />
               </div>
             ))}
           </div>
         </TabsContent>
 
+        <TabsContent value="discussion" className="mt-0">
+          <TaskDiscussions taskId={task.id} reviews={task.reviews} currentUserId={me?.id} isReviewer />
+        </TabsContent>
+
         {/* Changes Tab - Shows diff between versions */}
         {diffData && (
           <TabsContent value="changes" className="mt-0">
@@ -462,12 +644,25 @@ export default function ReviewerTaskDetailPage() {
           open={isStartReviewModalOpen}
           onOpenChange={setIsStartReviewModalOpen}
           title="Start Review"
-          description="Once you start reviewing, this task will be assigned to you and marked as 'In Review'. Other reviewers won't be able to review it until you submit your decision."
+          description="Once you start reviewing, this task will be assigned to you and marked as 'In Review'. Other reviewers won't be able to review it until you submit your decision or release it. If you leave this page closed for a while, the task goes back to the queue."
           confirmText="Start Review"
           variant="default"
           isLoading={startReviewMutation.isPending}
           onConfirm={() => startReviewMutation.mutate()}
         />
+        <ConfirmModal
+          open={isReleaseModalOpen}
+          onOpenChange={setIsReleaseModalOpen}
+          title="Release Review"
+          description="The task goes back to the queue as 'Awaiting Review', and may be assigned to another reviewer."
+          confirmText="Release"
+          variant="default"
+          isLoading={releaseReviewMutation.isPending}
+          onConfirm={() => releaseReviewMutation.mutate(undefined, { onSuccess: () => setIsReleaseModalOpen(false) })}
+        />
+        {canReassign && (
+          <ReassignReviewModal task={task} open={isReassignModalOpen} onOpenChange={setIsReassignModalOpen} />
+        )}
           </div>
         </div>
         </div>
@@ -487,6 +682,7 @@ export default function ReviewerTaskDetailPage() {
         auditLogs={auditLogs}
         taskState={task.state || ''}
         isLoading={isLoadingAudit}
+        reasons={reasons}
       />
 
       {/* Review Sidebar - visible when task can be reviewed */}
@@ -494,7 +690,17 @@ export default function ReviewerTaskDetailPage() {
         <ReviewSidebar
           taskId={taskId}
           taskTitle={task.title}
-          previousReview={latestReview ? { decision: latestReview.decision, comment: latestReview.comment } : undefined}
+          previousReview={
+            latestReview
+              ? {
+                  decision: latestReview.decision,
+                  comment: latestReview.comment,
+                  rubricScores: latestReview.rubricScores,
+                  reasonCodes: latestReview.reasonCodes,
+                }
+              : undefined
+          }
+          rubric={task.rubric}
           onSuccess={() => {
             router.push('/reviewer')
           }}
@@ -1,12 +1,16 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { tasksApi } from '@/lib/api-client'
-import { Difficulty } from '@repo/types'
+import { tasksApi, formatApiErrorDetails } from '@/lib/api-client'
+import { applyTaskFormChange } from '@/lib/task-yaml-sync'
+import { Difficulty, lintTaskFiles } from '@repo/types'
+import type { TestFile } from '@repo/types'
 import { Button } from '@/components/ui/button'
 import { PageHeader } from '@/components/page-header'
+import { TaskLintIssues } from '@/components/task-lint-issues'
+import { TestFilesEditor } from '@/components/test-files-editor'
 import { FileText, Edit3 } from 'lucide-react'
 
 export default function EditTaskPage() {
@@ -31,7 +35,7 @@ export default function EditTaskPage() {
     dockerComposeYaml: '',
     solutionSh: '',
     runTestsSh: '',
-    testsJson: '',
+    testFiles: [] as TestFile[],
   })
 
   // Populate form when task data loads
@@ -49,11 +53,21 @@ export default function EditTaskPage() {
         dockerComposeYaml: task.dockerComposeYaml || '',
         solutionSh: task.solutionSh || '',
         runTestsSh: task.runTestsSh || '',
-        testsJson: task.testsJson || '',
+        testFiles: task.testFiles || [],
       })
     }
   }, [data])
 
+  // Lint the files as they are edited; the server applies the same rules on submit
+  const lint = useMemo(
+    () => lintTaskFiles({
+      dockerComposeYaml: formData.dockerComposeYaml,
+      solutionSh: formData.solutionSh,
+      runTestsSh: formData.runTestsSh,
+    }),
+    [formData.dockerComposeYaml, formData.solutionSh, formData.runTestsSh]
+  )
+
   const updateMutation = useMutation({
     mutationFn: (data: typeof formData) => tasksApi.update(taskId, data),
     onSuccess: () => {
@@ -75,8 +89,8 @@ export default function EditTaskPage() {
     })
   }
 
-  const handleChange = (field: string, value: any) => {
-    setFormData(prev => ({ ...prev, [field]: value }))
+  const handleChange = (field: keyof typeof formData, value: any) => {
+    setFormData(prev => applyTaskFormChange(prev, field, value))
   }
 
   if (isLoading) {
@@ -237,6 +251,9 @@ export default function EditTaskPage() {
               className="w-full border rounded px-3 py-2 font-mono text-sm"
               placeholder="YAML content for task.yaml"
             />
+            <p className="text-xs text-muted-foreground mt-1">
+              Difficulty, categories and timeouts stay in sync with the fields above
+            </p>
           </div>
 
           <div>
@@ -248,6 +265,10 @@ export default function EditTaskPage() {
               className="w-full border rounded px-3 py-2 font-mono text-sm"
               placeholder="YAML content for docker-compose.yaml"
             />
+            <TaskLintIssues
+              issues={lint.issues.filter((issue) => issue.field === 'dockerComposeYaml')}
+              className="mt-2"
+            />
           </div>
 
           <div>
@@ -259,6 +280,10 @@ export default function EditTaskPage() {
               className="w-full border rounded px-3 py-2 font-mono text-sm"
               placeholder="Bash script content for solution.sh"
             />
+            <TaskLintIssues
+              issues={lint.issues.filter((issue) => issue.field === 'solutionSh')}
+              className="mt-2"
+            />
           </div>
 
           <div>
@@ -270,16 +295,17 @@ export default function EditTaskPage() {
               className="w-full border rounded px-3 py-2 font-mono text-sm"
               placeholder="Bash script content for run-tests.sh"
             />
+            <TaskLintIssues
+              issues={lint.issues.filter((issue) => issue.field === 'runTestsSh')}
+              className="mt-2"
+            />
           </div>
 
           <div>
-            <label className="block text-sm font-medium mb-1">tests/ (JSON)</label>
-            <textarea
-              rows={8}
-              value={formData.testsJson}
-              onChange={(e) => handleChange('testsJson', e.target.value)}
-              className="w-full border rounded px-3 py-2 font-mono text-sm"
-              placeholder="JSON representation of tests/ directory"
+            <label className="block text-sm font-medium mb-1">tests/</label>
+            <TestFilesEditor
+              files={formData.testFiles}
+              onChange={(testFiles) => handleChange('testFiles', testFiles)}
             />
           </div>
         </div>
@@ -295,7 +321,11 @@ export default function EditTaskPage() {
         </div>
 
         {updateMutation.error && (
-          <p className="text-red-500">Error: {updateMutation.error.message}</p>
+          <div className="text-red-500 space-y-1">
+            {formatApiErrorDetails(updateMutation.error).map((line, index) => (
+              <p key={index}>Error: {line}</p>
+            ))}
+          </div>
         )}
       </form>
       </div>
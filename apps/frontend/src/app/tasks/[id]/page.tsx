@@ -10,8 +10,12 @@ import { useQuery } from '@tanstack/react-query'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useUserRole } from '@/contexts/user-role-context'
-import { useTask, useSubmitTask } from '@/hooks/use-tasks'
+import { useTask, useSubmitTask, useTaskLint, useTaskComments } from '@/hooks/use-tasks'
+import { useTaskThreads } from '@/hooks/use-threads'
+import { TaskDiscussions } from '@/components/task-discussions'
+import { useToast } from '@/hooks/use-toast'
 import { canSubmitTask, canEditTask, TaskState } from '@repo/types'
+import type { TaskFileField } from '@repo/types'
 import {
   getStateBadgeClass,
   getDifficultyBadgeClass,
@@ -37,14 +41,20 @@ const TaskFormModal = lazy(() =>
 const ConfirmModal = lazy(() => 
   import('@/components/modals').then(mod => ({ default: mod.ConfirmModal }))
 )
-const CodeBlock = lazy(() => 
-  import('@/components/ui/code-block').then(mod => ({ default: mod.CodeBlock }))
+const TaskFileComments = lazy(() => 
+  import('@/components/review-comments').then(mod => ({ default: mod.TaskFileComments }))
+)
+const OutdatedReviewComments = lazy(() => 
+  import('@/components/review-comments').then(mod => ({ default: mod.OutdatedReviewComments }))
 )
 const AuditTimeline = lazy(() => 
   import('@/components/ui/audit-timeline').then(mod => ({ default: mod.AuditTimeline }))
 )
 import { ActivitySidebar } from '@/components/activity-sidebar'
-import { auditApi, type AuditLogEntry } from '@/lib/api-client'
+import { ExportTaskButton } from '@/components/export-task-button'
+import { TaskVerification } from '@/components/task-verification'
+import { ResourceLimitTiles } from '@/components/task-resource-limits'
+import { auditApi, formatApiErrorDetails, type AuditLogEntry } from '@/lib/api-client'
 import {
   ArrowLeft,
   Edit3,
@@ -55,6 +65,7 @@ import {
   Tag,
   FileCode,
   MessageSquare,
+  MessagesSquare,
   Info,
   CheckCircle2,
   History,
@@ -74,6 +85,7 @@ export default function TaskDetailPage() {
   const router = useRouter()
   const { isReviewer } = useUserRole()
   const taskId = params.id as string
+  const { toast } = useToast()
   const isTempTask = taskId.startsWith('temp-')
 
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
@@ -82,6 +94,9 @@ export default function TaskDetailPage() {
   // All hooks must be called before any early returns (Rules of Hooks)
   const { data: task, isLoading, error } = useTask(taskId)
   const submitMutation = useSubmitTask(taskId)
+  const { data: lint } = useTaskLint(taskId)
+  const { data: comments = [] } = useTaskComments(taskId)
+  const { data: threads = [] } = useTaskThreads(taskId)
   // Fetch audit logs with React Query for auto-refresh
   const { data: auditLogs = [], isLoading: loadingAudit } = useQuery({
     queryKey: auditKeys.task(taskId),
@@ -114,7 +129,12 @@ export default function TaskDetailPage() {
     setIsSubmitModalOpen(false)
     
     submitMutation.mutate(undefined, {
-      onError: () => {
+      onError: (error) => {
+        toast({
+          title: 'Failed to submit task',
+          description: formatApiErrorDetails(error).join('\n'),
+          variant: 'destructive',
+        })
         // Reopen modal on error
         setIsSubmitModalOpen(true)
       },
@@ -186,12 +206,13 @@ export default function TaskDetailPage() {
   const canSubmit = task.state ? canSubmitTask(task.state) : false
 
   const files = [
-    { name: 'task.yaml', content: task.taskYaml },
-    { name: 'docker-compose.yaml', content: task.dockerComposeYaml },
-    { name: 'solution.sh', content: task.solutionSh },
-    { name: 'run-tests.sh', content: task.runTestsSh },
-    { name: 'tests.json', content: task.testsJson },
-  ].filter((f) => f.content)
+    { name: 'task.yaml', field: 'taskYaml', content: task.taskYaml },
+    { name: 'docker-compose.yaml', field: 'dockerComposeYaml', content: task.dockerComposeYaml },
+    { name: 'solution.sh', field: 'solutionSh', content: task.solutionSh },
+    { name: 'run-tests.sh', field: 'runTestsSh', content: task.runTestsSh },
+    ...task.testFiles.map((file) => ({ name: `tests/${file.path}`, field: `tests/${file.path}`, content: file.content })),
+  ].filter((f): f is { name: string; field: TaskFileField; content: string } => !!f.content)
+  const openThreadCount = threads.filter((thread) => !thread.resolvedAt).length
 
   // Always show the activity sidebar for tasks (it shows creation history too)
 
@@ -208,6 +229,8 @@ export default function TaskDetailPage() {
             ]}
             actions={
               <div className="flex gap-2">
+                <TaskVerification taskId={task.id} />
+                <ExportTaskButton taskId={task.id} />
                 {canEdit && (
                   <Button variant="outline" onClick={() => setIsEditModalOpen(true)} className="gap-2">
                     <Edit3 className="size-4" />
@@ -258,6 +281,10 @@ export default function TaskDetailPage() {
               Files ({files.length})
             </TabsTrigger>
           )}
+          <TabsTrigger value="discussion" className="gap-2">
+            <MessagesSquare className="size-4" />
+            Discussion{openThreadCount > 0 && ` (${openThreadCount})`}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="mt-0">
@@ -315,6 +342,7 @@ export default function TaskDetailPage() {
                     </p>
                     <p className="text-xl font-semibold">{task.maxTestTimeoutSec}s</p>
                   </div>
+                  <ResourceLimitTiles limits={task} />
                 </div>
               </CardContent>
             </Card>
@@ -340,15 +368,27 @@ export default function TaskDetailPage() {
         <TabsContent value="files" className="mt-0">
           <div className="space-y-6">
             <Suspense fallback={<Skeleton className="h-[300px] w-full" />}>
+              <OutdatedReviewComments taskId={task.id} comments={comments} />
               {files.map((file) => (
                 <div key={file.name}>
-                  <CodeBlock content={file.content!} filename={file.name} />
+                  <TaskFileComments
+                    taskId={task.id}
+                    field={file.field}
+                    filename={file.name}
+                    content={file.content}
+                    comments={comments}
+                    annotations={lint?.issues.filter((issue) => issue.field === file.field)}
+                  />
                 </div>
               ))}
             </Suspense>
           </div>
         </TabsContent>
 
+        <TabsContent value="discussion" className="mt-0">
+          <TaskDiscussions taskId={task.id} reviews={task.reviews} currentUserId={task.authorId} />
+        </TabsContent>
+
       </Tabs>
 
         {/* OPTIMIZATION: Lazy-load modals */}
@@ -339,6 +339,7 @@ export default function TasksPage() {
                                 task.state === TaskState.CHANGES_REQUESTED && 'text-orange-500',
                                 task.state === TaskState.SUBMITTED && 'text-amber-500',
                                 task.state === TaskState.IN_REVIEW && 'text-blue-500',
+                                task.state === TaskState.PARTIALLY_APPROVED && 'text-teal-500',
                                 task.state === TaskState.DRAFT && 'text-muted-foreground'
                               )}
                             />
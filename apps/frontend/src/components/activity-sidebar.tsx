@@ -11,6 +11,10 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { auditApi } from '@/lib/api-client'
+import { ExportTaskButton } from '@/components/export-task-button'
+import { RubricScoreList } from '@/components/rubric-checklist'
+import { ReviewReasonBadges } from '@/components/review-reason-picker'
+import type { ReviewReason, RubricScore } from '@repo/types'
 import {
   CheckCircle2,
   XCircle,
@@ -27,6 +31,11 @@ import {
   History,
   GitCommit,
   Loader2,
+  UserPlus,
+  MessageSquarePlus,
+  MessageSquareReply,
+  CircleCheckBig,
+  RotateCcw,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { format, isValid } from 'date-fns'
@@ -35,6 +44,8 @@ interface Review {
   id: string
   decision: string
   comment?: string | null
+  rubricScores?: RubricScore[] | null
+  reasonCodes?: string[]
   createdAt: string | Date
   reviewer?: {
     id: string
@@ -61,6 +72,7 @@ interface ActivitySidebarProps {
   auditLogs: AuditLog[]
   taskState: string
   isLoading?: boolean
+  reasons?: Pick<ReviewReason, 'code' | 'label'>[] // Catalog to label review reasons from, for reviewers
 }
 
 const MIN_WIDTH = 320
@@ -127,6 +139,11 @@ function getEventIcon(action: string) {
     case 'TASK_CREATED': return Plus
     case 'TASK_UPDATED': return Edit
     case 'TASK_SUBMITTED': return Send
+    case 'TASK_ASSIGNED': return UserPlus
+    case 'THREAD_OPENED': return MessageSquarePlus
+    case 'THREAD_REPLIED': return MessageSquareReply
+    case 'THREAD_RESOLVED': return CircleCheckBig
+    case 'THREAD_REOPENED': return RotateCcw
     default: return FileText
   }
 }
@@ -136,6 +153,11 @@ function getEventLabel(action: string) {
     case 'TASK_CREATED': return 'Created'
     case 'TASK_UPDATED': return 'Updated'
     case 'TASK_SUBMITTED': return 'Submitted'
+    case 'TASK_ASSIGNED': return 'Assigned'
+    case 'THREAD_OPENED': return 'Started a discussion'
+    case 'THREAD_REPLIED': return 'Replied'
+    case 'THREAD_RESOLVED': return 'Resolved a discussion'
+    case 'THREAD_REOPENED': return 'Reopened a discussion'
     default: return action.replace(/_/g, ' ').toLowerCase()
   }
 }
@@ -145,6 +167,7 @@ function getStateLabel(state: string) {
     case 'DRAFT': return 'Draft'
     case 'SUBMITTED': return 'Pending Review'
     case 'IN_REVIEW': return 'In Review'
+    case 'PARTIALLY_APPROVED': return 'Partially Approved'
     case 'APPROVED': return 'Approved'
     case 'REJECTED': return 'Rejected'
     case 'CHANGES_REQUESTED': return 'Changes Requested'
@@ -158,6 +181,7 @@ function getStateColor(state: string) {
     case 'REJECTED': return 'text-red-500'
     case 'CHANGES_REQUESTED': return 'text-amber-500'
     case 'IN_REVIEW': return 'text-blue-500'
+    case 'PARTIALLY_APPROVED': return 'text-teal-500'
     case 'SUBMITTED': return 'text-purple-500'
     default: return 'text-muted-foreground'
   }
@@ -169,18 +193,20 @@ function CommitEntry({
   isFirst,
   isLast,
   onViewDiff,
+  reasons,
 }: { 
   entry: TimelineEntry
   isFirst: boolean
   isLast: boolean
   onViewDiff?: (log: AuditLog) => void
+  reasons?: Pick<ReviewReason, 'code' | 'label'>[]
 }) {
   const [showFeedback, setShowFeedback] = useState(false)
 
   if (entry.type === 'review') {
     const review = entry.data
     const Icon = getDecisionIcon(review.decision)
-    const hasFeedback = !!review.comment
+    const hasFeedback = !!review.comment || !!review.rubricScores?.length
     
     return (
       <div className="relative flex gap-3 pb-4">
@@ -209,6 +235,9 @@ function CommitEntry({
           <div className="text-xs text-muted-foreground mt-0.5">
             {review.reviewer?.name || review.reviewer?.email || 'Unknown'} · {isValid(entry.date) ? format(entry.date, 'MMM d, HH:mm') : 'Unknown date'}
           </div>
+          {!!review.reasonCodes?.length && (
+            <ReviewReasonBadges codes={review.reasonCodes} reasons={reasons} className="mt-1.5" />
+          )}
           
           {/* Expandable feedback */}
           {hasFeedback && (
@@ -221,10 +250,13 @@ function CommitEntry({
                 {showFeedback ? 'Hide feedback' : 'Show feedback'}
               </button>
               {showFeedback && (
-                <div className="mt-2 pl-3 border-l-2 border-border">
-                  <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">
-                    {review.comment}
-                  </p>
+                <div className="mt-2 pl-3 border-l-2 border-border space-y-2">
+                  {review.comment && (
+                    <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">
+                      {review.comment}
+                    </p>
+                  )}
+                  {!!review.rubricScores?.length && <RubricScoreList scores={review.rubricScores} />}
                 </div>
               )}
             </div>
@@ -255,6 +287,9 @@ function CommitEntry({
       <div className="flex-1 min-w-0 pt-0.5">
         <div className="flex items-center gap-2">
           <span className="text-sm">{getEventLabel(log.action)}</span>
+          {log.action === 'TASK_ASSIGNED' && log.metadata?.assigneeName && (
+            <span className="text-xs text-muted-foreground truncate">to {log.metadata.assigneeName}</span>
+          )}
           {hasChanges && onViewDiff && (
             <button
               onClick={() => onViewDiff(log)}
@@ -264,6 +299,11 @@ function CommitEntry({
             </button>
           )}
         </div>
+        {log.metadata?.excerpt && (
+          <p className="text-xs text-foreground/80 mt-1 pl-2 border-l-2 border-border line-clamp-2">
+            {log.metadata.excerpt}
+          </p>
+        )}
         <div className="text-xs text-muted-foreground mt-0.5">
           {log.userName || log.userEmail || 'Unknown'} · {isValid(entry.date) ? format(entry.date, 'MMM d, HH:mm') : 'Unknown date'}
         </div>
@@ -285,7 +325,7 @@ interface DiffChange {
   type: 'added' | 'removed' | 'modified'
 }
 
-export function ActivitySidebar({ taskId, reviews, auditLogs, taskState, isLoading }: ActivitySidebarProps) {
+export function ActivitySidebar({ taskId, reviews, auditLogs, taskState, isLoading, reasons }: ActivitySidebarProps) {
   const [isOpen, setIsOpen] = useState(true)
   const [width, setWidth] = useState(DEFAULT_WIDTH)
   const [isDragging, setIsDragging] = useState(false)
@@ -487,6 +527,7 @@ export function ActivitySidebar({ taskId, reviews, auditLogs, taskState, isLoadi
                     isFirst={index === 0}
                     isLast={index === timeline.length - 1}
                     onViewDiff={entry.type === 'log' ? handleViewChanges : undefined}
+                    reasons={reasons}
                   />
                 ))}
               </div>
@@ -507,6 +548,16 @@ export function ActivitySidebar({ taskId, reviews, auditLogs, taskState, isLoadi
                   ({diffData.changes?.length || 0} file{diffData.changes?.length !== 1 ? 's' : ''} changed)
                 </span>
               )}
+              {diffData && (
+                <span className="ml-auto mr-6 font-sans">
+                  <ExportTaskButton
+                    taskId={taskId}
+                    version={diffData.toVersion}
+                    size="sm"
+                    label={`v${diffData.toVersion}`}
+                  />
+                </span>
+              )}
             </DialogTitle>
           </DialogHeader>
           <ScrollArea className="flex-1">
@@ -0,0 +1,54 @@
+"use client"
+
+/**
+ * Export Task Button
+ * Downloads a task, or one of its history versions, as a Terminal-Bench directory archive
+ */
+
+import { useExportTask } from '@/hooks/use-tasks'
+import { useToast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Download, Loader2 } from 'lucide-react'
+
+interface ExportTaskButtonProps {
+  taskId: string
+  /** History version to export; the current task when omitted */
+  version?: number
+  size?: 'default' | 'sm'
+  label?: string
+}
+
+export function ExportTaskButton({ taskId, version, size = 'default', label = 'Export' }: ExportTaskButtonProps) {
+  const { toast } = useToast()
+  const exportMutation = useExportTask()
+
+  const handleExport = () => {
+    exportMutation.mutate({ id: taskId, version }, {
+      onError: (error) => {
+        toast({
+          title: 'Export failed',
+          description: error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      },
+    })
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size={size}
+      onClick={handleExport}
+      disabled={exportMutation.isPending}
+      className="gap-2"
+      title="Download as .tar.gz task directory"
+    >
+      {exportMutation.isPending ? (
+        <Loader2 className="size-4 animate-spin" />
+      ) : (
+        <Download className="size-4" />
+      )}
+      {label}
+    </Button>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+/**
+ * Dataset Export Modal
+ * Lets reviewers download every approved task, optionally filtered, as one release archive
+ */
+
+import { useState } from 'react'
+import { useExportApprovedTasks } from '@/hooks/use-reviews'
+import { Difficulty, DIFFICULTY_LABELS } from '@repo/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, PackageOpen } from 'lucide-react'
+
+interface DatasetExportModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const ALL_DIFFICULTIES = 'all'
+
+export function DatasetExportModal({ open, onOpenChange }: DatasetExportModalProps) {
+  const [category, setCategory] = useState('')
+  const [difficulty, setDifficulty] = useState<string>(ALL_DIFFICULTIES)
+  const [approvedFrom, setApprovedFrom] = useState('')
+  const [approvedTo, setApprovedTo] = useState('')
+
+  const exportMutation = useExportApprovedTasks()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    exportMutation.mutate(
+      {
+        category: category.trim() || undefined,
+        difficulty: difficulty === ALL_DIFFICULTIES ? undefined : difficulty,
+        // Date inputs are calendar days; make the range cover whole days in UTC
+        approvedFrom: approvedFrom ? `${approvedFrom}T00:00:00.000Z` : undefined,
+        approvedTo: approvedTo ? `${approvedTo}T23:59:59.999Z` : undefined,
+      },
+      {
+        onSuccess: () => onOpenChange(false),
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-emerald-500/10">
+              <PackageOpen className="size-5 text-emerald-500" />
+            </div>
+            <div>
+              <DialogTitle>Export Approved Tasks</DialogTitle>
+              <DialogDescription>
+                Download every approved task as one archive with a JSON and CSV manifest
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <DialogBody className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-category" className="text-sm font-medium">
+                  Category
+                </Label>
+                <Input
+                  id="export-category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  placeholder="All categories"
+                  className="h-11"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="export-difficulty" className="text-sm font-medium">
+                  Difficulty
+                </Label>
+                <Select value={difficulty} onValueChange={setDifficulty}>
+                  <SelectTrigger id="export-difficulty" className="h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DIFFICULTIES}>All difficulties</SelectItem>
+                    {Object.values(Difficulty).map((diff) => (
+                      <SelectItem key={diff} value={diff}>
+                        {DIFFICULTY_LABELS[diff]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="export-from" className="text-sm font-medium">
+                  Approved from
+                </Label>
+                <Input
+                  id="export-from"
+                  type="date"
+                  value={approvedFrom}
+                  onChange={(e) => setApprovedFrom(e.target.value)}
+                  className="h-11"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="export-to" className="text-sm font-medium">
+                  Approved to
+                </Label>
+                <Input
+                  id="export-to"
+                  type="date"
+                  value={approvedTo}
+                  onChange={(e) => setApprovedTo(e.target.value)}
+                  className="h-11"
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Exports are reproducible: the same set of task versions always produces an identical archive.
+            </p>
+          </DialogBody>
+
+          <DialogFooter>
+            {exportMutation.error && (
+              <Alert variant="destructive" className="mr-auto">
+                <AlertDescription>{exportMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={exportMutation.isPending} className="min-w-[140px]">
+              {exportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Download
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
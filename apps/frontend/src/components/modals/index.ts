@@ -1,3 +1,8 @@
 export { TaskFormModal } from './task-form-modal'
 export { ReviewModal } from './review-modal'
 export { ConfirmModal } from './confirm-modal'
+export { DatasetExportModal } from './dataset-export-modal'
+export { ReviewAssignmentModal } from './review-assignment-modal'
+export { ReassignReviewModal } from './reassign-review-modal'
+export { RubricTemplatesModal } from './rubric-templates-modal'
+export { ReviewReasonsModal } from './review-reasons-modal'
@@ -0,0 +1,116 @@
+"use client"
+
+/**
+ * Reassign Review Modal
+ * Lets review leads hand a task awaiting review, and any claim on it, to another reviewer
+ */
+
+import { useState, useEffect } from 'react'
+import { useReviewers, useReassignReview } from '@/hooks/use-reviews'
+import type { Task } from '@repo/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, UserRoundCog } from 'lucide-react'
+
+interface ReassignReviewModalProps {
+  task: Task
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ReassignReviewModal({ task, open, onOpenChange }: ReassignReviewModalProps) {
+  const [reviewerId, setReviewerId] = useState('')
+
+  const { data: reviewers = [] } = useReviewers(open)
+  const reassignMutation = useReassignReview(task.id)
+
+  // The current holder and the author can't be picked
+  const currentId = task.state === 'IN_REVIEW' ? task.reviewerId : task.assigneeId
+  const candidates = reviewers.filter((reviewer) => reviewer.id !== currentId && reviewer.id !== task.authorId)
+
+  useEffect(() => {
+    if (open) setReviewerId('')
+  }, [open])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    reassignMutation.mutate(reviewerId, {
+      onSuccess: () => onOpenChange(false),
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <UserRoundCog className="size-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle>Reassign Review</DialogTitle>
+              <DialogDescription>
+                {task.state === 'IN_REVIEW'
+                  ? 'The new reviewer takes over the review in progress, with a fresh lease'
+                  : 'The new reviewer is assigned the task in place of the current assignee'}
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <DialogBody className="space-y-2">
+            <Label htmlFor="reassign-reviewer" className="text-sm font-medium">
+              Reviewer
+            </Label>
+            <Select value={reviewerId} onValueChange={setReviewerId}>
+              <SelectTrigger id="reassign-reviewer" className="h-11">
+                <SelectValue placeholder="Choose a reviewer" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((reviewer) => (
+                  <SelectItem key={reviewer.id} value={reviewer.id}>
+                    {reviewer.name || reviewer.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </DialogBody>
+
+          <DialogFooter>
+            {reassignMutation.error && (
+              <Alert variant="destructive" className="mr-auto">
+                <AlertDescription>{reassignMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!reviewerId || reassignMutation.isPending} className="min-w-[140px]">
+              {reassignMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reassign
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
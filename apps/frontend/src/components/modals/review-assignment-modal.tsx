@@ -0,0 +1,168 @@
+"use client"
+
+/**
+ * Review Assignment Modal
+ * Lets reviewers opt in or out of automatic assignment and set their capacity and expertise
+ */
+
+import { useState, useEffect } from 'react'
+import { useAssignmentSettings, useUpdateAssignmentSettings } from '@/hooks/use-reviews'
+import { REVIEW_CAPACITY_LIMITS } from '@repo/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, UserCog } from 'lucide-react'
+
+interface ReviewAssignmentModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ReviewAssignmentModal({ open, onOpenChange }: ReviewAssignmentModalProps) {
+  const [acceptsAssignments, setAcceptsAssignments] = useState(true)
+  const [capacity, setCapacity] = useState('')
+  const [categories, setCategories] = useState('')
+
+  const { data: settings, isLoading } = useAssignmentSettings()
+  const updateMutation = useUpdateAssignmentSettings()
+
+  // Start from the saved settings each time the modal opens
+  useEffect(() => {
+    if (open && settings) {
+      setAcceptsAssignments(settings.acceptsAssignments)
+      setCapacity(settings.reviewCapacity?.toString() ?? '')
+      setCategories(settings.reviewCategories)
+    }
+  }, [open, settings])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    updateMutation.mutate(
+      {
+        acceptsAssignments,
+        // An empty capacity falls back to the default
+        reviewCapacity: capacity.trim() ? Number(capacity) : null,
+        reviewCategories: categories,
+      },
+      {
+        onSuccess: () => onOpenChange(false),
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <UserCog className="size-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle>Assignment Settings</DialogTitle>
+              <DialogDescription>
+                Submitted tasks are assigned to reviewers by expertise, open load and turn
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <DialogBody className="space-y-4">
+            {isLoading || !settings ? (
+              <div className="space-y-3">
+                <Skeleton className="h-11 w-full" />
+                <Skeleton className="h-11 w-full" />
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="accepts-assignments" className="text-sm font-medium">
+                      Accept assignments
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      {settings.openAssignments} task{settings.openAssignments !== 1 ? 's' : ''} assigned to you awaiting review.
+                      Turning this off hands back the ones you haven&apos;t started.
+                    </p>
+                  </div>
+                  <Switch
+                    id="accepts-assignments"
+                    checked={acceptsAssignments}
+                    onCheckedChange={setAcceptsAssignments}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="review-capacity" className="text-sm font-medium">
+                      Capacity
+                    </Label>
+                    <Input
+                      id="review-capacity"
+                      type="number"
+                      min={REVIEW_CAPACITY_LIMITS.MIN}
+                      max={REVIEW_CAPACITY_LIMITS.MAX}
+                      value={capacity}
+                      onChange={(e) => setCapacity(e.target.value)}
+                      placeholder={`Default (${settings.defaultCapacity})`}
+                      disabled={!acceptsAssignments}
+                      className="h-11"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="review-categories" className="text-sm font-medium">
+                      Expertise
+                    </Label>
+                    <Input
+                      id="review-categories"
+                      value={categories}
+                      onChange={(e) => setCategories(e.target.value)}
+                      placeholder="e.g. python, networking"
+                      disabled={!acceptsAssignments}
+                      className="h-11"
+                    />
+                  </div>
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Capacity is the most tasks awaiting review you are assigned at once. Tasks in the categories
+                  you list go to you before other reviewers.
+                </p>
+              </>
+            )}
+          </DialogBody>
+
+          <DialogFooter>
+            {updateMutation.error && (
+              <Alert variant="destructive" className="mr-auto">
+                <AlertDescription>{updateMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={updateMutation.isPending || !settings} className="min-w-[140px]">
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
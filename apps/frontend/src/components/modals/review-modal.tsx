@@ -2,7 +2,10 @@
 
 import { useState } from 'react'
 import { useSubmitReview } from '@/hooks/use-reviews'
-import { ReviewDecision } from '@repo/types'
+import { ReviewDecision, requiresReviewReason } from '@repo/types'
+import type { RubricScore, RubricTemplate } from '@repo/types'
+import { RubricChecklist, useRubricScores } from '@/components/rubric-checklist'
+import { ReviewReasonPicker } from '@/components/review-reason-picker'
 import {
   Dialog,
   DialogContent,
@@ -24,6 +27,8 @@ interface ReviewModalProps {
   onOpenChange: (open: boolean) => void
   taskId: string
   taskTitle?: string
+  rubric?: RubricTemplate | null // Rubric the review is scored against
+  previousScores?: RubricScore[] | null // The reviewer's scores in their last review
   onSuccess?: () => void
 }
 
@@ -61,18 +66,34 @@ const decisionOptions: {
   },
 ]
 
-export function ReviewModal({ open, onOpenChange, taskId, taskTitle, onSuccess }: ReviewModalProps) {
+export function ReviewModal({
+  open,
+  onOpenChange,
+  taskId,
+  taskTitle,
+  rubric,
+  previousScores,
+  onSuccess,
+}: ReviewModalProps) {
   const [decision, setDecision] = useState<ReviewDecision | null>(null)
   const [comment, setComment] = useState('')
+  const [reasonCodes, setReasonCodes] = useState<string[]>([])
 
   const submitMutation = useSubmitReview(taskId)
+  const rubricForm = useRubricScores(rubric, previousScores)
+  const needsReasons = !!decision && requiresReviewReason(decision)
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (!decision) return
     
     submitMutation.mutate(
-      { decision, comment: comment || undefined },
+      {
+        decision,
+        comment: comment || undefined,
+        rubricScores: rubricForm.scores,
+        reasonCodes: needsReasons ? reasonCodes : [],
+      },
       {
         onSuccess: () => {
           onSuccess?.()
@@ -80,6 +101,8 @@ export function ReviewModal({ open, onOpenChange, taskId, taskTitle, onSuccess }
           // Reset state
           setDecision(null)
           setComment('')
+          setReasonCodes([])
+          rubricForm.reset()
         },
       }
     )
@@ -110,14 +133,18 @@ export function ReviewModal({ open, onOpenChange, taskId, taskTitle, onSuccess }
                 {decisionOptions.map((option) => {
                   const Icon = option.icon
                   const isSelected = decision === option.value
+                  const isAllowed = rubricForm.allows(option.value)
                   return (
                     <button
                       key={option.value}
                       type="button"
                       onClick={() => setDecision(option.value)}
+                      disabled={!isAllowed}
+                      title={isAllowed ? undefined : 'Ruled out by the rubric scores'}
                       className={cn(
                         "flex flex-col items-center gap-2 p-4 rounded-lg border-2 transition-all duration-200",
-                        isSelected ? option.selectedClassName : option.className
+                        isSelected ? option.selectedClassName : option.className,
+                        !isAllowed && "opacity-50 cursor-not-allowed"
                       )}
                     >
                       <Icon className={cn(
@@ -136,6 +163,10 @@ export function ReviewModal({ open, onOpenChange, taskId, taskTitle, onSuccess }
               </div>
             </div>
 
+            <ReviewReasonPicker decision={decision} value={reasonCodes} onChange={setReasonCodes} />
+
+            <RubricChecklist form={rubricForm} />
+
             <div className="space-y-2">
               <Label htmlFor="comment" className="text-sm font-medium">
                 Comment {decision === 'REQUEST_CHANGES' && <span className="text-amber-500">*</span>}
@@ -176,7 +207,13 @@ export function ReviewModal({ open, onOpenChange, taskId, taskTitle, onSuccess }
             </Button>
             <Button
               type="submit"
-              disabled={submitMutation.isPending || !decision}
+              disabled={
+                submitMutation.isPending ||
+                !decision ||
+                (needsReasons && reasonCodes.length === 0) ||
+                !rubricForm.isComplete ||
+                !rubricForm.allows(decision)
+              }
               className={cn(
                 "min-w-[140px]",
                 decision === 'APPROVE' && 'bg-emerald-600 hover:bg-emerald-700',
@@ -0,0 +1,322 @@
+"use client"
+
+/**
+ * Review Reasons Modal
+ * The report of why tasks are rejected or sent back for changes, and the
+ * catalog of reasons reviewers pick from
+ *
+ * Review leads add, relabel, archive and restore reasons; archived reasons
+ * stay on past reviews and in the report.
+ */
+
+import { useState } from 'react'
+import { useReviewReasons, useReviewReasonReport, useSaveReviewReason } from '@/hooks/use-reviews'
+import { REVIEW_REASON_CODE_PATTERN, REVIEW_REASON_LIMITS, getReviewReasonLabel } from '@repo/types'
+import type { ReviewReason, ReviewReasonCount, ReviewReasonGroup } from '@repo/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Archive, ArchiveRestore, Loader2, Pencil, Plus, Tags } from 'lucide-react'
+
+type ReasonsTab = 'report' | 'catalog'
+
+interface ReasonDraft {
+  isNew: boolean
+  code: string
+  label: string
+  description: string
+}
+
+function toDraft(reason?: ReviewReason): ReasonDraft {
+  return {
+    isNew: !reason,
+    code: reason?.code ?? '',
+    label: reason?.label ?? '',
+    description: reason?.description ?? '',
+  }
+}
+
+interface ReasonCountsProps {
+  counts: ReviewReasonCount[]
+  total: number
+  reasons: ReviewReason[]
+}
+
+function ReasonCounts({ counts, total, reasons }: ReasonCountsProps) {
+  return (
+    <ul className="space-y-1">
+      {counts.map(({ code, count }) => (
+        <li key={code} className="flex items-center gap-2 text-xs">
+          <span className="flex-1 truncate">{getReviewReasonLabel(code, reasons)}</span>
+          <div className="h-1.5 w-24 rounded-full bg-secondary overflow-hidden">
+            <div className="h-full bg-red-500/70" style={{ width: `${(count / Math.max(total, 1)) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right tabular-nums text-muted-foreground">{count}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface ReasonGroupsProps {
+  title: string
+  groups: ReviewReasonGroup[]
+  reasons: ReviewReason[]
+}
+
+function ReasonGroups({ title, groups, reasons }: ReasonGroupsProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">{title}</Label>
+      {groups.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing yet</p>
+      ) : (
+        <ul className="divide-y divide-border/50 rounded-lg border">
+          {groups.map((group) => (
+            <li key={group.key} className="px-3 py-2 space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{group.label}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {group.reviews} review{group.reviews !== 1 ? 's' : ''}
+                </span>
+              </div>
+              <ReasonCounts counts={group.reasons} total={group.reviews} reasons={reasons} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface ReviewReasonsModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  canManage?: boolean // Review leads can edit the catalog
+}
+
+export function ReviewReasonsModal({ open, onOpenChange, canManage = false }: ReviewReasonsModalProps) {
+  const [tab, setTab] = useState<ReasonsTab>('report')
+  const [draft, setDraft] = useState<ReasonDraft | null>(null)
+
+  const { data: reasons = [], isLoading: isLoadingReasons } = useReviewReasons({ includeArchived: true, enabled: open })
+  const { data: report, isLoading: isLoadingReport } = useReviewReasonReport({}, open && tab === 'report')
+  const saveMutation = useSaveReviewReason()
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setDraft(null)
+      saveMutation.reset()
+    }
+    onOpenChange(next)
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    const data = { label: draft.label.trim(), description: draft.description.trim() || null }
+    saveMutation.mutate(draft.isNew ? { create: { ...data, code: draft.code } } : { code: draft.code, update: data }, {
+      onSuccess: () => setDraft(null),
+    })
+  }
+
+  const isCodeValid = !draft?.isNew || REVIEW_REASON_CODE_PATTERN.test(draft.code)
+  const canSave = !!draft && !!draft.label.trim() && !!draft.code && isCodeValid
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent size="xl">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Tags className="size-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle>{draft ? (draft.isNew ? 'New Reason' : 'Edit Reason') : 'Review Reasons'}</DialogTitle>
+              <DialogDescription>
+                Reviewers pick at least one reason when rejecting a task or requesting changes
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <form onSubmit={handleSave}>
+          <DialogBody className="space-y-4">
+            {draft ? (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reason-code" className="text-sm font-medium">Code *</Label>
+                  <Input
+                    id="reason-code"
+                    value={draft.code}
+                    onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+                    maxLength={REVIEW_REASON_LIMITS.CODE_MAX}
+                    placeholder="e.g. TESTS_TOO_WEAK"
+                    disabled={!draft.isNew}
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {isCodeValid
+                      ? 'Upper case letters, digits and underscores. Codes can’t be changed later.'
+                      : 'Start with a letter and use only upper case letters, digits and underscores'}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reason-label" className="text-sm font-medium">Label *</Label>
+                  <Input
+                    id="reason-label"
+                    value={draft.label}
+                    onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                    maxLength={REVIEW_REASON_LIMITS.LABEL_MAX}
+                    placeholder="e.g. Tests too weak"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reason-description" className="text-sm font-medium">Description</Label>
+                  <Input
+                    id="reason-description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    maxLength={REVIEW_REASON_LIMITS.DESCRIPTION_MAX}
+                    placeholder="When reviewers should pick it (optional)"
+                  />
+                </div>
+              </div>
+            ) : (
+              <>
+                <Tabs value={tab} onValueChange={(v) => setTab(v as ReasonsTab)}>
+                  <TabsList>
+                    <TabsTrigger value="report">Top Reasons</TabsTrigger>
+                    <TabsTrigger value="catalog">Catalog</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                {tab === 'report' ? (
+                  isLoadingReport || isLoadingReasons ? (
+                    <div className="space-y-3">
+                      <Skeleton className="h-24 w-full" />
+                      <Skeleton className="h-24 w-full" />
+                    </div>
+                  ) : !report || report.reviews === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                      No rejections or change requests with reasons yet.
+                    </p>
+                  ) : (
+                    <div className="space-y-5">
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">
+                          Overall{' '}
+                          <span className="font-normal text-muted-foreground">
+                            ({report.reviews} review{report.reviews !== 1 ? 's' : ''})
+                          </span>
+                        </Label>
+                        <ReasonCounts counts={report.reasons} total={report.reviews} reasons={reasons} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <ReasonGroups title="By category" groups={report.byCategory} reasons={reasons} />
+                        <ReasonGroups title="By author" groups={report.byAuthor} reasons={reasons} />
+                      </div>
+                    </div>
+                  )
+                ) : isLoadingReasons ? (
+                  <div className="space-y-3">
+                    <Skeleton className="h-12 w-full" />
+                    <Skeleton className="h-12 w-full" />
+                  </div>
+                ) : reasons.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No reasons yet.</p>
+                ) : (
+                  <ul className="divide-y divide-border/50 rounded-lg border">
+                    {reasons.map((reason) => (
+                      <li key={reason.code} className="flex items-center gap-3 px-4 py-3">
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium truncate">{reason.label}</span>
+                            <Badge variant="outline" className="text-[10px] font-mono">{reason.code}</Badge>
+                            {!reason.isActive && <Badge variant="secondary" className="text-[10px]">Archived</Badge>}
+                          </div>
+                          {reason.description && (
+                            <p className="text-xs text-muted-foreground truncate">{reason.description}</p>
+                          )}
+                        </div>
+                        {canManage && (
+                          <>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="gap-1.5"
+                              onClick={() => setDraft(toDraft(reason))}
+                            >
+                              <Pencil className="size-3.5" />
+                              Edit
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="gap-1.5 text-muted-foreground"
+                              onClick={() =>
+                                saveMutation.mutate({ code: reason.code, update: { isActive: !reason.isActive } })
+                              }
+                              disabled={saveMutation.isPending}
+                            >
+                              {reason.isActive ? <Archive className="size-3.5" /> : <ArchiveRestore className="size-3.5" />}
+                              {reason.isActive ? 'Archive' : 'Restore'}
+                            </Button>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </DialogBody>
+
+          <DialogFooter>
+            {saveMutation.error && (
+              <Alert variant="destructive" className="mr-auto">
+                <AlertDescription>{saveMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            {draft ? (
+              <>
+                <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                  Back
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending || !canSave} className="min-w-[140px]">
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {draft.isNew ? 'Add Reason' : 'Save Reason'}
+                </Button>
+              </>
+            ) : canManage && tab === 'catalog' ? (
+              <Button type="button" className="gap-1.5" onClick={() => setDraft(toDraft())}>
+                <Plus className="size-4" />
+                New Reason
+              </Button>
+            ) : (
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Close
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,420 @@
+"use client"
+
+/**
+ * Rubric Templates Modal
+ * Lets review leads create, edit and archive the rubrics reviews are scored against
+ *
+ * Saving an edit adds a new version of the template; reviews already scored
+ * keep the version they were scored against.
+ */
+
+import { useState } from 'react'
+import { useRubrics, useSaveRubric, useArchiveRubric } from '@/hooks/use-reviews'
+import { Difficulty, ReviewDecision, RUBRIC_LIMITS, getDifficultyLabel, getDecisionLabel } from '@repo/types'
+import type { RubricCriterion, RubricRule, RubricTemplate } from '@repo/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Archive, ListChecks, Loader2, Pencil, Plus, X } from 'lucide-react'
+
+// Select value for a template or rule that isn't limited
+const ANY = 'any'
+
+interface RubricDraft {
+  key?: string // Set when editing an existing template
+  name: string
+  description: string
+  category: string
+  difficulty: Difficulty | typeof ANY
+  criteria: RubricCriterion[]
+  rules: RubricRule[]
+}
+
+function newCriterion(): RubricCriterion {
+  return { id: crypto.randomUUID(), label: '', description: '' }
+}
+
+function toDraft(template?: RubricTemplate): RubricDraft {
+  if (!template) {
+    return {
+      name: '',
+      description: '',
+      category: '',
+      difficulty: ANY,
+      criteria: [newCriterion()],
+      rules: [{ maxScore: RUBRIC_LIMITS.SCORE_MIN, decision: ReviewDecision.REQUEST_CHANGES }],
+    }
+  }
+  return {
+    key: template.key,
+    name: template.name,
+    description: template.description ?? '',
+    category: template.category ?? '',
+    difficulty: template.difficulty ?? ANY,
+    criteria: template.criteria,
+    rules: template.rules,
+  }
+}
+
+function describeScope(template: RubricTemplate): string {
+  const scope = [template.category, template.difficulty && getDifficultyLabel(template.difficulty)].filter(Boolean)
+  return scope.length > 0 ? scope.join(' · ') : 'All tasks'
+}
+
+interface RubricEditorProps {
+  draft: RubricDraft
+  onChange: (draft: RubricDraft) => void
+}
+
+function RubricEditor({ draft, onChange }: RubricEditorProps) {
+  const updateCriterion = (index: number, update: Partial<RubricCriterion>) =>
+    onChange({
+      ...draft,
+      criteria: draft.criteria.map((criterion, i) => (i === index ? { ...criterion, ...update } : criterion)),
+    })
+
+  const removeCriterion = (index: number) => {
+    const removed = draft.criteria[index]
+    onChange({
+      ...draft,
+      criteria: draft.criteria.filter((_, i) => i !== index),
+      // Rules about the removed criterion alone go with it
+      rules: draft.rules.filter((rule) => !rule.criterionIds?.includes(removed.id)),
+    })
+  }
+
+  const updateRule = (index: number, update: Partial<RubricRule>) =>
+    onChange({
+      ...draft,
+      rules: draft.rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)),
+    })
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="rubric-name" className="text-sm font-medium">Name *</Label>
+          <Input
+            id="rubric-name"
+            value={draft.name}
+            onChange={(e) => onChange({ ...draft, name: e.target.value })}
+            maxLength={RUBRIC_LIMITS.NAME_MAX}
+            placeholder="e.g. Standard review"
+          />
+        </div>
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="rubric-description" className="text-sm font-medium">Description</Label>
+          <Input
+            id="rubric-description"
+            value={draft.description}
+            onChange={(e) => onChange({ ...draft, description: e.target.value })}
+            maxLength={RUBRIC_LIMITS.DESCRIPTION_MAX}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rubric-category" className="text-sm font-medium">Category</Label>
+          <Input
+            id="rubric-category"
+            value={draft.category}
+            onChange={(e) => onChange({ ...draft, category: e.target.value })}
+            placeholder="Any category"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Difficulty</Label>
+          <Select
+            value={draft.difficulty}
+            onValueChange={(value) => onChange({ ...draft, difficulty: value as RubricDraft['difficulty'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any difficulty</SelectItem>
+              {Object.values(Difficulty).map((difficulty) => (
+                <SelectItem key={difficulty} value={difficulty}>{getDifficultyLabel(difficulty)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">
+          Criteria * <span className="font-normal text-muted-foreground">(scored {RUBRIC_LIMITS.SCORE_MIN}–{RUBRIC_LIMITS.SCORE_MAX})</span>
+        </Label>
+        {draft.criteria.map((criterion, index) => (
+          <div key={criterion.id} className="flex items-start gap-2">
+            <div className="flex-1 grid grid-cols-2 gap-2">
+              <Input
+                value={criterion.label}
+                onChange={(e) => updateCriterion(index, { label: e.target.value })}
+                maxLength={RUBRIC_LIMITS.LABEL_MAX}
+                placeholder="e.g. Test coverage"
+              />
+              <Input
+                value={criterion.description ?? ''}
+                onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                maxLength={RUBRIC_LIMITS.DESCRIPTION_MAX}
+                placeholder="What reviewers look for (optional)"
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => removeCriterion(index)}
+              disabled={draft.criteria.length === 1}
+              title="Remove criterion"
+            >
+              <X className="size-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1.5"
+          onClick={() => onChange({ ...draft, criteria: [...draft.criteria, newCriterion()] })}
+          disabled={draft.criteria.length >= RUBRIC_LIMITS.CRITERIA_MAX}
+        >
+          <Plus className="size-3.5" />
+          Add criterion
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Rules</Label>
+        {draft.rules.map((rule, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm">
+            <Select
+              value={rule.criterionIds?.[0] ?? ANY}
+              onValueChange={(value) => updateRule(index, { criterionIds: value === ANY ? undefined : [value] })}
+            >
+              <SelectTrigger className="h-8 w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any criterion</SelectItem>
+                {draft.criteria.filter((criterion) => criterion.label.trim()).map((criterion) => (
+                  <SelectItem key={criterion.id} value={criterion.id}>{criterion.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">scored ≤</span>
+            <Select
+              value={String(rule.maxScore)}
+              onValueChange={(value) => updateRule(index, { maxScore: Number(value) })}
+            >
+              <SelectTrigger className="h-8 w-[64px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: RUBRIC_LIMITS.SCORE_MAX - RUBRIC_LIMITS.SCORE_MIN }, (_, i) => RUBRIC_LIMITS.SCORE_MIN + i).map((score) => (
+                  <SelectItem key={score} value={String(score)}>{score}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">forces</span>
+            <Select
+              value={rule.decision}
+              onValueChange={(value) => updateRule(index, { decision: value as RubricRule['decision'] })}
+            >
+              <SelectTrigger className="h-8 w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[ReviewDecision.REQUEST_CHANGES, ReviewDecision.REJECT].map((decision) => (
+                  <SelectItem key={decision} value={decision}>{getDecisionLabel(decision)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => onChange({ ...draft, rules: draft.rules.filter((_, i) => i !== index) })}
+              title="Remove rule"
+            >
+              <X className="size-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1.5"
+          onClick={() =>
+            onChange({
+              ...draft,
+              rules: [...draft.rules, { maxScore: RUBRIC_LIMITS.SCORE_MIN, decision: ReviewDecision.REQUEST_CHANGES }],
+            })
+          }
+        >
+          <Plus className="size-3.5" />
+          Add rule
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface RubricTemplatesModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function RubricTemplatesModal({ open, onOpenChange }: RubricTemplatesModalProps) {
+  const [draft, setDraft] = useState<RubricDraft | null>(null)
+
+  const { data: templates = [], isLoading } = useRubrics(open)
+  const saveMutation = useSaveRubric()
+  const archiveMutation = useArchiveRubric()
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setDraft(null)
+      saveMutation.reset()
+    }
+    onOpenChange(next)
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    saveMutation.mutate(
+      {
+        key: draft.key,
+        data: {
+          name: draft.name,
+          description: draft.description || null,
+          category: draft.category.trim() || null,
+          difficulty: draft.difficulty === ANY ? null : draft.difficulty,
+          criteria: draft.criteria.filter((criterion) => criterion.label.trim()),
+          rules: draft.rules,
+        },
+      },
+      {
+        onSuccess: () => setDraft(null),
+      }
+    )
+  }
+
+  const canSave = !!draft && !!draft.name.trim() && draft.criteria.some((criterion) => criterion.label.trim())
+  const error = saveMutation.error ?? archiveMutation.error
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent size="xl">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <ListChecks className="size-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle>{draft ? (draft.key ? 'Edit Rubric' : 'New Rubric') : 'Review Rubrics'}</DialogTitle>
+              <DialogDescription>
+                Reviews are scored against the most specific rubric matching the task&apos;s category and difficulty
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <form onSubmit={handleSave}>
+          <DialogBody className="space-y-4">
+            {draft ? (
+              <RubricEditor draft={draft} onChange={setDraft} />
+            ) : isLoading ? (
+              <div className="space-y-3">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No rubrics yet. Reviews are submitted with a decision and comment only.
+              </p>
+            ) : (
+              <ul className="divide-y divide-border/50 rounded-lg border">
+                {templates.map((template) => (
+                  <li key={template.key} className="flex items-center gap-3 px-4 py-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium truncate">{template.name}</span>
+                        <Badge variant="outline" className="text-[10px]">v{template.version}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {describeScope(template)} · {template.criteria.length} criteria · {template.rules.length} rule
+                        {template.rules.length !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" className="gap-1.5" onClick={() => setDraft(toDraft(template))}>
+                      <Pencil className="size-3.5" />
+                      Edit
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1.5 text-muted-foreground"
+                      onClick={() => archiveMutation.mutate(template.key)}
+                      disabled={archiveMutation.isPending}
+                    >
+                      <Archive className="size-3.5" />
+                      Archive
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </DialogBody>
+
+          <DialogFooter>
+            {error && (
+              <Alert variant="destructive" className="mr-auto">
+                <AlertDescription>{error.message}</AlertDescription>
+              </Alert>
+            )}
+            {draft ? (
+              <>
+                <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                  Back
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending || !canSave} className="min-w-[140px]">
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {draft.key ? 'Save New Version' : 'Create Rubric'}
+                </Button>
+              </>
+            ) : (
+              <Button type="button" className="gap-1.5" onClick={() => setDraft(toDraft())}>
+                <Plus className="size-4" />
+                New Rubric
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,10 +5,20 @@
  * Reusable modal for creating and editing tasks
  */
 
-import { useState, useEffect, useMemo } from 'react'
-import { useCreateTask, useUpdateTask } from '@/hooks/use-tasks'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { useCreateTask, useUpdateTask, useImportTask } from '@/hooks/use-tasks'
+import { formatApiErrorDetails } from '@/lib/api-client'
+import { applyTaskFormChange } from '@/lib/task-yaml-sync'
 import { useToast } from '@/hooks/use-toast'
-import { Difficulty, DEFAULT_TIMEOUTS } from '@repo/types'
+import {
+  Difficulty,
+  NetworkPolicy,
+  DEFAULT_TIMEOUTS,
+  DEFAULT_NETWORK_POLICY,
+  RESOURCE_LIMITS,
+  NETWORK_POLICY_LABELS,
+  NETWORK_POLICY_DESCRIPTIONS,
+} from '@repo/types'
 import type { Task, CreateTaskDto } from '@repo/types'
 import {
   Dialog,
@@ -23,6 +33,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { TestFilesEditor } from '@/components/test-files-editor'
 import {
   Select,
   SelectContent,
@@ -34,7 +45,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Badge } from '@/components/ui/badge'
-import { Loader2, FileCode, Settings, GitCompare } from 'lucide-react'
+import { Loader2, FileCode, Settings, GitCompare, Upload } from 'lucide-react'
 
 interface TaskFormModalProps {
   open: boolean
@@ -50,13 +61,19 @@ const defaultFormData: CreateTaskDto = {
   categories: '',
   maxAgentTimeoutSec: DEFAULT_TIMEOUTS.AGENT,
   maxTestTimeoutSec: DEFAULT_TIMEOUTS.TEST,
+  cpuLimit: null,
+  memoryLimitMb: null,
+  diskLimitMb: null,
+  networkPolicy: DEFAULT_NETWORK_POLICY,
   taskYaml: '',
   dockerComposeYaml: '',
   solutionSh: '',
   runTestsSh: '',
-  testsJson: '',
+  testFiles: [],
 }
 
+const IMPORT_ACCEPT = '.tar.gz,.tgz,.tar,.zip'
+
 export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormModalProps) {
   const isEditing = !!task
   const { toast } = useToast()
@@ -67,6 +84,11 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
   const createMutation = useCreateTask()
   const updateMutation = useUpdateTask(task?.id || '')
   const mutation = isEditing ? updateMutation : createMutation
+  const importMutation = useImportTask()
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [importErrors, setImportErrors] = useState<string[]>([])
 
   // Calculate current changes (diff between form data and original task)
   const currentChanges = useMemo(() => {
@@ -76,7 +98,8 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
     const fieldsToCheck: (keyof CreateTaskDto)[] = [
       'title', 'instruction', 'difficulty', 'categories',
       'maxAgentTimeoutSec', 'maxTestTimeoutSec',
-      'taskYaml', 'dockerComposeYaml', 'solutionSh', 'runTestsSh', 'testsJson'
+      'cpuLimit', 'memoryLimitMb', 'diskLimitMb', 'networkPolicy',
+      'taskYaml', 'dockerComposeYaml', 'solutionSh', 'runTestsSh'
     ]
     
     for (const field of fieldsToCheck) {
@@ -86,6 +109,19 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
         changes.push({ field, oldValue, newValue })
       }
     }
+
+    // Test files are compared one by one, like the history diff
+    const oldTests = new Map(task.testFiles.map((file) => [file.path, file]))
+    const newTests = new Map((formData.testFiles || []).map((file) => [file.path, file]))
+    for (const path of [...new Set([...oldTests.keys(), ...newTests.keys()])].sort()) {
+      const oldFile = oldTests.get(path)
+      const newFile = newTests.get(path)
+      if (oldFile?.content !== newFile?.content || !oldFile || !newFile) {
+        changes.push({ field: `tests/${path}`, oldValue: oldFile?.content ?? '', newValue: newFile?.content ?? '' })
+      } else if (oldFile.mode !== newFile.mode) {
+        changes.push({ field: `tests/${path} (mode)`, oldValue: oldFile.mode.toString(8), newValue: newFile.mode.toString(8) })
+      }
+    }
     
     return changes
   }, [task, formData])
@@ -101,16 +137,22 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
           categories: task.categories || '',
           maxAgentTimeoutSec: task.maxAgentTimeoutSec || DEFAULT_TIMEOUTS.AGENT,
           maxTestTimeoutSec: task.maxTestTimeoutSec || DEFAULT_TIMEOUTS.TEST,
+          cpuLimit: task.cpuLimit,
+          memoryLimitMb: task.memoryLimitMb,
+          diskLimitMb: task.diskLimitMb,
+          networkPolicy: task.networkPolicy || DEFAULT_NETWORK_POLICY,
           taskYaml: task.taskYaml || '',
           dockerComposeYaml: task.dockerComposeYaml || '',
           solutionSh: task.solutionSh || '',
           runTestsSh: task.runTestsSh || '',
-          testsJson: task.testsJson || '',
+          testFiles: task.testFiles || [],
         })
       } else {
         setFormData(defaultFormData)
       }
       setActiveTab('basics')
+      setImportErrors([])
+      setIsDragging(false)
     }
   }, [open, task])
 
@@ -142,7 +184,7 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
         console.error('[TaskFormModal] Mutation error:', error)
         toast({
           title: isEditing ? 'Failed to update task' : 'Failed to create task',
-          description: error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.',
+          description: formatApiErrorDetails(error).join('\n'),
           variant: 'destructive',
         })
         // Reopen modal on error so user can fix it
@@ -151,8 +193,31 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
     })
   }
 
+  const handleImport = (file: File | undefined) => {
+    if (!file || importMutation.isPending) return
+    setImportErrors([])
+
+    importMutation.mutate(file, {
+      onSuccess: ({ task: importedTask, unrecognizedFiles }) => {
+        toast({
+          title: 'Task imported',
+          description: unrecognizedFiles.length > 0
+            ? `Ignored ${unrecognizedFiles.length} unrecognized file${unrecognizedFiles.length !== 1 ? 's' : ''}: ${unrecognizedFiles.join(', ')}`
+            : `"${importedTask.title}" was created from ${file.name}.`,
+          variant: 'default',
+        })
+        onSuccess?.(importedTask)
+        onOpenChange(false)
+      },
+      onError: (error) => {
+        console.error('[TaskFormModal] Import error:', error)
+        setImportErrors(formatApiErrorDetails(error))
+      },
+    })
+  }
+
   const handleChange = (field: keyof CreateTaskDto, value: unknown) => {
-    setFormData((prev) => ({ ...prev, [field]: value }))
+    setFormData((prev) => applyTaskFormChange(prev, field, value))
   }
 
   return (
@@ -200,6 +265,73 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
 
               <div className="p-6 max-h-[50vh] overflow-y-auto">
                 <TabsContent value="basics" className="mt-0 space-y-4">
+                  {!isEditing && (
+                    <div className="space-y-2">
+                      <div
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => fileInputRef.current?.click()}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' || e.key === ' ') {
+                            e.preventDefault()
+                            fileInputRef.current?.click()
+                          }
+                        }}
+                        onDragOver={(e) => {
+                          e.preventDefault()
+                          setIsDragging(true)
+                        }}
+                        onDragLeave={() => setIsDragging(false)}
+                        onDrop={(e) => {
+                          e.preventDefault()
+                          setIsDragging(false)
+                          handleImport(e.dataTransfer.files[0])
+                        }}
+                        className={`flex items-center gap-3 rounded-lg border border-dashed px-4 py-3 cursor-pointer transition-colors ${
+                          isDragging
+                            ? 'border-primary bg-primary/5'
+                            : 'border-border hover:bg-secondary/30'
+                        }`}
+                      >
+                        {importMutation.isPending ? (
+                          <Loader2 className="size-5 text-muted-foreground animate-spin" />
+                        ) : (
+                          <Upload className="size-5 text-muted-foreground" />
+                        )}
+                        <div className="text-sm">
+                          <p className="font-medium">
+                            {importMutation.isPending ? 'Importing task...' : 'Import from a task directory'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Drop a .tar.gz or .zip containing task.yaml, or click to browse
+                          </p>
+                        </div>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept={IMPORT_ACCEPT}
+                          className="hidden"
+                          onChange={(e) => {
+                            handleImport(e.target.files?.[0])
+                            e.target.value = ''
+                          }}
+                        />
+                      </div>
+                      {importErrors.length > 0 && (
+                        <Alert variant="destructive">
+                          <AlertDescription>
+                            <p className="font-medium mb-1">Import failed</p>
+                            <ul className="list-disc pl-4 text-xs space-y-0.5">
+                              {importErrors.map((message, i) => (
+                                <li key={i}>{message}</li>
+                              ))}
+                            </ul>
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="title" className="text-sm font-medium">
                       Title *
@@ -320,6 +452,57 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
                       </p>
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    {[
+                      { key: 'cpuLimit' as const, label: 'CPU Limit (cores)', range: RESOURCE_LIMITS.CPU, step: 0.25 },
+                      { key: 'memoryLimitMb' as const, label: 'Memory Limit (MB)', range: RESOURCE_LIMITS.MEMORY_MB, step: 1 },
+                      { key: 'diskLimitMb' as const, label: 'Disk Limit (MB)', range: RESOURCE_LIMITS.DISK_MB, step: 1 },
+                    ].map(({ key, label, range, step }) => (
+                      <div key={key} className="space-y-2">
+                        <Label htmlFor={key} className="text-sm font-medium">
+                          {label}
+                        </Label>
+                        <Input
+                          id={key}
+                          type="number"
+                          min={range.MIN}
+                          max={range.MAX}
+                          step={step}
+                          value={formData[key] ?? ''}
+                          onChange={(e) =>
+                            handleChange(key, e.target.value === '' ? null : Number(e.target.value))
+                          }
+                          placeholder="No limit"
+                          className="h-11"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="networkPolicy" className="text-sm font-medium">
+                      Network Policy
+                    </Label>
+                    <Select
+                      value={formData.networkPolicy}
+                      onValueChange={(value) => handleChange('networkPolicy', value as NetworkPolicy)}
+                    >
+                      <SelectTrigger id="networkPolicy" className="h-11">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(NetworkPolicy).map((policy) => (
+                          <SelectItem key={policy} value={policy}>
+                            {NETWORK_POLICY_LABELS[policy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {NETWORK_POLICY_DESCRIPTIONS[formData.networkPolicy ?? DEFAULT_NETWORK_POLICY]}
+                    </p>
+                  </div>
                 </TabsContent>
 
                 <TabsContent value="files" className="mt-0 space-y-4">
@@ -328,7 +511,6 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
                     { key: 'dockerComposeYaml' as const, label: 'docker-compose.yaml', placeholder: 'Docker Compose configuration' },
                     { key: 'solutionSh' as const, label: 'solution.sh', placeholder: '#!/bin/bash' },
                     { key: 'runTestsSh' as const, label: 'run-tests.sh', placeholder: '#!/bin/bash' },
-                    { key: 'testsJson' as const, label: 'tests.json', placeholder: '{"tests": []}' },
                   ].map(({ key, label, placeholder }) => (
                     <div key={key} className="space-y-2">
                       <Label htmlFor={key} className="text-sm font-medium">
@@ -342,8 +524,20 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
                         className="font-mono text-sm resize-none"
                         placeholder={placeholder}
                       />
+                      {key === 'taskYaml' && (
+                        <p className="text-xs text-muted-foreground">
+                          Difficulty, categories and timeouts stay in sync with the Basics and Config tabs
+                        </p>
+                      )}
                     </div>
                   ))}
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">tests/</Label>
+                    <TestFilesEditor
+                      files={formData.testFiles || []}
+                      onChange={(testFiles) => handleChange('testFiles', testFiles)}
+                    />
+                  </div>
                 </TabsContent>
 
                 {isEditing && (
@@ -362,7 +556,7 @@ export function TaskFormModal({ open, onOpenChange, task, onSuccess }: TaskFormM
                           {currentChanges.length} field{currentChanges.length !== 1 ? 's' : ''} modified
                         </p>
                         {currentChanges.map(({ field, oldValue, newValue }) => {
-                          const fieldLabel = field
+                          const fieldLabel = field.startsWith('tests/') ? field : field
                             .replace(/([A-Z])/g, ' $1')
                             .replace(/^./, (str) => str.toUpperCase())
                             .trim()
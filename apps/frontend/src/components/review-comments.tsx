@@ -0,0 +1,228 @@
+"use client"
+
+/**
+ * Review Comments
+ * Reviewers' inline comments on line ranges of a task's files
+ *
+ * Reviewers click a line (shift-click to extend to a range) to comment on it.
+ * Comments follow their lines when the author resubmits; ones whose lines
+ * changed are listed as outdated with the lines they were made on.
+ */
+
+import { useState } from 'react'
+import { getRelativeTime, getTaskFileName } from '@repo/types'
+import type { LineRange, ReviewComment, TaskFileField } from '@repo/types'
+import { CodeBlock, type CodeAnnotation } from '@/components/ui/code-block'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useCreateReviewComment, useDeleteReviewComment } from '@/hooks/use-reviews'
+import { History, Loader2, MessageSquarePlus, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+function formatLines({ lineStart, lineEnd }: LineRange): string {
+  return lineStart === lineEnd ? `Line ${lineStart}` : `Lines ${lineStart}–${lineEnd}`
+}
+
+interface ReviewCommentItemProps {
+  taskId: string
+  comment: ReviewComment
+  canDelete: boolean
+}
+
+function ReviewCommentItem({ taskId, comment, canDelete }: ReviewCommentItemProps) {
+  const deleteMutation = useDeleteReviewComment(taskId)
+
+  return (
+    <li className="rounded-md border border-sky-500/30 bg-sky-500/5 px-3 py-2 text-sm">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-mono">{formatLines(comment)}</span>
+        <span>·</span>
+        <span className="font-medium text-foreground/80">{comment.author?.name || comment.author?.email || 'Reviewer'}</span>
+        <span>{getRelativeTime(comment.createdAt)}</span>
+        {comment.version !== comment.anchoredVersion && (
+          <Badge variant="outline" className="text-[10px]">from v{comment.version}</Badge>
+        )}
+        {canDelete && (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="ml-auto h-6 w-6"
+            onClick={() => deleteMutation.mutate(comment.id)}
+            disabled={deleteMutation.isPending}
+            title="Delete comment"
+          >
+            {deleteMutation.isPending ? <Loader2 className="size-3 animate-spin" /> : <Trash2 className="size-3" />}
+          </Button>
+        )}
+      </div>
+      <p className="mt-1 whitespace-pre-wrap">{comment.body}</p>
+    </li>
+  )
+}
+
+interface TaskFileCommentsProps {
+  taskId: string
+  field: TaskFileField
+  filename: string
+  content: string
+  /** All of the task's comments; those on other files are ignored */
+  comments: ReviewComment[]
+  annotations?: CodeAnnotation[]
+  /** Lets the user pick lines and comment on them */
+  canComment?: boolean
+  currentUserId?: string
+}
+
+/**
+ * A task file with its current comments
+ */
+export function TaskFileComments({
+  taskId,
+  field,
+  filename,
+  content,
+  comments,
+  annotations,
+  canComment = false,
+  currentUserId,
+}: TaskFileCommentsProps) {
+  const [selection, setSelection] = useState<LineRange | null>(null)
+  const [anchorLine, setAnchorLine] = useState<number | null>(null)
+  const [body, setBody] = useState('')
+  const createMutation = useCreateReviewComment(taskId)
+
+  const fileComments = comments.filter((comment) => comment.field === field && !comment.outdated)
+
+  const handleLineClick = (line: number, extend: boolean) => {
+    if (extend && anchorLine !== null) {
+      setSelection({ lineStart: Math.min(anchorLine, line), lineEnd: Math.max(anchorLine, line) })
+      return
+    }
+    setAnchorLine(line)
+    setSelection({ lineStart: line, lineEnd: line })
+  }
+
+  const clearSelection = () => {
+    setSelection(null)
+    setAnchorLine(null)
+    setBody('')
+    createMutation.reset()
+  }
+
+  const handleSubmit = () => {
+    if (!selection || !body.trim()) return
+    createMutation.mutate({ field, ...selection, body: body.trim() }, { onSuccess: clearSelection })
+  }
+
+  return (
+    <CodeBlock
+      content={content}
+      filename={filename}
+      annotations={annotations}
+      commentRanges={fileComments}
+      selectedLines={selection}
+      onLineClick={canComment ? handleLineClick : undefined}
+    >
+      {(fileComments.length > 0 || selection) && (
+        <div className="border-t border-border/30 bg-background px-4 py-3 space-y-3">
+          {fileComments.length > 0 && (
+            <ul className="space-y-2">
+              {fileComments.map((comment) => (
+                <ReviewCommentItem
+                  key={comment.id}
+                  taskId={taskId}
+                  comment={comment}
+                  canDelete={canComment && comment.authorId === currentUserId}
+                />
+              ))}
+            </ul>
+          )}
+
+          {selection && (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <MessageSquarePlus className="size-3.5" />
+                Comment on {formatLines(selection).toLowerCase()}
+                <span className="text-muted-foreground/70">(shift-click to extend)</span>
+              </p>
+              <Textarea
+                value={body}
+                onChange={(event) => setBody(event.target.value)}
+                placeholder="What should change here?"
+                className="min-h-[80px] text-sm"
+                autoFocus
+              />
+              {createMutation.error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{createMutation.error.message}</AlertDescription>
+                </Alert>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={clearSelection} disabled={createMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSubmit} disabled={!body.trim() || createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="size-3.5 animate-spin" />}
+                  Comment
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </CodeBlock>
+  )
+}
+
+interface OutdatedReviewCommentsProps {
+  taskId: string
+  comments: ReviewComment[]
+  canDelete?: boolean
+  currentUserId?: string
+  className?: string
+}
+
+/**
+ * Comments whose lines changed in a later version, with the lines they were made on
+ */
+export function OutdatedReviewComments({
+  taskId,
+  comments,
+  canDelete = false,
+  currentUserId,
+  className,
+}: OutdatedReviewCommentsProps) {
+  const outdated = comments.filter((comment) => comment.outdated)
+  if (outdated.length === 0) return null
+
+  return (
+    <div className={cn('rounded-xl border border-border/50 overflow-hidden', className)}>
+      <div className="flex items-center gap-2 px-4 py-2.5 bg-secondary/30 border-b border-border/50 text-sm">
+        <History className="size-4 text-muted-foreground" />
+        <span className="font-medium">Outdated comments</span>
+        <span className="text-muted-foreground">The lines they were made on have since changed</span>
+      </div>
+      <ul className="divide-y divide-border/50">
+        {outdated.map((comment) => (
+          <li key={comment.id} className="px-4 py-3 space-y-2">
+            <p className="text-xs font-mono text-muted-foreground">
+              {getTaskFileName(comment.field)} · v{comment.version}
+            </p>
+            <pre className="rounded-md bg-secondary/30 px-3 py-2 text-xs font-mono text-muted-foreground overflow-x-auto">
+              {comment.excerpt}
+            </pre>
+            <ul>
+              <ReviewCommentItem
+                taskId={taskId}
+                comment={comment}
+                canDelete={canDelete && comment.authorId === currentUserId}
+              />
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
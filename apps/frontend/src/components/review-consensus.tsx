@@ -0,0 +1,101 @@
+"use client"
+
+/**
+ * Review Consensus
+ * Which reviewers have signed off on a task in the current round, and what it still needs
+ */
+
+import { ReviewDecision, getRelativeTime } from '@repo/types'
+import type { ReviewConsensus, ReviewSignOff } from '@repo/types'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+const SIGN_OFF_DISPLAY: Record<ReviewDecision, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  [ReviewDecision.APPROVE]: { label: 'Approved', icon: CheckCircle2, className: 'text-emerald-500' },
+  [ReviewDecision.REQUEST_CHANGES]: { label: 'Requested changes', icon: AlertTriangle, className: 'text-orange-500' },
+  [ReviewDecision.REJECT]: { label: 'Rejected', icon: XCircle, className: 'text-red-500' },
+}
+
+function getReviewerName(signOff: ReviewSignOff): string {
+  return signOff.reviewer.name || signOff.reviewer.email
+}
+
+/**
+ * What the task needs next, in a sentence
+ */
+function describeOutstanding({ objections, remainingApprovals }: ReviewConsensus): string {
+  if (objections.length > 0) {
+    const names = objections.map(getReviewerName).join(', ')
+    return `Approvals don't count while ${names} ${objections.length === 1 ? 'objects' : 'object'}. This holds until they change their decision or the author resubmits.`
+  }
+  if (remainingApprovals > 0) {
+    return `Needs approval from ${remainingApprovals} more reviewer${remainingApprovals !== 1 ? 's' : ''}.`
+  }
+  return 'Has all the approvals it needs.'
+}
+
+interface ReviewConsensusSummaryProps {
+  consensus: ReviewConsensus
+  currentUserId?: string
+}
+
+/**
+ * Approval progress and each reviewer's standing decision
+ */
+export function ReviewConsensusSummary({ consensus, currentUserId }: ReviewConsensusSummaryProps) {
+  const { requiredApprovals, approvals, objections, remainingApprovals } = consensus
+  const signOffs = [...approvals, ...objections]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <span className="text-sm font-medium">
+          {approvals.length} of {requiredApprovals} approval{requiredApprovals !== 1 ? 's' : ''}
+        </span>
+        <div className="flex flex-1 gap-1">
+          {Array.from({ length: Math.max(requiredApprovals, approvals.length) }, (_, index) => (
+            <div
+              key={index}
+              className={cn('h-1.5 flex-1 rounded-full', index < approvals.length ? 'bg-emerald-500' : 'bg-secondary')}
+            />
+          ))}
+        </div>
+        {objections.length > 0 ? (
+          <Badge variant="outline" className="border-red-500/30 text-red-500">
+            Blocked
+          </Badge>
+        ) : remainingApprovals > 0 ? (
+          <Badge variant="outline" className="border-teal-500/30 text-teal-500">
+            {remainingApprovals} more needed
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="border-emerald-500/30 text-emerald-500">
+            Approved
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">{describeOutstanding(consensus)}</p>
+
+      {signOffs.length > 0 ? (
+        <ul className="space-y-2">
+          {signOffs.map((signOff) => {
+            const { label, icon: Icon, className } = SIGN_OFF_DISPLAY[signOff.decision]
+            return (
+              <li key={signOff.reviewId} className="flex items-center gap-2 text-sm">
+                <Icon className={cn('size-4 shrink-0', className)} />
+                <span className="font-medium">{getReviewerName(signOff)}</span>
+                {signOff.reviewer.id === currentUserId && <span className="text-xs text-muted-foreground">(you)</span>}
+                <span className={cn('text-xs', className)}>{label}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{getRelativeTime(signOff.createdAt)}</span>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No reviewer has decided on this submission yet.</p>
+      )}
+    </div>
+  )
+}
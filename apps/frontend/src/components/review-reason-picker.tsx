@@ -0,0 +1,100 @@
+"use client"
+
+/**
+ * Review Reason Picker
+ * Picking the reasons for rejecting a task or requesting changes, and showing
+ * the reasons given in a review
+ */
+
+import { getReviewReasonLabel, requiresReviewReason, REVIEW_REASON_LIMITS } from '@repo/types'
+import type { ReviewDecision, ReviewReason } from '@repo/types'
+import { useReviewReasons } from '@/hooks/use-reviews'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface ReviewReasonPickerProps {
+  decision: ReviewDecision | null
+  value: string[]
+  onChange: (codes: string[]) => void
+  className?: string
+}
+
+/**
+ * The active reasons as toggles; only shown for decisions that need a reason
+ */
+export function ReviewReasonPicker({ decision, value, onChange, className }: ReviewReasonPickerProps) {
+  const isRequired = !!decision && requiresReviewReason(decision)
+  const { data: reasons = [], isLoading } = useReviewReasons({ enabled: isRequired })
+  if (!isRequired) return null
+
+  const isFull = value.length >= REVIEW_REASON_LIMITS.PER_REVIEW_MAX
+
+  const toggle = (code: string) =>
+    onChange(value.includes(code) ? value.filter(c => c !== code) : [...value, code])
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-baseline justify-between gap-2">
+        <Label className="text-sm font-medium">Reasons *</Label>
+        <span className="text-xs text-muted-foreground">Pick at least one</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="size-3.5 animate-spin" />
+          Loading reasons...
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {reasons.map((reason) => {
+            const isSelected = value.includes(reason.code)
+            return (
+              <button
+                key={reason.code}
+                type="button"
+                onClick={() => toggle(reason.code)}
+                disabled={!isSelected && isFull}
+                title={reason.description ?? undefined}
+                aria-pressed={isSelected}
+                className={cn(
+                  'rounded-full border px-2.5 py-1 text-xs transition-colors',
+                  isSelected
+                    ? 'border-teal-500 bg-teal-500/15 text-teal-600'
+                    : 'border-border/60 text-muted-foreground hover:border-foreground/40 hover:text-foreground',
+                  !isSelected && isFull && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                {reason.label}
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ReviewReasonBadgesProps {
+  codes: string[]
+  reasons?: Pick<ReviewReason, 'code' | 'label'>[] // Catalog to label codes from, when the viewer can list it
+  className?: string
+}
+
+/**
+ * The reasons given in a review
+ */
+export function ReviewReasonBadges({ codes, reasons, className }: ReviewReasonBadgesProps) {
+  if (codes.length === 0) return null
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {codes.map((code) => (
+        <Badge key={code} variant="outline" className="text-[10px] font-normal">
+          {getReviewReasonLabel(code, reasons)}
+        </Badge>
+      ))}
+    </div>
+  )
+}
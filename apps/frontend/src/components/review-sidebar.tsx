@@ -2,7 +2,10 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { useSubmitReview } from '@/hooks/use-reviews'
-import { ReviewDecision } from '@repo/types'
+import { ReviewDecision, requiresReviewReason } from '@repo/types'
+import type { RubricScore, RubricTemplate } from '@repo/types'
+import { RubricChecklist, useRubricScores } from '@/components/rubric-checklist'
+import { ReviewReasonPicker } from '@/components/review-reason-picker'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
@@ -23,7 +26,13 @@ import { cn } from '@/lib/utils'
 interface ReviewSidebarProps {
   taskId: string
   taskTitle?: string
-  previousReview?: { decision: string; comment?: string | null } // Last review by this user
+  previousReview?: {
+    decision: string
+    comment?: string | null
+    rubricScores?: RubricScore[] | null
+    reasonCodes?: string[]
+  } // Last review by this user
+  rubric?: RubricTemplate | null // Rubric the review is scored against
   onSuccess?: () => void
 }
 
@@ -66,28 +75,32 @@ const MAX_WIDTH = 500
 const DEFAULT_WIDTH = 340
 const COLLAPSED_WIDTH = 48
 
-export function ReviewSidebar({ taskId, taskTitle, previousReview, onSuccess }: ReviewSidebarProps) {
+export function ReviewSidebar({ taskId, taskTitle, previousReview, rubric, onSuccess }: ReviewSidebarProps) {
   const [isOpen, setIsOpen] = useState(true)
   const [width, setWidth] = useState(DEFAULT_WIDTH)
   const [decision, setDecision] = useState<ReviewDecision | null>(
     previousReview?.decision as ReviewDecision | null
   )
   const [comment, setComment] = useState(previousReview?.comment || '')
+  const [reasonCodes, setReasonCodes] = useState<string[]>(previousReview?.reasonCodes ?? [])
   const [isDragging, setIsDragging] = useState(false)
   const sidebarRef = useRef<HTMLDivElement>(null)
 
   const submitMutation = useSubmitReview(taskId)
+  const rubricForm = useRubricScores(rubric, previousReview?.rubricScores)
   
   // Sync form with previous review when it changes (e.g., task refetch)
   useEffect(() => {
     if (previousReview) {
       setDecision(previousReview.decision as ReviewDecision)
       setComment(previousReview.comment || '')
+      setReasonCodes(previousReview.reasonCodes ?? [])
     }
-  }, [previousReview?.decision, previousReview?.comment])
+  }, [previousReview?.decision, previousReview?.comment, previousReview?.reasonCodes?.join()])
   
   // Check if this is an edit of a previous review
   const isEditMode = !!previousReview
+  const needsReasons = !!decision && requiresReviewReason(decision)
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     e.preventDefault()
@@ -131,11 +144,20 @@ export function ReviewSidebar({ taskId, taskTitle, previousReview, onSuccess }:
     // Reset form immediately to prevent double submission
     const submittedDecision = decision
     const submittedComment = comment
+    const submittedDrafts = rubricForm.drafts
+    const submittedReasons = needsReasons ? reasonCodes : []
     setDecision(null)
     setComment('')
+    setReasonCodes([])
+    rubricForm.reset()
     
     submitMutation.mutate(
-      { decision: submittedDecision, comment: submittedComment || undefined },
+      {
+        decision: submittedDecision,
+        comment: submittedComment || undefined,
+        rubricScores: rubricForm.scores,
+        reasonCodes: submittedReasons,
+      },
       {
         onSuccess: () => {
           onSuccess?.()
@@ -144,6 +166,8 @@ export function ReviewSidebar({ taskId, taskTitle, previousReview, onSuccess }:
           // Restore form state on error
           setDecision(submittedDecision)
           setComment(submittedComment)
+          setReasonCodes(submittedReasons)
+          rubricForm.setDrafts(submittedDrafts)
         },
       }
     )
@@ -233,14 +257,18 @@ export function ReviewSidebar({ taskId, taskTitle, previousReview, onSuccess }:
                   {decisionOptions.map((option) => {
                     const Icon = option.icon
                     const isSelected = decision === option.value
+                    const isAllowed = rubricForm.allows(option.value)
                     return (
                       <button
                         key={option.value}
                         type="button"
                         onClick={() => setDecision(option.value)}
+                        disabled={!isAllowed}
+                        title={isAllowed ? undefined : 'Ruled out by the rubric scores'}
                         className={cn(
                           "w-full flex items-center gap-2.5 p-2.5 rounded-lg border-2 transition-all duration-200 text-left",
-                          isSelected ? option.selectedClassName : option.className
+                          isSelected ? option.selectedClassName : option.className,
+                          !isAllowed && "opacity-50 cursor-not-allowed"
                         )}
                       >
                         <Icon className={cn(
@@ -259,6 +287,12 @@ export function ReviewSidebar({ taskId, taskTitle, previousReview, onSuccess }:
                 </div>
               </div>
 
+              {/* Reasons */}
+              <ReviewReasonPicker decision={decision} value={reasonCodes} onChange={setReasonCodes} />
+
+              {/* Rubric */}
+              <RubricChecklist form={rubricForm} />
+
               {/* Comment */}
               <div className="space-y-2">
                 <Label htmlFor="comment" className="text-sm font-medium">
@@ -300,7 +334,13 @@ export function ReviewSidebar({ taskId, taskTitle, previousReview, onSuccess }:
               {/* Submit Button */}
               <Button
                 type="submit"
-                disabled={submitMutation.isPending || !decision}
+                disabled={
+                  submitMutation.isPending ||
+                  !decision ||
+                  (needsReasons && reasonCodes.length === 0) ||
+                  !rubricForm.isComplete ||
+                  !rubricForm.allows(decision)
+                }
                 className={cn(
                   "w-full",
                   decision === 'APPROVE' && 'bg-emerald-600 hover:bg-emerald-700',
@@ -0,0 +1,219 @@
+"use client"
+
+/**
+ * Rubric Checklist
+ * Scoring a task against its review rubric, and showing the scores of a review
+ *
+ * The rubric's rules are checked as the reviewer scores, so decisions the
+ * scores rule out can be disabled before the server would reject them.
+ */
+
+import { useEffect, useState } from 'react'
+import { getDecisionLabel, getRubricRequirement, isDecisionAtLeast, RUBRIC_LIMITS } from '@repo/types'
+import type { ReviewDecision, RubricScore, RubricScoreInput, RubricTemplate } from '@repo/types'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle, StickyNote } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+export interface RubricScoreDraft {
+  score: number | null
+  note: string
+}
+
+export type RubricScoreDrafts = Record<string, RubricScoreDraft>
+
+const SCORE_VALUES = Array.from(
+  { length: RUBRIC_LIMITS.SCORE_MAX - RUBRIC_LIMITS.SCORE_MIN + 1 },
+  (_, index) => RUBRIC_LIMITS.SCORE_MIN + index
+)
+
+function getScoreClassName(score: number): string {
+  if (score <= 2) return 'border-red-500 bg-red-500/15 text-red-600'
+  if (score === 3) return 'border-amber-500 bg-amber-500/15 text-amber-600'
+  return 'border-emerald-500 bg-emerald-500/15 text-emerald-600'
+}
+
+function getDrafts(rubric: RubricTemplate | null | undefined, previous?: RubricScore[] | null): RubricScoreDrafts {
+  // Previous scores carry over by criterion; ones for criteria the rubric no longer has are dropped
+  const carried = new Map((previous ?? []).map(score => [score.criterionId, score]))
+  return Object.fromEntries(
+    (rubric?.criteria ?? []).map(criterion => {
+      const score = carried.get(criterion.id)
+      return [criterion.id, { score: score?.score ?? null, note: score?.note ?? '' }]
+    })
+  )
+}
+
+/**
+ * Form state for scoring a task against its rubric
+ * Starts from the reviewer's previous scores when they are updating a review.
+ */
+export function useRubricScores(rubric: RubricTemplate | null | undefined, previousScores?: RubricScore[] | null) {
+  const [drafts, setDrafts] = useState(() => getDrafts(rubric, previousScores))
+
+  // Sync with the rubric and previous review when they change (e.g., task refetch)
+  const previousKey = JSON.stringify(previousScores ?? null)
+  useEffect(() => {
+    setDrafts(getDrafts(rubric, previousScores))
+  }, [rubric?.id, previousKey])
+
+  const scores: RubricScoreInput[] = (rubric?.criteria ?? []).flatMap(criterion => {
+    const draft = drafts[criterion.id]
+    if (!draft?.score) return []
+    const note = draft.note.trim()
+    return [{ criterionId: criterion.id, score: draft.score, ...(note && { note }) }]
+  })
+  const requirement = rubric ? getRubricRequirement(rubric, scores) : null
+
+  const updateDraft = (criterionId: string, update: Partial<RubricScoreDraft>) =>
+    setDrafts(old => ({ ...old, [criterionId]: { ...(old[criterionId] ?? { score: null, note: '' }), ...update } }))
+
+  return {
+    rubric: rubric ?? null,
+    drafts,
+    setDrafts,
+    /** Scores to submit; undefined when the task has no rubric */
+    scores: rubric ? scores : undefined,
+    isComplete: !rubric || scores.length === rubric.criteria.length,
+    requirement,
+    /** Whether the scores so far allow a decision */
+    allows: (decision: ReviewDecision) => !requirement || isDecisionAtLeast(decision, requirement.decision),
+    setScore: (criterionId: string, score: number) => updateDraft(criterionId, { score }),
+    setNote: (criterionId: string, note: string) => updateDraft(criterionId, { note }),
+    reset: () => setDrafts(getDrafts(rubric, null)),
+  }
+}
+
+export type RubricScoresForm = ReturnType<typeof useRubricScores>
+
+interface RubricChecklistProps {
+  form: RubricScoresForm
+  className?: string
+}
+
+/**
+ * The rubric's criteria, each with a score and an optional note
+ */
+export function RubricChecklist({ form, className }: RubricChecklistProps) {
+  const [openNotes, setOpenNotes] = useState<Set<string>>(new Set())
+  const { rubric, drafts, requirement } = form
+  if (!rubric) return null
+
+  const scoredCount = form.scores?.length ?? 0
+
+  const toggleNote = (criterionId: string) =>
+    setOpenNotes(old => {
+      const next = new Set(old)
+      if (next.has(criterionId)) next.delete(criterionId)
+      else next.add(criterionId)
+      return next
+    })
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-baseline justify-between gap-2">
+        <Label className="text-sm font-medium">Rubric *</Label>
+        <span className="text-xs text-muted-foreground truncate">
+          {rubric.name} v{rubric.version} · {scoredCount}/{rubric.criteria.length} scored
+        </span>
+      </div>
+      {rubric.description && <p className="text-xs text-muted-foreground">{rubric.description}</p>}
+
+      <ul className="space-y-1.5">
+        {rubric.criteria.map((criterion) => {
+          const draft = drafts[criterion.id] ?? { score: null, note: '' }
+          const isNoteOpen = openNotes.has(criterion.id) || !!draft.note
+          return (
+            <li key={criterion.id} className="rounded-lg border border-border/50 px-2.5 py-2 space-y-1.5">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium leading-tight">{criterion.label}</p>
+                  {criterion.description && (
+                    <p className="text-xs text-muted-foreground mt-0.5">{criterion.description}</p>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  className={cn('h-6 w-6 flex-shrink-0', isNoteOpen && 'text-teal-500')}
+                  onClick={() => toggleNote(criterion.id)}
+                  title="Add a note"
+                >
+                  <StickyNote className="size-3.5" />
+                </Button>
+              </div>
+              <div className="flex gap-1">
+                {SCORE_VALUES.map((score) => (
+                  <button
+                    key={score}
+                    type="button"
+                    onClick={() => form.setScore(criterion.id, score)}
+                    className={cn(
+                      'h-7 w-7 rounded-md border text-xs font-medium transition-colors',
+                      draft.score === score
+                        ? getScoreClassName(score)
+                        : 'border-border/60 text-muted-foreground hover:border-foreground/40 hover:text-foreground'
+                    )}
+                    aria-pressed={draft.score === score}
+                  >
+                    {score}
+                  </button>
+                ))}
+              </div>
+              {isNoteOpen && (
+                <Textarea
+                  value={draft.note}
+                  onChange={(e) => form.setNote(criterion.id, e.target.value)}
+                  placeholder="Why this score?"
+                  maxLength={RUBRIC_LIMITS.NOTE_MAX}
+                  rows={2}
+                  className="resize-none text-xs min-h-0"
+                />
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      {requirement && (
+        <Alert className="border-amber-500/40 bg-amber-500/5">
+          <AlertTriangle className="size-4 text-amber-500" />
+          <AlertDescription className="text-xs">
+            {requirement.reasons.join(', ')}, so the decision can be no more lenient than{' '}
+            {getDecisionLabel(requirement.decision)}.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
+
+interface RubricScoreListProps {
+  scores: RubricScore[]
+  className?: string
+}
+
+/**
+ * A review's rubric scores, with the reviewer's notes
+ */
+export function RubricScoreList({ scores, className }: RubricScoreListProps) {
+  return (
+    <ul className={cn('space-y-1', className)}>
+      {scores.map((score) => (
+        <li key={score.criterionId} className="text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-foreground/80">{score.label}</span>
+            <span className={cn('shrink-0 rounded border px-1.5 font-medium', getScoreClassName(score.score))}>
+              {score.score}/{RUBRIC_LIMITS.SCORE_MAX}
+            </span>
+          </div>
+          {score.note && <p className="text-muted-foreground mt-0.5 whitespace-pre-wrap">{score.note}</p>}
+        </li>
+      ))}
+    </ul>
+  )
+}
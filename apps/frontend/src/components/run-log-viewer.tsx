@@ -0,0 +1,278 @@
+"use client"
+
+/**
+ * Run Log Viewer
+ * Tails a run's output as it streams in, with search and download
+ */
+
+import { memo, useEffect, useMemo, useRef, useState } from 'react'
+import { useRunLog } from '@/hooks/use-run-log'
+import type { RunLogConnection, RunLogLine } from '@/hooks/use-run-log'
+import { parseAnsi, stripAnsi } from '@/lib/ansi'
+import { ACTIVE_RUN_STATUSES, RUN_STATUS_LABELS, RUN_STATUS_COLORS } from '@repo/types'
+import type { RunStage } from '@repo/types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ArrowDownToLine, ChevronDown, ChevronUp, Download, Loader2, ScrollText, Search } from 'lucide-react'
+import { cn, saveBlob } from '@/lib/utils'
+
+const STAGE_LABELS: Record<RunStage, string> = {
+  building: 'Building',
+  'null-tests': 'Tests without solution',
+  solution: 'Solution',
+  tests: 'Tests',
+  teardown: 'Teardown',
+}
+
+const CONNECTION_LABELS: Record<RunLogConnection, string> = {
+  connecting: 'Connecting…',
+  open: 'Live',
+  reconnecting: 'Reconnecting…',
+  closed: 'Finished',
+}
+
+/**
+ * Distance from the bottom within which the viewer keeps following new output
+ */
+const FOLLOW_THRESHOLD_PX = 24
+
+function stageLabel(stage: RunStage, iteration?: number | null): string {
+  return iteration ? `${STAGE_LABELS[stage]} · run ${iteration}` : STAGE_LABELS[stage]
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function highlight(text: string, pattern: RegExp | null) {
+  if (!pattern) return text
+  return text.split(pattern).map((part, index) =>
+    // split() with a capture group puts the matches at odd indices
+    index % 2 === 1 ? (
+      <mark key={index} className="rounded-sm bg-amber-300/70 text-inherit">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  )
+}
+
+interface LogLineProps {
+  line: RunLogLine
+  pattern: RegExp | null
+  isCurrentMatch: boolean
+}
+
+const LogLine = memo(function LogLine({ line, pattern, isCurrentMatch }: LogLineProps) {
+  if (line.kind === 'stage') {
+    return (
+      <div className="my-1 flex items-center gap-2 text-muted-foreground">
+        <span className="h-px flex-1 bg-border" />
+        <span className="text-[10px] uppercase tracking-wide">{stageLabel(line.stage, line.iteration)}</span>
+        <span className="h-px flex-1 bg-border" />
+      </div>
+    )
+  }
+
+  return (
+    <div
+      data-line-id={line.id}
+      className={cn(
+        'min-h-[1.25em] whitespace-pre-wrap break-all pl-2 border-l-2',
+        line.stream === 'stderr' ? 'border-red-500/50' : 'border-transparent',
+        isCurrentMatch && 'bg-amber-500/10'
+      )}
+    >
+      {parseAnsi(line.text).map((segment, index) => (
+        <span key={index} className={segment.className || undefined}>
+          {highlight(segment.text, pattern)}
+        </span>
+      ))}
+    </div>
+  )
+})
+
+function formatLogFile(lines: RunLogLine[]): string {
+  return lines
+    .map((line) =>
+      line.kind === 'stage'
+        ? `==> ${stageLabel(line.stage, line.iteration)}`
+        : stripAnsi(line.text)
+    )
+    .join('\n')
+}
+
+interface RunLogViewerProps {
+  runId: string
+  className?: string
+}
+
+/**
+ * Live log of one run
+ * Scrolling up pauses following new output; scrolling back to the bottom resumes it.
+ */
+export function RunLogViewer({ runId, className }: RunLogViewerProps) {
+  const { lines, stage, iteration, status, error, connection } = useRunLog(runId)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const [follow, setFollow] = useState(true)
+  const [query, setQuery] = useState('')
+  const [matchIndex, setMatchIndex] = useState(0)
+
+  const pattern = useMemo(
+    () => (query ? new RegExp(`(${escapeRegExp(query)})`, 'gi') : null),
+    [query]
+  )
+
+  const matches = useMemo(() => {
+    if (!query) return []
+    const needle = query.toLowerCase()
+    return lines
+      .filter((line) => line.kind === 'output' && stripAnsi(line.text).toLowerCase().includes(needle))
+      .map((line) => line.id)
+  }, [lines, query])
+
+  const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : null
+
+  useEffect(() => {
+    if (follow && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    }
+  }, [lines, follow])
+
+  useEffect(() => {
+    if (currentMatch === null || !scrollRef.current) return
+    setFollow(false)
+    scrollRef.current
+      .querySelector(`[data-line-id="${currentMatch}"]`)
+      ?.scrollIntoView({ block: 'center' })
+  }, [currentMatch])
+
+  const handleScroll = () => {
+    const element = scrollRef.current
+    if (!element) return
+    const atBottom = element.scrollHeight - element.scrollTop - element.clientHeight < FOLLOW_THRESHOLD_PX
+    if (atBottom !== follow) setFollow(atBottom)
+  }
+
+  const stepMatch = (step: number) => {
+    if (matches.length === 0) return
+    setMatchIndex((index) => (Math.min(index, matches.length - 1) + step + matches.length) % matches.length)
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([formatLogFile(lines)], { type: 'text/plain;charset=utf-8' })
+    saveBlob(blob, `run-${runId}.log`)
+  }
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {stage && (!status || ACTIVE_RUN_STATUSES.includes(status)) && (
+          <Badge variant="outline" className="gap-1.5">
+            {connection === 'open' && <Loader2 className="size-3 animate-spin" />}
+            {stageLabel(stage, iteration)}
+          </Badge>
+        )}
+        {status && (
+          <span className={cn('font-medium', RUN_STATUS_COLORS[status])}>{RUN_STATUS_LABELS[status]}</span>
+        )}
+        <span className="text-muted-foreground">{CONNECTION_LABELS[connection]}</span>
+
+        <div className="ml-auto flex items-center gap-1">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 size-3.5 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(event) => {
+                setQuery(event.target.value)
+                setMatchIndex(0)
+              }}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') stepMatch(event.shiftKey ? -1 : 1)
+              }}
+              placeholder="Search output"
+              className="h-8 w-48 pl-7 text-xs"
+            />
+          </div>
+          {query && (
+            <span className="w-14 text-center text-muted-foreground">
+              {matches.length > 0 ? `${Math.min(matchIndex, matches.length - 1) + 1}/${matches.length}` : '0/0'}
+            </span>
+          )}
+          <Button variant="ghost" size="icon-sm" onClick={() => stepMatch(-1)} disabled={matches.length === 0} title="Previous match">
+            <ChevronUp className="size-4" />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={() => stepMatch(1)} disabled={matches.length === 0} title="Next match">
+            <ChevronDown className="size-4" />
+          </Button>
+          <Button
+            variant={follow ? 'secondary' : 'ghost'}
+            size="icon-sm"
+            onClick={() => setFollow(true)}
+            title="Follow output"
+          >
+            <ArrowDownToLine className="size-4" />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={handleDownload} disabled={lines.length === 0} title="Download log">
+            <Download className="size-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="h-[60vh] overflow-y-auto rounded border border-border bg-secondary/30 p-2 font-mono text-[11px] leading-5"
+      >
+        {lines.length === 0 ? (
+          <p className="text-muted-foreground">
+            {connection === 'closed' ? 'This run produced no output.' : 'Waiting for output…'}
+          </p>
+        ) : (
+          lines.map((line) => (
+            <LogLine key={line.id} line={line} pattern={pattern} isCurrentMatch={line.id === currentMatch} />
+          ))
+        )}
+      </div>
+
+      {error && (
+        <p className="rounded border border-red-500/30 bg-red-500/5 p-2 text-xs text-red-500 whitespace-pre-wrap">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface RunLogButtonProps {
+  runId: string
+  title?: string
+  className?: string
+}
+
+/**
+ * Button that opens a run's live log in a dialog
+ * The stream is only connected while the dialog is open.
+ */
+export function RunLogButton({ runId, title = 'Run log', className }: RunLogButtonProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={cn('gap-1.5', className)}>
+          <ScrollText className="size-3.5" />
+          Logs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Output of building the environment, the scripts and teardown.</DialogDescription>
+        </DialogHeader>
+        <RunLogViewer runId={runId} />
+      </DialogContent>
+    </Dialog>
+  )
+}
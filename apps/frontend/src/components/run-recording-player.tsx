@@ -0,0 +1,240 @@
+"use client"
+
+/**
+ * Run Recording Player
+ * Replays the terminal recording of a run's scripts, with seeking, speed and copying
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useLatestTaskRun, useRunRecording } from '@/hooks/use-runs'
+import { getFrameAt, parseAsciicast } from '@/lib/asciicast'
+import type { AsciicastFrame, AsciicastRecording } from '@/lib/asciicast'
+import { parseAnsi, stripAnsi } from '@/lib/ansi'
+import { ACTIVE_RUN_STATUSES, RunMode } from '@repo/types'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Check, Copy, Download, Loader2, Pause, Play } from 'lucide-react'
+import { saveBlob } from '@/lib/utils'
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8]
+
+/**
+ * Lines of scrollback rendered; older output is still copied
+ */
+const MAX_VISIBLE_LINES = 500
+
+const RECORDED_MODES: Array<{ mode: RunMode; label: string }> = [
+  { mode: RunMode.ORACLE, label: 'Oracle run' },
+  { mode: RunMode.VERIFICATION, label: 'Verification run' },
+  { mode: RunMode.STABILITY, label: 'Stability check' },
+]
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+interface RecordingPlayerProps {
+  recording: AsciicastRecording
+  source: string
+  fileName: string
+}
+
+/**
+ * Player for a parsed recording
+ * Starts paused at the end, so the final output is visible without playing.
+ */
+export function RecordingPlayer({ recording, source, fileName }: RecordingPlayerProps) {
+  const { duration, markers } = recording
+  const [time, setTime] = useState(duration)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [copied, setCopied] = useState(false)
+  const frameRef = useRef<AsciicastFrame | undefined>(undefined)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const frame = useMemo(() => {
+    frameRef.current = getFrameAt(recording, time, frameRef.current)
+    return { eventCount: frameRef.current.eventCount, lines: frameRef.current.lines.slice(-MAX_VISIBLE_LINES) }
+  }, [recording, time])
+
+  useEffect(() => {
+    if (!playing) return
+
+    let last = performance.now()
+    let request = requestAnimationFrame(function tick(now) {
+      const elapsed = ((now - last) / 1000) * speed
+      last = now
+      setTime((current) => Math.min(duration, current + elapsed))
+      request = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(request)
+  }, [playing, speed, duration])
+
+  useEffect(() => {
+    if (playing && time >= duration) setPlaying(false)
+  }, [playing, time, duration])
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    }
+  }, [frame.eventCount])
+
+  const handlePlay = () => {
+    if (time >= duration) setTime(0)
+    setPlaying(!playing)
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(stripAnsi(frameRef.current?.lines.join('\n') ?? '').trimEnd())
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleDownload = () => {
+    saveBlob(new Blob([source], { type: 'application/x-asciicast' }), fileName)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={scrollRef}
+        className="h-[28rem] overflow-y-auto rounded border border-border bg-zinc-950 p-2 font-mono text-[11px] leading-5 text-zinc-200"
+      >
+        {frame.lines.map((line, index) => (
+          <div key={index} className="min-h-[1.25em] whitespace-pre-wrap break-all">
+            {parseAnsi(line).map((segment, segmentIndex) => (
+              <span key={segmentIndex} className={segment.className || undefined}>
+                {segment.text}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon-sm" onClick={handlePlay} title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause className="size-4" /> : <Play className="size-4" />}
+        </Button>
+        <Slider
+          value={[time]}
+          max={duration}
+          step={0.01}
+          onValueChange={([value]) => setTime(value)}
+          className="flex-1"
+        />
+        <span className="w-24 shrink-0 text-right font-mono text-xs text-muted-foreground">
+          {formatTime(time)} / {formatTime(duration)}
+        </span>
+        <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map((value) => (
+              <SelectItem key={value} value={String(value)}>
+                {value}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon-sm" onClick={handleCopy} title="Copy output up to this point">
+          {copied ? <Check className="size-4 text-emerald-500" /> : <Copy className="size-4" />}
+        </Button>
+        <Button variant="ghost" size="icon-sm" onClick={handleDownload} title="Download recording">
+          <Download className="size-4" />
+        </Button>
+      </div>
+
+      {markers.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {markers.map((marker, index) => {
+            const next = markers[index + 1]?.time ?? Infinity
+            return (
+              <Button
+                key={`${marker.time}-${marker.label}`}
+                variant={time >= marker.time && time < next ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setTime(marker.time)}
+              >
+                {marker.label}
+                <span className="font-mono text-muted-foreground">{formatTime(marker.time)}</span>
+              </Button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface TaskRecordingProps {
+  taskId: string
+}
+
+/**
+ * Terminal recording of the latest run of a task, for a chosen kind of run
+ */
+export function TaskRecording({ taskId }: TaskRecordingProps) {
+  const [mode, setMode] = useState<RunMode>(RunMode.ORACLE)
+  const { data: run, isLoading: runLoading } = useLatestTaskRun(taskId, mode)
+  const { data: source, isLoading: recordingLoading, error } = useRunRecording(run)
+
+  const recording = useMemo(() => {
+    if (!source) return null
+    try {
+      return parseAsciicast(source)
+    } catch {
+      return null
+    }
+  }, [source])
+
+  const renderBody = () => {
+    if (runLoading || recordingLoading) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="size-4 animate-spin" />
+          Loading recording…
+        </div>
+      )
+    }
+    if (!run) {
+      return <p className="text-sm text-muted-foreground">This task has no run of this kind yet.</p>
+    }
+    if (ACTIVE_RUN_STATUSES.includes(run.status)) {
+      return <p className="text-sm text-muted-foreground">The recording is available once the run finishes.</p>
+    }
+    if (!run.recording) {
+      return <p className="text-sm text-muted-foreground">The latest run has no recording.</p>
+    }
+    if (error || !source || !recording) {
+      return <p className="text-sm text-red-500">The recording could not be loaded.</p>
+    }
+    return <RecordingPlayer key={run.id} recording={recording} source={source} fileName={`run-${run.id}.cast`} />
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Latest</span>
+        <Select value={mode} onValueChange={(value) => setMode(value as RunMode)}>
+          <SelectTrigger className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RECORDED_MODES.map(({ mode: value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {run && <span className="ml-auto text-xs text-muted-foreground">v{run.version}</span>}
+      </div>
+      {renderBody()}
+    </div>
+  )
+}
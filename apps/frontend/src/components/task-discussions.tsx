@@ -0,0 +1,268 @@
+"use client"
+
+/**
+ * Task Discussions
+ * Threads in which a task's author and reviewers discuss the task or one of its reviews
+ */
+
+import { useState } from 'react'
+import { getDecisionLabel, getRelativeTime, formatDate } from '@repo/types'
+import type { DiscussionThread, Review, UserSummary } from '@repo/types'
+import { useTaskThreads, useOpenThread, useReplyToThread, useSetThreadResolved } from '@/hooks/use-threads'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CircleCheckBig, Loader2, MessagesSquare, MessageSquareReply, RotateCcw } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+// Select value for a thread about the task as a whole
+const WHOLE_TASK = 'task'
+
+function getUserName(user: UserSummary | null | undefined): string {
+  return user?.name || user?.email || 'Unknown'
+}
+
+function describeReview(review: Review): string {
+  return `${getUserName(review.reviewer)}'s review (${getDecisionLabel(review.decision)}, ${formatDate(review.createdAt)})`
+}
+
+interface ThreadCardProps {
+  taskId: string
+  thread: DiscussionThread
+  review?: Review
+  canResolve: boolean
+}
+
+function ThreadCard({ taskId, thread, review, canResolve }: ThreadCardProps) {
+  const isResolved = !!thread.resolvedAt
+  const [isExpanded, setIsExpanded] = useState(!isResolved)
+  const [isReplying, setIsReplying] = useState(false)
+  const [reply, setReply] = useState('')
+
+  const replyMutation = useReplyToThread(taskId)
+  const resolvedMutation = useSetThreadResolved(taskId)
+
+  const messages = thread.messages ?? []
+  const shownMessages = isExpanded ? messages : messages.slice(0, 1)
+
+  const handleReply = () => {
+    if (!reply.trim()) return
+    replyMutation.mutate(
+      { threadId: thread.id, body: reply.trim() },
+      {
+        onSuccess: () => {
+          setReply('')
+          setIsReplying(false)
+        },
+      }
+    )
+  }
+
+  const error = replyMutation.error ?? resolvedMutation.error
+
+  return (
+    <div className={cn('rounded-xl border border-border/50', isResolved && 'bg-secondary/10')}>
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border/50 text-sm">
+        <span className="font-medium truncate">{review ? `On ${describeReview(review)}` : 'On the task'}</span>
+        {isResolved ? (
+          <Badge variant="outline" className="text-xs font-normal text-emerald-600 border-emerald-500/30">
+            Resolved by {getUserName(thread.resolvedBy)}
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-xs font-normal text-amber-600 border-amber-500/30">
+            Open
+          </Badge>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {isResolved ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              onClick={() => resolvedMutation.mutate({ threadId: thread.id, resolved: false })}
+              disabled={resolvedMutation.isPending}
+            >
+              <RotateCcw className="size-3.5" />
+              Reopen
+            </Button>
+          ) : canResolve && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              onClick={() => resolvedMutation.mutate({ threadId: thread.id, resolved: true })}
+              disabled={resolvedMutation.isPending}
+            >
+              <CircleCheckBig className="size-3.5" />
+              Resolve
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-border/30">
+        {shownMessages.map((message) => (
+          <li key={message.id} className="px-4 py-3">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground/80">{getUserName(message.author)}</span>
+              <span>{getRelativeTime(message.createdAt)}</span>
+            </div>
+            <p className="mt-1 text-sm whitespace-pre-wrap">{message.body}</p>
+          </li>
+        ))}
+      </ul>
+
+      <div className="px-4 py-2 border-t border-border/30 space-y-2">
+        {messages.length > 1 && isResolved && (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-xs text-primary hover:underline"
+          >
+            {isExpanded ? 'Hide replies' : `Show ${messages.length - 1} ${messages.length === 2 ? 'reply' : 'replies'}`}
+          </button>
+        )}
+
+        {isReplying ? (
+          <div className="space-y-2 pt-1">
+            <Textarea
+              value={reply}
+              onChange={(event) => setReply(event.target.value)}
+              placeholder="Write a reply..."
+              className="min-h-[70px] text-sm"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsReplying(false)} disabled={replyMutation.isPending}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleReply} disabled={!reply.trim() || replyMutation.isPending}>
+                {replyMutation.isPending && <Loader2 className="size-3.5 animate-spin" />}
+                Reply
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => setIsReplying(true)}>
+            <MessageSquareReply className="size-3.5" />
+            Reply
+          </Button>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface TaskDiscussionsProps {
+  taskId: string
+  reviews?: Review[]
+  currentUserId?: string
+  /** Reviewers can resolve any thread; others only the ones they started */
+  isReviewer?: boolean
+}
+
+/**
+ * A task's discussion threads, open ones first, and a form to start one
+ */
+export function TaskDiscussions({ taskId, reviews = [], currentUserId, isReviewer = false }: TaskDiscussionsProps) {
+  const [body, setBody] = useState('')
+  const [subject, setSubject] = useState(WHOLE_TASK)
+
+  const { data: threads = [], isLoading } = useTaskThreads(taskId)
+  const openMutation = useOpenThread(taskId)
+
+  const reviewsById = new Map(reviews.map((review) => [review.id, review]))
+  const sortedThreads = [...threads].sort((a, b) => Number(!!a.resolvedAt) - Number(!!b.resolvedAt))
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length
+
+  const handleOpen = () => {
+    if (!body.trim()) return
+    openMutation.mutate(
+      { body: body.trim(), reviewId: subject === WHOLE_TASK ? undefined : subject },
+      {
+        onSuccess: () => {
+          setBody('')
+          setSubject(WHOLE_TASK)
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-xl border border-border/50 p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm">
+          <MessagesSquare className="size-4 text-muted-foreground" />
+          <span className="font-medium">Start a discussion</span>
+          {reviews.length > 0 && (
+            <Select value={subject} onValueChange={setSubject}>
+              <SelectTrigger className="ml-auto h-8 w-auto max-w-[60%] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_TASK}>About the task</SelectItem>
+                {reviews.map((review) => (
+                  <SelectItem key={review.id} value={review.id}>
+                    About {describeReview(review)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <Textarea
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          placeholder="Ask a question or explain a change..."
+          className="min-h-[80px] text-sm"
+        />
+        {openMutation.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{openMutation.error.message}</AlertDescription>
+          </Alert>
+        )}
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleOpen} disabled={!body.trim() || openMutation.isPending}>
+            {openMutation.isPending && <Loader2 className="size-3.5 animate-spin" />}
+            Start Discussion
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full rounded-xl" />
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No discussions yet</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {openCount} open · {threads.length - openCount} resolved
+          </p>
+          {sortedThreads.map((thread) => (
+            <ThreadCard
+              key={thread.id}
+              taskId={taskId}
+              thread={thread}
+              review={thread.reviewId ? reviewsById.get(thread.reviewId) : undefined}
+              canResolve={isReviewer || thread.authorId === currentUserId}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
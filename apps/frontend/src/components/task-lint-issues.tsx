@@ -0,0 +1,69 @@
+"use client"
+
+/**
+ * Task Lint Issues
+ * Lists lint findings for a task's files with their severity and position
+ */
+
+import type { LintIssue } from '@repo/types'
+import { Badge } from '@/components/ui/badge'
+import { XCircle, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+const FIELD_FILE_NAMES: Record<LintIssue['field'], string> = {
+  taskYaml: 'task.yaml',
+  dockerComposeYaml: 'docker-compose.yaml',
+  solutionSh: 'solution.sh',
+  runTestsSh: 'run-tests.sh',
+}
+
+interface TaskLintIssuesProps {
+  issues: LintIssue[]
+  /** Show the file name in each position (when issues span several files) */
+  showFile?: boolean
+  /** Message shown when there are no issues; nothing is rendered when omitted */
+  emptyMessage?: string
+  className?: string
+}
+
+export function TaskLintIssues({ issues, showFile = false, emptyMessage, className }: TaskLintIssuesProps) {
+  if (issues.length === 0) {
+    return emptyMessage ? (
+      <div className={cn('flex items-center gap-2 text-sm text-muted-foreground', className)}>
+        <CheckCircle2 className="size-4 text-emerald-500" />
+        {emptyMessage}
+      </div>
+    ) : null
+  }
+
+  return (
+    <ul className={cn('space-y-1.5', className)}>
+      {issues.map((issue, index) => (
+        <li
+          key={`${issue.field}-${issue.rule}-${issue.line}-${issue.column}-${index}`}
+          className={cn(
+            'flex items-start gap-2 rounded-md border px-3 py-2 text-sm',
+            issue.severity === 'error'
+              ? 'border-red-500/30 bg-red-500/5'
+              : 'border-amber-500/30 bg-amber-500/5'
+          )}
+        >
+          {issue.severity === 'error' ? (
+            <XCircle className="size-4 mt-0.5 shrink-0 text-red-500" />
+          ) : (
+            <AlertTriangle className="size-4 mt-0.5 shrink-0 text-amber-500" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p>{issue.message}</p>
+            <p className="text-xs font-mono text-muted-foreground">
+              {showFile && `${FIELD_FILE_NAMES[issue.field]}:`}{issue.line}:{issue.column}
+            </p>
+          </div>
+          <Badge variant="outline" className="font-mono text-[10px] shrink-0">
+            {issue.rule}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  )
+}
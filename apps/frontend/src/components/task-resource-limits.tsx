@@ -0,0 +1,30 @@
+/**
+ * Task Resource Limits
+ * CPU, memory, disk and network tiles for a task's Execution Limits card
+ */
+
+import { NETWORK_POLICY_LABELS } from '@repo/types'
+import type { TaskResourceLimits } from '@repo/types'
+
+function LimitTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 rounded-lg bg-secondary/30">
+      <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+    </div>
+  )
+}
+
+/**
+ * Tiles of a task's resource limits, meant for a two-column grid
+ */
+export function ResourceLimitTiles({ limits }: { limits: TaskResourceLimits }) {
+  return (
+    <>
+      <LimitTile label="CPU" value={limits.cpuLimit !== null ? `${limits.cpuLimit} cores` : 'No limit'} />
+      <LimitTile label="Memory" value={limits.memoryLimitMb !== null ? `${limits.memoryLimitMb} MB` : 'No limit'} />
+      <LimitTile label="Disk" value={limits.diskLimitMb !== null ? `${limits.diskLimitMb} MB` : 'No limit'} />
+      <LimitTile label="Network" value={NETWORK_POLICY_LABELS[limits.networkPolicy]} />
+    </>
+  )
+}
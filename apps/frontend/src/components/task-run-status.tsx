@@ -0,0 +1,232 @@
+"use client"
+
+/**
+ * Task Run Status
+ * Starts a run of a task's solution and tests and shows the latest result
+ */
+
+import { useLatestTaskRun, useStartTaskRun, useCancelTaskRun } from '@/hooks/use-runs'
+import { useToast } from '@/hooks/use-toast'
+import { formatApiErrorDetails } from '@/lib/api-client'
+import { RunStatus, RunMode, RUN_STATUS_LABELS, RUN_STATUS_COLORS, ACTIVE_RUN_STATUSES, getRelativeTime } from '@repo/types'
+import type { TaskRun, RunPhaseResult, RunTestResult } from '@repo/types'
+import { RunLogButton } from '@/components/run-log-viewer'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Loader2, Play, CheckCircle2, XCircle, Clock, AlertTriangle, CircleDashed, Ban, Square } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+export const STATUS_ICONS: Record<RunStatus, typeof CheckCircle2> = {
+  [RunStatus.QUEUED]: CircleDashed,
+  [RunStatus.RUNNING]: Loader2,
+  [RunStatus.PASSED]: CheckCircle2,
+  [RunStatus.FAILED]: XCircle,
+  [RunStatus.TIMED_OUT]: Clock,
+  [RunStatus.ERROR]: AlertTriangle,
+  [RunStatus.CANCELLED]: Ban,
+}
+
+/**
+ * A run's status, with its place in the queue while it waits
+ */
+export function getRunStatusLabel(run: TaskRun): string {
+  return run.status === RunStatus.QUEUED && run.queuePosition
+    ? `${RUN_STATUS_LABELS[run.status]} · #${run.queuePosition}`
+    : RUN_STATUS_LABELS[run.status]
+}
+
+const PHASE_LABELS: Record<RunPhaseResult['phase'], string> = {
+  'null-tests': 'run-tests.sh (no solution)',
+  solution: 'solution.sh',
+  tests: 'run-tests.sh',
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  const seconds = Math.round(ms / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function RunPhaseDetails({ phase }: { phase: RunPhaseResult }) {
+  const output = [phase.stdout, phase.stderr].filter(Boolean).join('\n').trim()
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-mono">{PHASE_LABELS[phase.phase]}</span>
+        <span className={cn('font-mono', phase.exitCode === 0 ? 'text-emerald-500' : 'text-red-500')}>
+          {phase.timedOut ? 'timed out' : `exit ${phase.exitCode ?? '?'}`} · {formatDuration(phase.durationMs)}
+        </span>
+      </div>
+      {output && (
+        <ScrollArea className="h-28 rounded border border-border bg-secondary/30">
+          <pre className="p-2 text-[11px] font-mono whitespace-pre-wrap break-all">{output.slice(-4000)}</pre>
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
+
+function TestResultList({ label, results }: { label: string; results: RunTestResult[] }) {
+  const failed = results.filter((test) => test.status === 'failed')
+  const passed = results.filter((test) => test.status === 'passed')
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">
+        {label}: {passed.length} passed, {failed.length} failed
+        {results.length > passed.length + failed.length &&
+          `, ${results.length - passed.length - failed.length} skipped`}
+      </p>
+      <ul className="max-h-32 overflow-y-auto space-y-0.5">
+        {results.map((test) => (
+          <li key={test.name} className="flex items-center gap-1.5 text-[11px] font-mono">
+            {test.status === 'passed' ? (
+              <CheckCircle2 className="size-3 shrink-0 text-emerald-500" />
+            ) : test.status === 'failed' ? (
+              <XCircle className="size-3 shrink-0 text-red-500" />
+            ) : (
+              <CircleDashed className="size-3 shrink-0 text-muted-foreground" />
+            )}
+            <span className="truncate" title={test.message ? `${test.name}\n${test.message}` : test.name}>{test.name}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function RunDetails({ run }: { run: TaskRun }) {
+  const isVerification = run.mode === RunMode.VERIFICATION
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Version {run.version}{run.runtime && ` · ${run.runtime}`}</span>
+        <div className="flex items-center gap-2">
+          <span>{getRelativeTime(run.createdAt)}</span>
+          <RunLogButton runId={run.id} title={`Run log · version ${run.version}`} className="h-7" />
+        </div>
+      </div>
+
+      {run.error && (
+        <p className="rounded border border-red-500/30 bg-red-500/5 p-2 text-xs text-red-500 whitespace-pre-wrap">
+          {run.error}
+        </p>
+      )}
+
+      {run.phases.map((phase) => (
+        <RunPhaseDetails key={phase.phase} phase={phase} />
+      ))}
+
+      {isVerification && run.nullTestResults.length > 0 && (
+        <TestResultList label="Without solution" results={run.nullTestResults} />
+      )}
+
+      {run.testResults.length > 0 && (
+        <TestResultList label={isVerification ? 'With solution' : 'Tests'} results={run.testResults} />
+      )}
+    </div>
+  )
+}
+
+interface CancelRunButtonProps {
+  taskId: string
+  run: TaskRun
+  mode?: RunMode
+  className?: string
+}
+
+/**
+ * Cancel a queued or running run
+ */
+export function CancelRunButton({ taskId, run, mode = RunMode.ORACLE, className }: CancelRunButtonProps) {
+  const { toast } = useToast()
+  const cancelMutation = useCancelTaskRun(taskId, mode)
+  const isCancelling = cancelMutation.isPending || !!run.cancelRequestedAt
+
+  const handleCancel = () => {
+    cancelMutation.mutate(run.id, {
+      onError: (error) => {
+        toast({
+          title: 'Could not cancel run',
+          description: formatApiErrorDetails(error).join('\n'),
+          variant: 'destructive',
+        })
+      },
+    })
+  }
+
+  return (
+    <Button variant="outline" onClick={handleCancel} disabled={isCancelling} className={cn('gap-2', className)}>
+      {isCancelling ? <Loader2 className="size-4 animate-spin" /> : <Square className="size-4" />}
+      {isCancelling ? 'Cancelling' : 'Cancel'}
+    </Button>
+  )
+}
+
+interface TaskRunStatusProps {
+  taskId: string
+  className?: string
+}
+
+export function TaskRunStatus({ taskId, className }: TaskRunStatusProps) {
+  const { toast } = useToast()
+  const { data: run, isLoading } = useLatestTaskRun(taskId)
+  const startMutation = useStartTaskRun(taskId)
+
+  const isActive = !!run && ACTIVE_RUN_STATUSES.includes(run.status)
+
+  const handleRun = () => {
+    startMutation.mutate(undefined, {
+      onError: (error) => {
+        toast({
+          title: 'Could not start run',
+          description: formatApiErrorDetails(error).join('\n'),
+          variant: 'destructive',
+        })
+      },
+    })
+  }
+
+  const StatusIcon = run ? STATUS_ICONS[run.status] : null
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      {run && StatusIcon && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <StatusIcon
+                className={cn(
+                  'size-4',
+                  RUN_STATUS_COLORS[run.status],
+                  run.status === RunStatus.RUNNING && 'animate-spin'
+                )}
+              />
+              <span>{getRunStatusLabel(run)}</span>
+              <span className="text-xs text-muted-foreground">v{run.version}</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-96">
+            <RunDetails run={run} />
+          </PopoverContent>
+        </Popover>
+      )}
+      {run && isActive ? (
+        <CancelRunButton taskId={taskId} run={run} />
+      ) : (
+        <Button
+          variant="outline"
+          onClick={handleRun}
+          disabled={isLoading || startMutation.isPending}
+          className="gap-2"
+        >
+          {startMutation.isPending ? <Loader2 className="size-4 animate-spin" /> : <Play className="size-4" />}
+          {run ? 'Re-run' : 'Run'}
+        </Button>
+      )}
+    </div>
+  )
+}
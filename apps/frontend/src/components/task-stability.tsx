@@ -0,0 +1,188 @@
+"use client"
+
+/**
+ * Task Stability
+ * Repeats a task's oracle run to find flaky tests and shows per-test pass rates
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useLatestTaskRun, useStartTaskRun } from '@/hooks/use-runs'
+import { useToast } from '@/hooks/use-toast'
+import { formatApiErrorDetails } from '@/lib/api-client'
+import {
+  RunMode,
+  RunStatus,
+  RUN_STATUS_LABELS,
+  RUN_STATUS_COLORS,
+  ACTIVE_RUN_STATUSES,
+  DEFAULT_STABILITY_ITERATIONS,
+  MAX_STABILITY_ITERATIONS,
+  getRelativeTime,
+} from '@repo/types'
+import type { StabilityReport } from '@repo/types'
+import { Badge } from '@/components/ui/badge'
+import { RunLogButton } from '@/components/run-log-viewer'
+import { CancelRunButton, getRunStatusLabel } from '@/components/task-run-status'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Repeat } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+const ITERATION_CHOICES = [3, DEFAULT_STABILITY_ITERATIONS, 10, MAX_STABILITY_ITERATIONS]
+
+function formatPassRate(passRate: number): string {
+  return `${Math.round(passRate * 100)}%`
+}
+
+interface StabilityBadgeProps {
+  report: StabilityReport
+  className?: string
+}
+
+/**
+ * "Stable" or "Flaky" badge for a task's latest stability check
+ */
+export function StabilityBadge({ report, className }: StabilityBadgeProps) {
+  const unstableTests = report.tests.filter((test) => !test.stable).length
+  const title = `Version ${report.version}: run-tests.sh passed in ${report.passedIterations} of ${report.iterations} runs`
+
+  return (
+    <Badge
+      variant="outline"
+      title={title}
+      className={cn(
+        report.stable ? 'border-emerald-500/30 text-emerald-500' : 'border-orange-500/30 text-orange-500',
+        className
+      )}
+    >
+      {report.stable
+        ? 'Stable'
+        : unstableTests > 0
+          ? `Flaky · ${unstableTests} test${unstableTests !== 1 ? 's' : ''}`
+          : `Flaky · ${report.passedIterations}/${report.iterations} runs`}
+    </Badge>
+  )
+}
+
+interface TaskStabilityCheckProps {
+  taskId: string
+  report: StabilityReport | null | undefined
+}
+
+/**
+ * Per-test pass rates of the latest stability check, and a control to run one
+ */
+export function TaskStabilityCheck({ taskId, report }: TaskStabilityCheckProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [iterations, setIterations] = useState(String(DEFAULT_STABILITY_ITERATIONS))
+  const { data: run, isLoading } = useLatestTaskRun(taskId, RunMode.STABILITY)
+  const startMutation = useStartTaskRun(taskId, RunMode.STABILITY)
+
+  const isActive = !!run && ACTIVE_RUN_STATUSES.includes(run.status)
+  const completedIterations = run ? run.phases.filter((phase) => phase.phase === 'tests').length : 0
+
+  // The report is stored with the task version, so refresh the task when a check finishes
+  const wasActive = useRef(isActive)
+  useEffect(() => {
+    if (wasActive.current && !isActive) {
+      queryClient.invalidateQueries({ queryKey: ['reviewer', 'tasks'] })
+    }
+    wasActive.current = isActive
+  }, [isActive, queryClient])
+
+  const handleStart = () => {
+    startMutation.mutate({ iterations: Number(iterations) }, {
+      onError: (error) => {
+        toast({
+          title: 'Could not start stability check',
+          description: formatApiErrorDetails(error).join('\n'),
+          variant: 'destructive',
+        })
+      },
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {report ? (
+            <>
+              <StabilityBadge report={report} />
+              <span>
+                {report.passedIterations}/{report.iterations} runs passed · version {report.version} ·{' '}
+                {getRelativeTime(report.createdAt)}
+              </span>
+            </>
+          ) : (
+            <span>No stability check has been run on the latest version yet.</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {run && (isActive || run.status === RunStatus.ERROR || run.status === RunStatus.CANCELLED) && (
+            <span className={cn('text-xs', RUN_STATUS_COLORS[run.status])}>
+              {run.status === RunStatus.RUNNING
+                ? `${RUN_STATUS_LABELS[run.status]} · ${completedIterations}/${run.iterations}`
+                : getRunStatusLabel(run)}
+            </span>
+          )}
+          {run && <RunLogButton runId={run.id} title={`Stability check log · version ${run.version}`} className="h-9" />}
+          <Select value={iterations} onValueChange={setIterations} disabled={isActive}>
+            <SelectTrigger className="h-9 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ITERATION_CHOICES.map((choice) => (
+                <SelectItem key={choice} value={String(choice)}>
+                  {choice} runs
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {run && isActive ? (
+            <CancelRunButton taskId={taskId} run={run} mode={RunMode.STABILITY} />
+          ) : (
+            <Button
+              variant="outline"
+              onClick={handleStart}
+              disabled={isLoading || startMutation.isPending}
+              className="gap-2"
+            >
+              {startMutation.isPending ? <Loader2 className="size-4 animate-spin" /> : <Repeat className="size-4" />}
+              Check stability
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {run?.status === RunStatus.ERROR && run.error && (
+        <p className="rounded border border-red-500/30 bg-red-500/5 p-2 text-xs text-red-500 whitespace-pre-wrap">
+          {run.error}
+        </p>
+      )}
+
+      {report && report.tests.length > 0 && (
+        <ul className="space-y-1">
+          {report.tests.map((test) => (
+            <li key={test.name} className="flex items-center gap-3 text-xs">
+              <span className="flex-1 truncate font-mono" title={test.name}>{test.name}</span>
+              <span className="text-muted-foreground">
+                {test.passed} passed · {test.failed} failed{test.skipped > 0 && ` · ${test.skipped} skipped`}
+              </span>
+              <span
+                className={cn(
+                  'w-12 text-right font-mono',
+                  test.stable ? 'text-emerald-500' : 'text-orange-500'
+                )}
+              >
+                {test.skipped === report.iterations ? 'skip' : formatPassRate(test.passRate)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
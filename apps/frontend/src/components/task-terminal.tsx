@@ -0,0 +1,228 @@
+"use client"
+
+/**
+ * Task Terminal
+ * Interactive shell into a task's environment, for reviewers to poke at the task as an agent would
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import type { Terminal } from '@xterm/xterm'
+import '@xterm/xterm/css/xterm.css'
+import { api } from '@/lib/api-client'
+import type { TerminalClientMessage, TerminalServerMessage } from '@repo/types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Loader2, Power, RotateCcw, SquareTerminal } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+type TerminalPhase = 'opening' | 'building' | 'ready' | 'ended'
+
+const PHASE_LABELS: Record<TerminalPhase, string> = {
+  opening: 'Opening session…',
+  building: 'Building environment…',
+  ready: 'Connected',
+  ended: 'Ended',
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * Time left until a moment, updated every second
+ */
+function useRemaining(until: string | null): number | null {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!until) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [until])
+
+  return until ? new Date(until).getTime() - now : null
+}
+
+interface TaskTerminalProps {
+  taskId: string
+  className?: string
+}
+
+/**
+ * Terminal attached to a new session into the latest version of a task
+ * The session starts on mount and ends on unmount.
+ */
+export function TaskTerminal({ taskId, className }: TaskTerminalProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const socketRef = useRef<WebSocket | null>(null)
+  const [attempt, setAttempt] = useState(0)
+  const [phase, setPhase] = useState<TerminalPhase>('opening')
+  const [endMessage, setEndMessage] = useState<string | null>(null)
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
+  const remaining = useRemaining(phase === 'ready' ? expiresAt : null)
+
+  useEffect(() => {
+    let disposed = false
+    let terminal: Terminal | null = null
+    let resizeObserver: ResizeObserver | null = null
+
+    setPhase('opening')
+    setEndMessage(null)
+    setExpiresAt(null)
+
+    const end = (message: string) => {
+      setPhase('ended')
+      setEndMessage((previous) => previous ?? message)
+    }
+
+    const start = async () => {
+      // xterm needs the DOM, so it is only loaded in the browser
+      const [{ Terminal }, { FitAddon }] = await Promise.all([import('@xterm/xterm'), import('@xterm/addon-fit')])
+      if (disposed || !containerRef.current) return
+
+      terminal = new Terminal({
+        cursorBlink: true,
+        fontSize: 12,
+        fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+        theme: { background: '#09090b' },
+      })
+      const fit = new FitAddon()
+      terminal.loadAddon(fit)
+      terminal.open(containerRef.current)
+      fit.fit()
+
+      let session
+      try {
+        session = await api.terminals.open(taskId)
+      } catch (error) {
+        end(error instanceof Error ? error.message : 'The session could not be opened')
+        return
+      }
+      if (disposed) return
+
+      const socket = new WebSocket(api.terminals.socketUrl(session))
+      socketRef.current = socket
+      const send = (message: TerminalClientMessage) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+      }
+      const current = terminal
+
+      socket.onopen = () => {
+        setPhase('building')
+        send({ type: 'resize', cols: current.cols, rows: current.rows })
+      }
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as TerminalServerMessage
+        if (message.type === 'output') {
+          current.write(message.data)
+        } else if (message.type === 'ready') {
+          setPhase('ready')
+          setExpiresAt(message.expiresAt)
+          current.focus()
+        } else {
+          end(message.message)
+        }
+      }
+      socket.onclose = () => end('The connection to the session was lost')
+
+      current.onData((data) => send({ type: 'input', data }))
+      current.onResize(({ cols, rows }) => send({ type: 'resize', cols, rows }))
+      resizeObserver = new ResizeObserver(() => fit.fit())
+      resizeObserver.observe(containerRef.current)
+    }
+
+    void start()
+
+    return () => {
+      disposed = true
+      resizeObserver?.disconnect()
+      socketRef.current?.close()
+      socketRef.current = null
+      terminal?.dispose()
+    }
+  }, [taskId, attempt])
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      <div className="flex items-center gap-2 text-xs">
+        <Badge variant="outline" className="gap-1.5">
+          {(phase === 'opening' || phase === 'building') && <Loader2 className="size-3 animate-spin" />}
+          {PHASE_LABELS[phase]}
+        </Badge>
+        {remaining !== null && (
+          <span className={cn('text-muted-foreground', remaining < 5 * 60 * 1000 && 'text-amber-500')}>
+            {formatRemaining(remaining)} left
+          </span>
+        )}
+        <div className="ml-auto">
+          {phase === 'ended' ? (
+            <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setAttempt((value) => value + 1)}>
+              <RotateCcw className="size-3.5" />
+              New session
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              onClick={() => {
+                setEndMessage('The session was closed')
+                socketRef.current?.close()
+              }}
+              disabled={phase === 'opening'}
+            >
+              <Power className="size-3.5" />
+              End session
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div ref={containerRef} className="h-[60vh] overflow-hidden rounded border border-border bg-[#09090b] p-2" />
+
+      {endMessage && (
+        <p className="rounded border border-border bg-secondary/30 p-2 text-xs text-muted-foreground whitespace-pre-wrap">
+          {endMessage}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface TaskTerminalButtonProps {
+  taskId: string
+  className?: string
+}
+
+/**
+ * Button that opens a terminal into a task's environment in a dialog
+ * Closing the dialog ends the session; Escape is left to the terminal.
+ */
+export function TaskTerminalButton({ taskId, className }: TaskTerminalButtonProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={cn('gap-1.5', className)}>
+          <SquareTerminal className="size-3.5" />
+          Terminal
+        </Button>
+      </DialogTrigger>
+      <DialogContent
+        className="sm:max-w-5xl"
+        onEscapeKeyDown={(event) => event.preventDefault()}
+        onInteractOutside={(event) => event.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Terminal</DialogTitle>
+          <DialogDescription>
+            A shell in the task&apos;s environment, built from its latest version. The session is time-limited and
+            recorded.
+          </DialogDescription>
+        </DialogHeader>
+        <TaskTerminal taskId={taskId} />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+
+/**
+ * Task Test Results
+ * Per-test outcomes of a task version's latest run, and what changed since another version
+ */
+
+import { Fragment, useState } from 'react'
+import { useTestResultComparison } from '@/hooks/use-runs'
+import { RUN_STATUS_LABELS, RUN_STATUS_COLORS, getRelativeTime } from '@repo/types'
+import type { RunTestResult, RunTestStatus, TestResultChange } from '@repo/types'
+import { formatDuration } from '@/components/task-run-status'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ArrowRight, CheckCircle2, CircleDashed, Loader2, Minus, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+type StatusFilter = RunTestStatus | 'all'
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'failed', 'passed', 'skipped']
+
+const STATUS_LABELS: Record<RunTestStatus, string> = {
+  passed: 'Passed',
+  failed: 'Failed',
+  skipped: 'Skipped',
+}
+
+function TestStatus({ result }: { result: RunTestResult | null }) {
+  if (!result) {
+    return (
+      <span className="flex items-center gap-1.5 text-muted-foreground">
+        <Minus className="size-3.5 shrink-0" />
+        Not run
+      </span>
+    )
+  }
+
+  const Icon = result.status === 'passed' ? CheckCircle2 : result.status === 'failed' ? XCircle : CircleDashed
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-1.5',
+        result.status === 'passed' && 'text-emerald-500',
+        result.status === 'failed' && 'text-red-500',
+        result.status === 'skipped' && 'text-muted-foreground'
+      )}
+    >
+      <Icon className="size-3.5 shrink-0" />
+      {STATUS_LABELS[result.status]}
+    </span>
+  )
+}
+
+function TestMessage({ message }: { message: string }) {
+  return (
+    <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-secondary/40 p-2 text-[11px] font-mono">
+      {message}
+    </pre>
+  )
+}
+
+/**
+ * Table of test results; rows with a message expand to show it
+ */
+export function TestResultsTable({ results }: { results: RunTestResult[] }) {
+  const [filter, setFilter] = useState<StatusFilter>('all')
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const counts = {
+    all: results.length,
+    passed: results.filter((test) => test.status === 'passed').length,
+    failed: results.filter((test) => test.status === 'failed').length,
+    skipped: results.filter((test) => test.status === 'skipped').length,
+  }
+  const visible = filter === 'all' ? results : results.filter((test) => test.status === filter)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {STATUS_FILTERS.map((status) => (
+          <Button
+            key={status}
+            variant={filter === status ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setFilter(status)}
+            disabled={status !== 'all' && counts[status] === 0}
+          >
+            {status === 'all' ? 'All' : STATUS_LABELS[status]} ({counts[status]})
+          </Button>
+        ))}
+      </div>
+
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-24">Status</TableHead>
+            <TableHead>Test</TableHead>
+            <TableHead className="w-20 text-right">Duration</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visible.map((test) => (
+            <Fragment key={test.name}>
+              <TableRow
+                className={cn(test.message && 'cursor-pointer')}
+                onClick={() => test.message && setExpanded(expanded === test.name ? null : test.name)}
+              >
+                <TableCell className="py-1.5">
+                  <TestStatus result={test} />
+                </TableCell>
+                <TableCell className="py-1.5 font-mono break-all">
+                  {test.name}
+                  {test.message && expanded !== test.name && (
+                    <span className="ml-2 text-muted-foreground">{test.message.split('\n')[0].slice(0, 120)}</span>
+                  )}
+                </TableCell>
+                <TableCell className="py-1.5 text-right font-mono text-muted-foreground">
+                  {test.durationMs != null ? formatDuration(test.durationMs) : '—'}
+                </TableCell>
+              </TableRow>
+              {test.message && expanded === test.name && (
+                <TableRow className="hover:bg-transparent">
+                  <TableCell colSpan={3} className="pt-0">
+                    <TestMessage message={test.message} />
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+/**
+ * Table of tests whose outcome changed between two versions
+ */
+export function TestResultChanges({ changes }: { changes: TestResultChange[] }) {
+  return (
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Test</TableHead>
+          <TableHead className="w-48">Outcome</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change) => (
+          <TableRow key={change.name}>
+            <TableCell className="py-1.5 align-top font-mono break-all">
+              {change.name}
+              {change.to?.message && <div className="mt-1.5"><TestMessage message={change.to.message} /></div>}
+            </TableCell>
+            <TableCell className="py-1.5 align-top">
+              <div className="flex items-center gap-2">
+                <TestStatus result={change.from} />
+                <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+                <TestStatus result={change.to} />
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+interface TaskTestResultsProps {
+  taskId: string
+}
+
+/**
+ * Test results of a chosen task version, compared with another version
+ */
+export function TaskTestResults({ taskId }: TaskTestResultsProps) {
+  const [toVersion, setToVersion] = useState<number>()
+  const [fromVersion, setFromVersion] = useState<number>()
+  const { data: comparison, isLoading } = useTestResultComparison(taskId, fromVersion, toVersion)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="size-4 animate-spin" />
+        Loading test results…
+      </div>
+    )
+  }
+
+  if (!comparison?.to) {
+    return <p className="text-sm text-muted-foreground">No run of this task has reported test results yet.</p>
+  }
+
+  const { to, from, versions, changes } = comparison
+
+  const handleToVersionChange = (value: string) => {
+    const version = Number(value)
+    setToVersion(version)
+    // Fall back to the version before it rather than comparing a version with itself
+    if (version === fromVersion) setFromVersion(undefined)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Version</span>
+        <Select value={String(to.version)} onValueChange={handleToVersionChange}>
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {versions.map((version) => (
+              <SelectItem key={version} value={String(version)}>
+                v{version}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {versions.length > 1 && (
+          <>
+            <span className="text-muted-foreground">compared with</span>
+            <Select
+              value={from ? String(from.version) : undefined}
+              onValueChange={(value) => setFromVersion(Number(value))}
+            >
+              <SelectTrigger className="h-8 w-20">
+                <SelectValue placeholder="—" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions
+                  .filter((version) => version !== to.version)
+                  .map((version) => (
+                    <SelectItem key={version} value={String(version)}>
+                      v{version}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        <span className="ml-auto text-xs text-muted-foreground">
+          <span className={RUN_STATUS_COLORS[to.status]}>{RUN_STATUS_LABELS[to.status]}</span>
+          {' · '}
+          {to.mode.toLowerCase()} run · {getRelativeTime(to.finishedAt)}
+        </span>
+      </div>
+
+      {from && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium">
+            {changes.length > 0
+              ? `${changes.length} test${changes.length !== 1 ? 's' : ''} changed between v${from.version} and v${to.version}`
+              : `No test outcomes changed between v${from.version} and v${to.version}`}
+          </p>
+          {changes.length > 0 && <TestResultChanges changes={changes} />}
+        </div>
+      )}
+
+      <TestResultsTable results={to.testResults} />
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+/**
+ * Task Verification
+ * Runs the tests with and without the reference solution and shows whether
+ * they tell the two apart
+ */
+
+import { useLatestTaskRun, useStartTaskRun } from '@/hooks/use-runs'
+import { useToast } from '@/hooks/use-toast'
+import { formatApiErrorDetails } from '@/lib/api-client'
+import {
+  RunMode,
+  RunStatus,
+  RunVerdict,
+  RUN_STATUS_COLORS,
+  RUN_VERDICT_LABELS,
+  RUN_VERDICT_DESCRIPTIONS,
+  RUN_VERDICT_COLORS,
+  ACTIVE_RUN_STATUSES,
+} from '@repo/types'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { RunDetails, CancelRunButton, STATUS_ICONS, getRunStatusLabel } from '@/components/task-run-status'
+import { Loader2, ShieldCheck, ShieldAlert, ShieldX, ShieldQuestion } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+const VERDICT_ICONS: Record<RunVerdict, typeof ShieldCheck> = {
+  [RunVerdict.DISCRIMINATING]: ShieldCheck,
+  [RunVerdict.VACUOUS]: ShieldAlert,
+  [RunVerdict.ORACLE_FAILED]: ShieldX,
+}
+
+interface TaskVerificationProps {
+  taskId: string
+  className?: string
+}
+
+export function TaskVerification({ taskId, className }: TaskVerificationProps) {
+  const { toast } = useToast()
+  const { data: run, isLoading } = useLatestTaskRun(taskId, RunMode.VERIFICATION)
+  const startMutation = useStartTaskRun(taskId, RunMode.VERIFICATION)
+
+  const isActive = !!run && ACTIVE_RUN_STATUSES.includes(run.status)
+
+  const handleVerify = () => {
+    startMutation.mutate(undefined, {
+      onError: (error) => {
+        toast({
+          title: 'Could not start verification',
+          description: formatApiErrorDetails(error).join('\n'),
+          variant: 'destructive',
+        })
+      },
+    })
+  }
+
+  // Finished runs show their verdict; unfinished or errored runs show their status
+  const VerdictIcon = run?.verdict ? VERDICT_ICONS[run.verdict] : run ? STATUS_ICONS[run.status] : ShieldQuestion
+  const label = run?.verdict ? RUN_VERDICT_LABELS[run.verdict] : run ? getRunStatusLabel(run) : null
+  const color = run?.verdict ? RUN_VERDICT_COLORS[run.verdict] : run ? RUN_STATUS_COLORS[run.status] : undefined
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      {run && label && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <VerdictIcon
+                className={cn('size-4', color, run.status === RunStatus.RUNNING && !run.verdict && 'animate-spin')}
+              />
+              <span>{label}</span>
+              <span className="text-xs text-muted-foreground">v{run.version}</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-96 space-y-3">
+            {run.verdict && (
+              <p className={cn('text-xs', RUN_VERDICT_COLORS[run.verdict])}>
+                {RUN_VERDICT_DESCRIPTIONS[run.verdict]}
+              </p>
+            )}
+            <RunDetails run={run} />
+          </PopoverContent>
+        </Popover>
+      )}
+      {run && isActive ? (
+        <CancelRunButton taskId={taskId} run={run} mode={RunMode.VERIFICATION} />
+      ) : (
+        <Button
+          variant="outline"
+          onClick={handleVerify}
+          disabled={isLoading || startMutation.isPending}
+          className="gap-2"
+        >
+          {startMutation.isPending ? <Loader2 className="size-4 animate-spin" /> : <ShieldQuestion className="size-4" />}
+          {run ? 'Re-verify' : 'Verify'}
+        </Button>
+      )}
+    </div>
+  )
+}
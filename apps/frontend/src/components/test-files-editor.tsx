@@ -0,0 +1,276 @@
+"use client"
+
+/**
+ * Test Files Editor
+ * Edits the files under a task's tests/ directory as a tree of typed files
+ */
+
+import { useState, useMemo } from 'react'
+import type { TestFile } from '@repo/types'
+import { FILE_MODES, getDefaultFileMode, isValidTestFilePath, normalizeTestFiles } from '@repo/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { CodeBlock } from '@/components/ui/code-block'
+import { FileCode, Folder, Plus, Trash2, Pencil, Eye, Code, Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface TestFilesEditorProps {
+  files: TestFile[]
+  onChange: (files: TestFile[]) => void
+  className?: string
+}
+
+interface TreeNode {
+  name: string
+  path: string
+  children: TreeNode[]
+  file?: TestFile
+}
+
+/**
+ * Group flat test file paths into a directory tree (directories first)
+ */
+function buildTree(files: TestFile[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', children: [] }
+
+  for (const file of files) {
+    const segments = file.path.split('/')
+    let node = root
+    segments.forEach((segment, index) => {
+      const path = segments.slice(0, index + 1).join('/')
+      const isFile = index === segments.length - 1
+      let child = node.children.find((c) => c.name === segment && !c.file === !isFile)
+      if (!child) {
+        child = { name: segment, path, children: [], ...(isFile && { file }) }
+        node.children.push(child)
+      }
+      node = child
+    })
+  }
+
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name))
+      .map((node) => ({ ...node, children: sort(node.children) }))
+
+  return sort(root.children)
+}
+
+/**
+ * Why a path cannot be used for a test file, or null if it can
+ */
+function getPathError(path: string, files: TestFile[], currentPath?: string): string | null {
+  if (!isValidTestFilePath(path)) {
+    return 'Use a relative path inside tests/, e.g. test_outputs.py'
+  }
+  if (path !== currentPath && files.some((file) => file.path === path)) {
+    return `tests/${path} already exists`
+  }
+  return null
+}
+
+export function TestFilesEditor({ files, onChange, className }: TestFilesEditorProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(files[0]?.path ?? null)
+  const [newPath, setNewPath] = useState('')
+  const [renamePath, setRenamePath] = useState<string | null>(null)
+  const [isPreview, setIsPreview] = useState(false)
+
+  const tree = useMemo(() => buildTree(files), [files])
+  const selected = files.find((file) => file.path === selectedPath) ?? files[0]
+
+  const newPathError = newPath ? getPathError(newPath, files) : null
+  const renameError = renamePath !== null && selected ? getPathError(renamePath, files, selected.path) : null
+
+  const updateSelected = (changes: Partial<TestFile>) => {
+    if (!selected) return
+    onChange(normalizeTestFiles(
+      files.map((file) => (file.path === selected.path ? { ...file, ...changes } : file))
+    ))
+  }
+
+  const handleAdd = () => {
+    if (!newPath || newPathError) return
+    onChange(normalizeTestFiles([...files, { path: newPath, content: '', mode: getDefaultFileMode(newPath) }]))
+    setSelectedPath(newPath)
+    setNewPath('')
+    setIsPreview(false)
+  }
+
+  const handleRename = () => {
+    if (renamePath === null || renameError || !selected) return
+    updateSelected({ path: renamePath })
+    setSelectedPath(renamePath)
+    setRenamePath(null)
+  }
+
+  const handleDelete = () => {
+    if (!selected) return
+    const remaining = files.filter((file) => file.path !== selected.path)
+    onChange(remaining)
+    setSelectedPath(remaining[0]?.path ?? null)
+    setRenamePath(null)
+  }
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => (
+    <li key={`${node.file ? 'file' : 'dir'}:${node.path}`}>
+      {node.file ? (
+        <button
+          type="button"
+          onClick={() => {
+            setSelectedPath(node.path)
+            setRenamePath(null)
+          }}
+          className={cn(
+            'flex w-full items-center gap-1.5 rounded px-2 py-1 text-left text-xs font-mono hover:bg-secondary/50',
+            selected?.path === node.path && 'bg-secondary text-foreground'
+          )}
+          style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+        >
+          <FileCode className="size-3.5 shrink-0 text-muted-foreground" />
+          <span className="truncate">{node.name}</span>
+        </button>
+      ) : (
+        <>
+          <div
+            className="flex items-center gap-1.5 px-2 py-1 text-xs font-mono text-muted-foreground"
+            style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+          >
+            <Folder className="size-3.5 shrink-0" />
+            <span className="truncate">{node.name}/</span>
+          </div>
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        </>
+      )}
+    </li>
+  )
+
+  return (
+    <div className={cn('rounded-lg border border-border overflow-hidden', className)}>
+      <div className="grid grid-cols-[200px_1fr] min-h-[280px]">
+        {/* File tree */}
+        <div className="border-r border-border bg-secondary/20 flex flex-col">
+          <div className="px-2 py-2 text-xs font-mono text-muted-foreground border-b border-border">tests/</div>
+          <ul className="flex-1 overflow-auto py-1">
+            {tree.length === 0 ? (
+              <li className="px-2 py-1 text-xs text-muted-foreground">No test files</li>
+            ) : (
+              tree.map((node) => renderNode(node, 0))
+            )}
+          </ul>
+          <div className="border-t border-border p-2 space-y-1">
+            <div className="flex gap-1">
+              <Input
+                value={newPath}
+                onChange={(e) => setNewPath(e.target.value.trim())}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    handleAdd()
+                  }
+                }}
+                placeholder="test_outputs.py"
+                className="h-7 text-xs font-mono"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-7 w-7 p-0 shrink-0"
+                onClick={handleAdd}
+                disabled={!newPath || !!newPathError}
+                title="Add file"
+              >
+                <Plus className="size-3.5" />
+              </Button>
+            </div>
+            {newPathError && <p className="text-[11px] text-destructive">{newPathError}</p>}
+          </div>
+        </div>
+
+        {/* Selected file */}
+        {selected ? (
+          <div className="flex flex-col min-w-0">
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+              {renamePath !== null ? (
+                <>
+                  <Input
+                    value={renamePath}
+                    onChange={(e) => setRenamePath(e.target.value.trim())}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        handleRename()
+                      }
+                      if (e.key === 'Escape') setRenamePath(null)
+                    }}
+                    className="h-7 text-xs font-mono"
+                    autoFocus
+                  />
+                  <Button type="button" size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={handleRename} disabled={!!renameError} title="Save name">
+                    <Check className="size-3.5" />
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setRenamePath(null)} title="Cancel">
+                    <X className="size-3.5" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 truncate text-sm font-mono">tests/{selected.path}</span>
+                  <div className="flex items-center gap-1.5">
+                    <Switch
+                      id="test-file-executable"
+                      checked={selected.mode === FILE_MODES.EXECUTABLE}
+                      onCheckedChange={(checked) =>
+                        updateSelected({ mode: checked ? FILE_MODES.EXECUTABLE : FILE_MODES.FILE })
+                      }
+                    />
+                    <Label htmlFor="test-file-executable" className="text-xs text-muted-foreground">
+                      Executable
+                    </Label>
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={() => setIsPreview(!isPreview)}
+                    title={isPreview ? 'Edit' : 'Preview'}
+                  >
+                    {isPreview ? <Code className="size-3.5" /> : <Eye className="size-3.5" />}
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setRenamePath(selected.path)} title="Rename">
+                    <Pencil className="size-3.5" />
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" className="h-7 w-7 p-0 text-destructive" onClick={handleDelete} title="Delete">
+                    <Trash2 className="size-3.5" />
+                  </Button>
+                </>
+              )}
+            </div>
+            {renameError && <p className="px-3 pt-2 text-[11px] text-destructive">{renameError}</p>}
+            <div className="flex-1 p-3">
+              {isPreview ? (
+                <CodeBlock content={selected.content} filename={selected.path} maxHeight="320px" />
+              ) : (
+                <Textarea
+                  rows={12}
+                  value={selected.content}
+                  onChange={(e) => updateSelected({ content: e.target.value })}
+                  className="font-mono text-sm resize-none h-full"
+                  placeholder={`Contents of tests/${selected.path}`}
+                />
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center p-6 text-sm text-muted-foreground">
+            Add a file to start building the tests/ directory
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@
 
 import { format } from 'date-fns'
 import { Badge } from './badge'
+import { Button } from './button'
 import { Card, CardContent } from './card'
 import { ScrollArea } from './scroll-area'
 import {
@@ -19,9 +20,22 @@ import {
   Edit,
   Plus,
   RefreshCw,
+  SquareTerminal,
+  Download,
+  UserPlus,
+  Undo2,
+  TimerOff,
+  UserRoundCog,
+  MessageSquarePlus,
+  MessageSquareReply,
+  CircleCheckBig,
+  RotateCcw,
 } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { cn, saveBlob } from '@/lib/utils'
+import { api } from '@/lib/api-client'
+import { formatDuration } from '@/components/task-run-status'
 import { AUDIT_ACTION_LABELS } from '@repo/types'
+import type { TerminalEndReason } from '@repo/types'
 
 interface AuditLogEntry {
   id: string
@@ -66,6 +80,24 @@ function getActionIcon(action: string) {
       return <FileText className={iconClass} />
     case 'REVIEW_DECISION_CHANGED':
       return <RefreshCw className={iconClass} />
+    case 'TERMINAL_SESSION':
+      return <SquareTerminal className={iconClass} />
+    case 'TASK_ASSIGNED':
+      return <UserPlus className={iconClass} />
+    case 'REVIEW_RELEASED':
+      return <Undo2 className={iconClass} />
+    case 'REVIEW_LEASE_EXPIRED':
+      return <TimerOff className={iconClass} />
+    case 'REVIEW_REASSIGNED':
+      return <UserRoundCog className={iconClass} />
+    case 'THREAD_OPENED':
+      return <MessageSquarePlus className={iconClass} />
+    case 'THREAD_REPLIED':
+      return <MessageSquareReply className={iconClass} />
+    case 'THREAD_RESOLVED':
+      return <CircleCheckBig className={iconClass} />
+    case 'THREAD_REOPENED':
+      return <RotateCcw className={iconClass} />
     default:
       return <FileText className={iconClass} />
   }
@@ -94,6 +126,21 @@ function getActionColor(action: string) {
       return 'text-cyan-500 bg-cyan-500/10'
     case 'REVIEW_DECISION_CHANGED':
       return 'text-pink-500 bg-pink-500/10'
+    case 'TERMINAL_SESSION':
+      return 'text-zinc-500 bg-zinc-500/10'
+    case 'TASK_ASSIGNED':
+      return 'text-sky-500 bg-sky-500/10'
+    case 'REVIEW_RELEASED':
+    case 'REVIEW_LEASE_EXPIRED':
+      return 'text-slate-500 bg-slate-500/10'
+    case 'REVIEW_REASSIGNED':
+      return 'text-violet-500 bg-violet-500/10'
+    case 'THREAD_OPENED':
+    case 'THREAD_REPLIED':
+      return 'text-teal-500 bg-teal-500/10'
+    case 'THREAD_RESOLVED':
+    case 'THREAD_REOPENED':
+      return 'text-lime-600 bg-lime-500/10'
     default:
       return 'text-muted-foreground bg-muted'
   }
@@ -107,6 +154,7 @@ function formatState(state: string): string {
     DRAFT: 'Draft',
     SUBMITTED: 'Submitted for Review',
     IN_REVIEW: 'In Review',
+    PARTIALLY_APPROVED: 'Partially Approved',
     APPROVED: 'Approved',
     REJECTED: 'Rejected',
     CHANGES_REQUESTED: 'Changes Requested',
@@ -126,15 +174,42 @@ function formatDecision(decision: string): string {
   return decisionLabels[decision] || decision
 }
 
+const ASSIGNMENT_REASON_LABELS: Record<string, string> = {
+  submitted: 'Task submitted',
+  'partially-approved': 'Needs more approvals',
+  'capacity-freed': 'Reviewer freed up',
+  released: 'Previous reviewer released it',
+  'lease-expired': "Previous reviewer's claim lapsed",
+}
+
+const TERMINAL_END_REASON_LABELS: Record<TerminalEndReason, string> = {
+  exited: 'Shell exited',
+  closed: 'Closed',
+  'time-limit': 'Reached time limit',
+  idle: 'Idle',
+  replaced: 'Replaced by a newer session',
+  error: 'Environment failed to start',
+}
+
+async function downloadTranscript(sessionId: string) {
+  const { blob, fileName } = await api.terminals.transcript(sessionId)
+  saveBlob(blob, fileName || `terminal-${sessionId}.cast`)
+}
+
 /**
  * Metadata display component with smart formatting
  */
 function MetadataDisplay({ metadata, action }: { metadata: any; action: string }) {
   // Filter out internal fields
-  const hiddenFields = ['reviewId', 'taskId', 'hasComment', 'isDecisionChange']
+  const hiddenFields = ['reviewId', 'taskId', 'threadId', 'hasComment', 'isDecisionChange']
   
   // Special handling for different action types
-  if (action === 'TASK_SUBMITTED' || action === 'REVIEW_STARTED') {
+  if (
+    action === 'TASK_SUBMITTED' ||
+    action === 'REVIEW_STARTED' ||
+    action === 'REVIEW_RELEASED' ||
+    action === 'REVIEW_LEASE_EXPIRED'
+  ) {
     return (
       <div className="space-y-1.5 text-xs">
         {metadata.previousState && (
@@ -205,6 +280,75 @@ function MetadataDisplay({ metadata, action }: { metadata: any; action: string }
     )
   }
 
+  if (action === 'TASK_ASSIGNED') {
+    return (
+      <div className="space-y-1.5 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Assignee:</span>
+          <span className="font-medium">{metadata.assigneeName}</span>
+          {metadata.expertiseMatch && (
+            <Badge variant="outline" className="text-xs font-normal">
+              Expertise match
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Reason:</span>
+          <span>{ASSIGNMENT_REASON_LABELS[metadata.reason] ?? metadata.reason}</span>
+          <span className="text-muted-foreground">·</span>
+          <span>{metadata.openAssignments} of {metadata.capacity} open</span>
+        </div>
+      </div>
+    )
+  }
+
+  if (action === 'REVIEW_REASSIGNED') {
+    return (
+      <div className="space-y-1.5 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Reviewer:</span>
+          <span>{metadata.previousReviewerName ?? 'Unassigned'}</span>
+          <span className="text-muted-foreground">→</span>
+          <span className="font-medium">{metadata.reviewerName}</span>
+        </div>
+      </div>
+    )
+  }
+
+  if ((action === 'THREAD_OPENED' || action === 'THREAD_REPLIED') && metadata.excerpt) {
+    return (
+      <p className="text-xs whitespace-pre-wrap pl-2 border-l-2 border-border line-clamp-3">
+        {metadata.excerpt}
+      </p>
+    )
+  }
+
+  if (action === 'TERMINAL_SESSION') {
+    return (
+      <div className="space-y-1.5 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Version:</span>
+          <span>v{metadata.version}</span>
+          <span className="text-muted-foreground">·</span>
+          <span>{formatDuration((metadata.durationSec ?? 0) * 1000)}</span>
+          <span className="text-muted-foreground">·</span>
+          <span>{TERMINAL_END_REASON_LABELS[metadata.endReason as TerminalEndReason] ?? metadata.endReason}</span>
+        </div>
+        {metadata.hasTranscript && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            onClick={() => void downloadTranscript(metadata.sessionId)}
+          >
+            <Download className="size-3.5" />
+            Transcript
+          </Button>
+        )}
+      </div>
+    )
+  }
+
   if (action === 'TASK_UPDATED' && metadata.updates) {
     const updates = Array.isArray(metadata.updates) ? metadata.updates : []
     return (
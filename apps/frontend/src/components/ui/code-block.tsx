@@ -1,6 +1,7 @@
 /**
  * Code Block Component
  * Displays code with syntax highlighting and copy functionality
+ * Lines can be made selectable, e.g. to comment on them.
  */
 
 'use client'
@@ -10,8 +11,18 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import { Button } from './button'
 import { ScrollArea } from './scroll-area'
-import { Check, Copy } from 'lucide-react'
+import { Check, Copy, XCircle, AlertTriangle } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import type { LineRange } from '@repo/types'
+
+/**
+ * A message attached to a line of the code (1-based)
+ */
+export interface CodeAnnotation {
+  line: number
+  severity: 'error' | 'warning'
+  message: string
+}
 
 interface CodeBlockProps {
   content: string
@@ -19,6 +30,27 @@ interface CodeBlockProps {
   language?: string
   maxHeight?: string
   showLineNumbers?: boolean
+  annotations?: CodeAnnotation[]
+  /** Line ranges that have comments */
+  commentRanges?: LineRange[]
+  /** Line range picked by the user */
+  selectedLines?: LineRange | null
+  /** Makes lines clickable; extend is true on shift-click, to pick a range */
+  onLineClick?: (line: number, extend: boolean) => void
+  /** Shown below the code */
+  children?: React.ReactNode
+}
+
+const ANNOTATION_LINE_STYLES: Record<CodeAnnotation['severity'], React.CSSProperties> = {
+  error: { backgroundColor: 'rgba(239, 68, 68, 0.15)', boxShadow: 'inset 3px 0 0 rgb(239, 68, 68)' },
+  warning: { backgroundColor: 'rgba(245, 158, 11, 0.12)', boxShadow: 'inset 3px 0 0 rgb(245, 158, 11)' },
+}
+
+const COMMENTED_LINE_STYLE: React.CSSProperties = { boxShadow: 'inset 3px 0 0 rgb(56, 189, 248)' }
+const SELECTED_LINE_STYLE: React.CSSProperties = { backgroundColor: 'rgba(56, 189, 248, 0.18)' }
+
+function inRange(line: number, range: LineRange): boolean {
+  return line >= range.lineStart && line <= range.lineEnd
 }
 
 /**
@@ -62,8 +94,19 @@ export function CodeBlock({
   language,
   maxHeight = '400px',
   showLineNumbers = true,
+  annotations = [],
+  commentRanges = [],
+  selectedLines = null,
+  onLineClick,
+  children,
 }: CodeBlockProps) {
   const [copied, setCopied] = useState(false)
+
+  // Group annotations by line; a line with any error is styled as an error
+  const annotationsByLine = new Map<number, CodeAnnotation[]>()
+  for (const annotation of annotations) {
+    annotationsByLine.set(annotation.line, [...(annotationsByLine.get(annotation.line) ?? []), annotation])
+  }
   
   const detectedLanguage = language || getLanguageFromFilename(filename)
 
@@ -103,6 +146,22 @@ export function CodeBlock({
           language={detectedLanguage}
           style={vscDarkPlus}
           showLineNumbers={showLineNumbers}
+          wrapLines={annotations.length > 0 || commentRanges.length > 0 || !!selectedLines || !!onLineClick}
+          lineProps={(lineNumber: number) => {
+            const lineAnnotations = annotationsByLine.get(lineNumber)
+            const severity = lineAnnotations?.some((a) => a.severity === 'error') ? 'error' : 'warning'
+            return {
+              style: {
+                display: 'block',
+                ...(commentRanges.some((range) => inRange(lineNumber, range)) && COMMENTED_LINE_STYLE),
+                ...(lineAnnotations && ANNOTATION_LINE_STYLES[severity]),
+                ...(selectedLines && inRange(lineNumber, selectedLines) && SELECTED_LINE_STYLE),
+                ...(onLineClick && { cursor: 'pointer' }),
+              },
+              title: lineAnnotations?.map((a) => a.message).join('\n'),
+              onClick: onLineClick && ((event: React.MouseEvent) => onLineClick(lineNumber, event.shiftKey)),
+            }
+          }}
           customStyle={{
             margin: 0,
             padding: '1rem',
@@ -119,6 +178,25 @@ export function CodeBlock({
           {content}
         </SyntaxHighlighter>
       </ScrollArea>
+
+      {/* Annotations */}
+      {annotations.length > 0 && (
+        <ul className="border-t border-border/30 bg-[#252526] px-4 py-2 space-y-1">
+          {annotations.map((annotation, index) => (
+            <li key={`${annotation.line}-${index}`} className="flex items-start gap-2 text-xs font-mono">
+              {annotation.severity === 'error' ? (
+                <XCircle className="size-3.5 mt-0.5 shrink-0 text-red-400" />
+              ) : (
+                <AlertTriangle className="size-3.5 mt-0.5 shrink-0 text-amber-400" />
+              )}
+              <span className="text-muted-foreground shrink-0">{annotation.line}</span>
+              <span className="text-foreground/90">{annotation.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {children}
     </div>
   )
 }
@@ -34,8 +34,8 @@ interface DiffViewerProps {
 function FieldDiff({ change }: { change: DiffChange }) {
   const { field, oldValue, newValue, type } = change
 
-  // Format field name for display
-  const fieldLabel = field
+  // Format field name for display (test files keep their path)
+  const fieldLabel = field.startsWith('tests/') ? field : field
     .replace(/([A-Z])/g, ' $1')
     .replace(/^./, (str) => str.toUpperCase())
     .trim()
@@ -132,11 +132,14 @@ function FieldDiff({ change }: { change: DiffChange }) {
 export function DiffViewer({ changes, fromVersion, toVersion, className }: DiffViewerProps) {
   // Categorize changes
   const { textChanges, metadataChanges } = useMemo(() => {
-    const textFields = ['taskYaml', 'dockerComposeYaml', 'solutionSh', 'runTestsSh', 'testsJson', 'instruction']
+    const textFields = ['taskYaml', 'dockerComposeYaml', 'solutionSh', 'runTestsSh', 'instruction']
+    // Test file contents are text; their mode changes ("tests/<path> (mode)") are metadata
+    const isTextField = (field: string) =>
+      textFields.includes(field) || (field.startsWith('tests/') && !field.endsWith(' (mode)'))
     
     return {
-      textChanges: changes.filter((c) => textFields.includes(c.field)),
-      metadataChanges: changes.filter((c) => !textFields.includes(c.field)),
+      textChanges: changes.filter((c) => isTextField(c.field)),
+      metadataChanges: changes.filter((c) => !isTextField(c.field)),
     }
   }, [changes])
 
@@ -7,4 +7,7 @@ export * from './use-mobile'
 export * from './use-toast'
 export * from './use-tasks'
 export * from './use-reviews'
-export * from './use-theme-shortcut'
\ No newline at end of file
+export * from './use-threads'
+export * from './use-runs'
+export * from './use-theme-shortcut'
+export * from './use-run-log'
\ No newline at end of file
@@ -4,10 +4,24 @@
  * OPTIMIZED: Ultra aggressive caching for fast page loads
  */
 
+import { useEffect } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { api } from '@/lib/api-client'
+import { api, ApiRequestError, type DatasetExportFilters } from '@/lib/api-client'
+import { saveBlob } from '@/lib/utils'
 import { updateAllTaskLists, taskKeys } from '@/hooks/use-tasks'
-import type { ReviewDecision, Task } from '@repo/types'
+import { HTTP_STATUS, REVIEW_HEARTBEAT_INTERVAL_MS } from '@repo/types'
+import type {
+  CreateReviewCommentDto,
+  ReviewComment,
+  ReviewReason,
+  RubricTemplate,
+  SaveRubricTemplateDto,
+  SubmitReviewDto,
+  CreateReviewReasonDto,
+  UpdateReviewReasonDto,
+  Task,
+  UpdateReviewAssignmentSettingsDto,
+} from '@repo/types'
 
 // ==================== Query Keys ====================
 
@@ -17,6 +31,11 @@ export const reviewKeys = {
   list: (filters?: Record<string, unknown>) => [...reviewKeys.lists(), filters] as const,
   details: () => [...reviewKeys.all, 'detail'] as const,
   detail: (id: string) => [...reviewKeys.details(), id] as const,
+  assignmentSettings: () => [...reviewKeys.all, 'assignment-settings'] as const,
+  reviewers: () => [...reviewKeys.all, 'reviewers'] as const,
+  rubrics: () => [...reviewKeys.all, 'rubrics'] as const,
+  reasons: (includeArchived = false) => [...reviewKeys.all, 'reasons', { includeArchived }] as const,
+  reasonReport: (range: { from?: string; to?: string } = {}) => [...reviewKeys.all, 'reason-report', range] as const,
 }
 
 // ==================== Queries ====================
@@ -27,7 +46,7 @@ export const reviewKeys = {
  */
 export function useReviewTasks(options?: { 
   limit?: number
-  filter?: 'pending' | 'history' | 'all'
+  filter?: 'pending' | 'assigned' | 'history' | 'all'
 }) {
   const queryClient = useQueryClient()
   
@@ -73,6 +92,98 @@ export function useReviewTask(id: string) {
   })
 }
 
+/**
+ * Get the current reviewer's automatic assignment preferences
+ */
+export function useAssignmentSettings() {
+  return useQuery({
+    queryKey: reviewKeys.assignmentSettings(),
+    queryFn: () => api.reviewer.getAssignmentSettings(),
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * List reviewers, for handing a task to another one
+ */
+export function useReviewers(enabled = true) {
+  return useQuery({
+    queryKey: reviewKeys.reviewers(),
+    queryFn: () => api.reviewer.listReviewers(),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+/**
+ * List the rubric templates in use
+ */
+export function useRubrics(enabled = true) {
+  return useQuery({
+    queryKey: reviewKeys.rubrics(),
+    queryFn: () => api.reviewer.listRubrics(),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+/**
+ * List the reasons reviewers can give for rejecting or requesting changes
+ */
+export function useReviewReasons(options?: { includeArchived?: boolean; enabled?: boolean }) {
+  const includeArchived = options?.includeArchived ?? false
+  return useQuery({
+    queryKey: reviewKeys.reasons(includeArchived),
+    queryFn: () => api.reviewer.listReasons({ includeArchived }),
+    enabled: options?.enabled ?? true,
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+/**
+ * The most given reasons for rejections and change requests
+ */
+export function useReviewReasonReport(range: { from?: string; to?: string } = {}, enabled = true) {
+  return useQuery({
+    queryKey: reviewKeys.reasonReport(range),
+    queryFn: () => api.reviewer.getReasonReport(range),
+    enabled,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Keep the reviewer's claim on a task alive while they have it open
+ * Only renews while the page is visible, so a forgotten tab lets the claim lapse.
+ * If the claim has ended anyway, the task is refetched to show who has it now.
+ */
+export function useReviewHeartbeat(id: string, enabled: boolean) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const beat = async () => {
+      if (document.visibilityState !== 'visible') return
+      try {
+        await api.reviewer.heartbeat(id)
+      } catch (error) {
+        if (error instanceof ApiRequestError && error.status === HTTP_STATUS.CONFLICT) {
+          queryClient.invalidateQueries({ queryKey: ['reviewer', 'tasks'] })
+        }
+      }
+    }
+
+    void beat()
+    const timer = setInterval(beat, REVIEW_HEARTBEAT_INTERVAL_MS)
+    document.addEventListener('visibilitychange', beat)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', beat)
+    }
+  }, [id, enabled, queryClient])
+}
+
 // ==================== Mutations ====================
 
 /**
@@ -165,8 +276,7 @@ export function useSubmitReview(id: string) {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ decision, comment }: { decision: ReviewDecision; comment?: string }) =>
-      api.reviewer.submitReview(id, decision, comment),
+    mutationFn: (data: SubmitReviewDto) => api.reviewer.submitReview(id, data),
     retry: false, // Don't retry - state changes are not idempotent
     onMutate: async ({ decision }) => {
       await queryClient.cancelQueries({ queryKey: reviewKeys.detail(id) })
@@ -255,3 +365,158 @@ export function useSubmitReview(id: string) {
     },
   })
 }
+
+/**
+ * Download all approved tasks (optionally filtered) as a release archive
+ */
+export function useExportApprovedTasks() {
+  return useMutation({
+    mutationFn: async (filters: DatasetExportFilters) => {
+      const { blob, fileName } = await api.reviewer.exportApproved(filters)
+      saveBlob(blob, fileName ?? 'approved-tasks.tar.gz')
+    },
+  })
+}
+
+/**
+ * Update the current reviewer's automatic assignment preferences
+ * Saving can assign waiting tasks or hand back assigned ones, so task lists are refreshed.
+ */
+export function useUpdateAssignmentSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: UpdateReviewAssignmentSettingsDto) => api.reviewer.updateAssignmentSettings(data),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(reviewKeys.assignmentSettings(), settings)
+      queryClient.invalidateQueries({ queryKey: ['reviewer', 'tasks'] })
+      queryClient.invalidateQueries({ queryKey: reviewKeys.lists() })
+    },
+  })
+}
+
+/**
+ * Refresh everything that shows a task's review claim after it changes hands
+ */
+function useInvalidateReviewClaim(id: string) {
+  const queryClient = useQueryClient()
+
+  return (task: Task) => {
+    queryClient.setQueryData(['reviewer', 'tasks', id], task)
+    queryClient.invalidateQueries({ queryKey: ['reviewer', 'tasks'] })
+    queryClient.invalidateQueries({ queryKey: reviewKeys.lists() })
+    queryClient.invalidateQueries({ queryKey: taskKeys.lists() })
+    queryClient.invalidateQueries({ queryKey: ['audit', 'task', id] })
+  }
+}
+
+/**
+ * Give up the reviewer's claim on a task, returning it to the queue
+ */
+export function useReleaseReview(id: string) {
+  const onClaimChanged = useInvalidateReviewClaim(id)
+
+  return useMutation({
+    mutationFn: () => api.reviewer.releaseReview(id),
+    retry: false,
+    onSuccess: onClaimChanged,
+  })
+}
+
+/**
+ * Hand a task to another reviewer (review leads only)
+ */
+export function useReassignReview(id: string) {
+  const onClaimChanged = useInvalidateReviewClaim(id)
+
+  return useMutation({
+    mutationFn: (reviewerId: string) => api.reviewer.reassignReview(id, reviewerId),
+    retry: false,
+    onSuccess: onClaimChanged,
+  })
+}
+
+/**
+ * Comment on a line range of one of the task's files
+ */
+export function useCreateReviewComment(id: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateReviewCommentDto) => api.reviewer.createComment(id, data),
+    onSuccess: (comment) => {
+      queryClient.setQueryData<ReviewComment[]>(taskKeys.comments(id), (old = []) => [...old, comment])
+      queryClient.invalidateQueries({ queryKey: taskKeys.comments(id) })
+    },
+  })
+}
+
+/**
+ * Delete one of the reviewer's own inline comments
+ */
+export function useDeleteReviewComment(id: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (commentId: string) => api.reviewer.deleteComment(id, commentId),
+    onSuccess: (_, commentId) => {
+      queryClient.setQueryData<ReviewComment[]>(taskKeys.comments(id), (old = []) =>
+        old.filter(comment => comment.id !== commentId)
+      )
+    },
+  })
+}
+
+/**
+ * Create a rubric template, or save a new version of one (review leads only)
+ * Tasks pick up the template when next opened for review.
+ */
+export function useSaveRubric() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ key, data }: { key?: string; data: SaveRubricTemplateDto }) =>
+      key ? api.reviewer.updateRubric(key, data) : api.reviewer.createRubric(data),
+    onSuccess: (template, { key }) => {
+      queryClient.setQueryData<RubricTemplate[]>(reviewKeys.rubrics(), (old = []) =>
+        key ? old.map(t => (t.key === key ? template : t)) : [...old, template]
+      )
+      queryClient.invalidateQueries({ queryKey: reviewKeys.rubrics() })
+      queryClient.invalidateQueries({ queryKey: ['reviewer', 'tasks'] })
+    },
+  })
+}
+
+/**
+ * Archive a rubric template (review leads only)
+ */
+export function useArchiveRubric() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (key: string) => api.reviewer.archiveRubric(key),
+    onSuccess: (_, key) => {
+      queryClient.setQueryData<RubricTemplate[]>(reviewKeys.rubrics(), (old = []) => old.filter(t => t.key !== key))
+      queryClient.invalidateQueries({ queryKey: ['reviewer', 'tasks'] })
+    },
+  })
+}
+
+/**
+ * Add a reason to the catalog, or relabel, archive or restore one (review leads only)
+ */
+export function useSaveReviewReason() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (
+      variables: { create: CreateReviewReasonDto } | { code: string; update: UpdateReviewReasonDto }
+    ): Promise<ReviewReason> =>
+      'create' in variables
+        ? api.reviewer.createReason(variables.create)
+        : api.reviewer.updateReason(variables.code, variables.update),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...reviewKeys.all, 'reasons'] })
+    },
+  })
+}
@@ -0,0 +1,174 @@
+"use client"
+
+/**
+ * Run Log Hook
+ * Follows a run's live stages and output over the sidecar's event stream
+ */
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api-client'
+import { ACTIVE_RUN_STATUSES } from '@repo/types'
+import type { RunEvent, RunLogStream, RunStage, RunStatus } from '@repo/types'
+
+export type RunLogLine =
+  | { id: number; kind: 'output'; stream: RunLogStream; text: string }
+  | { id: number; kind: 'stage'; stage: RunStage; iteration?: number }
+
+export type RunLogConnection = 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+export interface RunLog {
+  lines: RunLogLine[]
+  stage: RunStage | null
+  iteration: number | null
+  status: RunStatus | null
+  error: string | null
+  connection: RunLogConnection
+}
+
+/**
+ * Lines kept in the viewer; the oldest are dropped first
+ */
+const MAX_LINES = 10000
+
+/**
+ * Output arrives in many small chunks, so renders are batched
+ */
+const FLUSH_INTERVAL_MS = 100
+
+interface LogBuffer {
+  lines: RunLogLine[]
+  nextId: number
+  // Index of the unfinished last line of each stream
+  open: Partial<Record<RunLogStream, number>>
+}
+
+function emptyLog(connection: RunLogConnection): RunLog {
+  return { lines: [], stage: null, iteration: null, status: null, error: null, connection }
+}
+
+function appendOutput(buffer: LogBuffer, stream: RunLogStream, data: string) {
+  const pieces = data.split('\n')
+
+  pieces.forEach((piece, index) => {
+    const openIndex = buffer.open[stream]
+    const isLast = index === pieces.length - 1
+
+    // Empty remainder after a trailing newline
+    if (isLast && piece === '') {
+      delete buffer.open[stream]
+      return
+    }
+
+    if (index === 0 && openIndex !== undefined) {
+      const line = buffer.lines[openIndex]
+      if (line.kind === 'output') {
+        buffer.lines[openIndex] = { ...line, text: line.text + piece }
+      }
+    } else {
+      buffer.lines.push({ id: buffer.nextId++, kind: 'output', stream, text: piece })
+      buffer.open[stream] = buffer.lines.length - 1
+    }
+
+    if (!isLast) delete buffer.open[stream]
+  })
+
+  const overflow = buffer.lines.length - MAX_LINES
+  if (overflow > 0) {
+    buffer.lines.splice(0, overflow)
+    for (const key of Object.keys(buffer.open) as RunLogStream[]) {
+      const openIndex = buffer.open[key]! - overflow
+      if (openIndex >= 0) buffer.open[key] = openIndex
+      else delete buffer.open[key]
+    }
+  }
+}
+
+/**
+ * Stream a run's log
+ * The stream replays everything from the start of the run, so a page that
+ * reloads mid-run reattaches by opening it again; dropped connections resume
+ * from the last received event. When the run is instead replayed from what
+ * was recorded, event ids start over and the log is rebuilt from that replay.
+ * The stream closes once the run finishes.
+ */
+export function useRunLog(runId: string | null | undefined): RunLog {
+  const [log, setLog] = useState<RunLog>(() => emptyLog('connecting'))
+
+  useEffect(() => {
+    if (!runId) return
+
+    const buffer: LogBuffer = { lines: [], nextId: 1, open: {} }
+    let flushTimer: ReturnType<typeof setTimeout> | null = null
+    let lastEventId = 0
+
+    setLog(emptyLog('connecting'))
+
+    const flush = () => {
+      flushTimer = null
+      setLog((previous) => ({ ...previous, lines: [...buffer.lines] }))
+    }
+    const scheduleFlush = () => {
+      if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS)
+    }
+
+    const source = new EventSource(api.runs.eventsUrl(runId), { withCredentials: true })
+
+    source.onopen = () => setLog((previous) => ({ ...previous, connection: 'open' }))
+
+    source.onerror = () => {
+      setLog((previous) => ({
+        ...previous,
+        connection: source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting',
+      }))
+    }
+
+    // A replay of the recorded run numbers its events from 1 again and repeats what was shown
+    const receive = (message: Event) => {
+      const eventId = Number((message as MessageEvent<string>).lastEventId) || 0
+      if (eventId <= lastEventId) {
+        buffer.lines = []
+        buffer.open = {}
+        scheduleFlush()
+      }
+      lastEventId = eventId
+    }
+
+    source.addEventListener('stage', (message) => {
+      receive(message)
+      const event = JSON.parse((message as MessageEvent<string>).data) as Extract<RunEvent, { type: 'stage' }>
+      buffer.open = {}
+      buffer.lines.push({ id: buffer.nextId++, kind: 'stage', stage: event.stage, iteration: event.iteration })
+      setLog((previous) => ({ ...previous, stage: event.stage, iteration: event.iteration ?? null }))
+      scheduleFlush()
+    })
+
+    source.addEventListener('output', (message) => {
+      receive(message)
+      const event = JSON.parse((message as MessageEvent<string>).data) as Extract<RunEvent, { type: 'output' }>
+      appendOutput(buffer, event.stream, event.data)
+      scheduleFlush()
+    })
+
+    source.addEventListener('status', (message) => {
+      receive(message)
+      const event = JSON.parse((message as MessageEvent<string>).data) as Extract<RunEvent, { type: 'status' }>
+      const finished = !ACTIVE_RUN_STATUSES.includes(event.status)
+      // Without this the EventSource would reconnect when the server ends the stream
+      if (finished) source.close()
+
+      setLog((previous) => ({
+        ...previous,
+        status: event.status,
+        error: event.error ?? null,
+        connection: finished ? 'closed' : previous.connection,
+      }))
+    })
+
+    return () => {
+      source.close()
+      if (flushTimer) clearTimeout(flushTimer)
+    }
+  }, [runId])
+
+  return log
+}
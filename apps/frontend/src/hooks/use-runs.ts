@@ -0,0 +1,106 @@
+/**
+ * Run Hooks
+ * React Query hooks for executing tasks and reading run results
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api-client'
+import { ACTIVE_RUN_STATUSES, RunMode } from '@repo/types'
+import type { TaskRun } from '@repo/types'
+
+// ==================== Query Keys ====================
+
+export const runKeys = {
+  all: ['runs'] as const,
+  task: (taskId: string) => [...runKeys.all, 'task', taskId] as const,
+  latest: (taskId: string, mode: RunMode) => [...runKeys.task(taskId), 'latest', mode] as const,
+  comparison: (taskId: string, from?: number, to?: number) =>
+    [...runKeys.task(taskId), 'comparison', from ?? null, to ?? null] as const,
+  recording: (runId: string) => [...runKeys.all, 'recording', runId] as const,
+}
+
+/**
+ * How often to poll a run that has not finished
+ */
+const ACTIVE_RUN_POLL_MS = 3000
+
+function isActiveRun(run: TaskRun | null | undefined): boolean {
+  return !!run && ACTIVE_RUN_STATUSES.includes(run.status)
+}
+
+// ==================== Queries ====================
+
+/**
+ * Get a task's most recent run of a mode
+ * Polls while the run is queued or running.
+ */
+export function useLatestTaskRun(taskId: string, mode: RunMode = RunMode.ORACLE) {
+  return useQuery({
+    queryKey: runKeys.latest(taskId, mode),
+    queryFn: () => api.runs.getLatest(taskId, mode),
+    enabled: !!taskId && !taskId.startsWith('temp-'),
+    staleTime: 10 * 1000,
+    refetchInterval: (query) => (isActiveRun(query.state.data) ? ACTIVE_RUN_POLL_MS : false),
+  })
+}
+
+/**
+ * Compare the test results of two task versions
+ * Without versions, compares the two latest versions that have test results.
+ */
+export function useTestResultComparison(taskId: string, from?: number, to?: number) {
+  return useQuery({
+    queryKey: runKeys.comparison(taskId, from, to),
+    queryFn: () => api.runs.compareTestResults(taskId, { from, to }),
+    enabled: !!taskId && !taskId.startsWith('temp-'),
+    staleTime: 30 * 1000,
+    // Keep showing the previous comparison while another pair of versions loads
+    placeholderData: (previous) => previous,
+  })
+}
+
+/**
+ * Get a finished run's terminal recording
+ * Recordings never change once stored, so they are fetched once.
+ */
+export function useRunRecording(run: TaskRun | null | undefined) {
+  return useQuery({
+    queryKey: runKeys.recording(run?.id ?? ''),
+    queryFn: () => api.runs.recording(run!.id),
+    enabled: !!run?.recording,
+    staleTime: Infinity,
+  })
+}
+
+// ==================== Mutations ====================
+
+/**
+ * Start a run of the task's latest version
+ * Stability runs take the number of times to repeat the oracle run.
+ */
+export function useStartTaskRun(taskId: string, mode: RunMode = RunMode.ORACLE) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (options?: { iterations?: number }) => api.runs.start(taskId, { mode, ...options }),
+    onSuccess: (run) => {
+      queryClient.setQueryData(runKeys.latest(taskId, mode), run)
+      queryClient.invalidateQueries({ queryKey: runKeys.task(taskId) })
+    },
+  })
+}
+
+/**
+ * Cancel a task's queued or running run
+ */
+export function useCancelTaskRun(taskId: string, mode: RunMode = RunMode.ORACLE) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (runId: string) => api.runs.cancel(runId),
+    onSuccess: (run) => {
+      queryClient.setQueryData(runKeys.latest(taskId, mode), run)
+      queryClient.invalidateQueries({ queryKey: runKeys.task(taskId) })
+    },
+  })
+}
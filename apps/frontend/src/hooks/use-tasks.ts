@@ -5,7 +5,8 @@
 
 import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query'
 import { api } from '@/lib/api-client'
-import { TaskState } from '@repo/types'
+import { saveBlob } from '@/lib/utils'
+import { TaskState, DEFAULT_NETWORK_POLICY } from '@repo/types'
 import type { CreateTaskDto, UpdateTaskDto, Task } from '@repo/types'
 
 // ==================== Query Keys ====================
@@ -16,6 +17,8 @@ export const taskKeys = {
   list: (filters?: Record<string, unknown>) => [...taskKeys.lists(), filters] as const,
   details: () => [...taskKeys.all, 'detail'] as const,
   detail: (id: string) => [...taskKeys.details(), id] as const,
+  lint: (id: string) => [...taskKeys.detail(id), 'lint'] as const,
+  comments: (id: string) => [...taskKeys.detail(id), 'comments'] as const,
   dashboard: () => [...taskKeys.all, 'dashboard'] as const,
 }
 
@@ -109,6 +112,36 @@ export function useTask(id: string) {
   })
 }
 
+/**
+ * Fetch lint results for a task's files
+ * Keyed under the task detail so task invalidations refresh it too.
+ */
+export function useTaskLint(id: string) {
+  const isTempTask = id?.startsWith('temp-')
+
+  return useQuery({
+    queryKey: taskKeys.lint(id),
+    queryFn: () => api.tasks.lint(id),
+    enabled: !!id && !isTempTask,
+    staleTime: 30 * 1000,
+  })
+}
+
+/**
+ * Fetch reviewers' inline comments on a task's files
+ * Keyed under the task detail, so resubmitting refreshes their anchors.
+ */
+export function useTaskComments(id: string) {
+  const isTempTask = id?.startsWith('temp-')
+
+  return useQuery({
+    queryKey: taskKeys.comments(id),
+    queryFn: () => api.tasks.comments(id),
+    enabled: !!id && !isTempTask,
+    staleTime: 30 * 1000,
+  })
+}
+
 // ==================== Mutations ====================
 
 /**
@@ -136,14 +169,23 @@ export function useCreateTask() {
         categories: newTaskData.categories,
         maxAgentTimeoutSec: newTaskData.maxAgentTimeoutSec,
         maxTestTimeoutSec: newTaskData.maxTestTimeoutSec,
+        cpuLimit: newTaskData.cpuLimit ?? null,
+        memoryLimitMb: newTaskData.memoryLimitMb ?? null,
+        diskLimitMb: newTaskData.diskLimitMb ?? null,
+        networkPolicy: newTaskData.networkPolicy ?? DEFAULT_NETWORK_POLICY,
         taskYaml: newTaskData.taskYaml || null,
         dockerComposeYaml: newTaskData.dockerComposeYaml || null,
         solutionSh: newTaskData.solutionSh || null,
         runTestsSh: newTaskData.runTestsSh || null,
-        testsJson: newTaskData.testsJson || null,
+        testFiles: newTaskData.testFiles || [],
+        storageOnlyFiles: [],
         state: TaskState.DRAFT,
         authorId: '',
         reviewerId: null,
+        reviewLeaseExpiresAt: null,
+        submittedAt: null,
+        assigneeId: null,
+        assignedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         author: {} as any,
@@ -395,3 +437,33 @@ export function useDuplicateTask() {
     },
   })
 }
+
+/**
+ * Import a task from a task directory archive
+ */
+export function useImportTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (file: File) => api.tasks.import(file),
+    onSuccess: ({ task }) => {
+      updateAllTaskLists(queryClient, (old = []) => [task, ...old])
+      queryClient.setQueryData(taskKeys.detail(task.id), task)
+
+      queryClient.invalidateQueries({ queryKey: taskKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: taskKeys.dashboard() })
+    },
+  })
+}
+
+/**
+ * Download a task (or one of its history versions) as a .tar.gz task directory
+ */
+export function useExportTask() {
+  return useMutation({
+    mutationFn: async ({ id, version }: { id: string; version?: number }) => {
+      const { blob, fileName } = await api.tasks.export(id, version)
+      saveBlob(blob, fileName ?? `${id}${version !== undefined ? `-v${version}` : ''}.tar.gz`)
+    },
+  })
+}
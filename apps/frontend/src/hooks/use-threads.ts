@@ -0,0 +1,87 @@
+/**
+ * Discussion Thread Hooks
+ * React Query hooks for author–reviewer discussions on a task
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api-client'
+import { taskKeys } from '@/hooks/use-tasks'
+import type { CreateThreadDto, DiscussionThread } from '@repo/types'
+
+// ==================== Query Keys ====================
+
+export const threadKeys = {
+  task: (taskId: string) => [...taskKeys.detail(taskId), 'threads'] as const,
+}
+
+// ==================== Queries ====================
+
+/**
+ * Get the discussion threads on a task and its reviews
+ */
+export function useTaskThreads(taskId: string) {
+  const isTempTask = taskId?.startsWith('temp-')
+
+  return useQuery({
+    queryKey: threadKeys.task(taskId),
+    queryFn: () => api.tasks.threads(taskId),
+    enabled: !!taskId && !isTempTask,
+    staleTime: 30 * 1000,
+  })
+}
+
+// ==================== Mutations ====================
+
+/**
+ * Put a changed thread in the cache and refresh the activity sidebar
+ */
+function useOnThreadChanged(taskId: string) {
+  const queryClient = useQueryClient()
+
+  return (thread: DiscussionThread) => {
+    queryClient.setQueryData<DiscussionThread[]>(threadKeys.task(taskId), (old = []) =>
+      old.some((existing) => existing.id === thread.id)
+        ? old.map((existing) => (existing.id === thread.id ? thread : existing))
+        : [...old, thread]
+    )
+    queryClient.invalidateQueries({ queryKey: ['audit', 'task', taskId] })
+  }
+}
+
+/**
+ * Open a thread on the task, or on one of its reviews
+ */
+export function useOpenThread(taskId: string) {
+  const onThreadChanged = useOnThreadChanged(taskId)
+
+  return useMutation({
+    mutationFn: (data: CreateThreadDto) => api.tasks.openThread(taskId, data),
+    onSuccess: onThreadChanged,
+  })
+}
+
+/**
+ * Reply to a thread
+ */
+export function useReplyToThread(taskId: string) {
+  const onThreadChanged = useOnThreadChanged(taskId)
+
+  return useMutation({
+    mutationFn: ({ threadId, body }: { threadId: string; body: string }) =>
+      api.tasks.replyToThread(taskId, threadId, body),
+    onSuccess: onThreadChanged,
+  })
+}
+
+/**
+ * Mark a thread resolved, or reopen it
+ */
+export function useSetThreadResolved(taskId: string) {
+  const onThreadChanged = useOnThreadChanged(taskId)
+
+  return useMutation({
+    mutationFn: ({ threadId, resolved }: { threadId: string; resolved: boolean }) =>
+      resolved ? api.tasks.resolveThread(taskId, threadId) : api.tasks.reopenThread(taskId, threadId),
+    onSuccess: onThreadChanged,
+  })
+}
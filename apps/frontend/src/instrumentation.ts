@@ -0,0 +1,12 @@
+/**
+ * Next.js Instrumentation
+ * Starts the background jobs the API routes rely on, once per server process
+ */
+
+export async function register() {
+  // Only the Node.js server runtime talks to the database
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { ReviewLeaseService } = await import('@repo/server/services/review-lease.service')
+  ReviewLeaseService.startReclaiming()
+}
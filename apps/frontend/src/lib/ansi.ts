@@ -0,0 +1,127 @@
+/**
+ * ANSI Escape Codes
+ * Turns terminal output into styled text segments for display
+ */
+
+export interface AnsiSegment {
+  text: string
+  className: string
+}
+
+// Matches any CSI sequence; only SGR sequences (ending in "m") affect styling
+const CSI_PATTERN = /\x1b\[([0-9;?]*)([A-Za-z])/g
+
+// OSC sequences (e.g. window titles) and character set selection
+const OTHER_ESCAPE_PATTERN = /\x1b\][^\x07]*(\x07|\x1b\\)|\x1b[()][A-Za-z0-9]/g
+
+const FOREGROUND_CLASSES: Record<number, string> = {
+  30: 'text-zinc-500',
+  31: 'text-red-500',
+  32: 'text-emerald-500',
+  33: 'text-amber-500',
+  34: 'text-blue-500',
+  35: 'text-fuchsia-500',
+  36: 'text-cyan-500',
+  37: 'text-zinc-300',
+  90: 'text-zinc-400',
+  91: 'text-red-400',
+  92: 'text-emerald-400',
+  93: 'text-amber-300',
+  94: 'text-blue-400',
+  95: 'text-fuchsia-400',
+  96: 'text-cyan-400',
+  97: 'text-white',
+}
+
+interface AnsiStyle {
+  color: string
+  bold: boolean
+  dim: boolean
+  italic: boolean
+  underline: boolean
+}
+
+const PLAIN_STYLE: AnsiStyle = { color: '', bold: false, dim: false, italic: false, underline: false }
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === '' ? [0] : params.split(';').map(Number)
+  const next = { ...style }
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]
+    if (code === 0) Object.assign(next, PLAIN_STYLE)
+    else if (code === 1) next.bold = true
+    else if (code === 2) next.dim = true
+    else if (code === 3) next.italic = true
+    else if (code === 4) next.underline = true
+    else if (code === 22) next.bold = next.dim = false
+    else if (code === 23) next.italic = false
+    else if (code === 24) next.underline = false
+    else if (code === 39) next.color = ''
+    else if (FOREGROUND_CLASSES[code]) next.color = FOREGROUND_CLASSES[code]
+    // 256-color and truecolor foreground/background: skip their arguments
+    else if (code === 38 || code === 48) i += codes[i + 1] === 5 ? 2 : 4
+  }
+
+  return next
+}
+
+function styleClassName(style: AnsiStyle): string {
+  return [
+    style.color,
+    style.bold && 'font-bold',
+    style.dim && 'opacity-70',
+    style.italic && 'italic',
+    style.underline && 'underline',
+  ]
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * Keep only the text after the last carriage return, as a terminal would show it
+ * Progress bars redraw a line with "\r"; a trailing "\r" (from "\r\n") is ignored.
+ */
+function collapseCarriageReturns(line: string): string {
+  const trimmed = line.endsWith('\r') ? line.slice(0, -1) : line
+  const index = trimmed.lastIndexOf('\r')
+  return index === -1 ? trimmed : trimmed.slice(index + 1)
+}
+
+/**
+ * Split one line of terminal output into segments styled by its SGR codes
+ * Cursor movement and other escape sequences are dropped.
+ */
+export function parseAnsi(line: string): AnsiSegment[] {
+  const text = collapseCarriageReturns(line).replace(OTHER_ESCAPE_PATTERN, '')
+  const segments: AnsiSegment[] = []
+  let style = PLAIN_STYLE
+  let lastIndex = 0
+
+  const push = (value: string) => {
+    if (!value) return
+    const className = styleClassName(style)
+    const previous = segments[segments.length - 1]
+    if (previous && previous.className === className) previous.text += value
+    else segments.push({ text: value, className })
+  }
+
+  for (const match of text.matchAll(CSI_PATTERN)) {
+    push(text.slice(lastIndex, match.index))
+    if (match[2] === 'm') style = applySgr(style, match[1])
+    lastIndex = match.index! + match[0].length
+  }
+  push(text.slice(lastIndex))
+
+  return segments
+}
+
+/**
+ * Plain text of terminal output, without escape sequences or overwritten line content
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => collapseCarriageReturns(line).replace(OTHER_ESCAPE_PATTERN, '').replace(CSI_PATTERN, ''))
+    .join('\n')
+}
@@ -160,9 +160,12 @@ export function handleApiError(error: unknown): NextResponse {
   }
 
   if (error instanceof Error && 'statusCode' in error) {
-    const apiError = error as { statusCode: number; message: string }
+    const apiError = error as { statusCode: number; message: string; details?: unknown }
     return NextResponse.json(
-      { error: apiError.message },
+      {
+        error: apiError.message,
+        ...(apiError.details !== undefined && { details: apiError.details }),
+      },
       { status: apiError.statusCode }
     )
   }
@@ -13,8 +13,43 @@ import type {
   ReviewDecision,
   TasksResponse,
   TaskResponse,
+  TaskImportResponse,
+  TaskLintResult,
+  TaskRun,
+  RunMode,
+  TaskRunResponse,
+  TaskRunsResponse,
+  TestResultComparison,
+  TerminalSession,
   ReviewResponse,
   UserResponse,
+  ReviewAssignmentSettings,
+  ReviewAssignmentSettingsResponse,
+  UpdateReviewAssignmentSettingsDto,
+  ReassignReviewDto,
+  ReviewLeaseResponse,
+  ReviewersResponse,
+  UserSummary,
+  ReviewComment,
+  ReviewCommentResponse,
+  ReviewCommentsResponse,
+  CreateReviewCommentDto,
+  DiscussionThread,
+  DiscussionThreadResponse,
+  DiscussionThreadsResponse,
+  CreateThreadDto,
+  ReplyToThreadDto,
+  RubricTemplate,
+  RubricTemplateResponse,
+  RubricTemplatesResponse,
+  SaveRubricTemplateDto,
+  ReviewReason,
+  ReviewReasonResponse,
+  ReviewReasonsResponse,
+  ReviewReasonReport,
+  ReviewReasonReportResponse,
+  CreateReviewReasonDto,
+  UpdateReviewReasonDto,
 } from '@repo/types'
 
 // Use relative paths for Next.js API routes (same origin)
@@ -24,8 +59,50 @@ const API_URL = typeof window === 'undefined'
   ? (process.env.NEXT_PUBLIC_SERVER_URL || '')
   : '' // Always use relative paths in browser
 
+// The sidecar (file operations, task runs) is a separate service
+const SIDECAR_URL = process.env.NEXT_PUBLIC_SIDECAR_URL || 'http://localhost:4001'
+
 // ==================== Core API Client ====================
 
+/**
+ * Error thrown for non-2xx responses
+ * Carries the status code and any field-level details returned by the API.
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = 'ApiRequestError'
+  }
+}
+
+interface ApiErrorDetail {
+  path?: (string | number)[]
+  message?: string
+  line?: number
+  column?: number
+}
+
+/**
+ * Turn an API error into readable lines, one per field-level detail
+ * e.g. "taskYaml.difficulty: must be one of easy, medium, hard (line 2, col 13)"
+ */
+export function formatApiErrorDetails(error: unknown): string[] {
+  if (error instanceof ApiRequestError && Array.isArray(error.details) && error.details.length > 0) {
+    return error.details.map((detail: ApiErrorDetail) => {
+      const field = detail.path?.join('.')
+      const position = detail.line !== undefined
+        ? ` (line ${detail.line}${detail.column !== undefined ? `, col ${detail.column}` : ''})`
+        : ''
+      return `${field ? `${field}: ` : ''}${detail.message ?? 'Invalid value'}${position}`
+    })
+  }
+  return [error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.']
+}
+
 /**
  * Base API client with authentication and error handling
  */
@@ -63,16 +140,18 @@ class ApiClient {
         headers,
         credentials: 'include',
         // Performance optimizations
-        keepalive: true, // Reuse connections
+        keepalive: options.keepalive ?? true, // Reuse connections
         // Signal for request timeout (optional - can add if needed)
       })
 
       if (!response.ok) {
         // Fast error parsing
         let errorMessage = `HTTP ${response.status}`
+        let details: unknown
         try {
           const error = await response.json()
           errorMessage = error.error || error.message || errorMessage
+          details = error.details
           // Only log in development
           if (process.env.NODE_ENV === 'development') {
             console.error('[API Error]', endpoint, error)
@@ -80,7 +159,7 @@ class ApiClient {
         } catch {
           errorMessage = response.statusText || errorMessage
         }
-        throw new Error(errorMessage)
+        throw new ApiRequestError(errorMessage, response.status, details)
       }
 
       // Handle 204 No Content responses (e.g., DELETE)
@@ -125,6 +204,49 @@ class ApiClient {
     })
   }
 
+  /**
+   * POST a file as the raw request body
+   */
+  async upload<T>(endpoint: string, file: Blob): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+      // keepalive requests are capped at 64KB, too small for archives
+      keepalive: false,
+    })
+  }
+
+  /**
+   * GET a file, returning its content and the server-suggested file name
+   */
+  async download(endpoint: string): Promise<{ blob: Blob; fileName: string | null }> {
+    const url = this.baseUrl ? `${this.baseUrl}${endpoint}` : endpoint
+    const response = await fetch(url, { method: 'GET', credentials: 'include' })
+
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}`
+      try {
+        const error = await response.json()
+        errorMessage = error.error || error.message || errorMessage
+      } catch {
+        errorMessage = response.statusText || errorMessage
+      }
+      throw new ApiRequestError(errorMessage, response.status)
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const fileName = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? null
+    return { blob: await response.blob(), fileName }
+  }
+
+  /**
+   * Absolute URL of an endpoint, for clients that connect without fetch (e.g. EventSource)
+   */
+  url(endpoint: string): string {
+    return this.baseUrl ? `${this.baseUrl}${endpoint}` : endpoint
+  }
+
   /**
    * DELETE request
    */
@@ -191,6 +313,50 @@ class TasksService {
     const response = await this.client.post<TaskResponse>(`/api/tasks/${id}/duplicate`)
     return response.task
   }
+
+  async export(id: string, version?: number): Promise<{ blob: Blob; fileName: string | null }> {
+    const queryParams = version !== undefined ? `?version=${version}` : ''
+    return this.client.download(`/api/tasks/${id}/export${queryParams}`)
+  }
+
+  async import(file: Blob): Promise<TaskImportResponse> {
+    return this.client.upload<TaskImportResponse>('/api/tasks/import', file)
+  }
+
+  async lint(id: string): Promise<TaskLintResult> {
+    return this.client.get<TaskLintResult>(`/api/tasks/${id}/lint`)
+  }
+
+  async comments(id: string): Promise<ReviewComment[]> {
+    const response = await this.client.get<ReviewCommentsResponse>(`/api/tasks/${id}/comments`)
+    return response.comments
+  }
+
+  async threads(id: string): Promise<DiscussionThread[]> {
+    const response = await this.client.get<DiscussionThreadsResponse>(`/api/tasks/${id}/threads`)
+    return response.threads
+  }
+
+  async openThread(id: string, data: CreateThreadDto): Promise<DiscussionThread> {
+    const response = await this.client.post<DiscussionThreadResponse>(`/api/tasks/${id}/threads`, data)
+    return response.thread
+  }
+
+  async replyToThread(id: string, threadId: string, body: string): Promise<DiscussionThread> {
+    const data: ReplyToThreadDto = { body }
+    const response = await this.client.post<DiscussionThreadResponse>(`/api/tasks/${id}/threads/${threadId}/replies`, data)
+    return response.thread
+  }
+
+  async resolveThread(id: string, threadId: string): Promise<DiscussionThread> {
+    const response = await this.client.post<DiscussionThreadResponse>(`/api/tasks/${id}/threads/${threadId}/resolve`)
+    return response.thread
+  }
+
+  async reopenThread(id: string, threadId: string): Promise<DiscussionThread> {
+    const response = await this.client.post<DiscussionThreadResponse>(`/api/tasks/${id}/threads/${threadId}/reopen`)
+    return response.thread
+  }
 }
 
 /**
@@ -201,11 +367,13 @@ class ReviewerService {
 
   async listTasks(options?: { 
     limit?: number
-    filter?: 'pending' | 'history' | 'all'
+    filter?: 'pending' | 'assigned' | 'history' | 'all'
+    reason?: string // Only tasks with a review giving this reason code
   }): Promise<Task[]> {
     const params = new URLSearchParams()
     if (options?.limit) params.set('limit', String(options.limit))
     if (options?.filter) params.set('filter', options.filter)
+    if (options?.reason) params.set('reason', options.reason)
     const queryString = params.toString()
     const queryParams = queryString ? `?${queryString}` : ''
     const response = await this.client.get<TasksResponse>(`/api/reviewer/tasks${queryParams}`)
@@ -222,11 +390,209 @@ class ReviewerService {
     return response.task
   }
 
-  async submitReview(id: string, decision: ReviewDecision, comment?: string): Promise<{ task: Task; review: Review }> {
-    const data: SubmitReviewDto = { decision, comment }
+  async heartbeat(id: string): Promise<Date> {
+    const response = await this.client.post<ReviewLeaseResponse>(`/api/reviewer/tasks/${id}/heartbeat`)
+    return response.reviewLeaseExpiresAt
+  }
+
+  async releaseReview(id: string): Promise<Task> {
+    const response = await this.client.post<TaskResponse>(`/api/reviewer/tasks/${id}/release`)
+    return response.task
+  }
+
+  async reassignReview(id: string, reviewerId: string): Promise<Task> {
+    const data: ReassignReviewDto = { reviewerId }
+    const response = await this.client.post<TaskResponse>(`/api/reviewer/tasks/${id}/reassign`, data)
+    return response.task
+  }
+
+  async listReviewers(): Promise<UserSummary[]> {
+    const response = await this.client.get<ReviewersResponse>('/api/reviewer/reviewers')
+    return response.reviewers
+  }
+
+  async exportApproved(filters: DatasetExportFilters = {}): Promise<{ blob: Blob; fileName: string | null }> {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value)
+    }
+    const queryString = params.toString()
+    return this.client.download(`/api/reviewer/export${queryString ? `?${queryString}` : ''}`)
+  }
+
+  async submitReview(id: string, data: SubmitReviewDto): Promise<{ task: Task; review: Review }> {
     const response = await this.client.post<ReviewResponse>(`/api/reviewer/tasks/${id}/review`, data)
     return { task: response.task, review: response.review }
   }
+
+  async createComment(id: string, data: CreateReviewCommentDto): Promise<ReviewComment> {
+    const response = await this.client.post<ReviewCommentResponse>(`/api/reviewer/tasks/${id}/comments`, data)
+    return response.comment
+  }
+
+  async deleteComment(id: string, commentId: string): Promise<void> {
+    await this.client.delete<void>(`/api/reviewer/tasks/${id}/comments/${commentId}`)
+  }
+
+  async listRubrics(): Promise<RubricTemplate[]> {
+    const response = await this.client.get<RubricTemplatesResponse>('/api/reviewer/rubrics')
+    return response.templates
+  }
+
+  async createRubric(data: SaveRubricTemplateDto): Promise<RubricTemplate> {
+    const response = await this.client.post<RubricTemplateResponse>('/api/reviewer/rubrics', data)
+    return response.template
+  }
+
+  async updateRubric(key: string, data: SaveRubricTemplateDto): Promise<RubricTemplate> {
+    const response = await this.client.put<RubricTemplateResponse>(`/api/reviewer/rubrics/${key}`, data)
+    return response.template
+  }
+
+  async archiveRubric(key: string): Promise<void> {
+    await this.client.delete<void>(`/api/reviewer/rubrics/${key}`)
+  }
+
+  async listReasons(options?: { includeArchived?: boolean }): Promise<ReviewReason[]> {
+    const queryParams = options?.includeArchived ? '?includeArchived=true' : ''
+    const response = await this.client.get<ReviewReasonsResponse>(`/api/reviewer/reasons${queryParams}`)
+    return response.reasons
+  }
+
+  async createReason(data: CreateReviewReasonDto): Promise<ReviewReason> {
+    const response = await this.client.post<ReviewReasonResponse>('/api/reviewer/reasons', data)
+    return response.reason
+  }
+
+  async updateReason(code: string, data: UpdateReviewReasonDto): Promise<ReviewReason> {
+    const response = await this.client.put<ReviewReasonResponse>(`/api/reviewer/reasons/${code}`, data)
+    return response.reason
+  }
+
+  async getReasonReport(range: { from?: string; to?: string } = {}): Promise<ReviewReasonReport> {
+    const params = new URLSearchParams()
+    if (range.from) params.set('from', range.from)
+    if (range.to) params.set('to', range.to)
+    const queryString = params.toString()
+    const queryParams = queryString ? `?${queryString}` : ''
+    const response = await this.client.get<ReviewReasonReportResponse>(`/api/reviewer/reasons/report${queryParams}`)
+    return response.report
+  }
+
+  async getAssignmentSettings(): Promise<ReviewAssignmentSettings> {
+    const response = await this.client.get<ReviewAssignmentSettingsResponse>('/api/reviewer/assignment-settings')
+    return response.settings
+  }
+
+  async updateAssignmentSettings(data: UpdateReviewAssignmentSettingsDto): Promise<ReviewAssignmentSettings> {
+    const response = await this.client.put<ReviewAssignmentSettingsResponse>('/api/reviewer/assignment-settings', data)
+    return response.settings
+  }
+}
+
+interface DatasetExportFilters {
+  category?: string
+  difficulty?: string
+  approvedFrom?: string // ISO date
+  approvedTo?: string // ISO date
+}
+
+// ==================== Runs Service ====================
+
+/**
+ * Task runs (served by the sidecar)
+ */
+class RunsService {
+  constructor(private client: ApiClient) {}
+
+  async start(
+    taskId: string,
+    options: { version?: number; mode?: RunMode; iterations?: number } = {}
+  ): Promise<TaskRun> {
+    const response = await this.client.post<TaskRunResponse>('/api/runs', { taskId, ...options })
+    return response.run
+  }
+
+  async list(taskId: string, mode?: RunMode): Promise<TaskRun[]> {
+    const params = new URLSearchParams({ taskId })
+    if (mode) params.set('mode', mode)
+    const response = await this.client.get<TaskRunsResponse>(`/api/runs?${params.toString()}`)
+    return response.runs
+  }
+
+  async getLatest(taskId: string, mode?: RunMode): Promise<TaskRun | null> {
+    const params = new URLSearchParams({ taskId })
+    if (mode) params.set('mode', mode)
+    const response = await this.client.get<{ run: TaskRun | null }>(`/api/runs/latest?${params.toString()}`)
+    return response.run
+  }
+
+  /**
+   * Compare the test results of two task versions (by default the two latest with results)
+   */
+  async compareTestResults(
+    taskId: string,
+    versions: { from?: number; to?: number } = {}
+  ): Promise<TestResultComparison> {
+    const params = new URLSearchParams({ taskId })
+    if (versions.from) params.set('from', String(versions.from))
+    if (versions.to) params.set('to', String(versions.to))
+    const response = await this.client.get<{ comparison: TestResultComparison }>(
+      `/api/runs/compare?${params.toString()}`
+    )
+    return response.comparison
+  }
+
+  async get(id: string): Promise<TaskRun> {
+    const response = await this.client.get<TaskRunResponse>(`/api/runs/${id}`)
+    return response.run
+  }
+
+  async cancel(id: string): Promise<TaskRun> {
+    const response = await this.client.post<TaskRunResponse>(`/api/runs/${id}/cancel`)
+    return response.run
+  }
+
+  /**
+   * A run's terminal recording, as asciicast v2 source
+   */
+  async recording(id: string): Promise<string> {
+    const { blob } = await this.client.download(`/api/runs/${id}/recording`)
+    return blob.text()
+  }
+
+  /**
+   * URL of a run's Server-Sent Events stream of stages, output and status
+   */
+  eventsUrl(id: string): string {
+    return this.client.url(`/api/runs/${id}/events`)
+  }
+}
+
+/**
+ * Terminal sessions into task environments (served by the sidecar)
+ */
+class TerminalsService {
+  constructor(private client: ApiClient) {}
+
+  async open(taskId: string): Promise<TerminalSession> {
+    const response = await this.client.post<{ session: TerminalSession }>('/api/terminals', { taskId })
+    return response.session
+  }
+
+  /**
+   * URL of a session's WebSocket, authenticated by the session's token
+   */
+  socketUrl(session: TerminalSession): string {
+    const url = new URL(this.client.url(`/api/terminals/${session.id}/socket`), window.location.href)
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+    url.searchParams.set('token', session.token)
+    return url.toString()
+  }
+
+  async transcript(id: string): Promise<{ blob: Blob; fileName: string | null }> {
+    return this.client.download(`/api/terminals/${id}/transcript`)
+  }
 }
 
 // ==================== Audit Service ====================
@@ -293,12 +659,15 @@ class AuditService {
 // ==================== Exports ====================
 
 const apiClient = new ApiClient(API_URL)
+const sidecarClient = new ApiClient(SIDECAR_URL)
 
 export const api = {
   auth: new AuthService(apiClient),
   tasks: new TasksService(apiClient),
   reviewer: new ReviewerService(apiClient),
   audit: new AuditService(apiClient),
+  runs: new RunsService(sidecarClient),
+  terminals: new TerminalsService(sidecarClient),
 }
 
 // Legacy exports for backward compatibility (will be removed)
@@ -315,11 +684,11 @@ export const tasksApi = {
 }
 
 export const reviewerApi = {
-  listTasks: (options?: { limit?: number; filter?: 'pending' | 'history' | 'all' }) => api.reviewer.listTasks(options),
+  listTasks: (options?: { limit?: number; filter?: 'pending' | 'assigned' | 'history' | 'all'; reason?: string }) =>
+    api.reviewer.listTasks(options),
   getTask: (id: string) => api.reviewer.getTask(id),
   startReview: (id: string) => api.reviewer.startReview(id),
-  submitReview: (id: string, decision: ReviewDecision, comment?: string) =>
-    api.reviewer.submitReview(id, decision, comment),
+  submitReview: (id: string, data: SubmitReviewDto) => api.reviewer.submitReview(id, data),
 }
 
 export const auditApi = {
@@ -331,4 +700,4 @@ export const auditApi = {
 }
 
 // Export types for use in components
-export type { AuditLogEntry, DiffChange, TaskDiff }
+export type { AuditLogEntry, DiffChange, TaskDiff, DatasetExportFilters }
@@ -0,0 +1,86 @@
+/**
+ * Asciicast Recordings
+ * Parses asciicast v2 files and replays their output up to a point in time
+ */
+
+import type { AsciicastEvent, AsciicastHeader } from '@repo/types'
+
+export interface AsciicastMarker {
+  time: number
+  label: string
+}
+
+export interface AsciicastRecording {
+  header: AsciicastHeader
+  output: Array<{ time: number; data: string }>
+  markers: AsciicastMarker[]
+  duration: number // seconds
+}
+
+/**
+ * Terminal lines after replaying the first `eventCount` output events
+ * The last line is the one still being written.
+ */
+export interface AsciicastFrame {
+  eventCount: number
+  lines: string[]
+}
+
+/**
+ * Parse an asciicast v2 file: a JSON header line, then one JSON event per line
+ * Events of types other than output and marker (e.g. input) are skipped.
+ */
+export function parseAsciicast(source: string): AsciicastRecording {
+  const [headerLine, ...eventLines] = source.split('\n')
+  const header = JSON.parse(headerLine) as AsciicastHeader
+  if (header.version !== 2) {
+    throw new Error(`Unsupported asciicast version: ${header.version}`)
+  }
+
+  const output: AsciicastRecording['output'] = []
+  const markers: AsciicastMarker[] = []
+  let duration = 0
+
+  for (const line of eventLines) {
+    if (!line.trim()) continue
+    const [time, type, data] = JSON.parse(line) as AsciicastEvent
+    duration = Math.max(duration, time)
+    if (type === 'o') output.push({ time, data })
+    else if (type === 'm') markers.push({ time, label: data })
+  }
+
+  return { header, output, markers, duration }
+}
+
+/**
+ * Number of output events at or before a time
+ */
+function countEventsAt(recording: AsciicastRecording, time: number): number {
+  let low = 0
+  let high = recording.output.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (recording.output[middle].time <= time) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+/**
+ * The frame shown at a time
+ * Playing forward continues from the previous frame (which is updated in
+ * place); seeking backwards replays from the start.
+ */
+export function getFrameAt(recording: AsciicastRecording, time: number, previous?: AsciicastFrame): AsciicastFrame {
+  const eventCount = countEventsAt(recording, time)
+  const frame = previous && previous.eventCount <= eventCount ? previous : { eventCount: 0, lines: [''] }
+
+  for (let index = frame.eventCount; index < eventCount; index++) {
+    const [first, ...rest] = recording.output[index].data.split('\n')
+    frame.lines[frame.lines.length - 1] += first
+    frame.lines.push(...rest)
+  }
+  frame.eventCount = eventCount
+
+  return frame
+}
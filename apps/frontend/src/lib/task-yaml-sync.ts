@@ -0,0 +1,53 @@
+/**
+ * task.yaml Form Sync
+ * Keeps the task.yaml editor and the structured form fields it duplicates in step
+ */
+
+import {
+  TASK_YAML_SYNCED_FIELDS,
+  isSameSyncedValue,
+  readTaskYamlSyncedFields,
+  writeTaskYamlFields,
+  type TaskYamlSyncedField,
+} from '@repo/types'
+
+interface TaskYamlFormState {
+  taskYaml?: string
+}
+
+function isSyncedField(field: PropertyKey): field is TaskYamlSyncedField {
+  return (TASK_YAML_SYNCED_FIELDS as readonly PropertyKey[]).includes(field)
+}
+
+/**
+ * Apply a form edit and mirror it to the other side
+ * Editing task.yaml updates the structured fields it sets to valid values;
+ * editing a structured field rewrites the matching key in task.yaml. An
+ * empty or unparseable task.yaml is left as typed.
+ */
+export function applyTaskFormChange<T extends TaskYamlFormState>(
+  form: T,
+  field: keyof T,
+  value: unknown
+): T {
+  const next = { ...form, [field]: value }
+
+  if (field === 'taskYaml') {
+    const yamlFields = typeof value === 'string' && value.trim() ? readTaskYamlSyncedFields(value) : null
+    if (!yamlFields) return next
+
+    for (const synced of TASK_YAML_SYNCED_FIELDS) {
+      const yamlValue = yamlFields[synced]
+      if (yamlValue !== undefined && synced in next && !isSameSyncedValue(synced, yamlValue, next[synced as keyof T])) {
+        Object.assign(next, { [synced]: yamlValue })
+      }
+    }
+    return next
+  }
+
+  if (isSyncedField(field) && next.taskYaml?.trim()) {
+    next.taskYaml = writeTaskYamlFields(next.taskYaml, { [field]: value })
+  }
+
+  return next
+}
@@ -22,6 +22,7 @@ import {
 import {
   Clock,
   Timer,
+  UserCheck,
   CheckCircle2,
   XCircle,
   AlertCircle,
@@ -78,6 +79,7 @@ export function getStateIcon(state: TaskState | string): LucideIcon {
     [TaskState.DRAFT]: Edit3,
     [TaskState.SUBMITTED]: Clock,
     [TaskState.IN_REVIEW]: Timer,
+    [TaskState.PARTIALLY_APPROVED]: UserCheck,
     [TaskState.APPROVED]: CheckCircle2,
     [TaskState.REJECTED]: XCircle,
     [TaskState.CHANGES_REQUESTED]: AlertCircle,
@@ -0,0 +1,131 @@
+/**
+ * Archive Unit Tests
+ * Reading uploaded task archives and the limits that guard it
+ */
+
+import { describe, it, expect } from 'vitest'
+import zlib from 'zlib'
+import { createTarGz, readArchive, stripCommonRoot, MAX_ARCHIVE_UNCOMPRESSED_BYTES } from '../../lib/archive'
+import { BadRequestError } from '../../lib/errors'
+
+interface ZipFile {
+  name: string
+  data: Buffer
+  mode?: number
+  declaredSize?: number // Uncompressed size to write in the headers, if not the real one
+}
+
+/**
+ * Build a deflated .zip archive
+ */
+function createZip(files: ZipFile[]): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8')
+    const compressed = zlib.deflateRawSync(file.data)
+    const size = file.declaredSize ?? file.data.length
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(size, 22)
+    local.writeUInt16LE(name.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(size, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(((0o100000 | (file.mode ?? 0o644)) << 16) >>> 0, 38)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, name, compressed)
+    centrals.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDir = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDir.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, centralDir, end])
+}
+
+describe('readArchive', () => {
+  it('should read back the files of a .tar.gz with their modes', () => {
+    const archive = createTarGz([
+      { path: 'task/task.yaml', data: Buffer.from('instruction: hi\n'), mode: 0o644 },
+      { path: 'task/solution.sh', data: Buffer.from('#!/bin/bash\n'), mode: 0o755 },
+    ])
+
+    const entries = readArchive(archive)
+
+    expect(entries.map(entry => [entry.path, entry.mode])).toEqual(
+      expect.arrayContaining([['task/task.yaml', 0o644], ['task/solution.sh', 0o755]])
+    )
+    expect(entries.find(entry => entry.path === 'task/task.yaml')?.data.toString()).toBe('instruction: hi\n')
+  })
+
+  it('should read a .zip and skip archiver metadata', () => {
+    const archive = createZip([
+      { name: 'run-tests.sh', data: Buffer.from('pytest\n'), mode: 0o755 },
+      { name: '__MACOSX/._run-tests.sh', data: Buffer.from('junk') },
+    ])
+
+    const entries = readArchive(archive)
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ path: 'run-tests.sh', mode: 0o755 })
+    expect(entries[0].data.toString()).toBe('pytest\n')
+  })
+
+  it('should reject paths that escape the archive root', () => {
+    const archive = createZip([{ name: '../outside.sh', data: Buffer.from('x') }])
+
+    expect(() => readArchive(archive)).toThrow(/escapes the archive root/)
+  })
+
+  it('should reject a zip whose entries inflate past the limit whatever sizes they declare', () => {
+    const chunk = Buffer.alloc(Math.ceil(MAX_ARCHIVE_UNCOMPRESSED_BYTES / 2) + 1)
+    const archive = createZip([
+      { name: 'a.bin', data: chunk, declaredSize: 1 },
+      { name: 'b.bin', data: chunk, declaredSize: 1 },
+    ])
+
+    expect(() => readArchive(archive)).toThrow(/too large/)
+  })
+
+  it('should reject content that is not an archive', () => {
+    expect(() => readArchive(Buffer.from('just some text'))).toThrow(BadRequestError)
+  })
+})
+
+describe('stripCommonRoot', () => {
+  it('should strip a directory every entry shares', () => {
+    const { root, entries } = stripCommonRoot([
+      { path: 'my-task/task.yaml', data: Buffer.alloc(0), mode: 0o644 },
+      { path: 'my-task/tests/test_outputs.py', data: Buffer.alloc(0), mode: 0o644 },
+    ])
+
+    expect(root).toBe('my-task')
+    expect(entries.map(entry => entry.path)).toEqual(['task.yaml', 'tests/test_outputs.py'])
+  })
+
+  it('should leave entries without a shared directory alone', () => {
+    const { root } = stripCommonRoot([
+      { path: 'task.yaml', data: Buffer.alloc(0), mode: 0o644 },
+      { path: 'tests/test_outputs.py', data: Buffer.alloc(0), mode: 0o644 },
+    ])
+
+    expect(root).toBeNull()
+  })
+})
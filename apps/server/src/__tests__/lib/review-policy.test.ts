@@ -0,0 +1,107 @@
+/**
+ * Review Policy Unit Tests
+ * Required approvals and the state a round's reviews put a task in
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { Difficulty, ReviewDecision, TaskState } from '@repo/types'
+import {
+  getRequiredApprovals,
+  getRoundReviews,
+  getStandingReviews,
+  resolveReviewState,
+  getReviewConsensus,
+  RoundReview,
+} from '../../lib/review-policy'
+
+const { APPROVE, REJECT, REQUEST_CHANGES } = ReviewDecision
+
+function review(id: string, reviewerId: string, decision: ReviewDecision, createdAt: string): RoundReview {
+  return {
+    id,
+    reviewerId,
+    decision,
+    createdAt: new Date(createdAt),
+    reviewer: { id: reviewerId, name: reviewerId, email: `${reviewerId}@example.com` },
+  }
+}
+
+describe('resolveReviewState', () => {
+  it('should reject when any standing decision is a rejection', () => {
+    expect(resolveReviewState([APPROVE, REQUEST_CHANGES, REJECT], 1)).toBe(TaskState.REJECTED)
+  })
+
+  it('should request changes when there is a change request and no rejection', () => {
+    expect(resolveReviewState([APPROVE, REQUEST_CHANGES], 1)).toBe(TaskState.CHANGES_REQUESTED)
+  })
+
+  it('should approve once enough reviewers approved', () => {
+    expect(resolveReviewState([APPROVE, APPROVE], 2)).toBe(TaskState.APPROVED)
+  })
+
+  it('should be partially approved before enough reviewers approved', () => {
+    expect(resolveReviewState([APPROVE], 2)).toBe(TaskState.PARTIALLY_APPROVED)
+    expect(resolveReviewState([], 1)).toBe(TaskState.PARTIALLY_APPROVED)
+  })
+})
+
+describe('getRequiredApprovals', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should default by difficulty', () => {
+    expect(getRequiredApprovals(Difficulty.EASY)).toBe(1)
+    expect(getRequiredApprovals(Difficulty.HARD)).toBe(2)
+  })
+
+  it('should prefer the per-difficulty setting over the global one', () => {
+    vi.stubEnv('REVIEW_REQUIRED_APPROVALS', '3')
+    vi.stubEnv('REVIEW_REQUIRED_APPROVALS_HARD', '4')
+
+    expect(getRequiredApprovals(Difficulty.MEDIUM)).toBe(3)
+    expect(getRequiredApprovals(Difficulty.HARD)).toBe(4)
+  })
+
+  it('should ignore settings that are not positive integers', () => {
+    vi.stubEnv('REVIEW_REQUIRED_APPROVALS', '0')
+
+    expect(getRequiredApprovals(Difficulty.MEDIUM)).toBe(1)
+  })
+})
+
+describe('round reviews', () => {
+  it('should only count reviews since the task was submitted', () => {
+    const reviews = [
+      review('r2', 'alice', APPROVE, '2025-01-03'),
+      review('r1', 'alice', REJECT, '2025-01-01'),
+    ]
+
+    const round = getRoundReviews({ submittedAt: new Date('2025-01-02'), reviews })
+
+    expect(round.map(r => r.id)).toEqual(['r2'])
+  })
+
+  it("should keep each reviewer's latest review as their standing decision", () => {
+    const reviews = [
+      review('r3', 'alice', APPROVE, '2025-01-03'),
+      review('r2', 'bob', REQUEST_CHANGES, '2025-01-02'),
+      review('r1', 'alice', REQUEST_CHANGES, '2025-01-01'),
+    ]
+
+    expect(getStandingReviews(reviews).map(r => r.id)).toEqual(['r3', 'r2'])
+  })
+
+  it('should report approvals, objections and the approvals still needed', () => {
+    const reviews = [
+      review('r2', 'bob', REQUEST_CHANGES, '2025-01-02'),
+      review('r1', 'alice', APPROVE, '2025-01-01'),
+    ]
+
+    const consensus = getReviewConsensus(reviews, 2)
+
+    expect(consensus.approvals.map(signOff => signOff.reviewId)).toEqual(['r1'])
+    expect(consensus.objections.map(signOff => signOff.reviewId)).toEqual(['r2'])
+    expect(consensus.remainingApprovals).toBe(1)
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Prisma Test Doubles
+ * Record factories and a mocked Prisma client for service unit tests
+ */
+
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { Difficulty, NetworkPolicy, TaskState, UserRole } from '@repo/types'
+
+const MODEL_METHODS = [
+  'findMany',
+  'findFirst',
+  'findFirstOrThrow',
+  'findUnique',
+  'findUniqueOrThrow',
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+  'count',
+  'groupBy',
+] as const
+
+type ModelMethod = typeof MODEL_METHODS[number]
+type MockModel = Record<ModelMethod, Mock>
+
+/**
+ * What each method resolves to until a test says otherwise: nothing found
+ */
+const EMPTY_RESULTS: Partial<Record<ModelMethod, unknown>> = {
+  findMany: [],
+  groupBy: [],
+  count: 0,
+  createMany: { count: 0 },
+  updateMany: { count: 0 },
+  deleteMany: { count: 0 },
+}
+
+function createMockModel(): MockModel {
+  return Object.fromEntries(
+    MODEL_METHODS.map(method => [method, vi.fn(async () => EMPTY_RESULTS[method] ?? null)])
+  ) as MockModel
+}
+
+/**
+ * A Prisma client whose model methods are all mocks
+ */
+export function createMockPrisma() {
+  return {
+    task: createMockModel(),
+    taskHistory: createMockModel(),
+    taskRun: createMockModel(),
+    taskFileBlob: createMockModel(),
+    review: createMockModel(),
+    reviewComment: createMockModel(),
+    auditLog: createMockModel(),
+    user: createMockModel(),
+    $transaction: vi.fn(),
+  }
+}
+
+/**
+ * A task row, with overrides
+ */
+export function createMockTask(overrides: Record<string, unknown> = {}) {
+  const now = new Date('2025-01-01T00:00:00.000Z')
+  return {
+    id: 'task-1',
+    title: 'Test Task',
+    instruction: 'Task instructions',
+    difficulty: Difficulty.MEDIUM,
+    categories: 'testing',
+    maxAgentTimeoutSec: 300,
+    maxTestTimeoutSec: 60,
+    cpuLimit: null,
+    memoryLimitMb: null,
+    diskLimitMb: null,
+    networkPolicy: NetworkPolicy.RESTRICTED,
+    taskYaml: null,
+    dockerComposeYaml: null,
+    solutionSh: null,
+    runTestsSh: null,
+    testFiles: [],
+    storageOnlyFiles: [],
+    state: TaskState.DRAFT,
+    authorId: 'user-1',
+    reviewerId: null,
+    reviewLeaseExpiresAt: null,
+    assigneeId: null,
+    assignedAt: null,
+    submittedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
+
+/**
+ * A user row, with overrides
+ */
+export function createMockUser(overrides: Record<string, unknown> = {}) {
+  const now = new Date('2025-01-01T00:00:00.000Z')
+  return {
+    id: 'user-1',
+    clerkId: 'clerk-user-1',
+    email: 'user@example.com',
+    name: 'Test User',
+    role: UserRole.USER,
+    acceptsAssignments: true,
+    reviewCapacity: null,
+    reviewCategories: '',
+    lastAssignedAt: null,
+    isReviewLead: false,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Review Assignment Unit Tests
+ * Choosing a reviewer and claiming the task for them
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { TaskState } from '@repo/types'
+import { createMockTask, createMockUser } from '../mocks/prisma'
+
+vi.mock('@repo/db', async () => {
+  const { createMockPrisma } = await import('../mocks/prisma')
+  const mockPrisma = createMockPrisma()
+  // Interactive transactions run against the same mocked client
+  mockPrisma.$transaction.mockImplementation(async (callback: (tx: unknown) => unknown) => callback(mockPrisma))
+
+  return {
+    prisma: mockPrisma,
+    AuditAction: { TASK_ASSIGNED: 'TASK_ASSIGNED' },
+    UserRole: { REVIEWER: 'REVIEWER' },
+  }
+})
+
+vi.mock('../../services/audit.service', () => ({
+  AuditService: {
+    log: vi.fn().mockResolvedValue(undefined),
+  },
+}))
+
+import { prisma } from '@repo/db'
+import { ReviewAssignmentService } from '../../services/review-assignment.service'
+import { AuditService } from '../../services/audit.service'
+
+const mockPrisma = prisma as any
+
+const author = createMockUser()
+const reviewer = createMockUser({ id: 'reviewer-1', role: 'REVIEWER', email: 'reviewer@example.com' })
+
+describe('ReviewAssignmentService.assignTask', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.task.findUnique.mockResolvedValue({ ...createMockTask({ state: TaskState.SUBMITTED }), reviews: [] })
+    mockPrisma.user.findMany.mockResolvedValue([reviewer])
+  })
+
+  it('should assign the task to an available reviewer', async () => {
+    mockPrisma.task.updateMany.mockResolvedValue({ count: 1 })
+
+    const assignee = await ReviewAssignmentService.assignTask('task-1', 'submitted', author)
+
+    expect(assignee?.id).toBe('reviewer-1')
+    expect(mockPrisma.task.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ id: 'task-1', assigneeId: null }),
+    }))
+    expect(mockPrisma.user.update).toHaveBeenCalled()
+    expect(AuditService.log).toHaveBeenCalled()
+  })
+
+  it('should leave a task another request assigned first', async () => {
+    mockPrisma.task.updateMany.mockResolvedValue({ count: 0 })
+
+    const assignee = await ReviewAssignmentService.assignTask('task-1', 'submitted', author)
+
+    expect(assignee).toBeNull()
+    expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    expect(AuditService.log).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Task Export Unit Tests
+ * Storage-only files in exported task directories
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockTask } from '../mocks/prisma'
+
+vi.mock('@repo/db', async () => {
+  const { createMockPrisma } = await import('../mocks/prisma')
+  return { prisma: createMockPrisma() }
+})
+
+import { prisma } from '@repo/db'
+import { TaskExportService, readStorageOnlyFiles } from '../../services/task-export.service'
+import { ValidationError } from '../../lib/errors'
+
+const mockPrisma = prisma as any
+
+const dockerfile = { path: 'Dockerfile', size: 16, mode: 0o644, sha256: 'hash-dockerfile' }
+
+describe('readStorageOnlyFiles', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('should read the stored content of each version\'s files', async () => {
+    mockPrisma.taskFileBlob.findMany.mockResolvedValue([
+      { sha256: 'hash-dockerfile', data: Buffer.from('FROM ubuntu:24.04'), size: 16 },
+    ])
+    const source = createMockTask({ storageOnlyFiles: [dockerfile] })
+
+    const [files] = await readStorageOnlyFiles([{ title: source.title, source }])
+
+    expect(files).toEqual([{ path: 'Dockerfile', data: Buffer.from('FROM ubuntu:24.04'), mode: 0o644 }])
+    expect(TaskExportService.buildTaskFiles(source, files).map(file => file.path)).toContain('Dockerfile')
+  })
+
+  it('should not query storage for tasks without storage-only files', async () => {
+    const source = createMockTask()
+
+    expect(await readStorageOnlyFiles([{ title: source.title, source }])).toEqual([[]])
+    expect(mockPrisma.taskFileBlob.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should refuse files whose content was not stored, by path', async () => {
+    const source = createMockTask({
+      storageOnlyFiles: [dockerfile, { path: 'tests/fixture.bin', size: 4, mode: 0o644 }],
+    })
+
+    const error = await readStorageOnlyFiles([{ title: source.title, source }]).catch(caught => caught)
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.details.map((detail: { path: string[] }) => detail.path)).toEqual([
+      ['storageOnlyFiles', 'Dockerfile'],
+      ['storageOnlyFiles', 'tests/fixture.bin'],
+    ])
+  })
+})
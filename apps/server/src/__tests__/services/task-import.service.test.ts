@@ -0,0 +1,57 @@
+/**
+ * Task Import Unit Tests
+ * Mapping archive entries onto task fields
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@repo/db', async () => {
+  const { createMockPrisma } = await import('../mocks/prisma')
+  return { prisma: createMockPrisma() }
+})
+
+import { TaskImportService } from '../../services/task-import.service'
+
+function entry(path: string, data: string | Buffer, mode = 0o644) {
+  return { path, data: Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8'), mode }
+}
+
+describe('TaskImportService.mapEntries', () => {
+  it('should map column files and text test files onto task fields', () => {
+    const { files, storageOnlyFiles, unrecognizedFiles } = TaskImportService.mapEntries([
+      entry('task.yaml', 'instruction: Do it\n'),
+      entry('run-tests.sh', 'pytest\n', 0o755),
+      entry('tests/test_outputs.py', 'def test_x(): pass\n'),
+    ])
+
+    expect(files.taskYaml).toBe('instruction: Do it\n')
+    expect(files.runTestsSh).toBe('pytest\n')
+    expect(files.testFiles).toEqual([{ path: 'test_outputs.py', content: 'def test_x(): pass\n', mode: 0o644 }])
+    expect(storageOnlyFiles).toEqual([])
+    expect(unrecognizedFiles).toEqual([])
+  })
+
+  it('should keep the Dockerfile and binary test fixtures as storage-only files', () => {
+    const fixture = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00])
+
+    const { storageOnlyFiles, unrecognizedFiles } = TaskImportService.mapEntries([
+      entry('Dockerfile', 'FROM ubuntu:24.04\n'),
+      entry('tests/image.png', fixture),
+    ])
+
+    expect(storageOnlyFiles).toEqual([
+      { path: 'Dockerfile', data: Buffer.from('FROM ubuntu:24.04\n'), mode: 0o644 },
+      { path: 'tests/image.png', data: fixture, mode: 0o644 },
+    ])
+    expect(unrecognizedFiles).toEqual([])
+  })
+
+  it('should report files that have no place in a task', () => {
+    const { unrecognizedFiles } = TaskImportService.mapEntries([
+      entry('README.md', '# Task\n'),
+      entry('docker-compose.override.yaml', 'services: {}\n'),
+    ])
+
+    expect(unrecognizedFiles).toEqual(['README.md'])
+  })
+})
@@ -7,28 +7,10 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { createMockTask, createMockUser, createMockPrisma } from '../mocks/prisma'
 
 // Mock the @repo/db module
-vi.mock('@repo/db', () => {
-  const mockPrisma = {
-    task: {
-      findMany: vi.fn(),
-      findUnique: vi.fn(),
-      create: vi.fn(),
-      update: vi.fn(),
-      delete: vi.fn(),
-    },
-    review: {
-      findMany: vi.fn(),
-      create: vi.fn(),
-    },
-    auditLog: {
-      create: vi.fn(),
-    },
-    taskHistory: {
-      findFirst: vi.fn(),
-      create: vi.fn(),
-    },
-  }
-  
+vi.mock('@repo/db', async () => {
+  const { createMockPrisma } = await import('../mocks/prisma')
+  const mockPrisma = createMockPrisma()
+
   return {
     prisma: mockPrisma,
     AuditAction: {
@@ -43,13 +25,34 @@ vi.mock('@repo/db', () => {
   }
 })
 
+// Assignment, comment re-anchoring and thread counts run their own queries; here they only need to be triggered
+vi.mock('../../services/review-assignment.service', () => ({
+  ReviewAssignmentService: {
+    assignTask: vi.fn().mockResolvedValue(null),
+  },
+}))
+vi.mock('../../services/review-comment.service', () => ({
+  ReviewCommentService: {
+    reanchorComments: vi.fn().mockResolvedValue(undefined),
+  },
+}))
+vi.mock('../../services/discussion.service', () => ({
+  DiscussionService: {
+    countUnresolvedReviewerThreads: vi.fn().mockResolvedValue(0),
+  },
+}))
+
 // Import after mocking
 import { TaskService } from '../../services/task.service'
+import { ReviewAssignmentService } from '../../services/review-assignment.service'
+import { ReviewCommentService } from '../../services/review-comment.service'
+import { DiscussionService } from '../../services/discussion.service'
 import { prisma } from '@repo/db'
 import { 
   NotFoundError, 
   ForbiddenError, 
-  BadRequestError 
+  BadRequestError,
+  ValidationError,
 } from '../../lib/errors'
 import { Difficulty } from '@repo/types'
 
@@ -62,6 +65,7 @@ describe('TaskService', () => {
 
   afterEach(() => {
     vi.restoreAllMocks()
+    vi.unstubAllEnvs()
   })
 
   // =============================================================================
@@ -168,6 +172,14 @@ describe('TaskService', () => {
       maxTestTimeoutSec: 60,
     }
 
+    const validTaskYaml = [
+      'instruction: Task instructions',
+      'difficulty: medium',
+      'category: testing',
+      'max_agent_timeout_sec: 300',
+      'max_test_timeout_sec: 60',
+    ].join('\n')
+
     it('should create task in DRAFT state', async () => {
       const mockUser = createMockUser()
       const createdTask = createMockTask({ ...validTaskData, state: 'DRAFT' })
@@ -233,7 +245,7 @@ describe('TaskService', () => {
       const mockUser = createMockUser()
       const taskDataWithOptional = {
         ...validTaskData,
-        taskYaml: 'version: 1',
+        taskYaml: validTaskYaml,
         dockerComposeYaml: 'services:',
         solutionSh: '#!/bin/bash',
       }
@@ -248,13 +260,70 @@ describe('TaskService', () => {
       expect(mockPrisma.task.create).toHaveBeenCalledWith(
         expect.objectContaining({
           data: expect.objectContaining({
-            taskYaml: 'version: 1',
+            taskYaml: validTaskYaml,
             dockerComposeYaml: 'services:',
             solutionSh: '#!/bin/bash',
           }),
         })
       )
     })
+
+    it('should store test files as a typed file list', async () => {
+      const mockUser = createMockUser()
+      const testFiles = [
+        { path: 'run.sh', content: '#!/bin/bash', mode: 0o755 },
+        { path: 'test_outputs.py', content: 'def test(): pass', mode: 0o644 },
+      ]
+      mockPrisma.task.create.mockResolvedValue(createMockTask({ ...validTaskData, testFiles }))
+      mockPrisma.auditLog.create.mockResolvedValue({})
+      mockPrisma.taskHistory.findFirst.mockResolvedValue(null)
+      mockPrisma.taskHistory.create.mockResolvedValue({})
+
+      await TaskService.createTask({ ...validTaskData, testFiles }, 'user-1', mockUser as any)
+
+      expect(mockPrisma.task.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ testFiles }),
+        })
+      )
+    })
+
+    it('should throw ValidationError with positions when task.yaml is invalid', async () => {
+      const mockUser = createMockUser()
+      const taskData = {
+        ...validTaskData,
+        taskYaml: 'instruction: Task instructions\ndifficulty: extreme\ncategory: testing\n',
+      }
+
+      const error = await TaskService.createTask(taskData, 'user-1', mockUser as any).catch(e => e)
+
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error.details).toContainEqual(
+        expect.objectContaining({ path: ['taskYaml', 'difficulty'], line: 2, column: 13 })
+      )
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+
+    it('should write the columns into task.yaml where they disagree', async () => {
+      const mockUser = createMockUser()
+      mockPrisma.task.create.mockResolvedValue(createMockTask({ ...validTaskData, state: 'DRAFT' }))
+      mockPrisma.auditLog.create.mockResolvedValue({})
+      mockPrisma.taskHistory.findFirst.mockResolvedValue(null)
+      mockPrisma.taskHistory.create.mockResolvedValue({})
+
+      await TaskService.createTask(
+        { ...validTaskData, taskYaml: validTaskYaml.replace('Task instructions', 'Old instructions') },
+        'user-1',
+        mockUser as any
+      )
+
+      const { data } = mockPrisma.task.create.mock.calls[0][0]
+      expect(data.instruction).toBe('Task instructions')
+      expect(data.taskYaml).toContain('instruction: Task instructions')
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data.metadata).toMatchObject({
+        taskYamlSync: { instruction: 'fields' },
+      })
+    })
   })
 
   // =============================================================================
@@ -302,6 +371,79 @@ describe('TaskService', () => {
       expect(result.title).toBe('Fixed Title')
     })
 
+    it('should rewrite task.yaml when a synced column changes', async () => {
+      const mockUser = createMockUser({ id: 'user-1' })
+      const taskYaml = [
+        'instruction: Task instructions',
+        'difficulty: medium',
+        'category: testing',
+        'max_agent_timeout_sec: 300',
+        'max_test_timeout_sec: 60',
+      ].join('\n')
+      const existingTask = createMockTask({
+        state: 'DRAFT',
+        authorId: 'user-1',
+        difficulty: Difficulty.MEDIUM,
+        categories: 'testing',
+        maxAgentTimeoutSec: 300,
+        maxTestTimeoutSec: 60,
+        taskYaml,
+      })
+
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+      mockPrisma.task.update.mockResolvedValue(existingTask)
+      mockPrisma.auditLog.create.mockResolvedValue({})
+      mockPrisma.taskHistory.findFirst.mockResolvedValue({ version: 1 })
+      mockPrisma.taskHistory.create.mockResolvedValue({})
+
+      await TaskService.updateTask('task-1', { difficulty: Difficulty.HARD }, mockUser as any)
+
+      const { data } = mockPrisma.task.update.mock.calls[0][0]
+      expect(data.difficulty).toBe(Difficulty.HARD)
+      expect(data.taskYaml).toContain('difficulty: hard')
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data.metadata).toMatchObject({
+        taskYamlSync: { difficulty: 'fields' },
+      })
+    })
+
+    it('should update synced columns when task.yaml changes', async () => {
+      const mockUser = createMockUser({ id: 'user-1' })
+      const taskYaml = [
+        'instruction: Task instructions',
+        'difficulty: medium',
+        'category: testing',
+        'max_agent_timeout_sec: 300',
+        'max_test_timeout_sec: 60',
+      ].join('\n')
+      const existingTask = createMockTask({
+        state: 'DRAFT',
+        authorId: 'user-1',
+        difficulty: Difficulty.MEDIUM,
+        categories: 'testing',
+        maxAgentTimeoutSec: 300,
+        maxTestTimeoutSec: 60,
+        taskYaml,
+      })
+
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+      mockPrisma.task.update.mockResolvedValue(existingTask)
+      mockPrisma.auditLog.create.mockResolvedValue({})
+      mockPrisma.taskHistory.findFirst.mockResolvedValue({ version: 1 })
+      mockPrisma.taskHistory.create.mockResolvedValue({})
+
+      await TaskService.updateTask(
+        'task-1',
+        { taskYaml: taskYaml.replace('max_test_timeout_sec: 60', 'max_test_timeout_sec: 120') },
+        mockUser as any
+      )
+
+      const { data } = mockPrisma.task.update.mock.calls[0][0]
+      expect(data.maxTestTimeoutSec).toBe(120)
+      expect(mockPrisma.auditLog.create.mock.calls[0][0].data.metadata).toMatchObject({
+        taskYamlSync: { maxTestTimeoutSec: 'taskYaml' },
+      })
+    })
+
     it('should throw NotFoundError when task does not exist', async () => {
       const mockUser = createMockUser()
       mockPrisma.task.findUnique.mockResolvedValue(null)
@@ -391,9 +533,11 @@ describe('TaskService', () => {
           data: expect.objectContaining({
             state: 'SUBMITTED',
             reviewerId: null,
+            assigneeId: null,
           }),
         })
       )
+      expect(ReviewAssignmentService.assignTask).toHaveBeenCalledWith(submittedTask.id, 'submitted', mockUser)
     })
 
     it('should submit REJECTED task (resubmission)', async () => {
@@ -410,11 +554,13 @@ describe('TaskService', () => {
       mockPrisma.task.update.mockResolvedValue(submittedTask)
       mockPrisma.auditLog.create.mockResolvedValue({})
       mockPrisma.taskHistory.findFirst.mockResolvedValue({ version: 2 })
-      mockPrisma.taskHistory.create.mockResolvedValue({})
+      const snapshot = { version: 3 }
+      mockPrisma.taskHistory.create.mockResolvedValue(snapshot)
 
       const result = await TaskService.submitTask('task-1', mockUser as any)
 
       expect(result.state).toBe('SUBMITTED')
+      expect(ReviewCommentService.reanchorComments).toHaveBeenCalledWith(submittedTask.id, snapshot, 3)
     })
 
     it('should submit CHANGES_REQUESTED task (resubmission)', async () => {
@@ -502,6 +648,58 @@ describe('TaskService', () => {
       ).rejects.toThrow(BadRequestError)
     })
 
+    it('should throw ValidationError when task.yaml disagrees with the task fields', async () => {
+      const mockUser = createMockUser({ id: 'user-1' })
+      const existingTask = createMockTask({
+        state: 'DRAFT',
+        authorId: 'user-1',
+        title: 'Test Task',
+        instruction: 'Test instruction',
+        difficulty: Difficulty.EASY,
+        categories: 'testing',
+        maxAgentTimeoutSec: 300,
+        maxTestTimeoutSec: 60,
+        taskYaml: [
+          'instruction: Test instruction',
+          'difficulty: hard',
+          'category: testing',
+          'max_agent_timeout_sec: 300',
+          'max_test_timeout_sec: 60',
+        ].join('\n'),
+      })
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+
+      await expect(
+        TaskService.submitTask('task-1', mockUser as any)
+      ).rejects.toThrow(ValidationError)
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw ValidationError when docker-compose.yaml has lint errors', async () => {
+      const mockUser = createMockUser({ id: 'user-1' })
+      const existingTask = createMockTask({
+        state: 'DRAFT',
+        authorId: 'user-1',
+        title: 'Test Task',
+        instruction: 'Test instruction',
+        taskYaml: null,
+        dockerComposeYaml: [
+          'services:',
+          '  client:',
+          '    image: ubuntu:22.04',
+          '    privileged: true',
+        ].join('\n'),
+      })
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+
+      const error = await TaskService.submitTask('task-1', mockUser as any).catch(e => e)
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error.details).toContainEqual(
+        expect.objectContaining({ rule: 'privileged', path: ['dockerComposeYaml'], line: 4 })
+      )
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
     it('should throw BadRequestError when instruction is missing', async () => {
       const mockUser = createMockUser({ id: 'user-1' })
       const existingTask = createMockTask({ 
@@ -516,6 +714,103 @@ describe('TaskService', () => {
         TaskService.submitTask('task-1', mockUser as any)
       ).rejects.toThrow(BadRequestError)
     })
+
+    it('should throw BadRequestError when verification is required and the tests are vacuous', async () => {
+      vi.stubEnv('REQUIRE_TASK_VERIFICATION', 'true')
+      const mockUser = createMockUser({ id: 'user-1' })
+      const existingTask = createMockTask({
+        state: 'DRAFT',
+        authorId: 'user-1',
+        title: 'Test Task',
+        instruction: 'Test instruction',
+      })
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+      mockPrisma.taskHistory.findFirst.mockResolvedValue({ version: 2 })
+      mockPrisma.taskRun.findFirst.mockResolvedValue({ version: 2, verdict: 'VACUOUS' })
+
+      await expect(
+        TaskService.submitTask('task-1', mockUser as any)
+      ).rejects.toThrow(BadRequestError)
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw BadRequestError when verification is required and only an older version was verified', async () => {
+      vi.stubEnv('REQUIRE_TASK_VERIFICATION', 'true')
+      const mockUser = createMockUser({ id: 'user-1' })
+      const existingTask = createMockTask({
+        state: 'DRAFT',
+        authorId: 'user-1',
+        title: 'Test Task',
+        instruction: 'Test instruction',
+      })
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+      mockPrisma.taskHistory.findFirst.mockResolvedValue({ version: 3 })
+      mockPrisma.taskRun.findFirst.mockResolvedValue({ version: 2, verdict: 'DISCRIMINATING' })
+
+      await expect(
+        TaskService.submitTask('task-1', mockUser as any)
+      ).rejects.toThrow(BadRequestError)
+    })
+
+    it('should submit when verification is required and the tests discriminate', async () => {
+      vi.stubEnv('REQUIRE_TASK_VERIFICATION', 'true')
+      const mockUser = createMockUser({ id: 'user-1' })
+      const existingTask = createMockTask({
+        state: 'DRAFT',
+        authorId: 'user-1',
+        title: 'Test Task',
+        instruction: 'Test instruction',
+      })
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+      mockPrisma.task.update.mockResolvedValue(createMockTask({ state: 'SUBMITTED' }))
+      mockPrisma.auditLog.create.mockResolvedValue({})
+      mockPrisma.taskHistory.findFirst.mockResolvedValue({ version: 2 })
+      mockPrisma.taskHistory.create.mockResolvedValue({})
+      mockPrisma.taskRun.findFirst.mockResolvedValue({ version: 2, verdict: 'DISCRIMINATING' })
+
+      const result = await TaskService.submitTask('task-1', mockUser as any)
+
+      expect(result.state).toBe('SUBMITTED')
+    })
+
+    it('should throw BadRequestError when resolved threads are required and a reviewer thread is open', async () => {
+      vi.stubEnv('REQUIRE_RESOLVED_THREADS', 'true')
+      const mockUser = createMockUser({ id: 'user-1' })
+      const existingTask = createMockTask({
+        state: 'CHANGES_REQUESTED',
+        authorId: 'user-1',
+        title: 'Test Task',
+        instruction: 'Test instruction',
+      })
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+      vi.mocked(DiscussionService.countUnresolvedReviewerThreads).mockResolvedValueOnce(2)
+
+      await expect(
+        TaskService.submitTask('task-1', mockUser as any)
+      ).rejects.toThrow(BadRequestError)
+      expect(DiscussionService.countUnresolvedReviewerThreads).toHaveBeenCalledWith('task-1', 'user-1')
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should not check threads unless resolved threads are required', async () => {
+      const mockUser = createMockUser({ id: 'user-1' })
+      const existingTask = createMockTask({
+        state: 'CHANGES_REQUESTED',
+        authorId: 'user-1',
+        title: 'Test Task',
+        instruction: 'Test instruction',
+      })
+      mockPrisma.task.findUnique.mockResolvedValue(existingTask)
+      mockPrisma.task.update.mockResolvedValue(createMockTask({ state: 'SUBMITTED' }))
+      mockPrisma.auditLog.create.mockResolvedValue({})
+      mockPrisma.taskHistory.findFirst.mockResolvedValue({ version: 2 })
+      mockPrisma.taskHistory.create.mockResolvedValue({})
+
+      const result = await TaskService.submitTask('task-1', mockUser as any)
+
+      expect(result.state).toBe('SUBMITTED')
+      expect(DiscussionService.countUnresolvedReviewerThreads).not.toHaveBeenCalled()
+    })
   })
 
   // =============================================================================
@@ -699,7 +994,7 @@ describe('TaskService', () => {
   // =============================================================================
 
   describe('getTasksForReview', () => {
-    it('should return tasks in SUBMITTED or IN_REVIEW state', async () => {
+    it('should return tasks in SUBMITTED, IN_REVIEW or PARTIALLY_APPROVED state', async () => {
       const mockTasks = [
         createMockTask({ id: 'task-1', state: 'SUBMITTED' }),
         createMockTask({ id: 'task-2', state: 'IN_REVIEW' }),
@@ -712,7 +1007,7 @@ describe('TaskService', () => {
         expect.objectContaining({
           where: {
             state: {
-              in: ['SUBMITTED', 'IN_REVIEW'],
+              in: ['SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED'],
             },
           },
           orderBy: { createdAt: 'asc' },
@@ -779,7 +1074,7 @@ describe('TaskService', () => {
         expect.objectContaining({
           where: {
             state: {
-              in: ['SUBMITTED', 'IN_REVIEW'],
+              in: ['SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED'],
             },
           },
         })
@@ -809,5 +1104,22 @@ describe('TaskService', () => {
 
       expect(mockPrisma.task.findMany).toHaveBeenCalled()
     })
+
+    it('should only return tasks with a review giving the reason when one is provided', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      await TaskService.getReviewerTasks('reviewer-1', 'pending', undefined, 'TESTS_TOO_WEAK')
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { state: { in: ['SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED'] } },
+              { reviews: { some: { reasonCodes: { has: 'TESTS_TOO_WEAK' } } } },
+            ],
+          },
+        })
+      )
+    })
   })
 })
@@ -23,6 +23,7 @@ import { tasksRouter } from './routes/tasks'
 import { reviewerRouter } from './routes/reviewer'
 import { apiRouter } from './routes/api'
 import auditRouter from './routes/audit'
+import { ReviewLeaseService } from './services/review-lease.service'
 
 const app = express()
 const PORT = process.env.SERVER_PORT || process.env.PORT || 4000
@@ -61,4 +62,6 @@ app.use(errorHandler)
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`)
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`)
+
+  ReviewLeaseService.startReclaiming()
 })
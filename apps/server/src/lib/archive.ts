@@ -0,0 +1,416 @@
+/**
+ * Archive Utilities
+ * Minimal readers for the archive formats task bundles are uploaded in
+ * (.tar, .tar.gz and .zip) and a deterministic .tar.gz writer, built on Node's zlib
+ */
+
+import zlib from 'zlib'
+import path from 'path'
+import { BadRequestError } from './errors'
+
+export interface ArchiveEntry {
+  path: string
+  data: Buffer
+  mode: number
+}
+
+/**
+ * Upper bound on the total uncompressed size of an archive (guards against archive bombs)
+ */
+export const MAX_ARCHIVE_UNCOMPRESSED_BYTES = 50 * 1024 * 1024
+
+/**
+ * Upper bound on the size of an uploaded archive
+ */
+export const MAX_ARCHIVE_UPLOAD_BYTES = 25 * 1024 * 1024
+
+const TAR_BLOCK_SIZE = 512
+
+// Paths produced by archivers that are never part of the content
+const IGNORED_PATH_PATTERNS = [/^__MACOSX\//, /(^|\/)\.DS_Store$/, /(^|\/)\._[^/]*$/]
+
+function invalidArchive(reason: string): BadRequestError {
+  return new BadRequestError(`Invalid archive: ${reason}`)
+}
+
+/**
+ * Normalize an entry path, rejecting absolute paths and parent traversal
+ * Returns null for entries that should be skipped.
+ */
+function normalizeEntryPath(entryPath: string): string | null {
+  const slashed = entryPath.replace(/\\/g, '/')
+  if (slashed.startsWith('/') || /^[a-zA-Z]:\//.test(slashed)) {
+    throw invalidArchive(`absolute path "${entryPath}"`)
+  }
+  if (slashed.split('/').includes('..')) {
+    throw invalidArchive(`path "${entryPath}" escapes the archive root`)
+  }
+
+  const normalized = path.posix.normalize(slashed).replace(/^\.\//, '').replace(/\/+$/, '')
+  if (!normalized || normalized === '.') return null
+  if (IGNORED_PATH_PATTERNS.some(pattern => pattern.test(normalized))) return null
+  return normalized
+}
+
+// ==================== tar ====================
+
+function readTarString(block: Buffer, offset: number, length: number): string {
+  const raw = block.subarray(offset, offset + length)
+  const end = raw.indexOf(0)
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf8')
+}
+
+function readTarOctal(block: Buffer, offset: number, length: number): number {
+  const value = readTarString(block, offset, length).trim()
+  return value ? parseInt(value, 8) : 0
+}
+
+/**
+ * Parse PAX extended header records ("<len> <key>=<value>\n")
+ */
+function parsePaxHeaders(data: Buffer): Record<string, string> {
+  const headers: Record<string, string> = {}
+  let offset = 0
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset)
+    if (space === -1) break
+    const length = parseInt(data.subarray(offset, space).toString('utf8'), 10)
+    if (!length) break
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf8')
+    const eq = record.indexOf('=')
+    if (eq !== -1) {
+      headers[record.slice(0, eq)] = record.slice(eq + 1)
+    }
+    offset += length
+  }
+
+  return headers
+}
+
+function readTar(buffer: Buffer): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = []
+  let offset = 0
+  let totalSize = 0
+  let longName: string | null = null
+  let paxPath: string | null = null
+
+  while (offset + TAR_BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE)
+
+    // Two zero blocks mark the end of the archive; one is enough to stop
+    if (header.every(byte => byte === 0)) break
+
+    const size = readTarOctal(header, 124, 12)
+    const type = String.fromCharCode(header[156] || 0x30)
+    const dataStart = offset + TAR_BLOCK_SIZE
+    const dataEnd = dataStart + size
+
+    if (dataEnd > buffer.length) {
+      throw invalidArchive('truncated tar entry')
+    }
+
+    const data = buffer.subarray(dataStart, dataEnd)
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+
+    if (type === 'L') {
+      longName = readTarString(data, 0, data.length)
+      continue
+    }
+    if (type === 'x') {
+      paxPath = parsePaxHeaders(data).path ?? null
+      continue
+    }
+    if (type === 'g') {
+      continue
+    }
+
+    const prefix = header.subarray(257, 262).toString('utf8') === 'ustar'
+      ? readTarString(header, 345, 155)
+      : ''
+    const name = readTarString(header, 0, 100)
+    const entryPath = paxPath ?? longName ?? (prefix ? `${prefix}/${name}` : name)
+    longName = null
+    paxPath = null
+
+    // Only regular files carry content; directories, links and devices are skipped
+    if (type !== '0' && type !== '\0' && type !== '7') continue
+
+    const normalized = normalizeEntryPath(entryPath)
+    if (!normalized) continue
+
+    totalSize += size
+    if (totalSize > MAX_ARCHIVE_UNCOMPRESSED_BYTES) {
+      throw invalidArchive('archive is too large')
+    }
+
+    entries.push({
+      path: normalized,
+      data: Buffer.from(data),
+      mode: readTarOctal(header, 100, 8) & 0o777,
+    })
+  }
+
+  return entries
+}
+
+/**
+ * Write a NUL-terminated, zero-padded octal number into a header field
+ */
+function writeTarOctal(block: Buffer, offset: number, length: number, value: number): void {
+  block.write(value.toString(8).padStart(length - 1, '0'), offset, length - 1, 'ascii')
+}
+
+function createTarHeader(name: string, options: { size: number; mode: number; mtime: number; type: string; prefix?: string }): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE)
+
+  header.write(name, 0, 100, 'utf8')
+  writeTarOctal(header, 100, 8, options.mode)
+  writeTarOctal(header, 108, 8, 0) // uid
+  writeTarOctal(header, 116, 8, 0) // gid
+  writeTarOctal(header, 124, 12, options.size)
+  writeTarOctal(header, 136, 12, options.mtime)
+  header.write(options.type, 156, 1, 'ascii')
+  header.write('ustar\0', 257, 6, 'ascii')
+  header.write('00', 263, 2, 'ascii')
+  if (options.prefix) {
+    header.write(options.prefix, 345, 155, 'utf8')
+  }
+
+  // The checksum is computed with the checksum field itself filled with spaces
+  header.fill(0x20, 148, 156)
+  let checksum = 0
+  for (const byte of header) checksum += byte
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii')
+
+  return header
+}
+
+function padToBlock(data: Buffer): Buffer[] {
+  const remainder = data.length % TAR_BLOCK_SIZE
+  return remainder === 0 ? [data] : [data, Buffer.alloc(TAR_BLOCK_SIZE - remainder)]
+}
+
+/**
+ * Split a path into ustar prefix/name fields, or null if it does not fit
+ */
+function splitTarPath(entryPath: string): { prefix: string; name: string } | null {
+  if (Buffer.byteLength(entryPath) <= 100) {
+    return { prefix: '', name: entryPath }
+  }
+  for (let i = entryPath.indexOf('/'); i !== -1; i = entryPath.indexOf('/', i + 1)) {
+    const prefix = entryPath.slice(0, i)
+    const name = entryPath.slice(i + 1)
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { prefix, name }
+    }
+  }
+  return null
+}
+
+/**
+ * Encode a PAX record; its length prefix counts its own digits
+ */
+function createPaxRecord(key: string, value: string): Buffer {
+  const body = ` ${key}=${value}\n`
+  const bodyLength = Buffer.byteLength(body)
+  let length = bodyLength + 1
+  while (String(length).length + bodyLength !== length) {
+    length = String(length).length + bodyLength
+  }
+  return Buffer.from(`${length}${body}`, 'utf8')
+}
+
+function createTarEntry(entryPath: string, data: Buffer, mode: number, mtime: number, type: '0' | '5'): Buffer[] {
+  const blocks: Buffer[] = []
+  let split = splitTarPath(entryPath)
+
+  if (!split) {
+    // Paths that don't fit ustar are carried in a PAX extended header
+    const pax = createPaxRecord('path', entryPath)
+
+    blocks.push(createTarHeader('PaxHeader', { size: pax.length, mode: 0o644, mtime, type: 'x' }), ...padToBlock(pax))
+    split = { prefix: '', name: entryPath.slice(0, 100) }
+  }
+
+  blocks.push(createTarHeader(split.name, { size: data.length, mode, mtime, type, prefix: split.prefix }))
+  if (data.length > 0) {
+    blocks.push(...padToBlock(data))
+  }
+  return blocks
+}
+
+/**
+ * Build a gzipped tarball from file entries
+ * Output is byte-for-byte reproducible: entries are sorted, parent directories
+ * are emitted explicitly, and ownership and timestamps are fixed.
+ */
+export function createTarGz(entries: ArchiveEntry[], options: { mtime?: Date } = {}): Buffer {
+  const mtime = Math.floor((options.mtime?.getTime() ?? 0) / 1000)
+  const files = [...entries].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+
+  const blocks: Buffer[] = []
+  const emitted = new Set<string>()
+
+  for (const file of files) {
+    const parts = file.path.split('/')
+    for (let i = 1; i < parts.length; i++) {
+      const dir = parts.slice(0, i).join('/')
+      if (!emitted.has(dir)) {
+        emitted.add(dir)
+        blocks.push(...createTarEntry(`${dir}/`, Buffer.alloc(0), 0o755, mtime, '5'))
+      }
+    }
+    blocks.push(...createTarEntry(file.path, file.data, file.mode & 0o777, mtime, '0'))
+  }
+
+  // End-of-archive marker: two zero blocks
+  blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2))
+
+  return zlib.gzipSync(Buffer.concat(blocks), { level: 9 })
+}
+
+// ==================== zip ====================
+
+const ZIP_LOCAL_HEADER = 0x04034b50
+const ZIP_CENTRAL_HEADER = 0x02014b50
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50
+
+function readZip(buffer: Buffer): ArchiveEntry[] {
+  // The end-of-central-directory record sits in the last 22 + 65535 (comment) bytes
+  let eocd = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) {
+    throw invalidArchive('zip end of central directory not found')
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+  const entries: ArchiveEntry[] = []
+  let totalSize = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw invalidArchive('corrupt zip central directory')
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8)
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const uncompressedSize = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const externalAttributes = buffer.readUInt32LE(offset + 38)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf8')
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    if (flags & 0x1) {
+      throw invalidArchive('encrypted zip entries are not supported')
+    }
+
+    const normalized = normalizeEntryPath(name)
+    if (!normalized) continue
+
+    // The declared size is only a first check; what counts is what the data inflates to
+    const remaining = MAX_ARCHIVE_UNCOMPRESSED_BYTES - totalSize
+    if (uncompressedSize > remaining) {
+      throw invalidArchive('archive is too large')
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw invalidArchive('corrupt zip local header')
+    }
+    const dataStart = localOffset + 30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28)
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Buffer
+    if (method === 0) {
+      data = Buffer.from(compressed)
+    } else if (method === 8) {
+      try {
+        data = zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(remaining, 1) })
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw invalidArchive('archive is too large')
+        }
+        throw invalidArchive(`could not decompress "${name}"`)
+      }
+    } else {
+      throw invalidArchive(`unsupported zip compression method ${method}`)
+    }
+
+    totalSize += data.length
+    if (totalSize > MAX_ARCHIVE_UNCOMPRESSED_BYTES) {
+      throw invalidArchive('archive is too large')
+    }
+
+    // Unix permissions live in the high 16 bits of the external attributes
+    const unixMode = (externalAttributes >>> 16) & 0o777
+    entries.push({ path: normalized, data, mode: unixMode })
+  }
+
+  return entries
+}
+
+// ==================== Public API ====================
+
+/**
+ * Read all regular files from a .tar, .tar.gz or .zip archive
+ * The format is detected from the content, not the file name.
+ */
+export function readArchive(buffer: Buffer): ArchiveEntry[] {
+  if (buffer.length < 4) {
+    throw invalidArchive('file is empty')
+  }
+
+  if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    let tar: Buffer
+    try {
+      tar = zlib.gunzipSync(buffer, { maxOutputLength: MAX_ARCHIVE_UNCOMPRESSED_BYTES })
+    } catch {
+      throw invalidArchive('could not decompress gzip data')
+    }
+    return readTar(tar)
+  }
+
+  if (buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+    return readZip(buffer)
+  }
+
+  if (buffer.length >= TAR_BLOCK_SIZE && buffer.subarray(257, 262).toString('utf8') === 'ustar') {
+    return readTar(buffer)
+  }
+
+  throw invalidArchive('expected a .tar, .tar.gz or .zip file')
+}
+
+/**
+ * Strip a single top-level directory shared by every entry
+ * Returns the stripped directory name (or null) alongside the re-rooted entries.
+ */
+export function stripCommonRoot(entries: ArchiveEntry[]): { root: string | null; entries: ArchiveEntry[] } {
+  if (entries.length === 0) {
+    return { root: null, entries }
+  }
+
+  const [first] = entries[0].path.split('/')
+  const shared = entries.every(entry => entry.path.startsWith(`${first}/`))
+  if (!shared) {
+    return { root: null, entries }
+  }
+
+  return {
+    root: first,
+    entries: entries.map(entry => ({ ...entry, path: entry.path.slice(first.length + 1) })),
+  }
+}
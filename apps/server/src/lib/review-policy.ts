@@ -0,0 +1,89 @@
+/**
+ * Review Policy
+ * How many approvals a task needs, and the state its reviews put it in
+ *
+ * A review round starts when the task is submitted; each reviewer's latest
+ * review in the round is their standing decision. Any rejection makes the
+ * task REJECTED, and otherwise any change request makes it CHANGES_REQUESTED,
+ * until the reviewer who made it changes their decision or the author
+ * resubmits. Without objections, the task is APPROVED once enough distinct
+ * reviewers have approved it, and PARTIALLY_APPROVED before that.
+ *
+ * REVIEW_REQUIRED_APPROVALS: approvals every task needs (default: by difficulty, see DEFAULT_REQUIRED_APPROVALS)
+ * REVIEW_REQUIRED_APPROVALS_EASY, _MEDIUM, _HARD: approvals tasks of one difficulty need, over the above
+ */
+
+import { DEFAULT_REQUIRED_APPROVALS, Difficulty, ReviewDecision, TaskState } from '@repo/types'
+import type { Review, ReviewConsensus, ReviewSignOff, UserSummary } from '@repo/types'
+
+export type RoundReview = Pick<Review, 'id' | 'reviewerId' | 'decision' | 'createdAt'> & { reviewer: UserSummary }
+
+function readApprovalCount(name: string): number | undefined {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value >= 1 ? value : undefined
+}
+
+/**
+ * Approvals a task of a difficulty needs before it is approved
+ */
+export function getRequiredApprovals(difficulty: Difficulty): number {
+  return (
+    readApprovalCount(`REVIEW_REQUIRED_APPROVALS_${difficulty}`) ??
+    readApprovalCount('REVIEW_REQUIRED_APPROVALS') ??
+    DEFAULT_REQUIRED_APPROVALS[difficulty]
+  )
+}
+
+/**
+ * Reviews made in the current round, from a task's reviews
+ * Tasks submitted before rounds were tracked count all of their reviews.
+ */
+export function getRoundReviews<T extends { createdAt: Date }>(task: { submittedAt: Date | null; reviews: T[] }): T[] {
+  const { submittedAt, reviews } = task
+  return submittedAt ? reviews.filter(review => review.createdAt >= submittedAt) : reviews
+}
+
+/**
+ * Each reviewer's latest review, from reviews ordered newest first
+ */
+export function getStandingReviews<T extends { reviewerId: string }>(reviews: T[]): T[] {
+  const seen = new Set<string>()
+  return reviews.filter(review => {
+    if (seen.has(review.reviewerId)) return false
+    seen.add(review.reviewerId)
+    return true
+  })
+}
+
+/**
+ * The state standing decisions (one per reviewer) put a task in
+ */
+export function resolveReviewState(decisions: ReviewDecision[], requiredApprovals: number): TaskState {
+  if (decisions.includes(ReviewDecision.REJECT)) return TaskState.REJECTED
+  if (decisions.includes(ReviewDecision.REQUEST_CHANGES)) return TaskState.CHANGES_REQUESTED
+
+  const approvals = decisions.filter(decision => decision === ReviewDecision.APPROVE).length
+  return approvals >= requiredApprovals ? TaskState.APPROVED : TaskState.PARTIALLY_APPROVED
+}
+
+/**
+ * Sign-offs and objections in a round, from its reviews ordered newest first
+ */
+export function getReviewConsensus(reviews: RoundReview[], requiredApprovals: number): ReviewConsensus {
+  const signOffs: ReviewSignOff[] = getStandingReviews(reviews)
+    .reverse()
+    .map(review => ({
+      reviewId: review.id,
+      reviewer: review.reviewer,
+      decision: review.decision,
+      createdAt: review.createdAt,
+    }))
+  const approvals = signOffs.filter(signOff => signOff.decision === ReviewDecision.APPROVE)
+
+  return {
+    requiredApprovals,
+    approvals,
+    objections: signOffs.filter(signOff => signOff.decision !== ReviewDecision.APPROVE),
+    remainingApprovals: Math.max(0, requiredApprovals - approvals.length),
+  }
+}
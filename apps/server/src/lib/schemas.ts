@@ -7,13 +7,40 @@ import { z } from 'zod'
 import {
   Difficulty,
   ReviewDecision,
+  NetworkPolicy,
   FIELD_LIMITS,
   MIN_TIMEOUTS,
   MAX_TIMEOUTS,
+  RESOURCE_LIMITS,
+  REVIEW_CAPACITY_LIMITS,
+  RUBRIC_LIMITS,
+  REVIEW_REASON_LIMITS,
+  REVIEW_REASON_CODE_PATTERN,
+  isValidTestFilePath,
+  isTaskFileField,
+  normalizeTestFiles,
+  parseCategories,
+  formatCategories,
 } from '@repo/types'
 
 // ==================== Task Schemas ====================
 
+export const testFileSchema = z.object({
+  path: z
+    .string()
+    .refine(isValidTestFilePath, 'Test file path must be relative to tests/ and must not contain "..", "." or empty segments'),
+  content: z.string(),
+  mode: z.number().int().min(0).max(0o777).optional(),
+})
+
+export const testFilesSchema = z
+  .array(testFileSchema)
+  .refine(
+    files => new Set(files.map(file => file.path)).size === files.length,
+    'Test file paths must be unique'
+  )
+  .transform(normalizeTestFiles)
+
 export const createTaskSchema = z.object({
   title: z
     .string()
@@ -40,17 +67,55 @@ export const createTaskSchema = z.object({
     .int('Test timeout must be an integer')
     .min(MIN_TIMEOUTS.TEST, `Test timeout must be at least ${MIN_TIMEOUTS.TEST} seconds`)
     .max(MAX_TIMEOUTS.TEST, `Test timeout must be at most ${MAX_TIMEOUTS.TEST} seconds`),
+  cpuLimit: z
+    .number()
+    .min(RESOURCE_LIMITS.CPU.MIN, `CPU limit must be at least ${RESOURCE_LIMITS.CPU.MIN} cores`)
+    .max(RESOURCE_LIMITS.CPU.MAX, `CPU limit must be at most ${RESOURCE_LIMITS.CPU.MAX} cores`)
+    .nullable()
+    .optional(),
+  memoryLimitMb: z
+    .number()
+    .int('Memory limit must be an integer')
+    .min(RESOURCE_LIMITS.MEMORY_MB.MIN, `Memory limit must be at least ${RESOURCE_LIMITS.MEMORY_MB.MIN} MB`)
+    .max(RESOURCE_LIMITS.MEMORY_MB.MAX, `Memory limit must be at most ${RESOURCE_LIMITS.MEMORY_MB.MAX} MB`)
+    .nullable()
+    .optional(),
+  diskLimitMb: z
+    .number()
+    .int('Disk limit must be an integer')
+    .min(RESOURCE_LIMITS.DISK_MB.MIN, `Disk limit must be at least ${RESOURCE_LIMITS.DISK_MB.MIN} MB`)
+    .max(RESOURCE_LIMITS.DISK_MB.MAX, `Disk limit must be at most ${RESOURCE_LIMITS.DISK_MB.MAX} MB`)
+    .nullable()
+    .optional(),
+  networkPolicy: z.nativeEnum(NetworkPolicy, {
+    errorMap: () => ({ message: 'Invalid network policy' }),
+  }).optional(),
   taskYaml: z.string().optional(),
   dockerComposeYaml: z.string().optional(),
   solutionSh: z.string().optional(),
   runTestsSh: z.string().optional(),
-  testsJson: z.string().optional(),
+  testFiles: testFilesSchema.optional(),
 })
 
 export const updateTaskSchema = createTaskSchema.partial()
 
 // ==================== Review Schemas ====================
 
+export const rubricScoreSchema = z.object({
+  criterionId: z.string().min(1, 'Criterion is required'),
+  score: z
+    .number()
+    .int('Scores must be whole numbers')
+    .min(RUBRIC_LIMITS.SCORE_MIN, `Scores must be at least ${RUBRIC_LIMITS.SCORE_MIN}`)
+    .max(RUBRIC_LIMITS.SCORE_MAX, `Scores must be at most ${RUBRIC_LIMITS.SCORE_MAX}`),
+  note: z
+    .string()
+    .trim()
+    .max(RUBRIC_LIMITS.NOTE_MAX, `Notes must be at most ${RUBRIC_LIMITS.NOTE_MAX} characters`)
+    .optional()
+    .transform(value => value || undefined),
+})
+
 export const submitReviewSchema = z.object({
   decision: z.nativeEnum(ReviewDecision, {
     errorMap: () => ({ message: 'Invalid review decision' }),
@@ -59,6 +124,175 @@ export const submitReviewSchema = z.object({
     .string()
     .max(FIELD_LIMITS.COMMENT.MAX, `Comment must be at most ${FIELD_LIMITS.COMMENT.MAX} characters`)
     .optional(),
+  rubricScores: z.array(rubricScoreSchema).max(RUBRIC_LIMITS.CRITERIA_MAX).optional(),
+  reasonCodes: z
+    .array(z.string().min(1))
+    .max(REVIEW_REASON_LIMITS.PER_REVIEW_MAX, `Pick at most ${REVIEW_REASON_LIMITS.PER_REVIEW_MAX} reasons`)
+    .optional(),
+})
+
+// ==================== Review Reason Schemas ====================
+
+const reviewReasonLabelSchema = z
+  .string()
+  .trim()
+  .min(1, 'Label is required')
+  .max(REVIEW_REASON_LIMITS.LABEL_MAX, `Label must be at most ${REVIEW_REASON_LIMITS.LABEL_MAX} characters`)
+
+const reviewReasonDescriptionSchema = z
+  .string()
+  .trim()
+  .max(REVIEW_REASON_LIMITS.DESCRIPTION_MAX, `Description must be at most ${REVIEW_REASON_LIMITS.DESCRIPTION_MAX} characters`)
+  .nullable()
+  .optional()
+  .transform(value => value || null)
+
+export const createReviewReasonSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .max(REVIEW_REASON_LIMITS.CODE_MAX, `Code must be at most ${REVIEW_REASON_LIMITS.CODE_MAX} characters`)
+    .regex(REVIEW_REASON_CODE_PATTERN, 'Code must be upper snake case, e.g. TESTS_TOO_WEAK'),
+  label: reviewReasonLabelSchema,
+  description: reviewReasonDescriptionSchema,
+})
+
+export const updateReviewReasonSchema = z.object({
+  label: reviewReasonLabelSchema.optional(),
+  description: reviewReasonDescriptionSchema,
+  isActive: z.boolean().optional(),
+})
+
+export const reviewReasonReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+// ==================== Rubric Schemas ====================
+
+const rubricCriterionSchema = z.object({
+  id: z.string().trim().min(1, 'Criterion ID is required').max(RUBRIC_LIMITS.LABEL_MAX),
+  label: z
+    .string()
+    .trim()
+    .min(1, 'Criterion label is required')
+    .max(RUBRIC_LIMITS.LABEL_MAX, `Criterion labels must be at most ${RUBRIC_LIMITS.LABEL_MAX} characters`),
+  description: z
+    .string()
+    .trim()
+    .max(RUBRIC_LIMITS.DESCRIPTION_MAX, `Descriptions must be at most ${RUBRIC_LIMITS.DESCRIPTION_MAX} characters`)
+    .optional()
+    .transform(value => value || undefined),
+})
+
+const rubricRuleSchema = z.object({
+  maxScore: z.number().int().min(RUBRIC_LIMITS.SCORE_MIN).max(RUBRIC_LIMITS.SCORE_MAX),
+  decision: z.enum([ReviewDecision.REQUEST_CHANGES, ReviewDecision.REJECT], {
+    errorMap: () => ({ message: 'Rules can only require Request Changes or Reject' }),
+  }),
+  criterionIds: z.array(z.string().min(1)).optional(),
+})
+
+export const rubricTemplateSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .max(RUBRIC_LIMITS.NAME_MAX, `Name must be at most ${RUBRIC_LIMITS.NAME_MAX} characters`),
+    description: z
+      .string()
+      .trim()
+      .max(RUBRIC_LIMITS.DESCRIPTION_MAX, `Description must be at most ${RUBRIC_LIMITS.DESCRIPTION_MAX} characters`)
+      .nullable()
+      .optional()
+      .transform(value => value || null),
+    category: z
+      .string()
+      .trim()
+      .max(FIELD_LIMITS.CATEGORIES.MAX)
+      .nullable()
+      .optional()
+      .transform(value => value || null),
+    difficulty: z.nativeEnum(Difficulty, {
+      errorMap: () => ({ message: 'Invalid difficulty level' }),
+    }).nullable().optional().transform(value => value ?? null),
+    criteria: z
+      .array(rubricCriterionSchema)
+      .min(1, 'Add at least one criterion')
+      .max(RUBRIC_LIMITS.CRITERIA_MAX, `A rubric can have at most ${RUBRIC_LIMITS.CRITERIA_MAX} criteria`),
+    rules: z.array(rubricRuleSchema).max(RUBRIC_LIMITS.CRITERIA_MAX).default([]),
+  })
+  .superRefine((data, ctx) => {
+    const ids = new Set<string>()
+    data.criteria.forEach((criterion, index) => {
+      if (ids.has(criterion.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Criterion IDs must be unique', path: ['criteria', index, 'id'] })
+      }
+      ids.add(criterion.id)
+    })
+    data.rules.forEach((rule, index) => {
+      if (rule.criterionIds?.some(id => !ids.has(id))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Rules can only refer to the rubric\'s criteria', path: ['rules', index, 'criterionIds'] })
+      }
+    })
+  })
+
+// ==================== Review Assignment Schemas ====================
+
+export const updateReviewAssignmentSettingsSchema = z.object({
+  acceptsAssignments: z.boolean().optional(),
+  reviewCapacity: z
+    .number()
+    .int()
+    .min(REVIEW_CAPACITY_LIMITS.MIN, `Capacity must be at least ${REVIEW_CAPACITY_LIMITS.MIN}`)
+    .max(REVIEW_CAPACITY_LIMITS.MAX, `Capacity must be at most ${REVIEW_CAPACITY_LIMITS.MAX}`)
+    .nullable()
+    .optional(),
+  reviewCategories: z
+    .string()
+    .max(FIELD_LIMITS.CATEGORIES.MAX, `Categories must be at most ${FIELD_LIMITS.CATEGORIES.MAX} characters`)
+    .transform(value => formatCategories(parseCategories(value)))
+    .optional(),
+})
+
+export const reassignReviewSchema = z.object({
+  reviewerId: z.string().min(1, 'Reviewer is required'),
+})
+
+// ==================== Review Comment Schemas ====================
+
+export const createReviewCommentSchema = z
+  .object({
+    field: z.string().refine(isTaskFileField, 'Comments must be on a task file'),
+    lineStart: z.number().int().positive('Line numbers start at 1'),
+    lineEnd: z.number().int().positive('Line numbers start at 1'),
+    body: z
+      .string()
+      .trim()
+      .min(1, 'Comment is required')
+      .max(FIELD_LIMITS.COMMENT.MAX, `Comment must be at most ${FIELD_LIMITS.COMMENT.MAX} characters`),
+  })
+  .refine(data => data.lineEnd >= data.lineStart, {
+    message: 'The last line must not come before the first',
+    path: ['lineEnd'],
+  })
+
+// ==================== Discussion Schemas ====================
+
+const threadMessageBodySchema = z
+  .string()
+  .trim()
+  .min(1, 'Message is required')
+  .max(FIELD_LIMITS.COMMENT.MAX, `Message must be at most ${FIELD_LIMITS.COMMENT.MAX} characters`)
+
+export const createThreadSchema = z.object({
+  body: threadMessageBodySchema,
+  reviewId: z.string().min(1).optional(),
+})
+
+export const replyToThreadSchema = z.object({
+  body: threadMessageBodySchema,
 })
 
 // ==================== Param Schemas ====================
@@ -67,6 +301,24 @@ export const idParamSchema = z.object({
   id: z.string().min(1, 'ID is required'),
 })
 
+export const commentParamSchema = z.object({
+  id: z.string().min(1, 'ID is required'),
+  commentId: z.string().min(1, 'Comment ID is required'),
+})
+
+export const threadParamSchema = z.object({
+  id: z.string().min(1, 'ID is required'),
+  threadId: z.string().min(1, 'Thread ID is required'),
+})
+
+export const rubricParamSchema = z.object({
+  key: z.string().min(1, 'Rubric key is required'),
+})
+
+export const reviewReasonParamSchema = z.object({
+  code: z.string().min(1, 'Reason code is required'),
+})
+
 // ==================== Query Schemas ====================
 
 export const paginationSchema = z.object({
@@ -74,9 +326,37 @@ export const paginationSchema = z.object({
   limit: z.coerce.number().int().positive().max(100).default(20),
 })
 
+export const exportQuerySchema = z.object({
+  version: z.coerce.number().int().positive().optional(),
+})
+
+export const datasetExportQuerySchema = z.object({
+  category: z.string().trim().min(1).optional(),
+  difficulty: z.nativeEnum(Difficulty, {
+    errorMap: () => ({ message: 'Invalid difficulty level' }),
+  }).optional(),
+  approvedFrom: z.coerce.date().optional(),
+  approvedTo: z.coerce.date().optional(),
+})
+
 // Export types inferred from schemas
 export type CreateTaskInput = z.infer<typeof createTaskSchema>
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>
 export type SubmitReviewInput = z.infer<typeof submitReviewSchema>
+export type RubricTemplateInput = z.infer<typeof rubricTemplateSchema>
+export type CreateReviewReasonInput = z.infer<typeof createReviewReasonSchema>
+export type UpdateReviewReasonInput = z.infer<typeof updateReviewReasonSchema>
+export type ReviewReasonReportQueryInput = z.infer<typeof reviewReasonReportQuerySchema>
+export type ExportQueryInput = z.infer<typeof exportQuerySchema>
+export type DatasetExportQueryInput = z.infer<typeof datasetExportQuerySchema>
+export type UpdateReviewAssignmentSettingsInput = z.infer<typeof updateReviewAssignmentSettingsSchema>
+export type ReassignReviewInput = z.infer<typeof reassignReviewSchema>
+export type CreateReviewCommentInput = z.infer<typeof createReviewCommentSchema>
+export type CreateThreadInput = z.infer<typeof createThreadSchema>
+export type ReplyToThreadInput = z.infer<typeof replyToThreadSchema>
 export type IdParam = z.infer<typeof idParamSchema>
+export type CommentParam = z.infer<typeof commentParamSchema>
+export type ThreadParam = z.infer<typeof threadParamSchema>
+export type RubricParam = z.infer<typeof rubricParamSchema>
+export type ReviewReasonParam = z.infer<typeof reviewReasonParamSchema>
 export type PaginationQuery = z.infer<typeof paginationSchema>
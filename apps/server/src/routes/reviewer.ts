@@ -6,13 +6,39 @@
 import { Router } from 'express'
 import { TaskService } from '../services/task.service'
 import { ReviewService } from '../services/review.service'
+import { DatasetExportService } from '../services/dataset-export.service'
+import { ReviewAssignmentService } from '../services/review-assignment.service'
+import { ReviewLeaseService } from '../services/review-lease.service'
+import { ReviewCommentService } from '../services/review-comment.service'
+import { RubricService } from '../services/rubric.service'
+import { ReviewReasonService } from '../services/review-reason.service'
 import { attachUser, requireReviewer, getUserFromRequest } from '../middleware/auth'
-import { validateBody, validateParams } from '../middleware/validation'
+import { validateBody, validateParams, validateQuery } from '../middleware/validation'
 import {
   submitReviewSchema,
   idParamSchema,
+  datasetExportQuerySchema,
+  updateReviewAssignmentSettingsSchema,
+  reassignReviewSchema,
+  createReviewCommentSchema,
+  commentParamSchema,
+  rubricTemplateSchema,
+  rubricParamSchema,
+  createReviewReasonSchema,
+  updateReviewReasonSchema,
+  reviewReasonParamSchema,
+  reviewReasonReportQuerySchema,
   type SubmitReviewInput,
+  type DatasetExportQueryInput,
+  type UpdateReviewAssignmentSettingsInput,
+  type ReassignReviewInput,
+  type CreateReviewCommentInput,
+  type RubricTemplateInput,
+  type CreateReviewReasonInput,
+  type UpdateReviewReasonInput,
+  type ReviewReasonReportQueryInput,
 } from '../lib/schemas'
+import { HTTP_STATUS } from '@repo/types'
 
 export const reviewerRouter = Router()
 
@@ -21,7 +47,7 @@ reviewerRouter.use(attachUser, requireReviewer)
 
 /**
  * GET /api/reviewer/tasks
- * Get all tasks awaiting review (SUBMITTED or IN_REVIEW)
+ * Get all tasks awaiting review (SUBMITTED, IN_REVIEW or PARTIALLY_APPROVED)
  * Query params:
  * - limit: number (optional) - limit the number of tasks returned
  */
@@ -35,6 +61,221 @@ reviewerRouter.get('/tasks', async (req, res, next) => {
   }
 })
 
+/**
+ * GET /api/reviewer/assignment-settings
+ * Get the reviewer's automatic assignment preferences
+ */
+reviewerRouter.get('/assignment-settings', async (req, res, next) => {
+  try {
+    const reviewer = getUserFromRequest(req)
+    const settings = await ReviewAssignmentService.getSettings(reviewer)
+    res.json({ settings })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/reviewer/assignment-settings
+ * Update the reviewer's automatic assignment preferences
+ */
+reviewerRouter.put(
+  '/assignment-settings',
+  validateBody(updateReviewAssignmentSettingsSchema),
+  async (req, res, next) => {
+    try {
+      const reviewer = getUserFromRequest(req)
+      const data = req.validatedBody as UpdateReviewAssignmentSettingsInput
+      const settings = await ReviewAssignmentService.updateSettings(reviewer, data)
+      res.json({ settings })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * GET /api/reviewer/reviewers
+ * List reviewers a task can be reassigned to
+ */
+reviewerRouter.get('/reviewers', async (req, res, next) => {
+  try {
+    const reviewers = await ReviewLeaseService.listReviewers()
+    res.json({ reviewers })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/reviewer/rubrics
+ * List the rubric templates in use
+ */
+reviewerRouter.get('/rubrics', async (req, res, next) => {
+  try {
+    const templates = await RubricService.listTemplates()
+    res.json({ templates })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/reviewer/rubrics
+ * Create a rubric template (review leads only)
+ */
+reviewerRouter.post(
+  '/rubrics',
+  validateBody(rubricTemplateSchema),
+  async (req, res, next) => {
+    try {
+      const lead = getUserFromRequest(req)
+      const data = req.validatedBody as RubricTemplateInput
+      const template = await RubricService.createTemplate(data, lead)
+      res.status(HTTP_STATUS.CREATED).json({ template })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * PUT /api/reviewer/rubrics/:key
+ * Save a new version of a rubric template (review leads only)
+ */
+reviewerRouter.put(
+  '/rubrics/:key',
+  validateParams(rubricParamSchema),
+  validateBody(rubricTemplateSchema),
+  async (req, res, next) => {
+    try {
+      const lead = getUserFromRequest(req)
+      const data = req.validatedBody as RubricTemplateInput
+      const template = await RubricService.updateTemplate(req.params.key, data, lead)
+      res.json({ template })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * DELETE /api/reviewer/rubrics/:key
+ * Archive a rubric template (review leads only)
+ */
+reviewerRouter.delete(
+  '/rubrics/:key',
+  validateParams(rubricParamSchema),
+  async (req, res, next) => {
+    try {
+      const lead = getUserFromRequest(req)
+      await RubricService.archiveTemplate(req.params.key, lead)
+      res.json({ message: 'Rubric archived' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * GET /api/reviewer/reasons
+ * List the reasons reviewers can give for rejecting or requesting changes
+ * Query params:
+ * - includeArchived: 'true' (optional) - include archived reasons
+ */
+reviewerRouter.get('/reasons', async (req, res, next) => {
+  try {
+    const reasons = await ReviewReasonService.listReasons(req.query.includeArchived === 'true')
+    res.json({ reasons })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/reviewer/reasons
+ * Add a reason to the catalog (review leads only)
+ */
+reviewerRouter.post(
+  '/reasons',
+  validateBody(createReviewReasonSchema),
+  async (req, res, next) => {
+    try {
+      const lead = getUserFromRequest(req)
+      const data = req.validatedBody as CreateReviewReasonInput
+      const reason = await ReviewReasonService.createReason(data, lead)
+      res.status(HTTP_STATUS.CREATED).json({ reason })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * GET /api/reviewer/reasons/report
+ * The most given reasons overall, per category and per author
+ * Query params (all optional):
+ * - from / to: ISO date - inclusive range on the review date
+ */
+reviewerRouter.get(
+  '/reasons/report',
+  validateQuery(reviewReasonReportQuerySchema),
+  async (req, res, next) => {
+    try {
+      const query = req.validatedQuery as ReviewReasonReportQueryInput
+      const report = await ReviewReasonService.getReport(query)
+      res.json({ report })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * PUT /api/reviewer/reasons/:code
+ * Relabel, archive or restore a reason (review leads only)
+ */
+reviewerRouter.put(
+  '/reasons/:code',
+  validateParams(reviewReasonParamSchema),
+  validateBody(updateReviewReasonSchema),
+  async (req, res, next) => {
+    try {
+      const lead = getUserFromRequest(req)
+      const data = req.validatedBody as UpdateReviewReasonInput
+      const reason = await ReviewReasonService.updateReason(req.params.code, data, lead)
+      res.json({ reason })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * GET /api/reviewer/export
+ * Download all APPROVED tasks as one archive with a JSON + CSV manifest
+ * Query params (all optional):
+ * - category: string - only tasks with this category
+ * - difficulty: EASY | MEDIUM | HARD
+ * - approvedFrom / approvedTo: ISO date - inclusive range on the approval date
+ */
+reviewerRouter.get(
+  '/export',
+  validateQuery(datasetExportQuerySchema),
+  async (req, res, next) => {
+    try {
+      const filters = req.validatedQuery as DatasetExportQueryInput
+      const { fileName, archive } = await DatasetExportService.exportApprovedTasks(filters)
+      res
+        .type('application/gzip')
+        .attachment(fileName)
+        .send(archive)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
 /**
  * GET /api/reviewer/tasks/:id
  * Get a specific task for review
@@ -72,6 +313,107 @@ reviewerRouter.post(
   }
 )
 
+/**
+ * POST /api/reviewer/tasks/:id/heartbeat
+ * Renew the reviewer's claim on a task they are reviewing
+ */
+reviewerRouter.post(
+  '/tasks/:id/heartbeat',
+  validateParams(idParamSchema),
+  async (req, res, next) => {
+    try {
+      const reviewer = getUserFromRequest(req)
+      const { id } = req.params
+      const reviewLeaseExpiresAt = await ReviewLeaseService.renew(id, reviewer)
+      res.json({ reviewLeaseExpiresAt })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/reviewer/tasks/:id/release
+ * Give up the reviewer's claim on a task (IN_REVIEW → SUBMITTED)
+ */
+reviewerRouter.post(
+  '/tasks/:id/release',
+  validateParams(idParamSchema),
+  async (req, res, next) => {
+    try {
+      const reviewer = getUserFromRequest(req)
+      const { id } = req.params
+      await ReviewLeaseService.release(id, reviewer)
+      const task = await ReviewService.getTaskForReview(id, reviewer.id)
+      res.json({ task, message: 'Review released' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/reviewer/tasks/:id/reassign
+ * Hand a task awaiting review to another reviewer (review leads only)
+ */
+reviewerRouter.post(
+  '/tasks/:id/reassign',
+  validateParams(idParamSchema),
+  validateBody(reassignReviewSchema),
+  async (req, res, next) => {
+    try {
+      const lead = getUserFromRequest(req)
+      const { id } = req.params
+      const { reviewerId } = req.validatedBody as ReassignReviewInput
+      await ReviewLeaseService.reassign(id, lead, reviewerId)
+      const task = await ReviewService.getTaskForReview(id, lead.id)
+      res.json({ task, message: 'Review reassigned' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/reviewer/tasks/:id/comments
+ * Comment on a line range of one of the task's files
+ */
+reviewerRouter.post(
+  '/tasks/:id/comments',
+  validateParams(idParamSchema),
+  validateBody(createReviewCommentSchema),
+  async (req, res, next) => {
+    try {
+      const reviewer = getUserFromRequest(req)
+      const { id } = req.params
+      const data = req.validatedBody as CreateReviewCommentInput
+      const comment = await ReviewCommentService.createComment(id, data, reviewer)
+      res.status(HTTP_STATUS.CREATED).json({ comment })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * DELETE /api/reviewer/tasks/:id/comments/:commentId
+ * Delete one of the reviewer's own comments
+ */
+reviewerRouter.delete(
+  '/tasks/:id/comments/:commentId',
+  validateParams(commentParamSchema),
+  async (req, res, next) => {
+    try {
+      const reviewer = getUserFromRequest(req)
+      const { id, commentId } = req.params
+      await ReviewCommentService.deleteComment(id, commentId, reviewer)
+      res.json({ message: 'Comment deleted' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
 /**
  * POST /api/reviewer/tasks/:id/review
  * Submit review decision
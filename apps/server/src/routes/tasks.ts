@@ -3,14 +3,26 @@
  * Handles task CRUD operations and submissions
  */
 
-import { Router } from 'express'
+import express, { Router } from 'express'
 import { TaskService } from '../services/task.service'
+import { TaskImportService } from '../services/task-import.service'
+import { TaskExportService } from '../services/task-export.service'
+import { ReviewCommentService } from '../services/review-comment.service'
+import { DiscussionService } from '../services/discussion.service'
 import { attachUser, getUserFromRequest } from '../middleware/auth'
-import { validateBody, validateParams } from '../middleware/validation'
+import { MAX_ARCHIVE_UPLOAD_BYTES } from '../lib/archive'
+import { validateBody, validateParams, validateQuery } from '../middleware/validation'
 import {
   createTaskSchema,
   updateTaskSchema,
   idParamSchema,
+  exportQuerySchema,
+  createThreadSchema,
+  replyToThreadSchema,
+  threadParamSchema,
+  ExportQueryInput,
+  CreateThreadInput,
+  ReplyToThreadInput,
 } from '../lib/schemas'
 import { HTTP_STATUS } from '@repo/types'
 
@@ -55,6 +67,150 @@ tasksRouter.get(
   }
 )
 
+/**
+ * GET /api/tasks/:id/export
+ * Download the task as a Terminal-Bench directory (.tar.gz)
+ * Query params:
+ * - version: number (optional) - export a history version instead of the current task
+ */
+tasksRouter.get(
+  '/:id/export',
+  validateParams(idParamSchema),
+  validateQuery(exportQuerySchema),
+  async (req, res, next) => {
+    try {
+      const user = getUserFromRequest(req)
+      const { id } = req.params
+      const { version } = req.validatedQuery as ExportQueryInput
+      const { fileName, archive } = await TaskExportService.exportTask(id, user, version)
+      res
+        .type('application/gzip')
+        .attachment(fileName)
+        .send(archive)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * GET /api/tasks/:id/lint
+ * Lint the task's files; error-severity issues block submission
+ */
+tasksRouter.get('/:id/lint', validateParams(idParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.params
+    const lint = await TaskService.lintTask(id, user)
+    res.json(lint)
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/tasks/:id/comments
+ * Get the reviewers' inline comments on the task's files
+ */
+tasksRouter.get('/:id/comments', validateParams(idParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.params
+    await TaskService.getTaskById(id, user) // Checks the user can see the task
+    const comments = await ReviewCommentService.listComments(id)
+    res.json({ comments })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/tasks/:id/threads
+ * Get the discussion threads on the task and its reviews
+ */
+tasksRouter.get('/:id/threads', validateParams(idParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.params
+    const threads = await DiscussionService.listThreads(id, user)
+    res.json({ threads })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/tasks/:id/threads
+ * Open a discussion thread on the task, or on one of its reviews
+ */
+tasksRouter.post(
+  '/:id/threads',
+  validateParams(idParamSchema),
+  validateBody(createThreadSchema),
+  async (req, res, next) => {
+    try {
+      const user = getUserFromRequest(req)
+      const { id } = req.params
+      const data = req.validatedBody as CreateThreadInput
+      const thread = await DiscussionService.openThread(id, data, user)
+      res.status(HTTP_STATUS.CREATED).json({ thread })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/tasks/:id/threads/:threadId/replies
+ * Reply to a discussion thread
+ */
+tasksRouter.post(
+  '/:id/threads/:threadId/replies',
+  validateParams(threadParamSchema),
+  validateBody(replyToThreadSchema),
+  async (req, res, next) => {
+    try {
+      const user = getUserFromRequest(req)
+      const { id, threadId } = req.params
+      const data = req.validatedBody as ReplyToThreadInput
+      const thread = await DiscussionService.reply(id, threadId, data, user)
+      res.status(HTTP_STATUS.CREATED).json({ thread })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/tasks/:id/threads/:threadId/resolve
+ * Mark a discussion thread resolved
+ */
+tasksRouter.post('/:id/threads/:threadId/resolve', validateParams(threadParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id, threadId } = req.params
+    const thread = await DiscussionService.resolve(id, threadId, user)
+    res.json({ thread })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/tasks/:id/threads/:threadId/reopen
+ * Reopen a resolved discussion thread
+ */
+tasksRouter.post('/:id/threads/:threadId/reopen', validateParams(threadParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id, threadId } = req.params
+    const thread = await DiscussionService.reopen(id, threadId, user)
+    res.json({ thread })
+  } catch (error) {
+    next(error)
+  }
+})
+
 /**
  * POST /api/tasks
  * Create a new task in DRAFT state
@@ -73,6 +229,26 @@ tasksRouter.post(
   }
 )
 
+/**
+ * POST /api/tasks/import
+ * Create a new DRAFT task from a task directory archive (.tar.gz, .tar or .zip)
+ * The raw archive is sent as the request body.
+ */
+tasksRouter.post(
+  '/import',
+  express.raw({ type: () => true, limit: MAX_ARCHIVE_UPLOAD_BYTES }),
+  async (req, res, next) => {
+    try {
+      const user = getUserFromRequest(req)
+      const archive = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+      const { task, unrecognizedFiles } = await TaskImportService.importTask(archive, user)
+      res.status(HTTP_STATUS.CREATED).json({ task, unrecognizedFiles, message: 'Task imported successfully' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
 /**
  * PUT /api/tasks/:id
  * Update a task (only if DRAFT or CHANGES_REQUESTED)
@@ -0,0 +1,190 @@
+/**
+ * Dataset Export Service
+ * Bundles every APPROVED task into a single benchmark release archive with a
+ * JSON and CSV manifest
+ *
+ * Archives are reproducible: tasks are ordered by id, file timestamps and
+ * ownership are fixed, and the manifest contains nothing time-dependent, so
+ * the same set of task versions always produces byte-identical output.
+ */
+
+import crypto from 'crypto'
+import { Task, UserSummary } from '@repo/types'
+import { createTarGz, ArchiveEntry } from '../lib/archive'
+import type { DatasetExportQueryInput } from '../lib/schemas'
+import { TaskService } from './task.service'
+import { TaskHistoryService } from './task-history.service'
+import { TaskExportService, slugifyTaskTitle, readStorageOnlyFiles } from './task-export.service'
+
+const DATASET_ROOT = 'approved-tasks'
+const TASKS_DIR = 'tasks'
+
+export interface DatasetManifestEntry {
+  id: string
+  directory: string
+  title: string
+  difficulty: string
+  categories: string[]
+  maxAgentTimeoutSec: number
+  maxTestTimeoutSec: number
+  author: UserSummary | null
+  approvedBy: UserSummary | null
+  approvedAt: string
+  version: number
+  contentHash: string
+}
+
+export interface DatasetManifest {
+  formatVersion: 1
+  taskCount: number
+  tasks: DatasetManifestEntry[]
+}
+
+export interface DatasetExport {
+  fileName: string
+  archive: Buffer
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'directory',
+  'title',
+  'difficulty',
+  'categories',
+  'max_agent_timeout_sec',
+  'max_test_timeout_sec',
+  'author_name',
+  'author_email',
+  'approved_by_name',
+  'approved_by_email',
+  'approved_at',
+  'version',
+  'content_hash',
+] as const
+
+/**
+ * Hash the files of a task directory (path, mode and content of each file)
+ */
+export function hashTaskFiles(files: ArchiveEntry[]): string {
+  const hash = crypto.createHash('sha256')
+  const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+
+  for (const file of sorted) {
+    hash.update(`${file.path}\0${(file.mode & 0o777).toString(8)}\0${file.data.length}\0`)
+    hash.update(file.data)
+  }
+
+  return `sha256:${hash.digest('hex')}`
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(entries: DatasetManifestEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.id,
+    entry.directory,
+    entry.title,
+    entry.difficulty,
+    entry.categories.join(','),
+    entry.maxAgentTimeoutSec,
+    entry.maxTestTimeoutSec,
+    entry.author?.name ?? '',
+    entry.author?.email ?? '',
+    entry.approvedBy?.name ?? '',
+    entry.approvedBy?.email ?? '',
+    entry.approvedAt,
+    entry.version,
+    entry.contentHash,
+  ])
+
+  return [CSV_COLUMNS as readonly (string | number)[], ...rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\n') + '\n'
+}
+
+function toUserSummary(user: UserSummary | undefined): UserSummary | null {
+  return user ? { id: user.id, name: user.name, email: user.email } : null
+}
+
+export class DatasetExportService {
+  /**
+   * Give each task a unique directory name, disambiguating duplicate slugs with the task id
+   */
+  private static assignDirectories(tasks: Task[]): Map<string, string> {
+    const slugCounts = new Map<string, number>()
+    for (const task of tasks) {
+      const slug = slugifyTaskTitle(task.title)
+      slugCounts.set(slug, (slugCounts.get(slug) ?? 0) + 1)
+    }
+
+    return new Map(tasks.map(task => {
+      const slug = slugifyTaskTitle(task.title)
+      return [task.id, slugCounts.get(slug)! > 1 ? `${slug}-${task.id}` : slug]
+    }))
+  }
+
+  /**
+   * Build the release archive for all approved tasks matching the filters
+   * Refused, listing the files, when a task's storage-only files were not stored
+   * with its latest version.
+   */
+  static async exportApprovedTasks(filters: DatasetExportQueryInput = {}): Promise<DatasetExport> {
+    const approved = await TaskService.getApprovedTasks(filters)
+    approved.sort((a, b) => (a.task.id < b.task.id ? -1 : a.task.id > b.task.id ? 1 : 0))
+
+    const tasks = approved.map(({ task }) => task)
+    const storageOnlyFiles = await readStorageOnlyFiles(tasks.map(task => ({ title: task.title, source: task })))
+    const directories = this.assignDirectories(tasks)
+    const versions = await TaskHistoryService.getLatestVersions(tasks.map(task => task.id))
+
+    const entries: ArchiveEntry[] = []
+    const manifestEntries: DatasetManifestEntry[] = []
+
+    for (const [index, { task, approval }] of approved.entries()) {
+      const directory = directories.get(task.id)!
+      const files = TaskExportService.buildTaskFiles(task, storageOnlyFiles[index])
+
+      for (const file of files) {
+        entries.push({ ...file, path: `${DATASET_ROOT}/${TASKS_DIR}/${directory}/${file.path}` })
+      }
+
+      manifestEntries.push({
+        id: task.id,
+        directory: `${TASKS_DIR}/${directory}`,
+        title: task.title,
+        difficulty: task.difficulty,
+        categories: task.categories.split(',').map(c => c.trim()).filter(c => c.length > 0),
+        maxAgentTimeoutSec: task.maxAgentTimeoutSec,
+        maxTestTimeoutSec: task.maxTestTimeoutSec,
+        author: toUserSummary(task.author),
+        approvedBy: toUserSummary(approval.reviewer),
+        approvedAt: new Date(approval.createdAt).toISOString(),
+        version: versions.get(task.id) ?? 0,
+        contentHash: hashTaskFiles(files),
+      })
+    }
+
+    const manifest: DatasetManifest = {
+      formatVersion: 1,
+      taskCount: manifestEntries.length,
+      tasks: manifestEntries,
+    }
+    const manifestJson = `${JSON.stringify(manifest, null, 2)}\n`
+
+    entries.push(
+      { path: `${DATASET_ROOT}/manifest.json`, data: Buffer.from(manifestJson, 'utf8'), mode: 0o644 },
+      { path: `${DATASET_ROOT}/manifest.csv`, data: Buffer.from(toCsv(manifestEntries), 'utf8'), mode: 0o644 },
+    )
+
+    // Name the archive after its content so identical exports share a name
+    const digest = crypto.createHash('sha256').update(manifestJson).digest('hex').slice(0, 12)
+
+    return {
+      fileName: `${DATASET_ROOT}-${digest}.tar.gz`,
+      archive: createTarGz(entries),
+    }
+  }
+}
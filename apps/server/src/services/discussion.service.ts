@@ -0,0 +1,219 @@
+/**
+ * Discussion Service
+ * Threads in which a task's author and reviewers discuss the task or one of its reviews
+ *
+ * Anyone who can see the task can open a thread or reply to one. A thread can
+ * be resolved by whoever opened it or by a reviewer, and reopened by anyone in
+ * the discussion. Activity is audited on the task, so it shows in its timeline.
+ */
+
+import { prisma, AuditAction, UserRole } from '@repo/db'
+import type { User } from '@repo/db'
+import type { DiscussionThread } from '@repo/types'
+import { ConflictError, ForbiddenError, NotFoundError } from '../lib/errors'
+import type { CreateThreadInput, ReplyToThreadInput } from '../lib/schemas'
+import { AuditService } from './audit.service'
+
+const USER_SUMMARY_SELECT = { id: true, name: true, email: true } as const
+
+const THREAD_INCLUDE = {
+  author: { select: USER_SUMMARY_SELECT },
+  resolvedBy: { select: USER_SUMMARY_SELECT },
+  messages: {
+    include: { author: { select: USER_SUMMARY_SELECT } },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const
+
+// Longest message excerpt kept in audit metadata
+const EXCERPT_LENGTH = 140
+
+function getExcerpt(body: string): string {
+  return body.length > EXCERPT_LENGTH ? `${body.slice(0, EXCERPT_LENGTH - 1)}…` : body
+}
+
+/**
+ * Get a task the user can take part in discussing (its author or a reviewer)
+ */
+async function getDiscussedTask(taskId: string, user: User) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, authorId: true },
+  })
+
+  if (!task) {
+    throw new NotFoundError('Task')
+  }
+
+  if (task.authorId !== user.id && user.role !== UserRole.REVIEWER) {
+    throw new ForbiddenError()
+  }
+
+  return task
+}
+
+async function getThread(taskId: string, threadId: string) {
+  const thread = await prisma.discussionThread.findFirst({ where: { id: threadId, taskId } })
+
+  if (!thread) {
+    throw new NotFoundError('Thread')
+  }
+
+  return thread
+}
+
+function logThreadActivity(
+  action: AuditAction,
+  taskId: string,
+  user: User,
+  metadata: Record<string, unknown>
+) {
+  return AuditService.log({
+    action,
+    entityType: 'task',
+    entityId: taskId,
+    userId: user.id,
+    userName: user.name || undefined,
+    userEmail: user.email,
+    metadata,
+  })
+}
+
+export class DiscussionService {
+  /**
+   * Get a task's threads, oldest first, with their messages
+   */
+  static async listThreads(taskId: string, user: User): Promise<DiscussionThread[]> {
+    await getDiscussedTask(taskId, user)
+
+    const threads = await prisma.discussionThread.findMany({
+      where: { taskId },
+      include: THREAD_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return threads as unknown as DiscussionThread[]
+  }
+
+  /**
+   * Open a thread on a task, or on one of its reviews
+   */
+  static async openThread(taskId: string, data: CreateThreadInput, user: User): Promise<DiscussionThread> {
+    await getDiscussedTask(taskId, user)
+
+    if (data.reviewId) {
+      const review = await prisma.review.findFirst({ where: { id: data.reviewId, taskId } })
+      if (!review) {
+        throw new NotFoundError('Review')
+      }
+    }
+
+    const thread = await prisma.discussionThread.create({
+      data: {
+        taskId,
+        reviewId: data.reviewId ?? null,
+        authorId: user.id,
+        messages: { create: { authorId: user.id, body: data.body } },
+      },
+      include: THREAD_INCLUDE,
+    })
+
+    await logThreadActivity(AuditAction.THREAD_OPENED, taskId, user, {
+      threadId: thread.id,
+      reviewId: thread.reviewId,
+      excerpt: getExcerpt(data.body),
+    })
+
+    return thread as unknown as DiscussionThread
+  }
+
+  /**
+   * Reply to a thread; replying doesn't change whether it is resolved
+   */
+  static async reply(
+    taskId: string,
+    threadId: string,
+    data: ReplyToThreadInput,
+    user: User
+  ): Promise<DiscussionThread> {
+    await getDiscussedTask(taskId, user)
+    await getThread(taskId, threadId)
+
+    const thread = await prisma.discussionThread.update({
+      where: { id: threadId },
+      data: { messages: { create: { authorId: user.id, body: data.body } } },
+      include: THREAD_INCLUDE,
+    })
+
+    await logThreadActivity(AuditAction.THREAD_REPLIED, taskId, user, {
+      threadId,
+      reviewId: thread.reviewId,
+      excerpt: getExcerpt(data.body),
+    })
+
+    return thread as unknown as DiscussionThread
+  }
+
+  /**
+   * Mark a thread resolved (whoever opened it, or a reviewer)
+   */
+  static async resolve(taskId: string, threadId: string, user: User): Promise<DiscussionThread> {
+    await getDiscussedTask(taskId, user)
+    const existing = await getThread(taskId, threadId)
+
+    if (existing.authorId !== user.id && user.role !== UserRole.REVIEWER) {
+      throw new ForbiddenError('Only reviewers or whoever started the thread can resolve it')
+    }
+
+    if (existing.resolvedAt) {
+      throw new ConflictError('Thread is already resolved')
+    }
+
+    const thread = await prisma.discussionThread.update({
+      where: { id: threadId },
+      data: { resolvedAt: new Date(), resolvedById: user.id },
+      include: THREAD_INCLUDE,
+    })
+
+    await logThreadActivity(AuditAction.THREAD_RESOLVED, taskId, user, {
+      threadId,
+      reviewId: thread.reviewId,
+    })
+
+    return thread as unknown as DiscussionThread
+  }
+
+  /**
+   * Reopen a resolved thread
+   */
+  static async reopen(taskId: string, threadId: string, user: User): Promise<DiscussionThread> {
+    await getDiscussedTask(taskId, user)
+    const existing = await getThread(taskId, threadId)
+
+    if (!existing.resolvedAt) {
+      throw new ConflictError('Thread is not resolved')
+    }
+
+    const thread = await prisma.discussionThread.update({
+      where: { id: threadId },
+      data: { resolvedAt: null, resolvedById: null },
+      include: THREAD_INCLUDE,
+    })
+
+    await logThreadActivity(AuditAction.THREAD_REOPENED, taskId, user, {
+      threadId,
+      reviewId: thread.reviewId,
+    })
+
+    return thread as unknown as DiscussionThread
+  }
+
+  /**
+   * Count the unresolved threads on a task that someone other than its author opened
+   */
+  static async countUnresolvedReviewerThreads(taskId: string, taskAuthorId: string): Promise<number> {
+    return prisma.discussionThread.count({
+      where: { taskId, resolvedAt: null, authorId: { not: taskAuthorId } },
+    })
+  }
+}
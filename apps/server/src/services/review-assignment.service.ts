@@ -0,0 +1,225 @@
+/**
+ * Review Assignment Service
+ * Assigns tasks awaiting review to reviewers, so that no task waits unclaimed
+ *
+ * A task is assigned when it is submitted, and again after each approval
+ * while it needs more (to a reviewer who hasn't decided on it yet).
+ * Candidates are reviewers other than the author who accept assignments and
+ * have fewer open assignments than their capacity. Reviewers whose categories
+ * of expertise overlap the task's come first, then those with the fewest open
+ * assignments, then whoever was assigned least recently (round-robin). Tasks
+ * left unassigned because nobody had capacity are assigned, oldest first, as
+ * reviewers free up.
+ *
+ * REVIEW_AUTO_ASSIGNMENT: set to "false" to turn automatic assignment off
+ * REVIEW_DEFAULT_CAPACITY: open assignments a reviewer takes unless they set their own (default: 5)
+ */
+
+import { prisma, AuditAction, UserRole } from '@repo/db'
+import type { User } from '@repo/db'
+import { TaskState, AWAITING_REVIEW_STATES, parseCategories } from '@repo/types'
+import type { ReviewAssignmentSettings } from '@repo/types'
+import type { UpdateReviewAssignmentSettingsInput } from '../lib/schemas'
+import { getRoundReviews } from '../lib/review-policy'
+import { AuditService } from './audit.service'
+
+/**
+ * Why a task was assigned
+ */
+export type AssignmentReason = 'submitted' | 'partially-approved' | 'capacity-freed' | 'released' | 'lease-expired'
+
+/**
+ * Whoever's action led to an assignment; assignments are audited as theirs
+ */
+type AssignmentActor = Pick<User, 'id'> & Partial<Pick<User, 'name' | 'email'>>
+
+/**
+ * Most waiting tasks assigned in one pass as reviewers free up
+ */
+const WAITING_TASKS_BATCH = 20
+
+function isAssignmentEnabled(): boolean {
+  return process.env.REVIEW_AUTO_ASSIGNMENT !== 'false'
+}
+
+function getDefaultCapacity(): number {
+  return Number(process.env.REVIEW_DEFAULT_CAPACITY) || 5
+}
+
+function hasExpertise(reviewCategories: string, taskCategories: string): boolean {
+  const expertise = new Set(parseCategories(reviewCategories).map(category => category.toLowerCase()))
+  return parseCategories(taskCategories).some(category => expertise.has(category.toLowerCase()))
+}
+
+/**
+ * Open assignments (tasks still awaiting review) of each of some reviewers
+ */
+async function countOpenAssignments(reviewerIds: string[]): Promise<Map<string, number>> {
+  const groups = await prisma.task.groupBy({
+    by: ['assigneeId'],
+    where: {
+      assigneeId: { in: reviewerIds },
+      state: { in: AWAITING_REVIEW_STATES },
+    },
+    _count: { _all: true },
+  })
+  return new Map(groups.map(group => [group.assigneeId!, group._count._all]))
+}
+
+export class ReviewAssignmentService {
+  /**
+   * Assign a task awaiting review to the best available reviewer
+   * Returns the assignee, or null if no reviewer can take the task now.
+   */
+  static async assignTask(
+    taskId: string,
+    reason: AssignmentReason,
+    actor: AssignmentActor,
+    options: { excludeReviewerIds?: string[] } = {}
+  ): Promise<User | null> {
+    if (!isAssignmentEnabled()) return null
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: { reviews: { select: { reviewerId: true, createdAt: true } } },
+    })
+
+    if (!task || task.assigneeId || !AWAITING_REVIEW_STATES.includes(task.state as TaskState)) {
+      return null
+    }
+
+    // Reviewers who already decided in this round have nothing left to do
+    const excluded = [
+      task.authorId,
+      ...getRoundReviews(task).map(review => review.reviewerId),
+      ...(options.excludeReviewerIds ?? []),
+    ]
+    const reviewers = await prisma.user.findMany({
+      where: {
+        role: UserRole.REVIEWER,
+        acceptsAssignments: true,
+        id: { notIn: excluded },
+      },
+    })
+    const loads = await countOpenAssignments(reviewers.map(reviewer => reviewer.id))
+    const defaultCapacity = getDefaultCapacity()
+
+    const candidates = reviewers
+      .map(reviewer => ({
+        reviewer,
+        load: loads.get(reviewer.id) ?? 0,
+        capacity: reviewer.reviewCapacity ?? defaultCapacity,
+        expertiseMatch: hasExpertise(reviewer.reviewCategories, task.categories),
+      }))
+      .filter(candidate => candidate.load < candidate.capacity)
+      .sort((a, b) =>
+        Number(b.expertiseMatch) - Number(a.expertiseMatch) ||
+        a.load - b.load ||
+        (a.reviewer.lastAssignedAt?.getTime() ?? 0) - (b.reviewer.lastAssignedAt?.getTime() ?? 0)
+      )
+
+    const [chosen] = candidates
+    if (!chosen) return null
+
+    const now = new Date()
+    const { reviewer } = chosen
+    // Only an unassigned task is taken, in case a concurrent request assigned it first
+    const assigned = await prisma.$transaction(async tx => {
+      const { count } = await tx.task.updateMany({
+        where: { id: taskId, assigneeId: null, state: { in: AWAITING_REVIEW_STATES } },
+        data: { assigneeId: reviewer.id, assignedAt: now },
+      })
+      if (count === 0) return false
+
+      await tx.user.update({
+        where: { id: reviewer.id },
+        data: { lastAssignedAt: now },
+      })
+      return true
+    })
+    if (!assigned) return null
+
+    await AuditService.log({
+      action: AuditAction.TASK_ASSIGNED,
+      entityType: 'task',
+      entityId: taskId,
+      userId: actor.id,
+      userName: actor.name || undefined,
+      userEmail: actor.email,
+      metadata: {
+        assigneeId: reviewer.id,
+        assigneeName: reviewer.name || reviewer.email,
+        reason,
+        openAssignments: chosen.load + 1,
+        capacity: chosen.capacity,
+        expertiseMatch: chosen.expertiseMatch,
+      },
+    })
+
+    return reviewer
+  }
+
+  /**
+   * Assign tasks left waiting without a reviewer, oldest submission first
+   */
+  static async assignWaitingTasks(actor: AssignmentActor): Promise<void> {
+    if (!isAssignmentEnabled()) return
+
+    const waiting = await prisma.task.findMany({
+      where: {
+        assigneeId: null,
+        state: { in: [TaskState.SUBMITTED, TaskState.PARTIALLY_APPROVED] },
+      },
+      orderBy: [{ submittedAt: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true },
+      take: WAITING_TASKS_BATCH,
+    })
+
+    for (const task of waiting) {
+      await this.assignTask(task.id, 'capacity-freed', actor)
+    }
+  }
+
+  /**
+   * Get a reviewer's assignment preferences and open assignments
+   */
+  static async getSettings(reviewer: User): Promise<ReviewAssignmentSettings> {
+    const loads = await countOpenAssignments([reviewer.id])
+    return {
+      acceptsAssignments: reviewer.acceptsAssignments,
+      reviewCapacity: reviewer.reviewCapacity,
+      reviewCategories: reviewer.reviewCategories,
+      defaultCapacity: getDefaultCapacity(),
+      openAssignments: loads.get(reviewer.id) ?? 0,
+    }
+  }
+
+  /**
+   * Update a reviewer's assignment preferences
+   * Opting out hands back the assigned tasks the reviewer hasn't started.
+   */
+  static async updateSettings(
+    reviewer: User,
+    data: UpdateReviewAssignmentSettingsInput
+  ): Promise<ReviewAssignmentSettings> {
+    const updated = await prisma.user.update({
+      where: { id: reviewer.id },
+      data,
+    })
+
+    if (data.acceptsAssignments === false) {
+      await prisma.task.updateMany({
+        where: {
+          assigneeId: reviewer.id,
+          state: { in: [TaskState.SUBMITTED, TaskState.PARTIALLY_APPROVED] },
+        },
+        data: { assigneeId: null, assignedAt: null },
+      })
+    }
+
+    // Capacity may have freed up, or tasks been handed back
+    await this.assignWaitingTasks(updated)
+
+    return this.getSettings(updated)
+  }
+}
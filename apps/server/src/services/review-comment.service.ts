@@ -0,0 +1,139 @@
+/**
+ * Review Comment Service
+ * Inline comments reviewers leave on line ranges of a task's files
+ *
+ * A comment is anchored to the version of the task it was made on. When the
+ * author resubmits, each comment is moved to where its lines are in the new
+ * version, or marked outdated if they changed.
+ */
+
+import { prisma } from '@repo/db'
+import type { User } from '@repo/db'
+import {
+  isTaskReviewable,
+  getTaskFileName,
+  getTaskFileContent,
+  getLineExcerpt,
+  reanchorLineRange,
+} from '@repo/types'
+import type { ReviewComment, TaskFileContents, TaskFileField, TaskState } from '@repo/types'
+import { BadRequestError, ForbiddenError, NotFoundError } from '../lib/errors'
+import type { CreateReviewCommentInput } from '../lib/schemas'
+import { TaskHistoryService } from './task-history.service'
+
+const COMMENT_INCLUDE = {
+  author: { select: { id: true, name: true, email: true } },
+} as const
+
+export class ReviewCommentService {
+  /**
+   * Get the inline comments on a task, in file and line order
+   */
+  static async listComments(taskId: string): Promise<ReviewComment[]> {
+    const comments = await prisma.reviewComment.findMany({
+      where: { taskId },
+      include: COMMENT_INCLUDE,
+      orderBy: [{ field: 'asc' }, { lineStart: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return comments as unknown as ReviewComment[]
+  }
+
+  /**
+   * Comment on a line range of a task under review
+   */
+  static async createComment(taskId: string, data: CreateReviewCommentInput, reviewer: User): Promise<ReviewComment> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } })
+
+    if (!task) {
+      throw new NotFoundError('Task')
+    }
+
+    if (!isTaskReviewable(task.state as TaskState)) {
+      throw new BadRequestError(`Comments can only be added to tasks submitted for review. Current state: ${task.state}`)
+    }
+
+    const field = data.field as TaskFileField
+    const content = getTaskFileContent(task, field)
+    if (content === null) {
+      throw new BadRequestError(`The task has no ${getTaskFileName(field)}`)
+    }
+
+    const lineCount = content.split('\n').length
+    if (data.lineEnd > lineCount) {
+      throw new BadRequestError(`${getTaskFileName(field)} has only ${lineCount} lines`)
+    }
+
+    const version = (await TaskHistoryService.getLatestVersions([taskId])).get(taskId) ?? 0
+
+    const comment = await prisma.reviewComment.create({
+      data: {
+        taskId,
+        authorId: reviewer.id,
+        field,
+        lineStart: data.lineStart,
+        lineEnd: data.lineEnd,
+        body: data.body,
+        version,
+        anchoredVersion: version,
+        excerpt: getLineExcerpt(content, data),
+      },
+      include: COMMENT_INCLUDE,
+    })
+
+    return comment as unknown as ReviewComment
+  }
+
+  /**
+   * Delete one of the reviewer's own comments
+   */
+  static async deleteComment(taskId: string, commentId: string, reviewer: User): Promise<void> {
+    const comment = await prisma.reviewComment.findFirst({ where: { id: commentId, taskId } })
+
+    if (!comment) {
+      throw new NotFoundError('Comment')
+    }
+
+    if (comment.authorId !== reviewer.id) {
+      throw new ForbiddenError('You can only delete your own comments')
+    }
+
+    await prisma.reviewComment.delete({ where: { id: commentId } })
+  }
+
+  /**
+   * Move the task's comments onto a new version of its files
+   * Comments whose lines changed, or whose file is gone, are marked outdated.
+   */
+  static async reanchorComments(taskId: string, files: TaskFileContents, version: number): Promise<void> {
+    const comments = await prisma.reviewComment.findMany({
+      where: { taskId, outdated: false, anchoredVersion: { lt: version } },
+    })
+
+    const anchoredVersions = [...new Set(comments.map(comment => comment.anchoredVersion))]
+    const snapshots = new Map(
+      await Promise.all(
+        anchoredVersions.map(async anchoredVersion =>
+          [anchoredVersion, await TaskHistoryService.getVersion(taskId, anchoredVersion)] as const
+        )
+      )
+    )
+
+    for (const comment of comments) {
+      const field = comment.field as TaskFileField
+      const snapshot = snapshots.get(comment.anchoredVersion)
+      const oldContent = snapshot ? getTaskFileContent(snapshot, field) : null
+      const newContent = getTaskFileContent(files, field)
+      const range = oldContent !== null && newContent !== null
+        ? reanchorLineRange(oldContent, newContent, comment)
+        : null
+
+      await prisma.reviewComment.update({
+        where: { id: comment.id },
+        data: range
+          ? { lineStart: range.lineStart, lineEnd: range.lineEnd, anchoredVersion: version }
+          : { outdated: true },
+      })
+    }
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Review Lease Service
+ * Keeps claims on tasks in review from outliving the reviewer's attention
+ *
+ * Starting a review claims the task for a lease; the reviewer page renews it
+ * with a heartbeat while it is open. Once a lease lapses the task goes back to
+ * SUBMITTED and to the assignment queue. Each process serving review requests
+ * reclaims lapsed leases on an interval, and before starting or deciding a
+ * review so a lapsed claim never blocks another reviewer.
+ * Reviewers can release their claim early, and review leads can hand a task
+ * awaiting review to another reviewer.
+ *
+ * REVIEW_LEASE_MINUTES: how long a claim lasts without a heartbeat (default: 30)
+ * REVIEW_LEASE_RECLAIM_MS: how often lapsed leases are reclaimed (default: 60000)
+ */
+
+import { prisma, AuditAction, UserRole } from '@repo/db'
+import type { User } from '@repo/db'
+import { TaskState, AWAITING_REVIEW_STATES, DEFAULT_REVIEW_LEASE_MINUTES } from '@repo/types'
+import type { UserSummary } from '@repo/types'
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../lib/errors'
+import { getRoundReviews } from '../lib/review-policy'
+import { AuditService } from './audit.service'
+import { ReviewAssignmentService } from './review-assignment.service'
+
+const USER_SUMMARY_SELECT = { id: true, name: true, email: true } as const
+
+function getLeaseMinutes(): number {
+  return Number(process.env.REVIEW_LEASE_MINUTES) || DEFAULT_REVIEW_LEASE_MINUTES
+}
+
+function getReclaimIntervalMs(): number {
+  return Number(process.env.REVIEW_LEASE_RECLAIM_MS) || 60_000
+}
+
+let reclaimTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * When a claim made or renewed now lapses
+ */
+export function getLeaseExpiry(): Date {
+  return new Date(Date.now() + getLeaseMinutes() * 60 * 1000)
+}
+
+/**
+ * Return a task in review to SUBMITTED, if it is still claimed by the reviewer
+ * Returns whether it was; another request may have ended the claim first.
+ */
+async function returnToQueue(taskId: string, reviewerId: string, leaseExpiredBefore?: Date): Promise<boolean> {
+  const { count } = await prisma.task.updateMany({
+    where: {
+      id: taskId,
+      state: TaskState.IN_REVIEW,
+      reviewerId,
+      ...(leaseExpiredBefore && { reviewLeaseExpiresAt: { lt: leaseExpiredBefore } }),
+    },
+    data: {
+      state: TaskState.SUBMITTED,
+      reviewerId: null,
+      reviewLeaseExpiresAt: null,
+      assigneeId: null,
+      assignedAt: null,
+    },
+  })
+  return count > 0
+}
+
+export class ReviewLeaseService {
+  /**
+   * Renew the reviewer's claim on a task they are reviewing
+   */
+  static async renew(taskId: string, reviewer: User): Promise<Date> {
+    const reviewLeaseExpiresAt = getLeaseExpiry()
+    const { count } = await prisma.task.updateMany({
+      where: { id: taskId, state: TaskState.IN_REVIEW, reviewerId: reviewer.id },
+      data: { reviewLeaseExpiresAt },
+    })
+
+    if (count === 0) {
+      throw new ConflictError('You no longer have this task in review')
+    }
+
+    return reviewLeaseExpiresAt
+  }
+
+  /**
+   * Give up the reviewer's claim on a task, returning it to SUBMITTED
+   */
+  static async release(taskId: string, reviewer: User): Promise<void> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } })
+
+    if (!task) {
+      throw new NotFoundError('Task')
+    }
+
+    if (task.state !== TaskState.IN_REVIEW || task.reviewerId !== reviewer.id) {
+      throw new ConflictError('You do not have this task in review')
+    }
+
+    // Another request may have ended the claim in the meantime
+    if (!(await returnToQueue(taskId, reviewer.id))) {
+      throw new ConflictError('You do not have this task in review')
+    }
+
+    await AuditService.log({
+      action: AuditAction.REVIEW_RELEASED,
+      entityType: 'task',
+      entityId: taskId,
+      userId: reviewer.id,
+      userName: reviewer.name || undefined,
+      userEmail: reviewer.email,
+      metadata: {
+        previousState: TaskState.IN_REVIEW,
+        currentState: TaskState.SUBMITTED,
+      },
+    })
+
+    await ReviewAssignmentService.assignTask(taskId, 'released', reviewer, { excludeReviewerIds: [reviewer.id] })
+    await ReviewAssignmentService.assignWaitingTasks(reviewer)
+  }
+
+  /**
+   * Return every task whose reviewer let their lease lapse to SUBMITTED
+   */
+  static async reclaimExpired(): Promise<void> {
+    const now = new Date()
+    const expired = await prisma.task.findMany({
+      where: {
+        state: TaskState.IN_REVIEW,
+        reviewLeaseExpiresAt: { lt: now },
+      },
+      select: {
+        id: true,
+        reviewerId: true,
+        reviewLeaseExpiresAt: true,
+        reviewer: { select: USER_SUMMARY_SELECT },
+      },
+    })
+
+    for (const task of expired) {
+      if (!task.reviewerId || !(await returnToQueue(task.id, task.reviewerId, now))) continue
+
+      // Recorded as the lapsed reviewer's, since nobody else acted
+      const holder = { id: task.reviewerId, name: task.reviewer?.name, email: task.reviewer?.email }
+      await AuditService.log({
+        action: AuditAction.REVIEW_LEASE_EXPIRED,
+        entityType: 'task',
+        entityId: task.id,
+        userId: holder.id,
+        userName: holder.name || undefined,
+        userEmail: holder.email,
+        metadata: {
+          previousState: TaskState.IN_REVIEW,
+          currentState: TaskState.SUBMITTED,
+          leaseExpiredAt: task.reviewLeaseExpiresAt,
+        },
+      })
+
+      await ReviewAssignmentService.assignTask(task.id, 'lease-expired', holder, { excludeReviewerIds: [holder.id] })
+    }
+  }
+
+  /**
+   * Reclaim lapsed leases now and then on an interval, for the life of the process
+   * Starting it again does nothing.
+   */
+  static startReclaiming(): void {
+    if (reclaimTimer) return
+
+    const reclaim = () =>
+      this.reclaimExpired().catch(error => console.error('[ReviewLeaseService] Reclaiming lapsed leases failed:', error))
+
+    reclaimTimer = setInterval(reclaim, getReclaimIntervalMs())
+    reclaimTimer.unref()
+    reclaim()
+  }
+
+  /**
+   * Hand a task awaiting review to another reviewer (review leads only)
+   * A task in review moves its claim, with a fresh lease; other tasks change assignee.
+   */
+  static async reassign(taskId: string, lead: User, reviewerId: string): Promise<void> {
+    if (!lead.isReviewLead) {
+      throw new ForbiddenError('Only review leads can reassign reviews')
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        reviews: { select: { reviewerId: true, createdAt: true } },
+        reviewer: { select: USER_SUMMARY_SELECT },
+        assignee: { select: USER_SUMMARY_SELECT },
+      },
+    })
+
+    if (!task) {
+      throw new NotFoundError('Task')
+    }
+
+    const state = task.state as TaskState
+    if (!AWAITING_REVIEW_STATES.includes(state)) {
+      throw new BadRequestError(`Only tasks awaiting review can be reassigned. Current state: ${task.state}`)
+    }
+
+    const target = await prisma.user.findUnique({ where: { id: reviewerId } })
+
+    if (!target || target.role !== UserRole.REVIEWER) {
+      throw new BadRequestError('Tasks can only be reassigned to a reviewer')
+    }
+
+    if (target.id === task.authorId) {
+      throw new BadRequestError('Tasks cannot be reassigned to their author')
+    }
+
+    if (getRoundReviews(task).some(review => review.reviewerId === target.id)) {
+      throw new BadRequestError('This reviewer has already decided on the current submission')
+    }
+
+    const previous = state === TaskState.IN_REVIEW ? task.reviewer : task.assignee
+    if (previous?.id === target.id) {
+      throw new BadRequestError('The task is already with this reviewer')
+    }
+
+    const now = new Date()
+    await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        assigneeId: target.id,
+        assignedAt: now,
+        ...(state === TaskState.IN_REVIEW && { reviewerId: target.id, reviewLeaseExpiresAt: getLeaseExpiry() }),
+      },
+    })
+
+    await AuditService.log({
+      action: AuditAction.REVIEW_REASSIGNED,
+      entityType: 'task',
+      entityId: taskId,
+      userId: lead.id,
+      userName: lead.name || undefined,
+      userEmail: lead.email,
+      metadata: {
+        state,
+        previousReviewerId: previous?.id ?? null,
+        previousReviewerName: previous ? previous.name || previous.email : null,
+        reviewerId: target.id,
+        reviewerName: target.name || target.email,
+      },
+    })
+
+    // The previous reviewer has room for another task
+    if (previous) {
+      await ReviewAssignmentService.assignWaitingTasks(lead)
+    }
+  }
+
+  /**
+   * Reviewers a task can be handed to
+   */
+  static async listReviewers(): Promise<UserSummary[]> {
+    return prisma.user.findMany({
+      where: { role: UserRole.REVIEWER },
+      select: USER_SUMMARY_SELECT,
+      orderBy: [{ name: 'asc' }, { email: 'asc' }],
+    })
+  }
+}
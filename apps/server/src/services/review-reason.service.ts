@@ -0,0 +1,131 @@
+/**
+ * Review Reason Service
+ * The catalog of reasons for rejecting a task or requesting changes
+ *
+ * Reviewers must pick at least one active reason for either decision. Review
+ * leads manage the catalog; archiving a reason keeps it on past reviews and in
+ * reports but stops it being picked.
+ */
+
+import { prisma } from '@repo/db'
+import type { User } from '@repo/db'
+import { REASON_REQUIRED_DECISIONS, requiresReviewReason, summarizeReviewReasons } from '@repo/types'
+import type { ReviewDecision, ReviewReason, ReviewReasonReport } from '@repo/types'
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../lib/errors'
+import type {
+  CreateReviewReasonInput,
+  UpdateReviewReasonInput,
+  ReviewReasonReportQueryInput,
+} from '../lib/schemas'
+
+function assertReviewLead(user: User): void {
+  if (!user.isReviewLead) {
+    throw new ForbiddenError('Only review leads can manage review reasons')
+  }
+}
+
+export class ReviewReasonService {
+  /**
+   * Get the catalog by label; archived reasons only when asked for
+   */
+  static async listReasons(includeArchived = false): Promise<ReviewReason[]> {
+    const reasons = await prisma.reviewReason.findMany({
+      where: includeArchived ? {} : { isActive: true },
+      orderBy: { label: 'asc' },
+    })
+
+    return reasons as unknown as ReviewReason[]
+  }
+
+  /**
+   * Add a reason to the catalog (review leads only)
+   */
+  static async createReason(data: CreateReviewReasonInput, lead: User): Promise<ReviewReason> {
+    assertReviewLead(lead)
+
+    const existing = await prisma.reviewReason.findUnique({ where: { code: data.code } })
+    if (existing) {
+      throw new ConflictError(`Reason ${data.code} already exists`)
+    }
+
+    const reason = await prisma.reviewReason.create({ data })
+    return reason as unknown as ReviewReason
+  }
+
+  /**
+   * Relabel, archive or restore a reason (review leads only)
+   * Codes can't change, since reviews and reports refer to them.
+   */
+  static async updateReason(code: string, data: UpdateReviewReasonInput, lead: User): Promise<ReviewReason> {
+    assertReviewLead(lead)
+
+    const existing = await prisma.reviewReason.findUnique({ where: { code } })
+    if (!existing) {
+      throw new NotFoundError('Reason')
+    }
+
+    const reason = await prisma.reviewReason.update({ where: { code }, data })
+    return reason as unknown as ReviewReason
+  }
+
+  /**
+   * Check the reasons given with a decision
+   * Rejections and change requests need at least one active reason; approvals take none.
+   */
+  static async checkReasonCodes(decision: ReviewDecision, codes: string[]): Promise<string[]> {
+    const unique = [...new Set(codes)]
+
+    if (!requiresReviewReason(decision)) {
+      if (unique.length > 0) {
+        throw new ValidationError('Reasons are only given when rejecting or requesting changes')
+      }
+      return []
+    }
+
+    if (unique.length === 0) {
+      throw new ValidationError('Pick at least one reason for rejecting or requesting changes')
+    }
+
+    const reasons = await prisma.reviewReason.findMany({
+      where: { code: { in: unique }, isActive: true },
+      select: { code: true },
+    })
+    const known = new Set(reasons.map(reason => reason.code))
+    const unknown = unique.filter(code => !known.has(code))
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown or archived reasons: ${unknown.join(', ')}`)
+    }
+
+    return unique
+  }
+
+  /**
+   * The most given reasons for rejections and change requests, overall, per
+   * category and per author, optionally within a date range
+   */
+  static async getReport(query: ReviewReasonReportQueryInput = {}): Promise<ReviewReasonReport> {
+    const reviews = await prisma.review.findMany({
+      where: {
+        decision: { in: REASON_REQUIRED_DECISIONS },
+        reasonCodes: { isEmpty: false },
+        ...((query.from || query.to) && {
+          createdAt: {
+            ...(query.from && { gte: query.from }),
+            ...(query.to && { lte: query.to }),
+          },
+        }),
+      },
+      select: {
+        reasonCodes: true,
+        task: {
+          select: {
+            categories: true,
+            author: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+    })
+
+    return summarizeReviewReasons(reviews)
+  }
+}
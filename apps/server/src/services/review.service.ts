@@ -3,17 +3,19 @@
  * Business logic for review operations
  */
 
-import { prisma, AuditAction } from '@repo/db'
+import { prisma, AuditAction, Prisma } from '@repo/db'
 import { User } from '@repo/db'
 import {
   TaskState,
   Review,
   Task,
   ReviewDecision,
+  Difficulty,
   isTaskReviewable,
   getStateFromDecision,
   isValidTaskTransition,
   TASK_INCLUDE_FULL,
+  AWAITING_REVIEW_STATES,
 } from '@repo/types'
 import {
   NotFoundError,
@@ -21,14 +23,29 @@ import {
   BadRequestError,
 } from '../lib/errors'
 import type { SubmitReviewInput } from '../lib/schemas'
+import {
+  getRequiredApprovals,
+  getRoundReviews,
+  getStandingReviews,
+  resolveReviewState,
+  getReviewConsensus,
+  RoundReview,
+} from '../lib/review-policy'
 import { AuditService } from './audit.service'
+import { ReviewAssignmentService } from './review-assignment.service'
+import { ReviewLeaseService, getLeaseExpiry } from './review-lease.service'
+import { ReviewReasonService } from './review-reason.service'
+import { RubricService } from './rubric.service'
 import { TaskHistoryService } from './task-history.service'
 
 export class ReviewService {
   /**
    * Start reviewing a task (SUBMITTED → IN_REVIEW)
+   * The task becomes assigned to the reviewer, even if it was assigned to someone else.
    */
   static async startReview(taskId: string, reviewerId: string): Promise<Task> {
+    await ReviewLeaseService.reclaimExpired()
+
     const existingTask = await prisma.task.findUnique({
       where: { id: taskId },
     })
@@ -45,11 +62,15 @@ export class ReviewService {
     }
 
     // Transition to IN_REVIEW and assign reviewer
+    const takesOver = existingTask.assigneeId !== reviewerId
     const task = await prisma.task.update({
       where: { id: taskId },
       data: {
         state: TaskState.IN_REVIEW,
         reviewerId,
+        reviewLeaseExpiresAt: getLeaseExpiry(),
+        assigneeId: reviewerId,
+        ...(takesOver && { assignedAt: new Date() }),
       },
       include: TASK_INCLUDE_FULL,
     })
@@ -63,25 +84,37 @@ export class ReviewService {
       metadata: {
         previousState: existingTask.state,
         currentState: TaskState.IN_REVIEW,
+        ...(takesOver && existingTask.assigneeId && { previousAssigneeId: existingTask.assigneeId }),
       },
     })
 
+    // Taking over someone else's assignment frees up their capacity
+    if (takesOver && existingTask.assigneeId) {
+      await ReviewAssignmentService.assignWaitingTasks({ id: reviewerId })
+    }
+
     return task as unknown as Task
   }
 
   /**
    * Submit review decision (or change a previous decision)
+   * The task's state follows from every reviewer's standing decision in the
+   * current round (see review-policy), so one approval may not approve it.
    */
   static async submitReview(
     taskId: string,
     data: SubmitReviewInput,
     reviewer: User
   ): Promise<{ task: Task; review: Review }> {
-    const { decision, comment } = data
+    const { decision, comment, rubricScores, reasonCodes } = data
+
+    // A lapsed claim no longer keeps other reviewers from deciding
+    await ReviewLeaseService.reclaimExpired()
 
     // Get existing task
     const existingTask = await prisma.task.findUnique({
       where: { id: taskId },
+      include: { reviews: TASK_INCLUDE_FULL.reviews },
     })
 
     if (!existingTask) {
@@ -100,8 +133,14 @@ export class ReviewService {
       throw new ForbiddenError('This task is being reviewed by another reviewer')
     }
 
-    // Get the new state from decision
-    const newState = getStateFromDecision(decision as ReviewDecision)
+    // This decision replaces the reviewer's previous one in the round
+    const requiredApprovals = getRequiredApprovals(existingTask.difficulty as Difficulty)
+    const roundReviews = getRoundReviews(existingTask) as unknown as RoundReview[]
+    const otherDecisions = getStandingReviews(roundReviews)
+      .filter(review => review.reviewerId !== reviewer.id)
+      .map(review => review.decision)
+    const newState = resolveReviewState([...otherDecisions, decision as ReviewDecision], requiredApprovals)
+    const previousDecision = roundReviews.find(review => review.reviewerId === reviewer.id)?.decision
 
     // Check if this is the same state (just adding new feedback, not changing decision)
     const isSameState = existingTask.state === newState
@@ -113,9 +152,21 @@ export class ReviewService {
       )
     }
 
-    // Determine if this is a decision change (re-review) or just adding feedback
-    const isDecisionChange = !isSameState && [TaskState.APPROVED, TaskState.REJECTED, TaskState.CHANGES_REQUESTED]
-      .includes(existingTask.state as TaskState)
+    // Rejections and change requests say why, from the reason catalog
+    const reasons = await ReviewReasonService.checkReasonCodes(decision as ReviewDecision, reasonCodes ?? [])
+
+    // Tasks with a rubric are scored against it; low scores can rule out lenient decisions
+    const rubric = await RubricService.getTemplateForTask(existingTask)
+    const scores = rubric
+      ? RubricService.scoreReview(rubric, rubricScores ?? [], decision as ReviewDecision)
+      : null
+
+    // Determine if this reviewer changed their decision or is just adding feedback
+    const isDecisionChange = !!previousDecision && previousDecision !== decision
+
+    // The assignee's decision, or the task leaving review, completes the assignment
+    const completesAssignment = !!existingTask.assigneeId &&
+      (existingTask.assigneeId === reviewer.id || !AWAITING_REVIEW_STATES.includes(newState))
 
     // If starting review (SUBMITTED → IN_REVIEW), assign reviewer first
     if (existingTask.state === TaskState.SUBMITTED) {
@@ -135,6 +186,9 @@ export class ReviewService {
         reviewerId: reviewer.id,
         decision: decision as ReviewDecision,
         comment: comment || null,
+        reasonCodes: reasons,
+        rubricTemplateId: rubric?.id ?? null,
+        rubricScores: scores ? (scores as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
       },
       include: {
         reviewer: {
@@ -153,11 +207,16 @@ export class ReviewService {
       data: {
         // Only update state if it changed
         ...(isSameState ? {} : { state: newState }),
-        // Update reviewer assignment
-        reviewerId: newState === TaskState.APPROVED ? null : existingTask.reviewerId || reviewer.id,
+        // Update reviewer assignment; tasks awaiting further approvals are open to any reviewer
+        reviewerId: [TaskState.APPROVED, TaskState.PARTIALLY_APPROVED].includes(newState)
+          ? null
+          : existingTask.reviewerId || reviewer.id,
+        reviewLeaseExpiresAt: null,
+        ...(completesAssignment && { assigneeId: null, assignedAt: null }),
       },
       include: TASK_INCLUDE_FULL,
     })
+    const reviewConsensus = getReviewConsensus([review, ...roundReviews] as unknown as RoundReview[], requiredApprovals)
 
     // Get the corresponding audit action
     const auditActionMap: Record<ReviewDecision, AuditAction> = {
@@ -180,6 +239,8 @@ export class ReviewService {
           decision,
           hasComment: !!comment,
           isDecisionChange,
+          reasonCodes: reasons,
+          ...(rubric && { rubricTemplateId: rubric.id, rubricVersion: rubric.version }),
         },
       }),
       AuditService.log({
@@ -194,6 +255,8 @@ export class ReviewService {
           currentState: newState,
           reviewId: review.id,
           isDecisionChange,
+          approvals: reviewConsensus.approvals.length,
+          requiredApprovals,
         },
       }),
       TaskHistoryService.createSnapshot({
@@ -214,8 +277,8 @@ export class ReviewService {
           userName: reviewer.name || undefined,
           userEmail: reviewer.email,
           metadata: {
-            previousDecision: existingTask.state,
-            newDecision: newState,
+            previousDecision: getStateFromDecision(previousDecision as ReviewDecision),
+            newDecision: getStateFromDecision(decision as ReviewDecision),
             reviewId: review.id,
           },
         })
@@ -224,8 +287,16 @@ export class ReviewService {
 
     await Promise.all(auditLogs)
 
+    // Hand a task that needs more approvals to the next reviewer, then use any freed capacity
+    if (newState === TaskState.PARTIALLY_APPROVED) {
+      await ReviewAssignmentService.assignTask(taskId, 'partially-approved', reviewer)
+    }
+    if (completesAssignment) {
+      await ReviewAssignmentService.assignWaitingTasks(reviewer)
+    }
+
     return {
-      task: task as unknown as Task,
+      task: { ...task, reviewConsensus, rubric } as unknown as Task,
       review: review as unknown as Review,
     }
   }
@@ -253,7 +324,7 @@ export class ReviewService {
       .includes(task.state as TaskState)
     
     // Allow access if:
-    // 1. Task is in reviewable state (SUBMITTED or IN_REVIEW)
+    // 1. Task is in reviewable state (SUBMITTED, IN_REVIEW or PARTIALLY_APPROVED)
     // 2. Reviewer has previously reviewed this task
     // 3. Reviewer is assigned to this task (even if completed)
     if (!isReviewable && !hasReviewedIt && !(isAssignedReviewer && isCompletedState)) {
@@ -262,6 +333,12 @@ export class ReviewService {
       )
     }
 
-    return task as unknown as Task
+    const [withReport] = await TaskHistoryService.withStabilityReports([task])
+    const reviewConsensus = getReviewConsensus(
+      getRoundReviews(task) as unknown as RoundReview[],
+      getRequiredApprovals(task.difficulty as Difficulty)
+    )
+    const rubric = await RubricService.getTemplateForTask(task)
+    return { ...withReport, reviewConsensus, rubric } as unknown as Task
   }
 }
@@ -0,0 +1,126 @@
+/**
+ * Rubric Service
+ * Rubric templates that reviews are scored against
+ *
+ * Review leads manage the templates. Editing one adds a new version and
+ * deactivates the previous, so reviews keep pointing at the version they were
+ * scored against; archiving deactivates the template's latest version.
+ */
+
+import { randomUUID } from 'crypto'
+import { prisma } from '@repo/db'
+import type { User } from '@repo/db'
+import { selectRubricTemplate, validateRubricScores } from '@repo/types'
+import type { Difficulty, ReviewDecision, RubricScore, RubricScoreInput, RubricTemplate } from '@repo/types'
+import { ForbiddenError, NotFoundError, ValidationError } from '../lib/errors'
+import type { RubricTemplateInput } from '../lib/schemas'
+
+function assertReviewLead(user: User): void {
+  if (!user.isReviewLead) {
+    throw new ForbiddenError('Only review leads can manage rubrics')
+  }
+}
+
+async function getActiveTemplate(key: string) {
+  const template = await prisma.rubricTemplate.findFirst({ where: { key, isActive: true } })
+
+  if (!template) {
+    throw new NotFoundError('Rubric')
+  }
+
+  return template
+}
+
+export class RubricService {
+  /**
+   * Get the templates in use (the latest version of each), by name
+   */
+  static async listTemplates(): Promise<RubricTemplate[]> {
+    const templates = await prisma.rubricTemplate.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' },
+    })
+
+    return templates as unknown as RubricTemplate[]
+  }
+
+  /**
+   * Get the template a task's reviews are scored against, if any
+   */
+  static async getTemplateForTask(task: { categories: string; difficulty: Difficulty | string }): Promise<RubricTemplate | null> {
+    const templates = await RubricService.listTemplates()
+    return selectRubricTemplate(templates, { categories: task.categories, difficulty: task.difficulty as Difficulty })
+  }
+
+  /**
+   * Create a template (review leads only)
+   */
+  static async createTemplate(data: RubricTemplateInput, lead: User): Promise<RubricTemplate> {
+    assertReviewLead(lead)
+
+    const template = await prisma.rubricTemplate.create({
+      data: {
+        ...data,
+        key: randomUUID(),
+        version: 1,
+        createdById: lead.id,
+      },
+    })
+
+    return template as unknown as RubricTemplate
+  }
+
+  /**
+   * Replace a template with a new version (review leads only)
+   */
+  static async updateTemplate(key: string, data: RubricTemplateInput, lead: User): Promise<RubricTemplate> {
+    assertReviewLead(lead)
+    const current = await getActiveTemplate(key)
+
+    const [, template] = await prisma.$transaction([
+      prisma.rubricTemplate.update({ where: { id: current.id }, data: { isActive: false } }),
+      prisma.rubricTemplate.create({
+        data: {
+          ...data,
+          key,
+          version: current.version + 1,
+          createdById: lead.id,
+        },
+      }),
+    ])
+
+    return template as unknown as RubricTemplate
+  }
+
+  /**
+   * Stop scoring reviews against a template (review leads only)
+   * Reviews already scored against it keep their scores.
+   */
+  static async archiveTemplate(key: string, lead: User): Promise<void> {
+    assertReviewLead(lead)
+    const current = await getActiveTemplate(key)
+
+    await prisma.rubricTemplate.update({ where: { id: current.id }, data: { isActive: false } })
+  }
+
+  /**
+   * Check a review's scores against its template and label them for storing
+   * Throws a ValidationError listing every problem, including a decision more
+   * lenient than the template's rules allow for the scores.
+   */
+  static scoreReview(template: RubricTemplate, scores: RubricScoreInput[], decision: ReviewDecision): RubricScore[] {
+    const errors = validateRubricScores(template, scores, decision)
+    if (errors.length > 0) {
+      throw new ValidationError(
+        'Review does not satisfy the rubric',
+        errors.map(message => ({ field: 'rubricScores', message }))
+      )
+    }
+
+    const scoresById = new Map(scores.map(score => [score.criterionId, score]))
+    return template.criteria.map(criterion => {
+      const { score, note } = scoresById.get(criterion.id)!
+      return { criterionId: criterion.id, label: criterion.label, score, ...(note && { note }) }
+    })
+  }
+}
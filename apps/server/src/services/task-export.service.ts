@@ -0,0 +1,213 @@
+/**
+ * Task Export Service
+ * Rebuilds a Terminal-Bench task directory from a task (or one of its
+ * history versions) and packs it as a .tar.gz archive
+ */
+
+import { prisma, User } from '@repo/db'
+import {
+  TASK_FILE_COLUMNS,
+  TESTS_DIR,
+  TaskFileColumn,
+  Difficulty,
+  NetworkPolicy,
+  COMPOSE_OVERRIDE_FILE,
+  buildTaskYaml,
+  buildComposeOverride,
+  writeTaskYamlResourceLimits,
+  getDefaultFileMode,
+  parseTestFiles,
+  parseStorageOnlyFiles,
+} from '@repo/types'
+import { createTarGz, ArchiveEntry } from '../lib/archive'
+import { NotFoundError, ValidationError } from '../lib/errors'
+import { TaskService } from './task.service'
+import { TaskHistoryService } from './task-history.service'
+
+/**
+ * Fields needed to rebuild a task directory; satisfied by both Task and TaskHistory rows
+ */
+export interface TaskExportSource {
+  title: string
+  instruction: string
+  difficulty: string
+  categories: string
+  maxAgentTimeoutSec: number
+  maxTestTimeoutSec: number
+  cpuLimit: number | null
+  memoryLimitMb: number | null
+  diskLimitMb: number | null
+  networkPolicy: string
+  taskYaml: string | null
+  dockerComposeYaml: string | null
+  solutionSh: string | null
+  runTestsSh: string | null
+  testFiles: unknown // TestFile[]; JSON on TaskHistory rows
+  storageOnlyFiles: unknown // StorageOnlyFile[]; JSON on TaskHistory rows
+}
+
+export interface TaskExport {
+  fileName: string
+  archive: Buffer
+}
+
+/**
+ * Turn a task title into a directory name ("Fix the Build!" -> "fix-the-build")
+ */
+export function slugifyTaskTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'task'
+}
+
+/**
+ * Read the storage-only files (Dockerfile, binary fixtures) of tasks or task versions
+ * Content is kept by hash for every version, so nothing here needs the
+ * sidecar's file storage. Returns each source's files in input order; throws,
+ * listing the files, when a version predates stored content.
+ */
+export async function readStorageOnlyFiles(
+  tasks: Array<{ title: string; source: TaskExportSource }>
+): Promise<ArchiveEntry[][]> {
+  const listed = tasks.map(({ source }) => parseStorageOnlyFiles(source.storageOnlyFiles))
+  const hashes = [...new Set(listed.flat().flatMap(file => (file.sha256 ? [file.sha256] : [])))]
+  const blobs = hashes.length > 0
+    ? await prisma.taskFileBlob.findMany({ where: { sha256: { in: hashes } } })
+    : []
+  const contents = new Map(blobs.map(blob => [blob.sha256, Buffer.from(blob.data)]))
+
+  const missing = tasks.flatMap(({ title }, index) =>
+    listed[index]
+      .filter(file => !file.sha256 || !contents.has(file.sha256))
+      .map(file => ({ title, path: file.path }))
+  )
+  if (missing.length > 0) {
+    const titles = [...new Set(missing.map(file => `"${file.title}"`))]
+    throw new ValidationError(
+      `Cannot export ${titles.join(', ')}: the content of files kept only in task file storage was not stored with this version`,
+      missing.map(file => ({
+        path: ['storageOnlyFiles', file.path],
+        message: `${file.path} of "${file.title}" is not stored; save the task files again to store it`,
+      }))
+    )
+  }
+
+  return listed.map(files => files.map(file => ({
+    path: file.path,
+    data: contents.get(file.sha256!)!,
+    mode: file.mode,
+  })))
+}
+
+export class TaskExportService {
+  /**
+   * Build the files of a task directory (paths relative to the task root)
+   * task.yaml is generated from the structured fields when the task has none,
+   * and always carries the resource limits. Tasks with a docker-compose.yaml
+   * also get a compose override that applies the limits. Storage-only files
+   * come from readStorageOnlyFiles.
+   */
+  static buildTaskFiles(source: TaskExportSource, storageOnlyFiles: ArchiveEntry[] = []): ArchiveEntry[] {
+    const files: ArchiveEntry[] = []
+    const limits = {
+      cpuLimit: source.cpuLimit,
+      memoryLimitMb: source.memoryLimitMb,
+      diskLimitMb: source.diskLimitMb,
+      networkPolicy: source.networkPolicy as NetworkPolicy,
+    }
+
+    for (const [fileName, column] of Object.entries(TASK_FILE_COLUMNS)) {
+      let content = source[column as TaskFileColumn]
+
+      if (column === 'taskYaml') {
+        content = writeTaskYamlResourceLimits(
+          content || buildTaskYaml({
+            instruction: source.instruction,
+            difficulty: source.difficulty as Difficulty,
+            categories: source.categories,
+            maxAgentTimeoutSec: source.maxAgentTimeoutSec,
+            maxTestTimeoutSec: source.maxTestTimeoutSec,
+          }),
+          limits
+        )
+      }
+
+      if (content === null) continue
+
+      files.push({
+        path: fileName,
+        data: Buffer.from(content, 'utf8'),
+        mode: getDefaultFileMode(fileName),
+      })
+    }
+
+    const composeOverride = source.dockerComposeYaml ? buildComposeOverride(limits, source.dockerComposeYaml) : null
+    if (composeOverride) {
+      files.push({
+        path: COMPOSE_OVERRIDE_FILE,
+        data: Buffer.from(composeOverride, 'utf8'),
+        mode: getDefaultFileMode(COMPOSE_OVERRIDE_FILE),
+      })
+    }
+
+    for (const file of parseTestFiles(source.testFiles)) {
+      files.push({
+        path: `${TESTS_DIR}/${file.path}`,
+        data: Buffer.from(file.content, 'utf8'),
+        mode: file.mode,
+      })
+    }
+
+    return [...files, ...storageOnlyFiles]
+  }
+
+  /**
+   * Pack a task directory as <slug>/... inside a .tar.gz
+   */
+  static packTask(
+    source: TaskExportSource,
+    storageOnlyFiles: ArchiveEntry[],
+    directoryName: string,
+    mtime?: Date
+  ): Buffer {
+    const entries = this.buildTaskFiles(source, storageOnlyFiles).map(file => ({
+      ...file,
+      path: `${directoryName}/${file.path}`,
+    }))
+    return createTarGz(entries, { mtime })
+  }
+
+  /**
+   * Export a task, or a specific history version of it, as a .tar.gz archive
+   * Access mirrors TaskService.getTaskById (author or reviewer). Versions whose
+   * storage-only files were not stored are refused rather than exported incomplete.
+   */
+  static async exportTask(taskId: string, user: User, version?: number): Promise<TaskExport> {
+    const task = await TaskService.getTaskById(taskId, user)
+
+    let source: TaskExportSource = task
+    let updatedAt = new Date(task.updatedAt)
+
+    if (version !== undefined) {
+      const snapshot = await TaskHistoryService.getVersion(taskId, version)
+      if (!snapshot) {
+        throw new NotFoundError('Task version')
+      }
+      source = snapshot
+      updatedAt = snapshot.createdAt
+    }
+
+    const [storageOnlyFiles] = await readStorageOnlyFiles([{ title: source.title, source }])
+
+    const slug = slugifyTaskTitle(source.title)
+    const baseName = version !== undefined ? `${slug}-v${version}` : slug
+
+    return {
+      fileName: `${baseName}.tar.gz`,
+      archive: this.packTask(source, storageOnlyFiles, slug, updatedAt),
+    }
+  }
+}
@@ -3,8 +3,8 @@
  * Manages versioning and history tracking for tasks to enable diff views
  */
 
-import { prisma } from '@repo/db'
-import { Task } from '@repo/types'
+import { prisma, Prisma } from '@repo/db'
+import { Task, TestFile, StabilityReport, parseTestFiles } from '@repo/types'
 
 interface CreateHistoryParams {
   task: Task
@@ -12,6 +12,51 @@ interface CreateHistoryParams {
   changeType: string
 }
 
+interface FieldChange {
+  field: string
+  oldValue: any
+  newValue: any
+  type: 'added' | 'removed' | 'modified'
+}
+
+/**
+ * Compare two test file trees file by file
+ * Changes are reported against "tests/<path>"; a mode-only change is reported
+ * separately as "tests/<path> (mode)".
+ */
+function diffTestFiles(oldValue: unknown, newValue: unknown): FieldChange[] {
+  const oldFiles = new Map(parseTestFiles(oldValue).map(file => [file.path, file]))
+  const newFiles = new Map(parseTestFiles(newValue).map(file => [file.path, file]))
+  const paths = [...new Set([...oldFiles.keys(), ...newFiles.keys()])].sort()
+  const changes: FieldChange[] = []
+
+  for (const path of paths) {
+    const oldFile: TestFile | undefined = oldFiles.get(path)
+    const newFile: TestFile | undefined = newFiles.get(path)
+    const field = `tests/${path}`
+
+    if (!oldFile) {
+      changes.push({ field, oldValue: null, newValue: newFile!.content, type: 'added' })
+    } else if (!newFile) {
+      changes.push({ field, oldValue: oldFile.content, newValue: null, type: 'removed' })
+    } else {
+      if (oldFile.content !== newFile.content) {
+        changes.push({ field, oldValue: oldFile.content, newValue: newFile.content, type: 'modified' })
+      }
+      if (oldFile.mode !== newFile.mode) {
+        changes.push({
+          field: `${field} (mode)`,
+          oldValue: oldFile.mode.toString(8),
+          newValue: newFile.mode.toString(8),
+          type: 'modified',
+        })
+      }
+    }
+  }
+
+  return changes
+}
+
 export class TaskHistoryService {
   /**
    * Create a snapshot of the current task state
@@ -39,11 +84,16 @@ export class TaskHistoryService {
         categories: task.categories,
         maxAgentTimeoutSec: task.maxAgentTimeoutSec,
         maxTestTimeoutSec: task.maxTestTimeoutSec,
+        cpuLimit: task.cpuLimit,
+        memoryLimitMb: task.memoryLimitMb,
+        diskLimitMb: task.diskLimitMb,
+        networkPolicy: task.networkPolicy,
         taskYaml: task.taskYaml,
         dockerComposeYaml: task.dockerComposeYaml,
         solutionSh: task.solutionSh,
         runTestsSh: task.runTestsSh,
-        testsJson: task.testsJson,
+        testFiles: task.testFiles as unknown as Prisma.InputJsonValue,
+        storageOnlyFiles: task.storageOnlyFiles as unknown as Prisma.InputJsonValue,
         changedBy,
         changeType,
       },
@@ -69,6 +119,51 @@ export class TaskHistoryService {
     })
   }
 
+  /**
+   * Get the latest version number of each of the given tasks
+   */
+  static async getLatestVersions(taskIds: string[]): Promise<Map<string, number>> {
+    const rows = await prisma.taskHistory.groupBy({
+      by: ['taskId'],
+      where: { taskId: { in: taskIds } },
+      _max: { version: true },
+    })
+
+    return new Map(rows.map(row => [row.taskId, row._max.version ?? 0]))
+  }
+
+  /**
+   * Get the stability report of the latest version of each of the given tasks
+   * A report of an older version says nothing about the task as edited since,
+   * so tasks whose latest version was never checked are missing from the map.
+   */
+  static async getLatestStabilityReports(taskIds: string[]): Promise<Map<string, StabilityReport>> {
+    const latestVersions = await this.getLatestVersions(taskIds)
+    if (latestVersions.size === 0) {
+      return new Map()
+    }
+
+    const rows = await prisma.taskHistory.findMany({
+      where: {
+        OR: [...latestVersions].map(([taskId, version]) => ({ taskId, version })),
+        stabilityReport: { not: Prisma.DbNull },
+      },
+      select: { taskId: true, stabilityReport: true },
+    })
+
+    return new Map(rows.map(row => [row.taskId, row.stabilityReport as unknown as StabilityReport]))
+  }
+
+  /**
+   * Attach the stability report of each task's latest version
+   */
+  static async withStabilityReports<T extends { id: string }>(
+    tasks: T[]
+  ): Promise<Array<T & { stabilityReport: StabilityReport | null }>> {
+    const reports = await this.getLatestStabilityReports(tasks.map(task => task.id))
+    return tasks.map(task => ({ ...task, stabilityReport: reports.get(task.id) ?? null }))
+  }
+
   /**
    * Get the diff between two versions
    */
@@ -106,12 +201,7 @@ export class TaskHistoryService {
     }
 
     // Compare fields and identify changes
-    const changes: Array<{
-      field: string
-      oldValue: any
-      newValue: any
-      type: 'added' | 'removed' | 'modified'
-    }> = []
+    const changes: FieldChange[] = []
 
     const fieldsToCompare = [
       'title',
@@ -120,11 +210,14 @@ export class TaskHistoryService {
       'categories',
       'maxAgentTimeoutSec',
       'maxTestTimeoutSec',
+      'cpuLimit',
+      'memoryLimitMb',
+      'diskLimitMb',
+      'networkPolicy',
       'taskYaml',
       'dockerComposeYaml',
       'solutionSh',
       'runTestsSh',
-      'testsJson',
     ]
 
     for (const field of fieldsToCompare) {
@@ -149,6 +242,8 @@ export class TaskHistoryService {
       }
     }
 
+    changes.push(...diffTestFiles(from.testFiles, to.testFiles))
+
     return {
       fromVersion,
       toVersion,
@@ -181,11 +276,14 @@ export class TaskHistoryService {
       'categories',
       'maxAgentTimeoutSec',
       'maxTestTimeoutSec',
+      'cpuLimit',
+      'memoryLimitMb',
+      'diskLimitMb',
+      'networkPolicy',
       'taskYaml',
       'dockerComposeYaml',
       'solutionSh',
       'runTestsSh',
-      'testsJson',
     ]
 
     // Find two versions with actual content differences
@@ -200,7 +298,7 @@ export class TaskHistoryService {
         const oldVal = previous[field as keyof typeof previous]
         const newVal = current[field as keyof typeof current]
         return oldVal !== newVal
-      })
+      }) || diffTestFiles(previous.testFiles, current.testFiles).length > 0
 
       if (hasContentChanges) {
         return {
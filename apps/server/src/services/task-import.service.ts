@@ -0,0 +1,179 @@
+/**
+ * Task Import Service
+ * Creates a task from an uploaded Terminal-Bench task directory archive
+ */
+
+import crypto from 'crypto'
+import { prisma, User } from '@repo/db'
+import {
+  Task,
+  TaskFileColumn,
+  TestFile,
+  StorageOnlyFile,
+  TESTS_DIR,
+  EXTRA_TASK_FILES,
+  MAX_TASK_FILE_SIZE,
+  COMPOSE_OVERRIDE_FILE,
+  extractTaskYamlFields,
+  extractTaskYamlResourceLimits,
+  getDefaultFileMode,
+  normalizeTestFiles,
+} from '@repo/types'
+import { readArchive, stripCommonRoot, ArchiveEntry } from '../lib/archive'
+import { ValidationError } from '../lib/errors'
+import { createTaskSchema, CreateTaskInput } from '../lib/schemas'
+import { TaskService } from './task.service'
+
+/**
+ * Archive file names accepted for each task column
+ */
+const FILE_ALIASES: Record<string, TaskFileColumn> = {
+  'task.yaml': 'taskYaml',
+  'task.yml': 'taskYaml',
+  'docker-compose.yaml': 'dockerComposeYaml',
+  'docker-compose.yml': 'dockerComposeYaml',
+  'solution.sh': 'solutionSh',
+  'run-tests.sh': 'runTestsSh',
+}
+
+type ImportedFiles = Partial<Pick<
+  CreateTaskInput,
+  'taskYaml' | 'dockerComposeYaml' | 'solutionSh' | 'runTestsSh' | 'testFiles'
+>>
+
+interface MappedEntries {
+  files: ImportedFiles
+  storageOnlyFiles: ArchiveEntry[] // Files with no column: a Dockerfile, binary test fixtures
+  unrecognizedFiles: string[]
+}
+
+export interface TaskImportResult {
+  task: Task
+  unrecognizedFiles: string[]
+}
+
+function decodeText(data: Buffer): string | null {
+  if (data.includes(0)) return null
+  const text = data.toString('utf8')
+  return Buffer.from(text, 'utf8').equals(data) ? text : null
+}
+
+/**
+ * Store the content of storage-only files by hash, as the sidecar does on
+ * every file write, and list them for the task
+ * The sidecar writes them into task file storage when the task's files are
+ * first opened.
+ */
+async function storeStorageOnlyFiles(entries: ArchiveEntry[]): Promise<StorageOnlyFile[]> {
+  const files = entries.map(entry => ({
+    ...entry,
+    sha256: crypto.createHash('sha256').update(entry.data).digest('hex'),
+  }))
+
+  if (files.length > 0) {
+    await prisma.taskFileBlob.createMany({
+      data: files.map(file => ({ sha256: file.sha256, data: file.data, size: file.data.length })),
+      skipDuplicates: true,
+    })
+  }
+
+  return files.map(file => ({ path: file.path, size: file.data.length, mode: file.mode, sha256: file.sha256 }))
+}
+
+export class TaskImportService {
+  /**
+   * Map archive entries onto task fields
+   * A Dockerfile and binary test fixtures, which no column can hold, are kept
+   * as storage-only files; anything else without a place in a task is
+   * reported back as unrecognized.
+   */
+  static mapEntries(entries: ArchiveEntry[]): MappedEntries {
+    const files: ImportedFiles = {}
+    const testFiles: TestFile[] = []
+    const storageOnlyFiles: ArchiveEntry[] = []
+    const unrecognizedFiles: string[] = []
+
+    for (const entry of entries) {
+      // Exports derive it from the resource limits, which task.yaml carries too
+      if (entry.path === COMPOSE_OVERRIDE_FILE) continue
+
+      const column = FILE_ALIASES[entry.path]
+      const text = decodeText(entry.data)
+      const isTestFile = entry.path.startsWith(`${TESTS_DIR}/`)
+      const mode = entry.mode || getDefaultFileMode(entry.path)
+
+      if (column && text !== null && files[column] === undefined) {
+        files[column] = text
+      } else if (isTestFile && text !== null) {
+        const testPath = entry.path.slice(TESTS_DIR.length + 1)
+        testFiles.push({ path: testPath, content: text, mode })
+      } else if (isTestFile || (EXTRA_TASK_FILES as readonly string[]).includes(entry.path)) {
+        storageOnlyFiles.push({ path: entry.path, data: entry.data, mode })
+      } else {
+        unrecognizedFiles.push(entry.path)
+      }
+    }
+
+    if (testFiles.length > 0) {
+      files.testFiles = normalizeTestFiles(testFiles)
+    }
+
+    return { files, storageOnlyFiles, unrecognizedFiles: unrecognizedFiles.sort() }
+  }
+
+  /**
+   * Import a task from a .tar.gz or .zip archive of a task directory
+   */
+  static async importTask(archive: Buffer, user: User): Promise<TaskImportResult> {
+    const { root, entries } = stripCommonRoot(readArchive(archive))
+    const { files, storageOnlyFiles, unrecognizedFiles } = this.mapEntries(entries)
+
+    if (files.taskYaml === undefined) {
+      throw new ValidationError('Validation error', [
+        { path: ['taskYaml'], message: 'Archive does not contain a task.yaml' },
+      ])
+    }
+
+    let yamlFields
+    try {
+      yamlFields = {
+        ...extractTaskYamlFields(files.taskYaml),
+        ...extractTaskYamlResourceLimits(files.taskYaml),
+      }
+    } catch (error) {
+      throw new ValidationError('Validation error', [
+        {
+          path: ['taskYaml'],
+          message: `task.yaml could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ])
+    }
+
+    // The directory name is the task id in Terminal-Bench; use it when task.yaml has no title
+    const result = createTaskSchema.safeParse({
+      ...(root && { title: root }),
+      ...yamlFields,
+      ...files,
+    })
+
+    if (!result.success) {
+      throw new ValidationError('Validation error', result.error.errors)
+    }
+
+    const oversized = storageOnlyFiles.filter(file => file.data.length > MAX_TASK_FILE_SIZE)
+    if (oversized.length > 0) {
+      throw new ValidationError('Validation error', oversized.map(file => ({
+        path: ['storageOnlyFiles', file.path],
+        message: `${file.path} exceeds the maximum size of ${MAX_TASK_FILE_SIZE} bytes`,
+      })))
+    }
+
+    const task = await TaskService.createTask(
+      result.data as CreateTaskInput,
+      user.id,
+      user,
+      await storeStorageOnlyFiles(storageOnlyFiles)
+    )
+    return { task, unrecognizedFiles }
+  }
+}
@@ -3,27 +3,122 @@
  * Business logic for task operations
  */
 
-import { prisma, AuditAction } from '@repo/db'
+import { prisma, AuditAction, Prisma, Task as TaskRecord } from '@repo/db'
 import { User } from '@repo/db'
 import {
   TaskState,
+  ReviewDecision,
   Task,
+  Review,
+  TestFile,
+  StorageOnlyFile,
   canEditTask,
   canSubmitTask,
   TASK_INCLUDE_FULL,
   TASK_SELECT_LIST,
   ERROR_MESSAGES,
+  Difficulty,
+  RunMode,
+  RunVerdict,
+  RunStatus,
+  ACTIVE_RUN_STATUSES,
+  RUN_VERDICT_LABELS,
+  validateTaskYaml,
+  syncTaskYamlEdit,
+  lintTaskFiles,
+  TaskLintResult,
+  TaskYamlSyncedField,
+  TaskYamlSyncSource,
 } from '@repo/types'
 import {
   NotFoundError,
   ForbiddenError,
   BadRequestError,
+  ValidationError,
 } from '../lib/errors'
-import type { CreateTaskInput, UpdateTaskInput } from '../lib/schemas'
+import type { CreateTaskInput, UpdateTaskInput, DatasetExportQueryInput } from '../lib/schemas'
 import { AuditService } from './audit.service'
+import { DiscussionService } from './discussion.service'
+import { ReviewAssignmentService } from './review-assignment.service'
+import { ReviewCommentService } from './review-comment.service'
 import { TaskHistoryService } from './task-history.service'
 
+/**
+ * Prepare validated task input for Prisma (testFiles is stored as JSON)
+ */
+function toTaskData<T extends { testFiles?: TestFile[] }>(data: T) {
+  const { testFiles, ...fields } = data
+  return {
+    ...fields,
+    ...(testFiles && { testFiles: testFiles as unknown as Prisma.InputJsonValue }),
+  }
+}
+
 export class TaskService {
+  /**
+   * Validate task.yaml and throw a ValidationError with positioned issues
+   * Passing the task's structured fields also checks that task.yaml agrees with them.
+   */
+  private static assertValidTaskYaml(
+    taskYaml: string | null | undefined,
+    fields?: Parameters<typeof validateTaskYaml>[1],
+    message: string = ERROR_MESSAGES.VALIDATION_ERROR
+  ): void {
+    if (!taskYaml || !taskYaml.trim()) return
+
+    const issues = validateTaskYaml(taskYaml, fields)
+    if (issues.length > 0) {
+      throw new ValidationError(
+        message,
+        issues.map(issue => ({ ...issue, path: ['taskYaml', ...issue.path] }))
+      )
+    }
+  }
+
+  /**
+   * Require a finished verification run of the task's latest version in which
+   * the tests pass with solution.sh and fail without it
+   * Cancelled runs are ignored.
+   */
+  private static async assertVerified(taskId: string): Promise<void> {
+    const [latest, run] = await Promise.all([
+      prisma.taskHistory.findFirst({
+        where: { taskId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      }),
+      prisma.taskRun.findFirst({
+        where: { taskId, mode: RunMode.VERIFICATION, status: { notIn: [...ACTIVE_RUN_STATUSES, RunStatus.CANCELLED] } },
+        orderBy: { createdAt: 'desc' },
+        select: { version: true, verdict: true },
+      }),
+    ])
+
+    if (!run || run.version !== latest?.version) {
+      throw new BadRequestError(ERROR_MESSAGES.VERIFICATION_REQUIRED)
+    }
+
+    if (run.verdict !== RunVerdict.DISCRIMINATING) {
+      const outcome = run.verdict ? RUN_VERDICT_LABELS[run.verdict as RunVerdict] : 'Run did not finish'
+      throw new BadRequestError(`${ERROR_MESSAGES.VERIFICATION_FAILED} (${outcome})`)
+    }
+  }
+
+  /**
+   * Canonicalize an update so task.yaml and the columns it duplicates agree
+   * Returns the update to apply and, for each field that disagreed, which side won.
+   */
+  private static syncTaskYaml(
+    existingTask: TaskRecord,
+    data: UpdateTaskInput
+  ): { data: UpdateTaskInput; sources: Partial<Record<TaskYamlSyncedField, TaskYamlSyncSource>> } {
+    const { edit, sources } = syncTaskYamlEdit(
+      { ...existingTask, difficulty: existingTask.difficulty as Difficulty },
+      data
+    )
+    return { data: edit, sources }
+  }
+
   /**
    * Get all tasks for a specific author (lightweight - no reviews)
    * Optimized: Only fetches essential fields, excludes heavy text content
@@ -77,17 +172,38 @@ export class TaskService {
     return task as unknown as Task
   }
 
+  /**
+   * Lint a task's files
+   * Access mirrors getTaskById (author or reviewer).
+   */
+  static async lintTask(taskId: string, user: User): Promise<TaskLintResult> {
+    const task = await this.getTaskById(taskId, user)
+    return lintTaskFiles(task)
+  }
+
   /**
    * Create a new task in DRAFT state
+   * Imports pass the storage-only files (Dockerfile, binary fixtures) whose
+   * content they already stored.
    */
   static async createTask(
     data: CreateTaskInput,
     authorId: string,
-    user: User
+    user: User,
+    storageOnlyFiles: StorageOnlyFile[] = []
   ): Promise<Task> {
+    // Both sides are new, so where they disagree the validated columns win
+    const { edit: syncedData, sources: taskYamlSync } = syncTaskYamlEdit(
+      { ...data, taskYaml: data.taskYaml ?? null },
+      data
+    )
+
+    this.assertValidTaskYaml(syncedData.taskYaml)
+
     const task = await prisma.task.create({
       data: {
-        ...data,
+        ...toTaskData(syncedData),
+        storageOnlyFiles: storageOnlyFiles as unknown as Prisma.InputJsonValue,
         state: TaskState.DRAFT,
         authorId,
       },
@@ -103,7 +219,11 @@ export class TaskService {
         userId: user.id,
         userName: user.name || undefined,
         userEmail: user.email,
-        metadata: { title: task.title, state: task.state },
+        metadata: {
+          title: task.title,
+          state: task.state,
+          ...(Object.keys(taskYamlSync).length > 0 && { taskYamlSync }),
+        },
       }),
       TaskHistoryService.createSnapshot({
         task: task as unknown as Task,
@@ -143,9 +263,13 @@ export class TaskService {
       )
     }
 
+    const { data: syncedData, sources: taskYamlSync } = this.syncTaskYaml(existingTask, data)
+
+    this.assertValidTaskYaml(syncedData.taskYaml)
+
     const task = await prisma.task.update({
       where: { id: taskId },
-      data,
+      data: toTaskData(syncedData),
       include: TASK_INCLUDE_FULL,
     })
 
@@ -159,9 +283,10 @@ export class TaskService {
         userName: user.name || undefined,
         userEmail: user.email,
         metadata: {
-          updates: Object.keys(data),
+          updates: Object.keys(syncedData),
           previousState: existingTask.state,
           currentState: task.state,
+          ...(Object.keys(taskYamlSync).length > 0 && { taskYamlSync }),
         },
       }),
       TaskHistoryService.createSnapshot({
@@ -203,18 +328,60 @@ export class TaskService {
       throw new BadRequestError(ERROR_MESSAGES.REQUIRED_FIELDS_MISSING)
     }
 
+    // task.yaml must be valid and agree with the structured fields
+    this.assertValidTaskYaml(
+      existingTask.taskYaml,
+      {
+        title: existingTask.title,
+        instruction: existingTask.instruction,
+        difficulty: existingTask.difficulty as Difficulty,
+        categories: existingTask.categories,
+        maxAgentTimeoutSec: existingTask.maxAgentTimeoutSec,
+        maxTestTimeoutSec: existingTask.maxTestTimeoutSec,
+      },
+      ERROR_MESSAGES.TASK_YAML_INVALID
+    )
+
+    // Lint errors block submission; warnings are left for the reviewer
+    const lint = lintTaskFiles(existingTask)
+    if (lint.errorCount > 0) {
+      throw new ValidationError(
+        ERROR_MESSAGES.TASK_LINT_FAILED,
+        lint.issues
+          .filter(issue => issue.severity === 'error')
+          .map(({ field, ...issue }) => ({ ...issue, path: [field] }))
+      )
+    }
+
+    // Deployments can require proof that the tests discriminate before review
+    if (process.env.REQUIRE_TASK_VERIFICATION === 'true') {
+      await this.assertVerified(taskId)
+    }
+
+    // ...and that reviewers' discussion threads are resolved before resubmitting
+    if (process.env.REQUIRE_RESOLVED_THREADS === 'true') {
+      const unresolved = await DiscussionService.countUnresolvedReviewerThreads(taskId, existingTask.authorId)
+      if (unresolved > 0) {
+        throw new BadRequestError(`${ERROR_MESSAGES.THREADS_UNRESOLVED} (${unresolved} unresolved)`)
+      }
+    }
+
     // Transition to SUBMITTED state
     const task = await prisma.task.update({
       where: { id: taskId },
       data: {
         state: TaskState.SUBMITTED,
         reviewerId: null, // Clear any previous reviewer
+        reviewLeaseExpiresAt: null,
+        assigneeId: null,
+        assignedAt: null,
+        submittedAt: new Date(), // Starts a new review round
       },
       include: TASK_INCLUDE_FULL,
     })
 
     // Create audit log and history snapshot
-    await Promise.all([
+    const [, snapshot] = await Promise.all([
       AuditService.log({
         action: AuditAction.TASK_SUBMITTED,
         entityType: 'task',
@@ -234,18 +401,23 @@ export class TaskService {
       }),
     ])
 
+    // Inline comments follow their lines into the resubmitted version
+    await ReviewCommentService.reanchorComments(task.id, snapshot, snapshot.version)
+
+    await ReviewAssignmentService.assignTask(task.id, 'submitted', user)
+
     return task as unknown as Task
   }
 
   /**
-   * Get tasks awaiting review (SUBMITTED or IN_REVIEW)
+   * Get tasks awaiting review (SUBMITTED, IN_REVIEW or PARTIALLY_APPROVED)
    * Optimized: Only fetches essential fields
    */
   static async getTasksForReview(limit?: number): Promise<Task[]> {
     const tasks = await prisma.task.findMany({
       where: {
         state: {
-          in: [TaskState.SUBMITTED, TaskState.IN_REVIEW],
+          in: [TaskState.SUBMITTED, TaskState.IN_REVIEW, TaskState.PARTIALLY_APPROVED],
         },
       },
       orderBy: { createdAt: 'asc' }, // Oldest first
@@ -269,7 +441,7 @@ export class TaskService {
       ...(limit && { take: limit }),
     })
 
-    return tasks as unknown as Task[]
+    return (await TaskHistoryService.withStabilityReports(tasks)) as unknown as Task[]
   }
 
   /**
@@ -366,18 +538,22 @@ export class TaskService {
 
   /**
    * Get all tasks visible to a reviewer (both pending and history)
-   * filter: 'pending' | 'history' | 'all'
+   * filter: 'pending' | 'history' | 'all' | 'assigned'
+   * 'assigned' is the reviewer's own queue: tasks assigned to them that await review, oldest assignment first.
+   * reasonCode keeps only tasks with a review that gave that reason.
    */
   static async getReviewerTasks(
     reviewerId: string, 
-    filter: 'pending' | 'history' | 'all' = 'all',
-    limit?: number
+    filter: 'pending' | 'history' | 'all' | 'assigned' = 'all',
+    limit?: number,
+    reasonCode?: string
   ): Promise<Task[]> {
     let stateFilter: TaskState[]
     
     switch (filter) {
+      case 'assigned':
       case 'pending':
-        stateFilter = [TaskState.SUBMITTED, TaskState.IN_REVIEW]
+        stateFilter = [TaskState.SUBMITTED, TaskState.IN_REVIEW, TaskState.PARTIALLY_APPROVED]
         break
       case 'history':
         stateFilter = [TaskState.APPROVED, TaskState.REJECTED, TaskState.CHANGES_REQUESTED]
@@ -387,6 +563,7 @@ export class TaskService {
         stateFilter = [
           TaskState.SUBMITTED, 
           TaskState.IN_REVIEW,
+          TaskState.PARTIALLY_APPROVED,
           TaskState.APPROVED, 
           TaskState.REJECTED, 
           TaskState.CHANGES_REQUESTED
@@ -395,12 +572,14 @@ export class TaskService {
 
     // For pending tasks, show all submitted/in_review tasks
     // For history/all, include tasks where reviewer has a review
-    const whereClause = filter === 'pending' 
+    const whereClause = filter === 'assigned'
+      ? { assigneeId: reviewerId, state: { in: stateFilter } }
+      : filter === 'pending' 
       ? { state: { in: stateFilter } }
       : {
           OR: [
             // All pending tasks (visible to any reviewer)
-            { state: { in: [TaskState.SUBMITTED, TaskState.IN_REVIEW] } },
+            { state: { in: [TaskState.SUBMITTED, TaskState.IN_REVIEW, TaskState.PARTIALLY_APPROVED] } },
             // Tasks this reviewer has reviewed
             {
               reviews: {
@@ -417,8 +596,10 @@ export class TaskService {
         }
 
     const tasks = await prisma.task.findMany({
-      where: whereClause,
-      orderBy: { updatedAt: 'desc' },
+      where: reasonCode
+        ? { AND: [whereClause, { reviews: { some: { reasonCodes: { has: reasonCode } } } }] }
+        : whereClause,
+      orderBy: filter === 'assigned' ? { assignedAt: 'asc' } : { updatedAt: 'desc' },
       select: {
         ...TASK_SELECT_LIST,
         author: {
@@ -435,11 +616,59 @@ export class TaskService {
             email: true,
           },
         },
+        assignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
       },
       ...(limit && { take: limit }),
     })
 
-    return tasks as unknown as Task[]
+    return (await TaskHistoryService.withStabilityReports(tasks)) as unknown as Task[]
+  }
+
+  /**
+   * Get APPROVED tasks with full content and their approving review
+   * Filters: category (exact match on one of the task's categories), difficulty,
+   * and an inclusive range on the date of the most recent approval.
+   */
+  static async getApprovedTasks(
+    filters: DatasetExportQueryInput = {}
+  ): Promise<Array<{ task: Task; approval: Review }>> {
+    const tasks = await prisma.task.findMany({
+      where: {
+        state: TaskState.APPROVED,
+        ...(filters.difficulty && { difficulty: filters.difficulty }),
+        ...(filters.category && { categories: { contains: filters.category, mode: 'insensitive' } }),
+      },
+      orderBy: { id: 'asc' },
+      include: TASK_INCLUDE_FULL,
+    })
+
+    const category = filters.category?.toLowerCase()
+    const results: Array<{ task: Task; approval: Review }> = []
+
+    for (const task of tasks as unknown as Task[]) {
+      // Reviews are ordered newest first
+      const approval = task.reviews?.find(review => review.decision === ReviewDecision.APPROVE)
+      if (!approval) continue
+
+      if (category) {
+        const categories = task.categories.split(',').map(c => c.trim().toLowerCase())
+        if (!categories.includes(category)) continue
+      }
+
+      const approvedAt = new Date(approval.createdAt)
+      if (filters.approvedFrom && approvedAt < filters.approvedFrom) continue
+      if (filters.approvedTo && approvedAt > filters.approvedTo) continue
+
+      results.push({ task, approval })
+    }
+
+    return results
   }
 
   /**
@@ -468,11 +697,15 @@ export class TaskService {
         categories: existingTask.categories,
         maxAgentTimeoutSec: existingTask.maxAgentTimeoutSec,
         maxTestTimeoutSec: existingTask.maxTestTimeoutSec,
+        cpuLimit: existingTask.cpuLimit,
+        memoryLimitMb: existingTask.memoryLimitMb,
+        diskLimitMb: existingTask.diskLimitMb,
+        networkPolicy: existingTask.networkPolicy,
         taskYaml: existingTask.taskYaml,
         dockerComposeYaml: existingTask.dockerComposeYaml,
         solutionSh: existingTask.solutionSh,
         runTestsSh: existingTask.runTestsSh,
-        testsJson: existingTask.testsJson,
+        testFiles: existingTask.testFiles as Prisma.InputJsonValue,
         state: TaskState.DRAFT,
         authorId: user.id,
       },
@@ -0,0 +1,34 @@
+/**
+ * JUnit XML Parser Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { hasJUnitReport, parseJUnitOutput } from '../../../lib/test-output/junit'
+
+const output = readFileSync(path.join(__dirname, 'fixtures', 'junit.xml'), 'utf8')
+
+describe('parseJUnitOutput', () => {
+  it('should detect a report in surrounding output', () => {
+    expect(hasJUnitReport(output)).toBe(true)
+    expect(hasJUnitReport('PASSED tests/test_outputs.py::test_x')).toBe(false)
+  })
+
+  it('should read each test case with its outcome and duration', () => {
+    expect(parseJUnitOutput(output).map(result => [result.name, result.status, result.durationMs])).toEqual([
+      ['tests.test_outputs::test_file_exists', 'passed', 512],
+      ['tests.test_outputs::test_content[a & b]', 'failed', 100],
+      ['tests.test_outputs::test_port', 'skipped', 1],
+      ['tests.test_outputs::test_error', 'failed', 50],
+    ])
+  })
+
+  it('should prefer the message attribute and fall back to the element body', () => {
+    const results = parseJUnitOutput(output)
+
+    expect(results[1].message).toBe("assert 'a' == 'b'")
+    expect(results[2].message).toBe('no network')
+    expect(results[3].message).toBe("fixture 'db' not found")
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * pytest Output Parser Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { parsePytestOutput } from '../../../lib/test-output/pytest'
+
+function readFixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf8')
+}
+
+describe('parsePytestOutput', () => {
+  it('should read outcomes from verbose lines, including parametrized ids with spaces', () => {
+    const results = parsePytestOutput(readFixture('pytest-verbose.txt'))
+
+    expect(results.map(result => [result.name, result.status])).toEqual([
+      ['../tests/test_outputs.py::test_file_exists', 'passed'],
+      ['../tests/test_outputs.py::test_content[a b]', 'passed'],
+      ['../tests/test_outputs.py::test_content[1.5]', 'failed'],
+      ['../tests/test_outputs.py::TestServer::test_port', 'skipped'],
+      ['../tests/test_outputs.py::test_legacy', 'skipped'],
+    ])
+  })
+
+  it('should sum setup, call and teardown durations', () => {
+    const results = parsePytestOutput(readFixture('pytest-verbose.txt'))
+
+    expect(results.find(result => result.name.endsWith('test_file_exists'))?.durationMs).toBe(510)
+    expect(results.find(result => result.name.endsWith('test_content[a b]'))?.durationMs).toBe(120)
+  })
+
+  it('should take a failure message from the failure report', () => {
+    const results = parsePytestOutput(readFixture('pytest-verbose.txt'))
+
+    expect(results.find(result => result.name.endsWith('test_content[1.5]'))?.message)
+      .toBe("assert 1.5 == 2\n+  where 1.5 = parse('1.5')")
+  })
+
+  it('should read outcomes and messages from the short test summary', () => {
+    const results = parsePytestOutput(readFixture('pytest-summary.txt'))
+
+    expect(results).toEqual([
+      { name: '../tests/test_outputs.py::test_one', status: 'passed', durationMs: null, message: null },
+      {
+        name: '../tests/test_outputs.py::test_two[x y]',
+        status: 'failed',
+        durationMs: null,
+        message: 'AssertionError: expected 3, got 4',
+      },
+      { name: '../tests/test_outputs.py::test_three', status: 'passed', durationMs: null, message: null },
+    ])
+  })
+
+  it('should return no results for output without tests', () => {
+    expect(parsePytestOutput('bash: pytest: command not found\n')).toEqual([])
+  })
+})
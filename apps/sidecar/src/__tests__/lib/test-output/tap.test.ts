@@ -0,0 +1,35 @@
+/**
+ * TAP Parser Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { isTapOutput, parseTapOutput } from '../../../lib/test-output/tap'
+
+const output = readFileSync(path.join(__dirname, 'fixtures', 'tap.txt'), 'utf8')
+
+describe('parseTapOutput', () => {
+  it('should detect TAP by its plan and test points', () => {
+    expect(isTapOutput(output)).toBe(true)
+    expect(isTapOutput('ok, all done\n')).toBe(false)
+  })
+
+  it('should read each test point, counting SKIP and TODO as skipped', () => {
+    expect(parseTapOutput(output).map(result => [result.name, result.status])).toEqual([
+      ['creates the output file', 'passed'],
+      ['handles empty input', 'failed'],
+      ['reads config', 'skipped'],
+      ['parses dates', 'skipped'],
+      ['exits cleanly', 'failed'],
+    ])
+  })
+
+  it('should take messages from comment lines and YAML diagnostics', () => {
+    const results = parseTapOutput(output)
+
+    expect(results[1].message).toBe('(in test file test.bats, line 14)\n  `[ "$output" = "" ]\' failed')
+    expect(results[2].message).toBe('no config file')
+    expect(results[4]).toMatchObject({ message: 'exit code 1', durationMs: 42 })
+  })
+})
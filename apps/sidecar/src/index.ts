@@ -1,6 +1,6 @@
 /**
  * Sidecar Service Entry Point
- * Handles file operations and other auxiliary functionality
+ * Handles file operations, task runs and other auxiliary functionality
  */
 
 // Load environment variables first
@@ -18,6 +18,12 @@ import express from 'express'
 import cors from 'cors'
 import { clerkMiddleware, requireAuth } from '@clerk/express'
 import { fileRouter } from './routes/files'
+import { runRouter } from './routes/runs'
+import { terminalRouter } from './routes/terminals'
+import { TaskRunService } from './services/task-run.service'
+import { runQueue, getRunHeartbeatTimeoutMs } from './lib/run-queue'
+import { getExecutionBackend } from './lib/executor'
+import { attachTerminalSockets } from './lib/terminal-socket'
 import { errorHandler } from './middleware/errorHandler'
 
 const app = express()
@@ -29,7 +35,7 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
 }))
-app.use(express.json())
+app.use(express.json({ limit: '10mb' }))
 app.use(clerkMiddleware())
 
 // ==================== Routes ====================
@@ -42,13 +48,37 @@ app.get('/health', (req, res) => {
 // File operations (protected)
 app.use('/api/files', requireAuth(), fileRouter)
 
+// Task runs (protected)
+app.use('/api/runs', requireAuth(), runRouter)
+
+// Terminal sessions (protected; their WebSockets authenticate with a session token)
+app.use('/api/terminals', requireAuth(), terminalRouter)
+
 // ==================== Error Handling ====================
 
 app.use(errorHandler)
 
 // ==================== Server Start ====================
 
-app.listen(PORT, () => {
+// Fail fast on a misconfigured execution backend rather than on the first run
+getExecutionBackend()
+
+const server = app.listen(PORT, () => {
   console.log(`🚀 Sidecar running on http://localhost:${PORT}`)
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`)
+
+  // Runs left by a process that died only go stale after a while, so keep checking
+  const recoverInterruptedRuns = () =>
+    TaskRunService.recoverInterruptedRuns()
+      .then(count => {
+        if (count > 0) console.log(`⚠️  Marked ${count} interrupted run(s) as errored`)
+      })
+      .catch(error => console.error('Failed to recover interrupted runs:', error))
+
+  recoverInterruptedRuns().finally(() => {
+    runQueue.start((runId, controller) => TaskRunService.executeRun(runId, controller))
+    setInterval(recoverInterruptedRuns, getRunHeartbeatTimeoutMs())
+  })
 })
+
+attachTerminalSockets(server)
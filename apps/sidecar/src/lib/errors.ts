@@ -23,6 +23,12 @@ export class UnauthorizedError extends ApiError {
   }
 }
 
+export class ForbiddenError extends ApiError {
+  constructor(message: string = 'Forbidden') {
+    super(message, HTTP_STATUS.FORBIDDEN)
+  }
+}
+
 export class NotFoundError extends ApiError {
   constructor(resource: string = 'Resource') {
     super(`${resource} not found`, HTTP_STATUS.NOT_FOUND)
@@ -34,3 +40,15 @@ export class BadRequestError extends ApiError {
     super(message, HTTP_STATUS.BAD_REQUEST, details)
   }
 }
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(message, HTTP_STATUS.CONFLICT)
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(message, HTTP_STATUS.UNPROCESSABLE_ENTITY, details)
+  }
+}
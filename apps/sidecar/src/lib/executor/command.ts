@@ -0,0 +1,144 @@
+/**
+ * Command Runner
+ * Spawns a process with a timeout and bounded output capture
+ */
+
+import { spawn, ChildProcess } from 'child_process'
+import { StringDecoder } from 'string_decoder'
+import { MAX_RUN_OUTPUT_SIZE } from '@repo/types'
+import type { RunLogStream } from '@repo/types'
+
+/**
+ * Receives a command's output as it is produced
+ */
+export type OutputListener = (stream: RunLogStream, data: string) => void
+
+export interface CommandOptions {
+  cwd?: string
+  env?: typeof process.env
+  timeoutSec?: number
+  onOutput?: OutputListener
+  signal?: AbortSignal // Kills the process when aborted
+}
+
+export interface CommandResult {
+  exitCode: number | null // null when the process was killed
+  stdout: string
+  stderr: string
+  durationMs: number
+  timedOut: boolean
+}
+
+/**
+ * Collects a stream, keeping only its last MAX_RUN_OUTPUT_SIZE bytes
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = []
+  private size = 0
+  private dropped = 0
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk)
+    this.size += chunk.length
+
+    while (this.size > MAX_RUN_OUTPUT_SIZE) {
+      const excess = this.size - MAX_RUN_OUTPUT_SIZE
+      const first = this.chunks[0]
+      if (first.length <= excess) {
+        this.chunks.shift()
+        this.size -= first.length
+        this.dropped += first.length
+      } else {
+        this.chunks[0] = first.subarray(excess)
+        this.size -= excess
+        this.dropped += excess
+      }
+    }
+  }
+
+  toString(): string {
+    const text = Buffer.concat(this.chunks).toString('utf8')
+    return this.dropped > 0 ? `[${this.dropped} bytes of earlier output truncated]\n${text}` : text
+  }
+}
+
+/**
+ * Kill a process and everything it started
+ */
+function killProcessGroup(child: ChildProcess): void {
+  if (child.pid === undefined) return
+  try {
+    process.kill(-child.pid, 'SIGKILL')
+  } catch {
+    child.kill('SIGKILL')
+  }
+}
+
+/**
+ * Run a command to completion
+ * Never rejects: spawn failures are reported as a null exit code with the
+ * error on stderr. The process runs in its own group so a timeout or an
+ * aborted signal kills any children it started too. Output is also passed to
+ * onOutput as it arrives.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: CommandOptions = {}
+): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now()
+    const stdout = new OutputBuffer()
+    const stderr = new OutputBuffer()
+    let timedOut = false
+    let settled = false
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+
+    const timer = options.timeoutSec
+      ? setTimeout(() => {
+          timedOut = true
+          killProcessGroup(child)
+        }, options.timeoutSec * 1000)
+      : undefined
+
+    const abort = () => killProcessGroup(child)
+    if (options.signal?.aborted) abort()
+    options.signal?.addEventListener('abort', abort)
+
+    const finish = (exitCode: number | null) => {
+      if (settled) return
+      settled = true
+      if (timer) clearTimeout(timer)
+      options.signal?.removeEventListener('abort', abort)
+      resolve({
+        exitCode,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        durationMs: Date.now() - startedAt,
+        timedOut,
+      })
+    }
+
+    // Decoders keep multi-byte characters split across chunks intact
+    const decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') }
+    const capture = (stream: RunLogStream, buffer: OutputBuffer) => (chunk: Buffer) => {
+      buffer.push(chunk)
+      const data = decoders[stream].write(chunk)
+      if (data && options.onOutput) options.onOutput(stream, data)
+    }
+
+    child.stdout?.on('data', capture('stdout', stdout))
+    child.stderr?.on('data', capture('stderr', stderr))
+    child.on('error', (error) => {
+      capture('stderr', stderr)(Buffer.from(`${error.message}\n`))
+      finish(null)
+    })
+    child.on('close', (code) => finish(timedOut ? null : code))
+  })
+}
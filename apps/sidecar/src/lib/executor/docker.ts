@@ -0,0 +1,177 @@
+/**
+ * Docker Execution Backend
+ * Runs task scripts in the task's own docker-compose environment, the way the
+ * Terminal-Bench harness does
+ *
+ * The task's resource limits are applied with a compose override file layered
+ * over docker-compose.yaml.
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { spawn as spawnPty, IPty } from 'node-pty'
+import { COMPOSE_CLIENT_SERVICE, COMPOSE_OVERRIDE_FILE, buildComposeOverride } from '@repo/types'
+import { runCommand, CommandResult } from './command'
+import type { ExecutionBackend, ExecutionSandbox, SandboxOptions, ScriptRun, ShellOptions } from './types'
+
+/**
+ * Where the harness mounts logs inside the client container
+ */
+const CONTAINER_LOGS_PATH = '/logs'
+
+/**
+ * Where tests are copied inside the client container
+ */
+const CONTAINER_TEST_DIR = '/tests'
+
+/**
+ * Limit for tearing down a sandbox's containers, volumes and images
+ */
+const TEARDOWN_TIMEOUT_SEC = 300
+
+class DockerSandbox implements ExecutionSandbox {
+  constructor(
+    private dockerCommand: string,
+    private taskDir: string,
+    private project: string,
+    private composeFiles: string[],
+    private env: typeof process.env,
+    private options: SandboxOptions
+  ) {}
+
+  /**
+   * Run `docker compose` against this sandbox's project
+   * Commands are killed when the sandbox's signal aborts, except teardown.
+   */
+  compose(args: string[], timeoutSec?: number, abortable = true): Promise<CommandResult> {
+    return runCommand(
+      this.dockerCommand,
+      ['compose', '-p', this.project, ...this.composeFiles.flatMap(file => ['-f', file]), ...args],
+      {
+        cwd: this.taskDir,
+        env: this.env,
+        timeoutSec,
+        onOutput: this.options.onOutput,
+        signal: abortable ? this.options.signal : undefined,
+      }
+    )
+  }
+
+  async runScript(run: ScriptRun): Promise<CommandResult> {
+    for (const file of run.files) {
+      const source = path.join(this.taskDir, file.source)
+      const isDir = (await fs.stat(source)).isDirectory()
+      const parent = isDir ? file.target : path.posix.dirname(file.target)
+
+      await this.compose(['exec', '-T', COMPOSE_CLIENT_SERVICE, 'mkdir', '-p', parent], 60)
+      // "dir/." copies the directory's contents rather than nesting it
+      const copied = await this.compose(
+        ['cp', isDir ? `${source}/.` : source, `${COMPOSE_CLIENT_SERVICE}:${file.target}`],
+        120
+      )
+      if (copied.exitCode !== 0) {
+        throw new Error(`Failed to copy ${file.source} into the container: ${copied.stderr.trim()}`)
+      }
+    }
+
+    const envArgs = Object.entries(run.env ?? {}).flatMap(([key, value]) => ['-e', `${key}=${value}`])
+    return this.compose(
+      ['exec', '-T', ...envArgs, COMPOSE_CLIENT_SERVICE, 'bash', run.script],
+      run.timeoutSec
+    )
+  }
+
+  /**
+   * Size of the client container's writable layer (volumes are not counted)
+   */
+  async getDiskUsage(): Promise<number | null> {
+    const container = await this.compose(['ps', '-q', COMPOSE_CLIENT_SERVICE], 30)
+    const id = container.stdout.trim().split('\n')[0]
+    if (container.exitCode !== 0 || !id) return null
+
+    const inspected = await runCommand(
+      this.dockerCommand,
+      ['container', 'inspect', '--size', '--format', '{{.SizeRw}}', id],
+      { env: this.env, timeoutSec: 30 }
+    )
+    const size = Number(inspected.stdout.trim())
+    return inspected.exitCode === 0 && Number.isFinite(size) ? size : null
+  }
+
+  /**
+   * `docker compose exec` allocates a terminal in the container because it
+   * runs on one; resizes are passed through to it
+   */
+  openShell({ cols, rows }: ShellOptions): IPty {
+    return spawnPty(
+      this.dockerCommand,
+      ['compose', '-p', this.project, ...this.composeFiles.flatMap(file => ['-f', file]), 'exec', COMPOSE_CLIENT_SERVICE, 'bash'],
+      { name: 'xterm-256color', cols, rows, cwd: this.taskDir, env: this.env }
+    )
+  }
+
+  /**
+   * Removing the containers also stops anything still running in them
+   */
+  async dispose(): Promise<void> {
+    await this.compose(['down', '--volumes', '--remove-orphans', '--rmi', 'local'], TEARDOWN_TIMEOUT_SEC, false)
+  }
+}
+
+export class DockerExecutionBackend implements ExecutionBackend {
+  readonly name = 'docker'
+  readonly setupTimeoutSec: number
+
+  constructor(
+    private dockerCommand: string,
+    private buildTimeoutSec: number
+  ) {
+    this.setupTimeoutSec = buildTimeoutSec + TEARDOWN_TIMEOUT_SEC
+  }
+
+  async createSandbox(taskDir: string, runId: string, options: SandboxOptions = {}): Promise<ExecutionSandbox> {
+    if (!(await fs.stat(path.join(taskDir, 'docker-compose.yaml')).catch(() => null))) {
+      throw new Error('docker-compose.yaml is required to run a task with the docker backend')
+    }
+
+    const project = `tb-run-${runId}`.toLowerCase()
+    const logsDir = path.join(taskDir, '..', 'logs')
+    await fs.mkdir(logsDir, { recursive: true })
+
+    // Variables the harness provides to task compose files
+    const env: typeof process.env = {
+      ...process.env,
+      T_BENCH_TASK_DOCKER_NAME_PREFIX: project,
+      T_BENCH_TASK_DOCKER_CLIENT_IMAGE_NAME: `${project}-client`,
+      T_BENCH_TASK_DOCKER_CLIENT_CONTAINER_NAME: `${project}-client`,
+      T_BENCH_TASK_BUILD_CONTEXT_DIR: taskDir,
+      T_BENCH_TASK_LOGS_PATH: logsDir,
+      T_BENCH_CONTAINER_LOGS_PATH: CONTAINER_LOGS_PATH,
+      T_BENCH_TEST_DIR: CONTAINER_TEST_DIR,
+    }
+
+    const composeFiles = [path.join(taskDir, 'docker-compose.yaml')]
+    const override = options.limits
+      ? buildComposeOverride(options.limits, await fs.readFile(composeFiles[0], 'utf8'))
+      : null
+    if (override) {
+      // Kept outside the task directory so it cannot clash with the task's own files
+      const overridePath = path.join(taskDir, '..', COMPOSE_OVERRIDE_FILE)
+      await fs.writeFile(overridePath, override)
+      composeFiles.push(overridePath)
+    }
+
+    const sandbox = new DockerSandbox(this.dockerCommand, taskDir, project, composeFiles, env, options)
+    const started = await sandbox.compose(['up', '-d', '--build'], this.buildTimeoutSec)
+
+    if (started.exitCode !== 0) {
+      await sandbox.dispose()
+      const reason = started.timedOut
+        ? `timed out after ${this.buildTimeoutSec}s`
+        : started.stderr.trim().split('\n').slice(-20).join('\n')
+      throw new Error(`Failed to start the task environment: ${reason}`)
+    }
+
+    return sandbox
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Execution Backend Factory
+ * Selects how task runs are executed from environment configuration
+ *
+ * EXECUTION_BACKEND: "docker" (default) or "process"
+ * EXECUTION_WORK_DIR: where runs are materialized (default: ./.task-runs)
+ * DOCKER_COMMAND: docker CLI to invoke (default: docker)
+ * DOCKER_BUILD_TIMEOUT_SEC: limit for building and starting the environment (default: 900)
+ * PROCESS_SANDBOX_COMMAND: wrapper the process backend requires, e.g. "bwrap ... --bind {root}/app /app"
+ */
+
+import path from 'path'
+import { DockerExecutionBackend } from './docker'
+import { ProcessExecutionBackend } from './process'
+import type { ExecutionBackend } from './types'
+
+export type { ExecutionBackend, ExecutionSandbox, SandboxOptions, ScriptRun, SandboxFile, ShellOptions } from './types'
+export type { CommandResult, OutputListener } from './command'
+
+let backend: ExecutionBackend | undefined
+
+export function getExecutionBackend(): ExecutionBackend {
+  if (backend) return backend
+
+  const kind = process.env.EXECUTION_BACKEND || 'docker'
+
+  switch (kind) {
+    case 'docker':
+      backend = new DockerExecutionBackend(
+        process.env.DOCKER_COMMAND || 'docker',
+        Number(process.env.DOCKER_BUILD_TIMEOUT_SEC) || 900
+      )
+      break
+    case 'process':
+      backend = new ProcessExecutionBackend(process.env.PROCESS_SANDBOX_COMMAND || '')
+      break
+    default:
+      throw new Error(`Unknown execution backend: ${kind}`)
+  }
+
+  return backend
+}
+
+/**
+ * Directory runs are materialized under
+ */
+export function getExecutionWorkDir(): string {
+  return process.env.EXECUTION_WORK_DIR || path.resolve(process.cwd(), '.task-runs')
+}
@@ -0,0 +1,138 @@
+/**
+ * Process Execution Backend
+ * Runs task scripts as local processes, for hosts without a container runtime
+ *
+ * Each run gets its own root directory that stands in for the container
+ * filesystem: sandbox paths like /app and /tests map to <root>/app and
+ * <root>/tests. Scripts run with a minimal environment through a sandbox
+ * command (e.g. bubblewrap) and see the sandbox paths directly; "{root}" in
+ * the command is replaced with the run's root directory. Task scripts are
+ * untrusted, so the backend refuses to start without a sandbox command.
+ *
+ * Of the task's resource limits, only memory is enforced here (as a virtual
+ * memory ulimit); CPU and network limits need a container runtime or a
+ * sandbox command that provides them, and are reported in the run's output.
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { spawn as spawnPty, IPty } from 'node-pty'
+import { NetworkPolicy } from '@repo/types'
+import { runCommand, CommandResult } from './command'
+import type { ExecutionBackend, ExecutionSandbox, SandboxOptions, ScriptRun, ShellOptions } from './types'
+
+const APP_DIR = '/app'
+
+class ProcessSandbox implements ExecutionSandbox {
+  constructor(
+    private taskDir: string,
+    private root: string,
+    private sandboxCommand: string[],
+    private options: SandboxOptions
+  ) {}
+
+  /**
+   * Host path of a sandbox path
+   */
+  private hostPath(sandboxPath: string): string {
+    return path.join(this.root, sandboxPath)
+  }
+
+  /**
+   * Command running bash with the given arguments, under the memory limit
+   * and through the sandbox command
+   */
+  private bashCommand(bashArgs: string[]): [string, string[]] {
+    const memoryLimitMb = this.options.limits?.memoryLimitMb
+    const bash = memoryLimitMb
+      ? ['bash', '-c', `ulimit -v ${memoryLimitMb * 1024} && exec bash "$@"`, 'bash', ...bashArgs]
+      : ['bash', ...bashArgs]
+    const [command, ...args] = [...this.sandboxCommand, ...bash]
+    return [command, args]
+  }
+
+  /**
+   * Minimal environment of scripts and shells
+   */
+  private baseEnv(): Record<string, string | undefined> {
+    return {
+      PATH: process.env.PATH,
+      HOME: APP_DIR,
+      LANG: 'C.UTF-8',
+    }
+  }
+
+  async runScript(run: ScriptRun): Promise<CommandResult> {
+    for (const file of run.files) {
+      await fs.cp(path.join(this.taskDir, file.source), this.hostPath(file.target), { recursive: true })
+    }
+
+    const [command, args] = this.bashCommand([run.script])
+
+    return runCommand(command, args, {
+      env: { ...this.baseEnv(), ...run.env },
+      timeoutSec: run.timeoutSec,
+      onOutput: this.options.onOutput,
+      signal: this.options.signal,
+    })
+  }
+
+  /**
+   * Size of the run's root directory
+   */
+  async getDiskUsage(): Promise<number | null> {
+    const result = await runCommand('du', ['-sk', this.root], { timeoutSec: 60 })
+    const kilobytes = parseInt(result.stdout, 10)
+    return Number.isNaN(kilobytes) ? null : kilobytes * 1024
+  }
+
+  openShell({ cols, rows }: ShellOptions): IPty {
+    const [command, args] = this.bashCommand(['-i'])
+
+    return spawnPty(command, args, {
+      name: 'xterm-256color',
+      cols,
+      rows,
+      cwd: this.root,
+      env: { ...this.baseEnv(), TERM: 'xterm-256color' },
+    })
+  }
+
+  async dispose(): Promise<void> {
+    await fs.rm(this.root, { recursive: true, force: true })
+  }
+}
+
+export class ProcessExecutionBackend implements ExecutionBackend {
+  readonly name = 'process'
+
+  // Creating a sandbox only makes a directory
+  readonly setupTimeoutSec = 60
+
+  private sandboxCommand: string[]
+
+  constructor(sandboxCommand: string) {
+    this.sandboxCommand = sandboxCommand.split(/\s+/).filter(Boolean)
+    if (this.sandboxCommand.length === 0) {
+      throw new Error('The process backend requires PROCESS_SANDBOX_COMMAND; it will not run task scripts unsandboxed')
+    }
+  }
+
+  async createSandbox(taskDir: string, _runId: string, options: SandboxOptions = {}): Promise<ExecutionSandbox> {
+    const root = path.join(taskDir, '..', 'root')
+    await fs.mkdir(path.join(root, APP_DIR), { recursive: true })
+
+    const command = this.sandboxCommand.map(part => part.split('{root}').join(root))
+
+    const limits = options.limits
+    const unenforced = [
+      ...(limits?.cpuLimit != null ? [`CPU limit of ${limits.cpuLimit} cores`] : []),
+      ...(limits && limits.networkPolicy !== NetworkPolicy.ALLOWED ? [`network policy "${limits.networkPolicy.toLowerCase()}"`] : []),
+    ]
+    if (unenforced.length > 0) {
+      options.onOutput?.('stderr', `The process backend does not enforce the ${unenforced.join(' or the ')}\n`)
+    }
+
+    return new ProcessSandbox(taskDir, root, command, options)
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Execution Backend Types
+ * Contract implemented by every backend that runs task scripts
+ */
+
+import type { IPty } from 'node-pty'
+import type { TaskResourceLimits } from '@repo/types'
+import type { CommandResult, OutputListener } from './command'
+
+/**
+ * A file or directory from the task directory, placed at an absolute path in the sandbox
+ */
+export interface SandboxFile {
+  source: string // Relative to the task directory
+  target: string // Absolute path inside the sandbox
+}
+
+export interface ScriptRun {
+  /**
+   * Files copied into the sandbox just before the script runs
+   */
+  files: SandboxFile[]
+
+  /**
+   * Absolute path of the script inside the sandbox
+   */
+  script: string
+
+  env?: Record<string, string>
+  timeoutSec: number
+}
+
+/**
+ * Terminal size of an interactive shell
+ */
+export interface ShellOptions {
+  cols: number
+  rows: number
+}
+
+/**
+ * An isolated environment built from one materialized task directory
+ */
+export interface ExecutionSandbox {
+  /**
+   * Run a bash script inside the sandbox
+   */
+  runScript(run: ScriptRun): Promise<CommandResult>
+
+  /**
+   * Bytes written to the sandbox's filesystem so far, or null when unknown
+   */
+  getDiskUsage(): Promise<number | null>
+
+  /**
+   * Start an interactive bash shell in the sandbox, attached to a pseudo-terminal
+   * The shell is not killed by the sandbox's signal; callers kill it themselves.
+   */
+  openShell(options: ShellOptions): IPty
+
+  /**
+   * Stop and remove everything the sandbox created
+   */
+  dispose(): Promise<void>
+}
+
+export interface SandboxOptions {
+  /**
+   * Receives the output of building the environment, of scripts and of teardown
+   */
+  onOutput?: OutputListener
+
+  /**
+   * Kills whatever the sandbox is running when aborted; dispose() still cleans up
+   */
+  signal?: AbortSignal
+
+  /**
+   * CPU, memory and network limits of the task; the disk limit is enforced
+   * by the caller through getDiskUsage()
+   */
+  limits?: TaskResourceLimits
+}
+
+export interface ExecutionBackend {
+  readonly name: string
+
+  /**
+   * Longest time creating and disposing of one sandbox may take, in seconds
+   */
+  readonly setupTimeoutSec: number
+
+  /**
+   * Build a sandbox for a task directory
+   * Throws when the environment cannot be created.
+   */
+  createSandbox(taskDir: string, runId: string, options?: SandboxOptions): Promise<ExecutionSandbox>
+}
@@ -0,0 +1,102 @@
+/**
+ * Terminal Recording
+ * Records script output as an asciicast v2 file, the format asciinema plays
+ *
+ * The clock only runs while recording, so time spent building and tearing
+ * down sandboxes does not show up as idle time in playback. Scripts write to
+ * pipes rather than a terminal, so bare "\n" line endings are translated to
+ * "\r\n" as a terminal's line discipline would.
+ */
+
+import { MAX_RECORDING_SIZE } from '@repo/types'
+import type { AsciicastEvent, AsciicastHeader } from '@repo/types'
+
+const TRUNCATED_NOTICE = '\r\n[Recording truncated]\r\n'
+
+export class AsciicastRecorder {
+  private lines: string[]
+  private size: number
+  private elapsedMs = 0
+  private resumedAt: number | null = null
+  private endedWithCarriageReturn = false
+  private truncated = false
+
+  constructor(header: Omit<AsciicastHeader, 'version'>) {
+    const headerLine = JSON.stringify({ version: 2, ...header })
+    this.lines = [headerLine]
+    this.size = Buffer.byteLength(headerLine) + 1
+  }
+
+  /**
+   * Whether anything besides the header was recorded
+   */
+  get isEmpty(): boolean {
+    return this.lines.length === 1
+  }
+
+  /**
+   * Start (or resume) the clock and mark where this part of the recording begins
+   */
+  start(marker: string): void {
+    if (this.resumedAt === null) this.resumedAt = Date.now()
+    this.push(['m', marker])
+  }
+
+  /**
+   * Pause the clock; output is ignored until the next start()
+   */
+  stop(): void {
+    if (this.resumedAt === null) return
+    this.elapsedMs += Date.now() - this.resumedAt
+    this.resumedAt = null
+  }
+
+  output(data: string): void {
+    if (this.resumedAt === null || !data) return
+
+    let translated = data.replace(/\r?\n/g, '\r\n')
+    // A "\r" at the end of the previous chunk already precedes a leading "\n"
+    if (this.endedWithCarriageReturn && data.startsWith('\n')) {
+      translated = translated.slice(1)
+    }
+    this.endedWithCarriageReturn = data.endsWith('\r')
+    this.push(['o', translated])
+  }
+
+  /**
+   * Record what was typed into an interactive session
+   */
+  input(data: string): void {
+    if (this.resumedAt === null || !data) return
+    this.push(['i', data])
+  }
+
+  /**
+   * The recording as a .cast file: the header line, then one event per line
+   */
+  toBuffer(): Buffer {
+    return Buffer.from(`${this.lines.join('\n')}\n`, 'utf8')
+  }
+
+  private seconds(): number {
+    const runningMs = this.resumedAt === null ? 0 : Date.now() - this.resumedAt
+    return Number(((this.elapsedMs + runningMs) / 1000).toFixed(6))
+  }
+
+  private push([type, data]: [AsciicastEvent[1], string]): void {
+    if (this.truncated) return
+
+    const event: AsciicastEvent = [this.seconds(), type, data]
+    const line = JSON.stringify(event)
+    const lineSize = Buffer.byteLength(line) + 1
+
+    if (this.size + lineSize > MAX_RECORDING_SIZE) {
+      this.truncated = true
+      this.lines.push(JSON.stringify([event[0], 'o', TRUNCATED_NOTICE] satisfies AsciicastEvent))
+      return
+    }
+
+    this.lines.push(line)
+    this.size += lineSize
+  }
+}
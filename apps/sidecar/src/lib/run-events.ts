@@ -0,0 +1,127 @@
+/**
+ * Run Event Hub
+ * Fans out the live events of in-progress runs to stream subscribers
+ *
+ * Each run keeps a replay buffer of its recent events, numbered from 1, so a
+ * subscriber that (re)connects mid-run first receives what it missed. The
+ * buffer is dropped shortly after the run finishes; finished runs are replayed
+ * from the database instead.
+ */
+
+import { EventEmitter } from 'events'
+import type { RunEvent } from '@repo/types'
+
+export interface SequencedRunEvent {
+  id: number
+  event: RunEvent
+}
+
+export type RunEventListener = (event: SequencedRunEvent) => void
+
+/**
+ * Bytes of events kept per run for replay; older events are dropped first
+ */
+const MAX_REPLAY_SIZE = 2 * 1024 * 1024
+
+/**
+ * How long a finished run stays in the hub, so late subscribers see its end
+ */
+const FINISHED_RETENTION_MS = 60 * 1000
+
+interface RunChannel {
+  events: Array<SequencedRunEvent & { size: number }>
+  size: number
+  nextId: number
+  finished: boolean
+  emitter: EventEmitter
+}
+
+function eventSize(event: RunEvent): number {
+  return event.type === 'output' ? event.data.length : 64
+}
+
+class RunEventHub {
+  private channels = new Map<string, RunChannel>()
+
+  /**
+   * Start collecting events for a run
+   */
+  open(runId: string): void {
+    const emitter = new EventEmitter()
+    emitter.setMaxListeners(0)
+    this.channels.set(runId, { events: [], size: 0, nextId: 1, finished: false, emitter })
+  }
+
+  /**
+   * Publish an event to a run's subscribers
+   * Events for runs that are not open are ignored.
+   */
+  publish(runId: string, event: RunEvent): void {
+    const channel = this.channels.get(runId)
+    if (!channel || channel.finished) return
+
+    const sequenced = { id: channel.nextId++, event }
+    const size = eventSize(event)
+    channel.events.push({ ...sequenced, size })
+    channel.size += size
+
+    while (channel.size > MAX_REPLAY_SIZE && channel.events.length > 1) {
+      channel.size -= channel.events.shift()!.size
+    }
+
+    channel.emitter.emit('event', sequenced)
+  }
+
+  /**
+   * Publish a run's final event and stop accepting new ones
+   */
+  close(runId: string, event: RunEvent): void {
+    const channel = this.channels.get(runId)
+    if (!channel || channel.finished) return
+
+    this.publish(runId, event)
+    channel.finished = true
+    channel.emitter.emit('close')
+
+    setTimeout(() => {
+      if (this.channels.get(runId) === channel) {
+        this.channels.delete(runId)
+      }
+    }, FINISHED_RETENTION_MS).unref()
+  }
+
+  /**
+   * Whether the hub holds events for a run
+   */
+  has(runId: string): boolean {
+    return this.channels.has(runId)
+  }
+
+  /**
+   * Receive a run's events after the given id, then new events as they are published
+   * onClose is called once the run has finished. Returns an unsubscribe function,
+   * or null when the hub has no events for the run.
+   */
+  subscribe(runId: string, afterId: number, listener: RunEventListener, onClose: () => void): (() => void) | null {
+    const channel = this.channels.get(runId)
+    if (!channel) return null
+
+    for (const { id, event } of channel.events) {
+      if (id > afterId) listener({ id, event })
+    }
+
+    if (channel.finished) {
+      onClose()
+      return () => {}
+    }
+
+    channel.emitter.on('event', listener)
+    channel.emitter.once('close', onClose)
+    return () => {
+      channel.emitter.off('event', listener)
+      channel.emitter.off('close', onClose)
+    }
+  }
+}
+
+export const runEventHub = new RunEventHub()
@@ -0,0 +1,260 @@
+/**
+ * Run Queue
+ * Starts queued task runs as capacity allows
+ *
+ * The queue lives in the database: a run waits in the QUEUED status until a
+ * sidecar claims it, so queued runs survive a restart. Runs of tasks that are
+ * in review go first, then the oldest. Limits count every RUNNING run in the
+ * database, and runs are counted and claimed under a Postgres advisory lock,
+ * so they hold across sidecar processes. Each process refreshes the
+ * heartbeat of the runs it executes on every poll, so a run whose heartbeat
+ * goes stale was left behind by a process that died.
+ *
+ * Terminal sessions draw on the same global limit: a session reserves a slot
+ * while it is open, and runs are only claimed while running runs and
+ * reservations together leave room. Reservations live in the process holding
+ * them, so a process only sees the sessions it hosts.
+ *
+ * RUN_MAX_CONCURRENT: runs and terminal sessions executing at once (default: 2)
+ * RUN_MAX_CONCURRENT_PER_USER: runs one user's requests may execute at once (default: 1)
+ * RUN_QUEUE_POLL_MS: how often the queue and cancellation requests are checked (default: 2000)
+ */
+
+import { prisma, TaskState } from '@repo/db'
+import { RunStatus } from '@repo/types'
+
+/**
+ * Why a run was stopped before it finished
+ */
+export type RunStopReason = 'cancelled' | 'timeout' | 'disk-limit'
+
+/**
+ * Executes a claimed run; aborting the controller (with a RunStopReason) stops it
+ */
+export type RunExecutor = (runId: string, controller: AbortController) => Promise<void>
+
+interface QueuedRun {
+  id: string
+  triggeredById: string
+  createdAt: Date
+  task: { state: TaskState }
+}
+
+const IN_REVIEW_STATES: TaskState[] = [TaskState.IN_REVIEW, TaskState.PARTIALLY_APPROVED]
+
+function getRunPriority(run: QueuedRun): number {
+  return IN_REVIEW_STATES.includes(run.task.state) ? 1 : 0
+}
+
+function compareQueuedRuns(a: QueuedRun, b: QueuedRun): number {
+  return getRunPriority(b) - getRunPriority(a) || a.createdAt.getTime() - b.createdAt.getTime()
+}
+
+function getPollMs(): number {
+  return Number(process.env.RUN_QUEUE_POLL_MS) || 2000
+}
+
+/**
+ * How long a running run may go without a heartbeat before it counts as interrupted
+ */
+export function getRunHeartbeatTimeoutMs(): number {
+  return Math.max(60_000, getPollMs() * 10)
+}
+
+/**
+ * Advisory lock key serializing run claims across sidecar processes
+ */
+const RUN_CLAIM_LOCK_KEY = 0x72756e71 // "runq"
+
+function getLimits() {
+  return {
+    global: Number(process.env.RUN_MAX_CONCURRENT) || 2,
+    perUser: Number(process.env.RUN_MAX_CONCURRENT_PER_USER) || 1,
+  }
+}
+
+class RunQueue {
+  private executor?: RunExecutor
+  private controllers = new Map<string, AbortController>() // Runs executing in this process
+  private reservations = new Set<string>() // Slots held by terminal sessions in this process
+  private dispatching = false
+  private redispatch = false
+
+  /**
+   * Start taking runs off the queue
+   */
+  start(executor: RunExecutor): void {
+    this.executor = executor
+    setInterval(() => this.notify(), getPollMs())
+    this.notify()
+  }
+
+  /**
+   * Start whatever queued runs there is capacity for
+   * Call after the queue or the set of running runs changed.
+   */
+  notify(): void {
+    if (!this.executor) return
+    if (this.dispatching) {
+      this.redispatch = true
+      return
+    }
+
+    this.dispatching = true
+    this.dispatch()
+      .catch(error => console.error('[RunQueue] Dispatch failed:', error))
+      .finally(() => {
+        this.dispatching = false
+        if (this.redispatch) {
+          this.redispatch = false
+          this.notify()
+        }
+      })
+  }
+
+  /**
+   * Stop a run executing in this process
+   * Returns false when the run is not executing here.
+   */
+  stop(runId: string, reason: RunStopReason): boolean {
+    const controller = this.controllers.get(runId)
+    if (!controller) return false
+    controller.abort(reason)
+    return true
+  }
+
+  /**
+   * Hold a slot of the global limit for something other than a run
+   * Returns false when running runs and other reservations fill the limit.
+   */
+  async reserve(id: string): Promise<boolean> {
+    const limits = getLimits()
+
+    return prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${RUN_CLAIM_LOCK_KEY}::bigint)`
+
+      const runningTotal = await tx.taskRun.count({ where: { status: RunStatus.RUNNING } })
+      if (runningTotal + this.reservations.size >= limits.global) return false
+
+      this.reservations.add(id)
+      return true
+    })
+  }
+
+  /**
+   * Give back a slot held with reserve()
+   */
+  release(id: string): void {
+    if (this.reservations.delete(id)) {
+      this.notify()
+    }
+  }
+
+  /**
+   * 1-based positions of the queued runs, in the order they will start
+   */
+  async getPositions(): Promise<Map<string, number>> {
+    const queue = await this.getQueue()
+    return new Map(queue.map((run, index) => [run.id, index + 1]))
+  }
+
+  private async getQueue(): Promise<QueuedRun[]> {
+    const runs = await prisma.taskRun.findMany({
+      where: { status: RunStatus.QUEUED },
+      select: {
+        id: true,
+        triggeredById: true,
+        createdAt: true,
+        task: { select: { state: true } },
+      },
+    })
+    return runs.sort(compareQueuedRuns)
+  }
+
+  private async dispatch(): Promise<void> {
+    await this.heartbeat()
+    await this.stopCancelledRuns()
+
+    const fullUsers = new Set<string>()
+
+    for (const run of await this.getQueue()) {
+      if (fullUsers.has(run.triggeredById)) continue
+
+      const claim = await this.claim(run)
+      if (claim === 'global-limit') break
+      if (claim === 'user-limit') {
+        fullUsers.add(run.triggeredById)
+      } else if (claim === 'claimed') {
+        this.launch(run.id)
+      }
+    }
+  }
+
+  /**
+   * Move a queued run to RUNNING if the limits allow it
+   * Counting and claiming happen under one advisory lock, so two processes
+   * cannot both take the last slot.
+   */
+  private async claim(run: QueuedRun): Promise<'claimed' | 'taken' | 'global-limit' | 'user-limit'> {
+    const limits = getLimits()
+
+    return prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${RUN_CLAIM_LOCK_KEY}::bigint)`
+
+      const [runningTotal, userRunning] = await Promise.all([
+        tx.taskRun.count({ where: { status: RunStatus.RUNNING } }),
+        tx.taskRun.count({ where: { status: RunStatus.RUNNING, triggeredById: run.triggeredById } }),
+      ])
+      if (runningTotal + this.reservations.size >= limits.global) return 'global-limit'
+      if (userRunning >= limits.perUser) return 'user-limit'
+
+      // Claiming only succeeds while the run is still queued
+      const { count } = await tx.taskRun.updateMany({
+        where: { id: run.id, status: RunStatus.QUEUED },
+        data: { status: RunStatus.RUNNING, startedAt: new Date(), heartbeatAt: new Date() },
+      })
+      return count > 0 ? 'claimed' : 'taken'
+    })
+  }
+
+  private launch(runId: string): void {
+    const controller = new AbortController()
+    this.controllers.set(runId, controller)
+
+    this.executor!(runId, controller)
+      .catch(error => console.error(`[RunQueue] Run ${runId} failed:`, error))
+      .finally(() => {
+        this.controllers.delete(runId)
+        this.notify()
+      })
+  }
+
+  /**
+   * Mark the runs executing in this process as alive
+   */
+  private async heartbeat(): Promise<void> {
+    if (this.controllers.size === 0) return
+
+    await prisma.taskRun.updateMany({
+      where: { id: { in: [...this.controllers.keys()] }, status: RunStatus.RUNNING },
+      data: { heartbeatAt: new Date() },
+    })
+  }
+
+  /**
+   * Stop local runs cancelled through another sidecar process
+   */
+  private async stopCancelledRuns(): Promise<void> {
+    if (this.controllers.size === 0) return
+
+    const cancelled = await prisma.taskRun.findMany({
+      where: { id: { in: [...this.controllers.keys()] }, cancelRequestedAt: { not: null } },
+      select: { id: true },
+    })
+    for (const run of cancelled) {
+      this.stop(run.id, 'cancelled')
+    }
+  }
+}
+
+export const runQueue = new RunQueue()
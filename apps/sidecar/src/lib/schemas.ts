@@ -0,0 +1,87 @@
+/**
+ * Validation Schemas for Sidecar
+ * Zod schemas for request validation
+ */
+
+import { z } from 'zod'
+import { RunMode, MAX_STABILITY_ITERATIONS } from '@repo/types'
+
+// ==================== File Schemas ====================
+
+export const taskIdQuerySchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required'),
+})
+
+export const filePathQuerySchema = taskIdQuerySchema.extend({
+  path: z.string().min(1, 'File path is required'),
+})
+
+export const writeFileSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required'),
+  path: z.string().min(1, 'File path is required'),
+  content: z.string(),
+  encoding: z.enum(['utf8', 'base64']).default('utf8'),
+  executable: z.boolean().optional(),
+})
+
+export const renameFileSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required'),
+  from: z.string().min(1, 'Source path is required'),
+  to: z.string().min(1, 'Destination path is required'),
+})
+
+// ==================== Run Schemas ====================
+
+export const startRunSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required'),
+  version: z.number().int().positive().optional(),
+  mode: z.nativeEnum(RunMode).default(RunMode.ORACLE),
+  // Stability runs only: how many times to repeat the oracle run
+  iterations: z.number().int().min(2).max(MAX_STABILITY_ITERATIONS).optional(),
+})
+
+export const runQuerySchema = taskIdQuerySchema.extend({
+  mode: z.nativeEnum(RunMode).optional(),
+})
+
+// Versions to compare; default to the two latest versions with test results
+export const testResultComparisonQuerySchema = taskIdQuerySchema.extend({
+  from: z.coerce.number().int().positive().optional(),
+  to: z.coerce.number().int().positive().optional(),
+})
+
+export const runIdParamSchema = z.object({
+  id: z.string().min(1, 'Run ID is required'),
+})
+
+// ==================== Terminal Schemas ====================
+
+export const openTerminalSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required'),
+})
+
+export const terminalIdParamSchema = z.object({
+  id: z.string().min(1, 'Terminal session ID is required'),
+})
+
+// Messages the browser sends over a terminal session's WebSocket
+export const terminalClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('input'), data: z.string() }),
+  z.object({
+    type: z.literal('resize'),
+    cols: z.number().int().min(1).max(1000),
+    rows: z.number().int().min(1).max(1000),
+  }),
+])
+
+// Export types inferred from schemas
+export type TaskIdQuery = z.infer<typeof taskIdQuerySchema>
+export type FilePathQuery = z.infer<typeof filePathQuerySchema>
+export type WriteFileInput = z.infer<typeof writeFileSchema>
+export type RenameFileInput = z.infer<typeof renameFileSchema>
+export type StartRunInput = z.infer<typeof startRunSchema>
+export type RunQuery = z.infer<typeof runQuerySchema>
+export type TestResultComparisonQuery = z.infer<typeof testResultComparisonQuerySchema>
+export type RunIdParam = z.infer<typeof runIdParamSchema>
+export type OpenTerminalInput = z.infer<typeof openTerminalSchema>
+export type TerminalIdParam = z.infer<typeof terminalIdParamSchema>
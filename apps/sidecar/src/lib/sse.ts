@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events
+ * Streams events to an EventSource over a long-lived response
+ */
+
+import type { Request, Response } from 'express'
+
+/**
+ * Comment lines sent at this interval keep proxies from closing an idle stream
+ */
+const KEEPALIVE_MS = 15 * 1000
+
+/**
+ * How long an EventSource waits before reconnecting after the stream ends
+ */
+const RETRY_MS = 3000
+
+export interface EventStream {
+  send(id: number, event: string, data: unknown): void
+  close(): void
+}
+
+/**
+ * Start an event stream on a response
+ * The stream stops writing once the client disconnects.
+ */
+export function openEventStream(req: Request, res: Response): EventStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable response buffering in nginx
+  })
+  res.flushHeaders()
+  res.write(`retry: ${RETRY_MS}\n\n`)
+
+  let closed = false
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS)
+  const stop = () => {
+    closed = true
+    clearInterval(keepalive)
+  }
+  req.on('close', stop)
+
+  return {
+    send(id, event, data) {
+      if (closed) return
+      res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    },
+    close() {
+      if (closed) return
+      stop()
+      res.end()
+    },
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Stability Reports
+ * Aggregates the test results of repeated oracle runs into per-test pass rates
+ */
+
+import type { RunTestResult, StabilityReport, TestStability } from '@repo/types'
+
+export interface StabilityIteration {
+  passed: boolean // run-tests.sh passed in this iteration
+  testResults: RunTestResult[]
+}
+
+/**
+ * Build the report of a stability check from its iterations
+ * A test is stable when it passed in every iteration, or was skipped in every
+ * iteration; a test missing from some iterations' output is unstable.
+ */
+export function buildStabilityReport(
+  runId: string,
+  version: number,
+  iterations: StabilityIteration[]
+): StabilityReport {
+  const counts = new Map<string, Pick<TestStability, 'passed' | 'failed' | 'skipped'>>()
+
+  for (const iteration of iterations) {
+    for (const result of iteration.testResults) {
+      const count = counts.get(result.name) ?? { passed: 0, failed: 0, skipped: 0 }
+      count[result.status]++
+      counts.set(result.name, count)
+    }
+  }
+
+  const total = iterations.length
+  const tests = [...counts.entries()]
+    .map(([name, count]): TestStability => ({
+      name,
+      ...count,
+      passRate: total > 0 ? count.passed / total : 0,
+      stable: count.passed === total || count.skipped === total,
+    }))
+    // Unstable tests first, least often passing first
+    .sort((a, b) => Number(a.stable) - Number(b.stable) || a.passRate - b.passRate || a.name.localeCompare(b.name))
+
+  const passedIterations = iterations.filter(iteration => iteration.passed).length
+
+  return {
+    runId,
+    version,
+    iterations: total,
+    passedIterations,
+    tests,
+    stable: passedIterations === total && tests.every(test => test.stable),
+    createdAt: new Date().toISOString(),
+  }
+}
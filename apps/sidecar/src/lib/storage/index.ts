@@ -0,0 +1,33 @@
+/**
+ * Storage Backend Factory
+ * Selects the task file storage backend from environment configuration
+ *
+ * STORAGE_BACKEND: backend name (default: "local")
+ * TASK_STORAGE_DIR: root directory for the local backend (default: ./.task-storage)
+ */
+
+import path from 'path'
+import { LocalStorageBackend } from './local'
+import type { StorageBackend } from './types'
+
+export type { StorageBackend, StoredObject } from './types'
+
+let backend: StorageBackend | undefined
+
+export function getStorageBackend(): StorageBackend {
+  if (backend) return backend
+
+  const kind = process.env.STORAGE_BACKEND || 'local'
+
+  switch (kind) {
+    case 'local':
+      backend = new LocalStorageBackend(
+        process.env.TASK_STORAGE_DIR || path.resolve(process.cwd(), '.task-storage')
+      )
+      break
+    default:
+      throw new Error(`Unknown storage backend: ${kind}`)
+  }
+
+  return backend
+}
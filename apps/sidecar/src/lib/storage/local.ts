@@ -0,0 +1,130 @@
+/**
+ * Local Filesystem Storage Backend
+ * Stores objects as plain files under a root directory
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { StorageBackend, StoredObject } from './types'
+
+export class LocalStorageBackend implements StorageBackend {
+  private root: string
+
+  constructor(root: string) {
+    this.root = path.resolve(root)
+  }
+
+  /**
+   * Resolve a key to an absolute path, refusing keys that escape the root
+   */
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.root, key)
+    if (fullPath !== this.root && !fullPath.startsWith(this.root + path.sep)) {
+      throw new Error(`Storage key escapes root: ${key}`)
+    }
+    return fullPath
+  }
+
+  private toKey(fullPath: string): string {
+    return path.relative(this.root, fullPath).split(path.sep).join('/')
+  }
+
+  private async toObject(fullPath: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fs.stat(fullPath)
+      if (!stats.isFile()) return null
+      return {
+        key: this.toKey(fullPath),
+        size: stats.size,
+        mode: stats.mode & 0o777,
+        updatedAt: stats.mtime,
+      }
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const base = this.resolve(prefix)
+    const objects: StoredObject[] = []
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true })
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return
+        throw error
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(fullPath)
+        } else if (entry.isFile()) {
+          const object = await this.toObject(fullPath)
+          if (object) objects.push(object)
+        }
+      }
+    }
+
+    await walk(base)
+    return objects.sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    return this.toObject(this.resolve(key))
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key))
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 'EISDIR') return null
+      throw error
+    }
+  }
+
+  async write(key: string, data: Buffer, mode: number): Promise<StoredObject> {
+    const fullPath = this.resolve(key)
+    await fs.mkdir(path.dirname(fullPath), { recursive: true })
+    await fs.writeFile(fullPath, data)
+    await fs.chmod(fullPath, mode)
+    return (await this.toObject(fullPath))!
+  }
+
+  async rename(fromKey: string, toKey: string): Promise<void> {
+    const toPath = this.resolve(toKey)
+    await fs.mkdir(path.dirname(toPath), { recursive: true })
+    await fs.rename(this.resolve(fromKey), toPath)
+    await this.pruneEmptyDirs(path.dirname(this.resolve(fromKey)))
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const fullPath = this.resolve(key)
+    try {
+      await fs.unlink(fullPath)
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false
+      throw error
+    }
+    await this.pruneEmptyDirs(path.dirname(fullPath))
+    return true
+  }
+
+  /**
+   * Remove empty parent directories left behind by deletes and renames
+   */
+  private async pruneEmptyDirs(dir: string): Promise<void> {
+    let current = dir
+    while (current.startsWith(this.root + path.sep)) {
+      try {
+        await fs.rmdir(current)
+      } catch {
+        return
+      }
+      current = path.dirname(current)
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Storage Backend Types
+ * Contract implemented by every task file storage backend
+ */
+
+export interface StoredObject {
+  key: string
+  size: number
+  mode: number
+  updatedAt: Date
+}
+
+export interface StorageBackend {
+  /**
+   * List all objects whose key starts with the given prefix
+   */
+  list(prefix: string): Promise<StoredObject[]>
+
+  /**
+   * Get object metadata (null if missing)
+   */
+  stat(key: string): Promise<StoredObject | null>
+
+  /**
+   * Read object content (null if missing)
+   */
+  read(key: string): Promise<Buffer | null>
+
+  /**
+   * Create or replace an object
+   */
+  write(key: string, data: Buffer, mode: number): Promise<StoredObject>
+
+  /**
+   * Move an object to a new key
+   */
+  rename(fromKey: string, toKey: string): Promise<void>
+
+  /**
+   * Delete an object (returns false if it did not exist)
+   */
+  delete(key: string): Promise<boolean>
+}
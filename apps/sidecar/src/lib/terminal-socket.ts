@@ -0,0 +1,35 @@
+/**
+ * Terminal Sockets
+ * Accepts the WebSockets of terminal sessions on the HTTP server
+ *
+ * Browsers cannot set headers on a WebSocket, so a socket is authenticated
+ * by the one-time token returned when its session was opened, passed as the
+ * "token" query parameter of /api/terminals/:id/socket.
+ */
+
+import type { Server } from 'http'
+import { WebSocketServer } from 'ws'
+import { TerminalSessionService } from '../services/terminal-session.service'
+
+const SOCKET_PATH = /^\/api\/terminals\/([^/]+)\/socket$/
+
+/**
+ * Frames larger than this are rejected; input arrives a few keystrokes at a time
+ */
+const MAX_MESSAGE_SIZE = 64 * 1024
+
+export function attachTerminalSockets(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_SIZE })
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const sessionId = url.pathname.match(SOCKET_PATH)?.[1]
+
+    if (!sessionId || !TerminalSessionService.canConnect(sessionId, url.searchParams.get('token') ?? '')) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n')
+      return
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => TerminalSessionService.connect(sessionId, ws))
+  })
+}
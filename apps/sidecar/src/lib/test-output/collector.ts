@@ -0,0 +1,53 @@
+/**
+ * Test Result Collector
+ * Accumulates test results by name for the output parsers
+ */
+
+import { MAX_TEST_MESSAGE_SIZE } from '@repo/types'
+import type { RunTestResult } from '@repo/types'
+
+type TestResultFields = Partial<Omit<RunTestResult, 'name'>>
+
+function normalizeMessage(message: string | null | undefined): string | null {
+  const trimmed = message?.trim()
+  if (!trimmed) return null
+  return trimmed.length > MAX_TEST_MESSAGE_SIZE ? `${trimmed.slice(0, MAX_TEST_MESSAGE_SIZE)}…` : trimmed
+}
+
+export class TestResultCollector {
+  private byName = new Map<string, RunTestResult>()
+
+  /**
+   * Record a test's outcome, replacing its status and keeping earlier details
+   * the new report does not have
+   */
+  set(name: string, fields: TestResultFields & Pick<RunTestResult, 'status'>): void {
+    const previous = this.byName.get(name)
+    this.byName.set(name, {
+      name,
+      status: fields.status,
+      durationMs: fields.durationMs ?? previous?.durationMs ?? null,
+      message: normalizeMessage(fields.message) ?? previous?.message ?? null,
+    })
+  }
+
+  /**
+   * Add details to a test that was already reported
+   */
+  update(name: string, fields: TestResultFields): void {
+    const previous = this.byName.get(name)
+    if (!previous) return
+    this.byName.set(name, {
+      ...previous,
+      ...(fields.durationMs !== undefined && { durationMs: fields.durationMs }),
+      ...(fields.message !== undefined && { message: normalizeMessage(fields.message) }),
+    })
+  }
+
+  /**
+   * Results in the order tests were first reported
+   */
+  results(): RunTestResult[] {
+    return [...this.byName.values()]
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Test Result Comparison
+ * Finds the tests whose outcome changed between two runs
+ */
+
+import type { RunTestResult, RunTestStatus, TestResultChange } from '@repo/types'
+
+/**
+ * Order of changes: newly failing tests first, then removed, added and fixed ones
+ */
+function getChangeRank(change: TestResultChange): number {
+  if (change.to?.status === 'failed') return 0
+  if (!change.to) return 1
+  if (!change.from) return 2
+  return 3
+}
+
+function statusOf(result: RunTestResult | null): RunTestStatus | null {
+  return result?.status ?? null
+}
+
+/**
+ * Tests whose status differs between two runs, including tests only one reported
+ */
+export function diffTestResults(from: RunTestResult[], to: RunTestResult[]): TestResultChange[] {
+  const fromByName = new Map(from.map(result => [result.name, result]))
+  const toByName = new Map(to.map(result => [result.name, result]))
+  const names = new Set([...fromByName.keys(), ...toByName.keys()])
+
+  const changes: TestResultChange[] = []
+  for (const name of names) {
+    const change = { name, from: fromByName.get(name) ?? null, to: toByName.get(name) ?? null }
+    if (statusOf(change.from) !== statusOf(change.to)) {
+      changes.push(change)
+    }
+  }
+
+  return changes.sort((a, b) => getChangeRank(a) - getChangeRank(b) || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,36 @@
+/**
+ * Test Output Parsing
+ * Extracts per-test outcomes, durations and failure messages from run-tests.sh output
+ *
+ * Supported formats, in order of preference when output contains several:
+ * JUnit XML reports, TAP and pytest's console output.
+ */
+
+import type { RunTestResult, TestOutputFormat } from '@repo/types'
+import { hasJUnitReport, parseJUnitOutput } from './junit'
+import { isTapOutput, parseTapOutput } from './tap'
+import { parsePytestOutput } from './pytest'
+
+export { diffTestResults } from './compare'
+
+const PARSERS: Record<TestOutputFormat, (output: string) => RunTestResult[]> = {
+  junit: parseJUnitOutput,
+  tap: parseTapOutput,
+  pytest: parsePytestOutput,
+}
+
+/**
+ * The format of run-tests.sh output
+ */
+export function detectTestOutputFormat(output: string): TestOutputFormat {
+  if (hasJUnitReport(output)) return 'junit'
+  if (isTapOutput(output)) return 'tap'
+  return 'pytest'
+}
+
+/**
+ * Parse run-tests.sh output into test results
+ */
+export function parseTestOutput(output: string): RunTestResult[] {
+  return PARSERS[detectTestOutputFormat(output)](output)
+}
@@ -0,0 +1,80 @@
+/**
+ * JUnit XML Parser
+ * Reads <testcase> elements from JUnit XML reports printed by run-tests.sh
+ * (e.g. `pytest --junitxml=report.xml` followed by `cat report.xml`)
+ */
+
+import type { RunTestResult, RunTestStatus } from '@repo/types'
+import { TestResultCollector } from './collector'
+
+const TESTCASE_ELEMENT = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+const OUTCOME_ELEMENT = /<(failure|error|skipped)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return Number.isNaN(value) ? entity : String.fromCodePoint(value)
+      }
+      return XML_ENTITIES[code] ?? entity
+    })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3])
+  }
+  return attributes
+}
+
+/**
+ * Whether output contains a JUnit XML report
+ */
+export function hasJUnitReport(output: string): boolean {
+  return /<testcase\b/.test(output)
+}
+
+/**
+ * Parse the JUnit XML reports in output into test results
+ * Test names are "classname::name". A failure's message attribute is preferred
+ * over its body, which usually holds the whole traceback.
+ */
+export function parseJUnitOutput(output: string): RunTestResult[] {
+  const collector = new TestResultCollector()
+
+  for (const testcase of output.matchAll(TESTCASE_ELEMENT)) {
+    const attributes = parseAttributes(testcase[1])
+    if (!attributes.name) continue
+
+    const name = attributes.classname ? `${attributes.classname}::${attributes.name}` : attributes.name
+    const time = Number(attributes.time)
+    const outcome = testcase[2] ? OUTCOME_ELEMENT.exec(testcase[2]) : null
+
+    let status: RunTestStatus = 'passed'
+    let message: string | null = null
+    if (outcome) {
+      status = outcome[1] === 'skipped' ? 'skipped' : 'failed'
+      message = parseAttributes(outcome[2]).message || (outcome[3] ? decodeXml(outcome[3]) : null)
+    }
+
+    collector.set(name, {
+      status,
+      message,
+      durationMs: attributes.time !== undefined && Number.isFinite(time) ? Math.round(time * 1000) : null,
+    })
+  }
+
+  return collector.results()
+}
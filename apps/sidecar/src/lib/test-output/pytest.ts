@@ -0,0 +1,112 @@
+/**
+ * pytest Output Parser
+ * Reads outcomes from verbose (-v) lines and the short test summary, durations
+ * from --durations and failure messages from the summary or the failure report
+ */
+
+import type { RunTestResult, RunTestStatus } from '@repo/types'
+import { TestResultCollector } from './collector'
+
+const PYTEST_STATUSES: Record<string, RunTestStatus> = {
+  PASSED: 'passed',
+  XPASS: 'passed',
+  FAILED: 'failed',
+  ERROR: 'failed',
+  SKIPPED: 'skipped',
+  XFAIL: 'skipped',
+}
+
+// Node ids of parametrized tests may contain spaces ("test_x[a b]"), so ids
+// run up to the status word rather than to the first space
+
+// "tests/test_outputs.py::test_x PASSED [ 50%]" (pytest -v)
+const PYTEST_VERBOSE_LINE = /^(\S+::.+?)\s+(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)(?:\s+\(.*\))?(?:\s+\[\s*\d+%\])?$/
+
+// "FAILED tests/test_outputs.py::test_x - AssertionError: ..." (short test summary)
+const PYTEST_SUMMARY_LINE = /^(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)\s+(\S+::.+?)(?:\s+-\s+(.*))?$/
+
+// "0.51s call     tests/test_outputs.py::test_x" (pytest --durations)
+const PYTEST_DURATION_LINE = /^(\d+(?:\.\d+)?)s\s+(?:setup|call|teardown)\s+(\S+::.+)$/
+
+// "_______________ test_x _______________" (start of a test's failure report)
+const PYTEST_SECTION_LINE = /^_{3,}\s+(?:ERROR at \w+ of )?(.+?)\s+_{3,}$/
+
+// "E       assert 1 == 2" (error lines in a failure report)
+const PYTEST_ERROR_LINE = /^E\s{2,}(.*)$/
+
+/**
+ * Lines of a failure report kept as the message when the summary has none
+ */
+const MAX_ERROR_LINES = 20
+
+/**
+ * Whether pytest's report title for a test ("TestClass.test_x") refers to a node id
+ */
+function matchesSection(nodeId: string, title: string): boolean {
+  // Parameters ("test_x[1.5]") are not split on dots
+  const bracket = title.indexOf('[')
+  const base = bracket === -1 ? title : title.slice(0, bracket)
+  const params = bracket === -1 ? '' : title.slice(bracket)
+  return nodeId.endsWith(`::${base.split('.').join('::')}${params}`)
+}
+
+/**
+ * Parse pytest output into test results
+ * Tests reported more than once (verbose line and summary) keep their last status.
+ */
+export function parsePytestOutput(output: string): RunTestResult[] {
+  const collector = new TestResultCollector()
+  const durations = new Map<string, number>()
+  const sections = new Map<string, string[]>()
+  let section: string[] | null = null
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim()
+
+    const verbose = PYTEST_VERBOSE_LINE.exec(line)
+    if (verbose) {
+      collector.set(verbose[1], { status: PYTEST_STATUSES[verbose[2]] })
+      continue
+    }
+
+    const summary = PYTEST_SUMMARY_LINE.exec(line)
+    if (summary) {
+      collector.set(summary[2], { status: PYTEST_STATUSES[summary[1]], message: summary[3] })
+      continue
+    }
+
+    const duration = PYTEST_DURATION_LINE.exec(line)
+    if (duration) {
+      // Setup, call and teardown are reported separately
+      durations.set(duration[2], (durations.get(duration[2]) ?? 0) + Number(duration[1]) * 1000)
+      continue
+    }
+
+    const header = PYTEST_SECTION_LINE.exec(line)
+    if (header) {
+      section = []
+      sections.set(header[1], section)
+      continue
+    }
+
+    const error = PYTEST_ERROR_LINE.exec(line)
+    if (error && section && section.length < MAX_ERROR_LINES) {
+      section.push(error[1])
+    }
+  }
+
+  for (const [name, durationMs] of durations) {
+    collector.update(name, { durationMs: Math.round(durationMs) })
+  }
+
+  for (const [title, lines] of sections) {
+    if (lines.length === 0) continue
+    for (const result of collector.results()) {
+      if (result.status === 'failed' && !result.message && matchesSection(result.name, title)) {
+        collector.update(result.name, { message: lines.join('\n') })
+      }
+    }
+  }
+
+  return collector.results()
+}
@@ -0,0 +1,96 @@
+/**
+ * TAP Parser
+ * Reads test points from Test Anything Protocol output (e.g. `bats --tap`)
+ */
+
+import type { RunTestResult, RunTestStatus } from '@repo/types'
+import { TestResultCollector } from './collector'
+
+// "not ok 2 - handles empty input # TODO not implemented"
+const TEST_POINT_LINE = /^(not )?ok\b\s*(\d+)?\s*(?:-\s*)?(.*?)\s*(?:(?<!\\)#\s*(SKIP|TODO)\S*\s*(.*))?$/i
+const PLAN_LINE = /^1\.\.\d+/
+const VERSION_LINE = /^TAP version \d+/i
+
+// YAML diagnostics of the preceding test point, between "---" and "..."
+const YAML_START = /^\s+---\s*$/
+const YAML_END = /^\s+\.\.\.\s*$/
+const YAML_MESSAGE = /^\s+message:\s*(.*)$/
+const YAML_DURATION = /^\s+duration_ms:\s*([\d.]+)/
+
+// "# (in test file test.bats, line 5)" diagnostics after a failed test point
+const COMMENT_LINE = /^#\s?(.*)$/
+
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed
+}
+
+/**
+ * Whether output is TAP: a plan or version line and at least one test point
+ */
+export function isTapOutput(output: string): boolean {
+  const lines = output.split('\n').map(line => line.trimEnd())
+  return lines.some(line => PLAN_LINE.test(line) || VERSION_LINE.test(line)) &&
+    lines.some(line => TEST_POINT_LINE.test(line))
+}
+
+/**
+ * Parse TAP output into test results
+ * Only top-level test points are read; indented subtests are summarized by
+ * their parent. TODO tests are expected to fail and count as skipped.
+ */
+export function parseTapOutput(output: string): RunTestResult[] {
+  const collector = new TestResultCollector()
+  let current: string | null = null
+  let comments: string[] = []
+  let inYaml = false
+
+  const finishTest = () => {
+    if (current && comments.length > 0) {
+      const result = collector.results().find(test => test.name === current)
+      if (result?.status === 'failed' && !result.message) {
+        collector.update(current, { message: comments.join('\n') })
+      }
+    }
+    comments = []
+  }
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trimEnd()
+
+    if (inYaml) {
+      if (YAML_END.test(line)) {
+        inYaml = false
+        continue
+      }
+      const message = YAML_MESSAGE.exec(line)
+      if (message && current) collector.update(current, { message: unquote(message[1]) })
+      const duration = YAML_DURATION.exec(line)
+      if (duration && current) collector.update(current, { durationMs: Math.round(Number(duration[1])) })
+      continue
+    }
+
+    if (YAML_START.test(line) && current) {
+      inYaml = true
+      continue
+    }
+
+    const point = TEST_POINT_LINE.exec(line)
+    if (point) {
+      finishTest()
+      const directive = point[4]?.toUpperCase()
+      const status: RunTestStatus = directive ? 'skipped' : point[1] ? 'failed' : 'passed'
+      current = point[3] || `test ${point[2] ?? collector.results().length + 1}`
+      collector.set(current, { status, message: directive ? point[5] : null })
+      continue
+    }
+
+    const comment = COMMENT_LINE.exec(line)
+    if (comment && current) {
+      comments.push(comment[1])
+    }
+  }
+  finishTest()
+
+  return collector.results()
+}
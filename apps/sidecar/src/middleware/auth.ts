@@ -0,0 +1,50 @@
+/**
+ * Authentication Middleware for Sidecar
+ * Resolves the Clerk session to a database user
+ */
+
+import { Request, Response, NextFunction } from 'express'
+import { getAuth } from '@clerk/express'
+import { prisma } from '@repo/db'
+import { UnauthorizedError } from '../lib/errors'
+
+/**
+ * Attach the database user for the current Clerk session
+ * Users are created by the main server on first sign-in, so this only looks them up
+ */
+export async function attachUser(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { userId } = getAuth(req)
+
+    if (!userId) {
+      throw new UnauthorizedError()
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+    })
+
+    if (!user) {
+      throw new UnauthorizedError('User not found')
+    }
+
+    req.user = user
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Get user from request (throws if not present)
+ */
+export function getUserFromRequest(req: Request) {
+  if (!req.user) {
+    throw new UnauthorizedError()
+  }
+  return req.user
+}
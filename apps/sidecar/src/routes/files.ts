@@ -1,31 +1,99 @@
 /**
  * File Operations Routes
- * Handles file-related operations for tasks
+ * List, read, write, rename and delete the files of a task bundle
  */
 
 import { Router } from 'express'
-import { getAuth } from '@clerk/express'
-import { UnauthorizedError } from '../lib/errors'
+import { HTTP_STATUS } from '@repo/types'
+import { TaskFileService } from '../services/task-file.service'
+import { attachUser, getUserFromRequest } from '../middleware/auth'
+import { validateBody, validateQuery } from '../middleware/validation'
+import {
+  taskIdQuerySchema,
+  filePathQuerySchema,
+  writeFileSchema,
+  renameFileSchema,
+  type TaskIdQuery,
+  type FilePathQuery,
+  type WriteFileInput,
+  type RenameFileInput,
+} from '../lib/schemas'
 
 export const fileRouter = Router()
 
+// Resolve the database user for all routes
+fileRouter.use(attachUser)
+
 /**
- * GET /api/files/list
- * List available files (placeholder for future implementation)
+ * GET /api/files/list?taskId=
+ * List all files in a task bundle
  */
-fileRouter.get('/list', async (req, res, next) => {
+fileRouter.get('/list', validateQuery(taskIdQuerySchema), async (req, res, next) => {
   try {
-    const { userId } = getAuth(req)
+    const user = getUserFromRequest(req)
+    const { taskId } = req.validatedQuery as TaskIdQuery
+    const files = await TaskFileService.listFiles(taskId, user)
+    res.json({ files })
+  } catch (error) {
+    next(error)
+  }
+})
 
-    if (!userId) {
-      throw new UnauthorizedError()
-    }
+/**
+ * GET /api/files/read?taskId=&path=
+ * Read a single file (text as utf8, binary as base64)
+ */
+fileRouter.get('/read', validateQuery(filePathQuerySchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { taskId, path } = req.validatedQuery as FilePathQuery
+    const file = await TaskFileService.readFile(taskId, path, user)
+    res.json({ file })
+  } catch (error) {
+    next(error)
+  }
+})
 
-    // TODO: Implement file listing logic
-    res.json({
-      files: [],
-      message: 'File operations endpoint - ready for implementation',
-    })
+/**
+ * PUT /api/files/write
+ * Create or replace a file
+ */
+fileRouter.put('/write', validateBody(writeFileSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const input = req.validatedBody as WriteFileInput
+    const file = await TaskFileService.writeFile(input.taskId, input, user)
+    res.json({ file })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/files/rename
+ * Rename (move) a file within the task bundle
+ */
+fileRouter.post('/rename', validateBody(renameFileSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { taskId, from, to } = req.validatedBody as RenameFileInput
+    const file = await TaskFileService.renameFile(taskId, from, to, user)
+    res.json({ file })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * DELETE /api/files/delete?taskId=&path=
+ * Delete a file from the task bundle
+ */
+fileRouter.delete('/delete', validateQuery(filePathQuerySchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { taskId, path } = req.validatedQuery as FilePathQuery
+    await TaskFileService.deleteFile(taskId, path, user)
+    res.status(HTTP_STATUS.NO_CONTENT).send()
   } catch (error) {
     next(error)
   }
@@ -0,0 +1,170 @@
+/**
+ * Task Run Routes
+ * Queue and cancel task runs and read their results
+ */
+
+import { Router } from 'express'
+import { HTTP_STATUS } from '@repo/types'
+import { TaskRunService } from '../services/task-run.service'
+import { runEventHub } from '../lib/run-events'
+import { openEventStream } from '../lib/sse'
+import { attachUser, getUserFromRequest } from '../middleware/auth'
+import { validateBody, validateQuery, validateParams } from '../middleware/validation'
+import {
+  startRunSchema,
+  runQuerySchema,
+  testResultComparisonQuerySchema,
+  runIdParamSchema,
+  type StartRunInput,
+  type RunQuery,
+  type TestResultComparisonQuery,
+  type RunIdParam,
+} from '../lib/schemas'
+
+export const runRouter = Router()
+
+// Resolve the database user for all routes
+runRouter.use(attachUser)
+
+/**
+ * POST /api/runs
+ * Start a run of a task version (latest by default) in oracle, verification or stability mode
+ */
+runRouter.post('/', validateBody(startRunSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const run = await TaskRunService.startRun(req.validatedBody as StartRunInput, user)
+    res.status(HTTP_STATUS.ACCEPTED).json({ run })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/runs?taskId=&mode=
+ * List a task's runs, newest first
+ */
+runRouter.get('/', validateQuery(runQuerySchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { taskId, mode } = req.validatedQuery as RunQuery
+    const runs = await TaskRunService.listRuns(taskId, user, mode)
+    res.json({ runs })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/runs/latest?taskId=&mode=
+ * Get a task's most recent run
+ */
+runRouter.get('/latest', validateQuery(runQuerySchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { taskId, mode } = req.validatedQuery as RunQuery
+    const run = await TaskRunService.getLatestRun(taskId, user, mode)
+    res.json({ run })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/runs/compare?taskId=&from=&to=
+ * Compare the test results of two task versions
+ */
+runRouter.get('/compare', validateQuery(testResultComparisonQuerySchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { taskId, from, to } = req.validatedQuery as TestResultComparisonQuery
+    const comparison = await TaskRunService.compareTestResults(taskId, user, from, to)
+    res.json({ comparison })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/runs/:id
+ * Get a single run
+ */
+runRouter.get('/:id', validateParams(runIdParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.validatedParams as RunIdParam
+    const run = await TaskRunService.getRun(id, user)
+    res.json({ run })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/runs/:id/cancel
+ * Cancel a queued or running run
+ */
+runRouter.post('/:id/cancel', validateParams(runIdParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.validatedParams as RunIdParam
+    const run = await TaskRunService.cancelRun(id, user)
+    res.json({ run })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/runs/:id/events
+ * Stream a run's stages, output and status as Server-Sent Events
+ * Clients that reconnect send Last-Event-ID and receive only what they missed
+ * while the run is live in this process; otherwise the recorded run is replayed
+ * from its first event.
+ */
+runRouter.get('/:id/events', validateParams(runIdParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.validatedParams as RunIdParam
+    const run = await TaskRunService.getRun(id, user)
+    const lastEventId = Number(req.get('Last-Event-ID')) || 0
+
+    const stream = openEventStream(req, res)
+    const unsubscribe = runEventHub.subscribe(
+      run.id,
+      lastEventId,
+      ({ id: eventId, event }) => stream.send(eventId, event.type, event),
+      () => stream.close()
+    )
+
+    if (unsubscribe) {
+      req.on('close', unsubscribe)
+      return
+    }
+
+    // Not running in this process: replay what was recorded, from the start.
+    // Stored events are numbered apart from live ones, so Last-Event-ID does not
+    // apply; ids starting over tell the client to drop what it received live.
+    TaskRunService.getStoredEvents(run).forEach((event, index) => {
+      stream.send(index + 1, event.type, event)
+    })
+    stream.close()
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/runs/:id/recording
+ * Download a run's terminal recording as an asciicast file
+ */
+runRouter.get('/:id/recording', validateParams(runIdParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.validatedParams as RunIdParam
+    const { fileName, data } = await TaskRunService.getRecording(id, user)
+    res.type('application/x-asciicast').attachment(fileName).send(data)
+  } catch (error) {
+    next(error)
+  }
+})
@@ -0,0 +1,52 @@
+/**
+ * Terminal Routes
+ * Open interactive terminal sessions into task environments and read their transcripts
+ * The sessions themselves run over WebSockets (see lib/terminal-socket).
+ */
+
+import { Router } from 'express'
+import { HTTP_STATUS } from '@repo/types'
+import { TerminalSessionService } from '../services/terminal-session.service'
+import { attachUser, getUserFromRequest } from '../middleware/auth'
+import { validateBody, validateParams } from '../middleware/validation'
+import {
+  openTerminalSchema,
+  terminalIdParamSchema,
+  type OpenTerminalInput,
+  type TerminalIdParam,
+} from '../lib/schemas'
+
+export const terminalRouter = Router()
+
+// Resolve the database user for all routes
+terminalRouter.use(attachUser)
+
+/**
+ * POST /api/terminals
+ * Open a terminal session into the latest version of a task (reviewers only)
+ */
+terminalRouter.post('/', validateBody(openTerminalSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { taskId } = req.validatedBody as OpenTerminalInput
+    const session = await TerminalSessionService.openSession(taskId, user)
+    res.status(HTTP_STATUS.CREATED).json({ session })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/terminals/:id/transcript
+ * Download a finished session's transcript as an asciicast file
+ */
+terminalRouter.get('/:id/transcript', validateParams(terminalIdParamSchema), async (req, res, next) => {
+  try {
+    const user = getUserFromRequest(req)
+    const { id } = req.validatedParams as TerminalIdParam
+    const { fileName, data } = await TerminalSessionService.getTranscript(id, user)
+    res.type('application/x-asciicast').attachment(fileName).send(data)
+  } catch (error) {
+    next(error)
+  }
+})
@@ -0,0 +1,560 @@
+/**
+ * Task File Service
+ * Lists, reads and writes the files that make up a Terminal-Bench task bundle
+ *
+ * Files live in the configured storage backend under `<taskId>/<path>`.
+ * The text columns on Task stay authoritative for the files they model:
+ * they are synced into storage before every operation, and writes to those
+ * files are written back to the columns. Files without a column (binary test
+ * fixtures, Dockerfile) only exist in storage; the task lists them in
+ * storageOnlyFiles so services without storage access know they exist, and
+ * their content is kept by hash so each version can be run as it was.
+ * Every write goes through the same path as TaskService.updateTask: task.yaml
+ * is reconciled with the columns it duplicates and validated, and a new task
+ * version is snapshotted.
+ */
+
+import path from 'path'
+import crypto from 'crypto'
+import { prisma, AuditAction, Prisma } from '@repo/db'
+import type { Task as DbTask, TaskHistory, User } from '@repo/db'
+import {
+  TaskState,
+  Difficulty,
+  TaskFileColumn,
+  TaskFileInfo,
+  TaskFileContent,
+  TestFile,
+  StorageOnlyFile,
+  TASK_FILE_COLUMNS,
+  TESTS_DIR,
+  EXTRA_TASK_FILES,
+  FILE_MODES,
+  MAX_TASK_FILE_SIZE,
+  ERROR_MESSAGES,
+  canEditTask,
+  parseTestFiles,
+  parseStorageOnlyFiles,
+  normalizeTestFiles,
+  getDefaultFileMode,
+  syncTaskYamlEdit,
+  validateTaskYaml,
+} from '@repo/types'
+import {
+  NotFoundError,
+  ForbiddenError,
+  BadRequestError,
+  ConflictError,
+  ValidationError,
+} from '../lib/errors'
+import { getStorageBackend, StoredObject } from '../lib/storage'
+import type { WriteFileInput } from '../lib/schemas'
+
+/**
+ * Normalize a task-relative path and check it is a file a task bundle may contain
+ */
+export function normalizeTaskFilePath(filePath: string): string {
+  if (filePath.includes('\0')) {
+    throw new BadRequestError('Invalid file path')
+  }
+
+  const slashed = filePath.replace(/\\/g, '/')
+  if (slashed.startsWith('/')) {
+    throw new BadRequestError('File path must be relative to the task root')
+  }
+  if (slashed.split('/').includes('..')) {
+    throw new BadRequestError('File path must not contain ".." segments')
+  }
+
+  const normalized = path.posix.normalize(slashed).replace(/\/+$/, '')
+  const isTopLevel = normalized in TASK_FILE_COLUMNS ||
+    (EXTRA_TASK_FILES as readonly string[]).includes(normalized)
+  const isTestFile = normalized.startsWith(`${TESTS_DIR}/`) &&
+    normalized.length > TESTS_DIR.length + 1
+
+  if (!isTopLevel && !isTestFile) {
+    throw new BadRequestError(
+      `"${filePath}" is not part of a task bundle. Allowed: ${[
+        ...Object.keys(TASK_FILE_COLUMNS),
+        ...EXTRA_TASK_FILES,
+        `${TESTS_DIR}/*`,
+      ].join(', ')}`
+    )
+  }
+
+  return normalized
+}
+
+/**
+ * Check whether a buffer round-trips as UTF-8 text
+ */
+function isText(data: Buffer): boolean {
+  return !data.includes(0) && Buffer.from(data.toString('utf8'), 'utf8').equals(data)
+}
+
+function getColumnForPath(filePath: string): TaskFileColumn | null {
+  return (TASK_FILE_COLUMNS as Record<string, TaskFileColumn>)[filePath] ?? null
+}
+
+function isTestPath(filePath: string): boolean {
+  return filePath.startsWith(`${TESTS_DIR}/`)
+}
+
+/**
+ * Record a new version of a task, as TaskHistoryService.createSnapshot does
+ */
+async function createSnapshot(task: DbTask, changedBy: string): Promise<void> {
+  const latest = await prisma.taskHistory.findFirst({
+    where: { taskId: task.id },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })
+
+  await prisma.taskHistory.create({
+    data: {
+      taskId: task.id,
+      version: (latest?.version || 0) + 1,
+      state: task.state,
+      title: task.title,
+      instruction: task.instruction,
+      difficulty: task.difficulty,
+      categories: task.categories,
+      maxAgentTimeoutSec: task.maxAgentTimeoutSec,
+      maxTestTimeoutSec: task.maxTestTimeoutSec,
+      cpuLimit: task.cpuLimit,
+      memoryLimitMb: task.memoryLimitMb,
+      diskLimitMb: task.diskLimitMb,
+      networkPolicy: task.networkPolicy,
+      taskYaml: task.taskYaml,
+      dockerComposeYaml: task.dockerComposeYaml,
+      solutionSh: task.solutionSh,
+      runTestsSh: task.runTestsSh,
+      testFiles: task.testFiles as Prisma.InputJsonValue,
+      storageOnlyFiles: task.storageOnlyFiles as Prisma.InputJsonValue,
+      changedBy,
+      changeType: 'updated',
+    },
+  })
+}
+
+export class TaskFileService {
+  private static storageKey(taskId: string, filePath: string): string {
+    return `${taskId}/${filePath}`
+  }
+
+  private static toFileInfo(taskId: string, object: StoredObject): TaskFileInfo {
+    return {
+      path: object.key.slice(taskId.length + 1),
+      size: object.size,
+      mode: object.mode,
+      updatedAt: object.updatedAt.toISOString(),
+    }
+  }
+
+  /**
+   * Load a task the user may read (author or reviewer, as in TaskService.getTaskById)
+   */
+  static async getReadableTask(taskId: string, user: User): Promise<DbTask> {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+    })
+
+    if (!task) {
+      throw new NotFoundError('Task')
+    }
+
+    if (task.authorId !== user.id && user.role !== 'REVIEWER') {
+      throw new ForbiddenError()
+    }
+
+    return task
+  }
+
+  /**
+   * Load a task the user may modify (author only, editable states only)
+   */
+  private static async getWritableTask(taskId: string, user: User): Promise<DbTask> {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+    })
+
+    if (!task) {
+      throw new NotFoundError('Task')
+    }
+
+    if (task.authorId !== user.id) {
+      throw new ForbiddenError(ERROR_MESSAGES.FORBIDDEN_AUTHOR_ONLY)
+    }
+
+    if (!canEditTask(task.state as TaskState)) {
+      throw new BadRequestError(
+        `Task files cannot be edited in ${task.state} state. Only DRAFT and CHANGES_REQUESTED tasks can be edited.`
+      )
+    }
+
+    return task
+  }
+
+  /**
+   * Bring storage in line with the Task columns
+   * Column-backed files are created, replaced or removed to match the task;
+   * test files not present in testFiles are removed unless they are binary.
+   * Storage-only files the task lists but storage lacks (as after an import)
+   * are written from their stored content.
+   */
+  private static async syncFromColumns(task: DbTask): Promise<void> {
+    const storage = getStorageBackend()
+
+    const listed = parseStorageOnlyFiles(task.storageOnlyFiles)
+    const absent: StorageOnlyFile[] = []
+    for (const file of listed) {
+      if (file.sha256 && !(await storage.stat(this.storageKey(task.id, file.path)))) {
+        absent.push(file)
+      }
+    }
+    if (absent.length > 0) {
+      const blobs = await prisma.taskFileBlob.findMany({
+        where: { sha256: { in: absent.map(file => file.sha256!) } },
+      })
+      const contents = new Map(blobs.map(blob => [blob.sha256, Buffer.from(blob.data)]))
+      for (const file of absent) {
+        const data = contents.get(file.sha256!)
+        if (data) {
+          await storage.write(this.storageKey(task.id, file.path), data, file.mode)
+        }
+      }
+    }
+
+    for (const [fileName, column] of Object.entries(TASK_FILE_COLUMNS)) {
+      const key = this.storageKey(task.id, fileName)
+      const value = task[column as TaskFileColumn]
+
+      if (value === null) {
+        await storage.delete(key)
+        continue
+      }
+
+      const current = await storage.read(key)
+      if (!current || current.toString('utf8') !== value) {
+        await storage.write(key, Buffer.from(value, 'utf8'), getDefaultFileMode(fileName))
+      }
+    }
+
+    const testFiles = parseTestFiles(task.testFiles)
+
+    const expected = new Map(testFiles.map(file => [`${TESTS_DIR}/${file.path}`, file]))
+    const stored = await storage.list(this.storageKey(task.id, TESTS_DIR))
+
+    for (const object of stored) {
+      const filePath = object.key.slice(task.id.length + 1)
+      if (expected.has(filePath)) continue
+      const data = await storage.read(object.key)
+      if (data && isText(data)) {
+        await storage.delete(object.key)
+      }
+    }
+
+    const storedModes = new Map(stored.map(object => [object.key, object.mode]))
+
+    for (const [filePath, file] of expected) {
+      const key = this.storageKey(task.id, filePath)
+      const current = await storage.read(key)
+      if (!current || current.toString('utf8') !== file.content || storedModes.get(key) !== file.mode) {
+        await storage.write(key, Buffer.from(file.content, 'utf8'), file.mode)
+      }
+    }
+  }
+
+  /**
+   * Rebuild the testFiles column from the text files under tests/ in storage
+   */
+  private static async collectTestFiles(taskId: string): Promise<TestFile[]> {
+    const storage = getStorageBackend()
+    const objects = await storage.list(this.storageKey(taskId, TESTS_DIR))
+    const files: TestFile[] = []
+
+    for (const object of objects) {
+      const data = await storage.read(object.key)
+      if (!data || !isText(data)) continue
+      const filePath = object.key.slice(`${taskId}/${TESTS_DIR}/`.length)
+      files.push({
+        path: filePath,
+        content: data.toString('utf8'),
+        mode: object.mode,
+      })
+    }
+
+    return normalizeTestFiles(files)
+  }
+
+  /**
+   * Write changed files back to the Task columns, snapshot the new version
+   * and record an audit entry
+   * task.yaml is reconciled and validated as in TaskService.updateTask; when
+   * it is invalid, storage is put back in line with the unchanged task.
+   */
+  private static async writeBack(
+    task: DbTask,
+    changedPaths: string[],
+    user: User,
+    action: 'write' | 'rename' | 'delete'
+  ): Promise<void> {
+    const storage = getStorageBackend()
+    const data: Partial<Record<TaskFileColumn, string | null>> & { testFiles?: Prisma.InputJsonValue } = {}
+
+    for (const filePath of changedPaths) {
+      const column = getColumnForPath(filePath)
+      if (column) {
+        const content = await storage.read(this.storageKey(task.id, filePath))
+        data[column] = content ? content.toString('utf8') : null
+      } else if (isTestPath(filePath)) {
+        data.testFiles = (await this.collectTestFiles(task.id)) as unknown as Prisma.InputJsonValue
+      }
+    }
+
+    const { edit, sources: taskYamlSync } = syncTaskYamlEdit(
+      { ...task, difficulty: task.difficulty as Difficulty },
+      data
+    )
+    const storageOnlyFiles = await this.storeStorageOnlyFiles(task.id)
+
+    const taskYaml = edit.taskYaml !== undefined ? edit.taskYaml : task.taskYaml
+    const issues = taskYaml && taskYaml.trim() ? validateTaskYaml(taskYaml) : []
+    if (issues.length > 0) {
+      await this.syncFromColumns(task)
+      throw new ValidationError(
+        ERROR_MESSAGES.VALIDATION_ERROR,
+        issues.map(issue => ({ ...issue, path: ['taskYaml', ...issue.path] }))
+      )
+    }
+
+    const updates = Object.keys(edit)
+    const updated = await prisma.task.update({
+      where: { id: task.id },
+      data: { ...edit, storageOnlyFiles: storageOnlyFiles as unknown as Prisma.InputJsonValue },
+    })
+
+    // Columns task.yaml won, or task.yaml itself, may now differ from what was written
+    if (Object.keys(taskYamlSync).length > 0) {
+      await this.syncFromColumns(updated)
+    }
+
+    await Promise.all([
+      prisma.auditLog.create({
+        data: {
+          action: AuditAction.TASK_UPDATED,
+          entityType: 'task',
+          entityId: task.id,
+          userId: user.id,
+          userName: user.name || undefined,
+          userEmail: user.email,
+          metadata: {
+            source: 'files',
+            fileAction: action,
+            paths: changedPaths,
+            updates,
+            previousState: task.state,
+            currentState: updated.state,
+            ...(Object.keys(taskYamlSync).length > 0 && { taskYamlSync }),
+          },
+        },
+      }),
+      // Storage-only files are part of the version too, so every write is a new version
+      createSnapshot(updated, user.id),
+    ])
+  }
+
+  /**
+   * Read the files that only exist in storage (Dockerfile, binary test fixtures)
+   * Everything else in a task bundle comes from the Task columns.
+   */
+  static async readStorageOnlyFiles(taskId: string): Promise<Array<{ path: string; data: Buffer; mode: number }>> {
+    const storage = getStorageBackend()
+    const objects = await storage.list(taskId)
+    const files: Array<{ path: string; data: Buffer; mode: number }> = []
+
+    for (const object of objects) {
+      const filePath = object.key.slice(taskId.length + 1)
+      if (getColumnForPath(filePath)) continue
+
+      const data = await storage.read(object.key)
+      if (!data || (isTestPath(filePath) && isText(data))) continue
+      files.push({ path: filePath, data, mode: object.mode })
+    }
+
+    return files
+  }
+
+  /**
+   * Keep the content of the task's storage-only files and list them with their hashes
+   * Content is stored once per hash, so every version listing a file can still
+   * be materialized after the file changes in storage.
+   */
+  private static async storeStorageOnlyFiles(taskId: string): Promise<StorageOnlyFile[]> {
+    const files = (await this.readStorageOnlyFiles(taskId)).map(file => ({
+      ...file,
+      sha256: crypto.createHash('sha256').update(file.data).digest('hex'),
+    }))
+
+    if (files.length > 0) {
+      await prisma.taskFileBlob.createMany({
+        data: files.map(file => ({ sha256: file.sha256, data: file.data, size: file.data.length })),
+        skipDuplicates: true,
+      })
+    }
+
+    return files.map(file => ({ path: file.path, size: file.data.length, mode: file.mode, sha256: file.sha256 }))
+  }
+
+  /**
+   * Refuse a task version whose storage-only files are not all stored
+   * Entries recorded before content was kept have no hash.
+   */
+  private static assertVersionFilesStored(snapshot: TaskHistory, files: StorageOnlyFile[], stored: Set<string>): void {
+    const missing = files.filter(file => !file.sha256 || !stored.has(file.sha256))
+    if (missing.length > 0) {
+      throw new ValidationError(
+        ERROR_MESSAGES.TASK_FILES_NOT_STORED,
+        missing.map(file => ({ path: [file.path], message: `Content of ${file.path} in version ${snapshot.version} is not stored` }))
+      )
+    }
+  }
+
+  /**
+   * Check that a task version can be materialized, before queueing a run of it
+   */
+  static async checkVersionFiles(snapshot: TaskHistory): Promise<void> {
+    const files = parseStorageOnlyFiles(snapshot.storageOnlyFiles)
+    const hashes = files.flatMap(file => (file.sha256 ? [file.sha256] : []))
+    const blobs = hashes.length > 0
+      ? await prisma.taskFileBlob.findMany({ where: { sha256: { in: hashes } }, select: { sha256: true } })
+      : []
+
+    this.assertVersionFilesStored(snapshot, files, new Set(blobs.map(blob => blob.sha256)))
+  }
+
+  /**
+   * Read the storage-only files of a task version from their stored content
+   */
+  static async readVersionFiles(snapshot: TaskHistory): Promise<Array<{ path: string; data: Buffer; mode: number }>> {
+    const files = parseStorageOnlyFiles(snapshot.storageOnlyFiles)
+    const hashes = files.flatMap(file => (file.sha256 ? [file.sha256] : []))
+    const blobs = hashes.length > 0
+      ? await prisma.taskFileBlob.findMany({ where: { sha256: { in: hashes } } })
+      : []
+    const contents = new Map(blobs.map(blob => [blob.sha256, Buffer.from(blob.data)]))
+
+    this.assertVersionFilesStored(snapshot, files, new Set(contents.keys()))
+    return files.map(file => ({ path: file.path, data: contents.get(file.sha256!)!, mode: file.mode }))
+  }
+
+  /**
+   * List all files in a task bundle
+   */
+  static async listFiles(taskId: string, user: User): Promise<TaskFileInfo[]> {
+    const task = await this.getReadableTask(taskId, user)
+    await this.syncFromColumns(task)
+
+    const objects = await getStorageBackend().list(task.id)
+    return objects.map(object => this.toFileInfo(task.id, object))
+  }
+
+  /**
+   * Read a single file (text files as utf8, everything else as base64)
+   */
+  static async readFile(taskId: string, filePath: string, user: User): Promise<TaskFileContent> {
+    const normalized = normalizeTaskFilePath(filePath)
+    const task = await this.getReadableTask(taskId, user)
+    await this.syncFromColumns(task)
+
+    const storage = getStorageBackend()
+    const key = this.storageKey(task.id, normalized)
+    const [object, data] = await Promise.all([storage.stat(key), storage.read(key)])
+
+    if (!object || !data) {
+      throw new NotFoundError('File')
+    }
+
+    const text = isText(data)
+    return {
+      ...this.toFileInfo(task.id, object),
+      encoding: text ? 'utf8' : 'base64',
+      content: data.toString(text ? 'utf8' : 'base64'),
+    }
+  }
+
+  /**
+   * Create or replace a file
+   */
+  static async writeFile(taskId: string, input: WriteFileInput, user: User): Promise<TaskFileInfo> {
+    const normalized = normalizeTaskFilePath(input.path)
+    const task = await this.getWritableTask(taskId, user)
+    await this.syncFromColumns(task)
+
+    const data = Buffer.from(input.content, input.encoding)
+    if (data.length > MAX_TASK_FILE_SIZE) {
+      throw new BadRequestError(`File exceeds the maximum size of ${MAX_TASK_FILE_SIZE} bytes`)
+    }
+    if (getColumnForPath(normalized) && !isText(data)) {
+      throw new BadRequestError(`${normalized} must be a UTF-8 text file`)
+    }
+
+    const mode = input.executable === undefined
+      ? getDefaultFileMode(normalized)
+      : input.executable ? FILE_MODES.EXECUTABLE : FILE_MODES.FILE
+
+    const object = await getStorageBackend().write(this.storageKey(task.id, normalized), data, mode)
+    await this.writeBack(task, [normalized], user, 'write')
+
+    return this.toFileInfo(task.id, object)
+  }
+
+  /**
+   * Rename (move) a file within the task bundle
+   */
+  static async renameFile(taskId: string, from: string, to: string, user: User): Promise<TaskFileInfo> {
+    const fromPath = normalizeTaskFilePath(from)
+    const toPath = normalizeTaskFilePath(to)
+    const task = await this.getWritableTask(taskId, user)
+    await this.syncFromColumns(task)
+
+    const storage = getStorageBackend()
+    const fromKey = this.storageKey(task.id, fromPath)
+    const toKey = this.storageKey(task.id, toPath)
+
+    const source = await storage.read(fromKey)
+    if (!source) {
+      throw new NotFoundError('File')
+    }
+    if (fromPath === toPath) {
+      return this.toFileInfo(task.id, (await storage.stat(fromKey))!)
+    }
+    if (await storage.stat(toKey)) {
+      throw new ConflictError(`${toPath} already exists`)
+    }
+    if (getColumnForPath(toPath) && !isText(source)) {
+      throw new BadRequestError(`${toPath} must be a UTF-8 text file`)
+    }
+
+    await storage.rename(fromKey, toKey)
+    await this.writeBack(task, [fromPath, toPath], user, 'rename')
+
+    return this.toFileInfo(task.id, (await storage.stat(toKey))!)
+  }
+
+  /**
+   * Delete a file from the task bundle
+   */
+  static async deleteFile(taskId: string, filePath: string, user: User): Promise<void> {
+    const normalized = normalizeTaskFilePath(filePath)
+    const task = await this.getWritableTask(taskId, user)
+    await this.syncFromColumns(task)
+
+    const deleted = await getStorageBackend().delete(this.storageKey(task.id, normalized))
+    if (!deleted) {
+      throw new NotFoundError('File')
+    }
+
+    await this.writeBack(task, [normalized], user, 'delete')
+  }
+}
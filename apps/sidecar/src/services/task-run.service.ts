@@ -0,0 +1,737 @@
+/**
+ * Task Run Service
+ * Executes a task version's solution and tests in a sandbox and records the outcome
+ *
+ * A run materializes a task version (a TaskHistory snapshot) into a temporary
+ * directory, runs solution.sh under the agent timeout and then run-tests.sh
+ * under the test timeout, and stores each script's result on the TaskRun.
+ * A verification run first runs run-tests.sh on a separate, untouched
+ * environment (the "null agent") and records whether the tests tell the two
+ * apart. A stability run repeats the oracle run, each time in a fresh
+ * environment, and stores per-test pass rates with the task version.
+ * Runs wait in runQueue and execute in the background; clients poll the run
+ * for its status or follow its live events (stages, output and status)
+ * through runEventHub. A run is killed when it is cancelled, when it
+ * exceeds the sum of its scripts' timeouts plus time to set up its sandboxes,
+ * or when it writes more to disk than the task version allows. The version's
+ * other resource limits are applied by the execution backend. The output of
+ * the scripts is also recorded as an asciicast, stored with the run once it
+ * finishes.
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { prisma, Prisma, RunMode, RunVerdict } from '@repo/db'
+import type { TaskHistory, User } from '@repo/db'
+import {
+  TaskFileColumn,
+  RunStatus,
+  RunEvent,
+  RunPhase,
+  RunStage,
+  RunPhaseResult,
+  RunTestResult,
+  TestResultComparison,
+  VersionTestResults,
+  NetworkPolicy,
+  TASK_FILE_COLUMNS,
+  TESTS_DIR,
+  ACTIVE_RUN_STATUSES,
+  DEFAULT_STABILITY_ITERATIONS,
+  ERROR_MESSAGES,
+  parseTestFiles,
+  getDefaultFileMode,
+  lintDockerCompose,
+} from '@repo/types'
+import { NotFoundError, ConflictError, ForbiddenError, ValidationError } from '../lib/errors'
+import {
+  getExecutionBackend,
+  getExecutionWorkDir,
+  ExecutionBackend,
+  ExecutionSandbox,
+  ScriptRun,
+} from '../lib/executor'
+import { parseTestOutput, diffTestResults } from '../lib/test-output'
+import { buildStabilityReport, StabilityIteration } from '../lib/stability'
+import { runEventHub } from '../lib/run-events'
+import { runQueue, getRunHeartbeatTimeoutMs, RunStopReason } from '../lib/run-queue'
+import { AsciicastRecorder } from '../lib/recording'
+import { getStorageBackend } from '../lib/storage'
+import type { StartRunInput } from '../lib/schemas'
+import { TaskFileService } from './task-file.service'
+
+const RUN_INCLUDE = {
+  triggeredBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const
+
+/**
+ * Sandbox locations of the scripts (as in the Terminal-Bench harness)
+ */
+const SOLUTION_PATH = '/oracle/solution.sh'
+const TEST_DIR = '/tests'
+
+async function writeTaskFile(taskDir: string, filePath: string, data: Buffer | string, mode: number): Promise<void> {
+  const fullPath = path.join(taskDir, filePath)
+  await fs.mkdir(path.dirname(fullPath), { recursive: true })
+  await fs.writeFile(fullPath, data)
+  await fs.chmod(fullPath, mode)
+}
+
+/**
+ * Whether a run-tests.sh phase passed: exit 0 with no failed test cases
+ */
+function testsPassed(exitCode: number | null, testResults: RunTestResult[]): boolean {
+  return exitCode === 0 && testResults.every(result => result.status !== 'failed')
+}
+
+/**
+ * Verdict of a verification run
+ * Tests that time out without the solution count as failing.
+ */
+function getRunVerdict(oraclePassed: boolean, nullPassed: boolean): RunVerdict {
+  if (!oraclePassed) {
+    return RunVerdict.ORACLE_FAILED
+  }
+  return nullPassed ? RunVerdict.VACUOUS : RunVerdict.DISCRIMINATING
+}
+
+/**
+ * Overall status of a finished run
+ * What "passed" means depends on the mode: the oracle's tests passed, the
+ * tests discriminate, or every repetition was stable.
+ */
+function getRunStatus(phases: RunPhaseResult[], passed: boolean): RunStatus {
+  if (phases.some(phase => phase.phase !== 'null-tests' && phase.timedOut)) {
+    return RunStatus.TIMED_OUT
+  }
+  return passed ? RunStatus.PASSED : RunStatus.FAILED
+}
+
+/**
+ * Statuses of runs that executed their tests to the end or until they timed out
+ */
+const COMPLETED_RUN_STATUSES: RunStatus[] = [RunStatus.PASSED, RunStatus.FAILED, RunStatus.TIMED_OUT]
+
+/**
+ * Longest a run may execute before it is killed, in seconds
+ */
+function getRunTimeLimitSec(
+  run: { mode: RunMode; iterations: number },
+  snapshot: TaskHistory,
+  backend: ExecutionBackend
+): number {
+  const oracleRuns = run.mode === RunMode.STABILITY ? run.iterations : 1
+  const nullRuns = run.mode === RunMode.VERIFICATION ? 1 : 0
+  const scriptsSec =
+    oracleRuns * (snapshot.maxAgentTimeoutSec + snapshot.maxTestTimeoutSec) + nullRuns * snapshot.maxTestTimeoutSec
+  return scriptsSec + (oracleRuns + nullRuns) * backend.setupTimeoutSec
+}
+
+/**
+ * How often a sandbox's disk usage is checked against the task's disk limit
+ */
+const DISK_CHECK_INTERVAL_MS = 15_000
+
+/**
+ * Size of the terminal recordings are made for, in columns and rows
+ */
+const RECORDING_WIDTH = 120
+const RECORDING_HEIGHT = 30
+
+/**
+ * Markers the recording of each phase starts with
+ */
+const RECORDING_MARKERS: Record<RunPhase, string> = {
+  'null-tests': 'Tests without solution',
+  solution: 'Solution',
+  tests: 'Tests',
+}
+
+function getRecordingKey(runId: string): string {
+  return `runs/${runId}/recording.cast`
+}
+
+type RunWithStatus = { id: string; status: string }
+
+const RUN_STOP_MESSAGES = {
+  dequeued: 'Run was cancelled before it started',
+  cancelled: 'Run was cancelled',
+  timeout: (limitSec: number) => `Run was killed after exceeding its time limit of ${limitSec}s`,
+  diskLimit: (limitMb: number) => `Run was killed after exceeding its disk limit of ${limitMb} MB`,
+}
+
+export class TaskRunService {
+  /**
+   * Queue a run of a task version (the latest when no version is given)
+   * Returns immediately; the run executes in the background once the queue
+   * has capacity for it.
+   */
+  static async startRun(input: StartRunInput, user: User) {
+    const { taskId, version, mode } = input
+    const task = await TaskFileService.getReadableTask(taskId, user)
+
+    const snapshot = await prisma.taskHistory.findFirst({
+      where: {
+        taskId: task.id,
+        ...(version !== undefined && { version }),
+      },
+      orderBy: { version: 'desc' },
+    })
+
+    if (!snapshot) {
+      throw new NotFoundError('Task version')
+    }
+
+    this.assertSafeEnvironment(snapshot)
+    await TaskFileService.checkVersionFiles(snapshot)
+
+    const active = await prisma.taskRun.findFirst({
+      where: { taskId: task.id, status: { in: ACTIVE_RUN_STATUSES } },
+      select: { id: true },
+    })
+
+    if (active) {
+      throw new ConflictError(ERROR_MESSAGES.RUN_ALREADY_ACTIVE)
+    }
+
+    const run = await prisma.taskRun.create({
+      data: {
+        taskId: task.id,
+        version: snapshot.version,
+        mode,
+        iterations: mode === RunMode.STABILITY ? input.iterations ?? DEFAULT_STABILITY_ITERATIONS : 1,
+        runtime: getExecutionBackend().name,
+        triggeredById: user.id,
+      },
+      include: RUN_INCLUDE,
+    })
+
+    runEventHub.open(run.id)
+    runQueue.notify()
+
+    const [queued] = await this.withQueuePositions([run])
+    return queued
+  }
+
+  /**
+   * List a task's runs, newest first, optionally of one mode
+   */
+  static async listRuns(taskId: string, user: User, mode?: RunMode, limit = 20) {
+    const task = await TaskFileService.getReadableTask(taskId, user)
+
+    const runs = await prisma.taskRun.findMany({
+      where: { taskId: task.id, ...(mode && { mode }) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: RUN_INCLUDE,
+    })
+    return await this.withQueuePositions(runs)
+  }
+
+  /**
+   * Get a task's most recent run (null if it has never been run)
+   */
+  static async getLatestRun(taskId: string, user: User, mode?: RunMode) {
+    const [latest] = await this.listRuns(taskId, user, mode, 1)
+    return latest ?? null
+  }
+
+  /**
+   * Get a single run
+   */
+  static async getRun(runId: string, user: User) {
+    const run = await prisma.taskRun.findUnique({
+      where: { id: runId },
+      include: RUN_INCLUDE,
+    })
+
+    if (!run) {
+      throw new NotFoundError('Run')
+    }
+
+    await TaskFileService.getReadableTask(run.taskId, user)
+    const [withPosition] = await this.withQueuePositions([run])
+    return withPosition
+  }
+
+  /**
+   * Get the terminal recording of a run as an asciicast file
+   */
+  static async getRecording(runId: string, user: User): Promise<{ fileName: string; data: Buffer }> {
+    const run = await this.getRun(runId, user)
+    const data = run.recording ? await getStorageBackend().read(run.recording) : null
+
+    if (!data) {
+      throw new NotFoundError('Recording')
+    }
+
+    return { fileName: `run-${run.id}.cast`, data }
+  }
+
+  /**
+   * Compare the test results of two task versions
+   * Each version is represented by its latest completed run that reported
+   * tests. Without versions given, the two latest such versions are compared.
+   */
+  static async compareTestResults(
+    taskId: string,
+    user: User,
+    fromVersion?: number,
+    toVersion?: number
+  ): Promise<TestResultComparison> {
+    const task = await TaskFileService.getReadableTask(taskId, user)
+
+    // The latest completed run of each version
+    const latestRuns = await prisma.taskRun.findMany({
+      where: { taskId: task.id, status: { in: COMPLETED_RUN_STATUSES }, NOT: { testResults: { equals: [] } } },
+      orderBy: [{ version: 'desc' }, { createdAt: 'desc' }],
+      distinct: ['version'],
+      select: { id: true, version: true },
+    })
+
+    const versions = latestRuns.map(run => run.version)
+    const to = toVersion ?? versions[0]
+    const from = fromVersion ?? versions.find(version => version < (to ?? 0))
+
+    const load = async (version: number | undefined): Promise<VersionTestResults | null> => {
+      const latest = latestRuns.find(run => run.version === version)
+      if (!latest) return null
+
+      const run = await prisma.taskRun.findUniqueOrThrow({ where: { id: latest.id } })
+      return {
+        version: run.version,
+        runId: run.id,
+        mode: run.mode as VersionTestResults['mode'],
+        status: run.status as RunStatus,
+        finishedAt: run.finishedAt,
+        testResults: run.testResults as unknown as RunTestResult[],
+      }
+    }
+
+    const [fromResults, toResults] = await Promise.all([load(from), load(to)])
+
+    return {
+      versions,
+      from: fromResults,
+      to: toResults,
+      changes: fromResults && toResults ? diffTestResults(fromResults.testResults, toResults.testResults) : [],
+    }
+  }
+
+  /**
+   * Cancel a queued or running run
+   * Only the user who started the run or a reviewer may cancel it. A queued
+   * run is cancelled at once; a running run is killed and then recorded as
+   * cancelled by its worker.
+   */
+  static async cancelRun(runId: string, user: User) {
+    const run = await this.getRun(runId, user)
+
+    if (run.triggeredById !== user.id && user.role !== 'REVIEWER') {
+      throw new ForbiddenError(ERROR_MESSAGES.RUN_CANCEL_FORBIDDEN)
+    }
+
+    const { count: dequeued } = await prisma.taskRun.updateMany({
+      where: { id: run.id, status: RunStatus.QUEUED },
+      data: { status: RunStatus.CANCELLED, error: RUN_STOP_MESSAGES.dequeued, finishedAt: new Date() },
+    })
+
+    if (dequeued > 0) {
+      runEventHub.close(run.id, { type: 'status', status: RunStatus.CANCELLED, error: RUN_STOP_MESSAGES.dequeued })
+      return await this.getRun(run.id, user)
+    }
+
+    const { count: cancelled } = await prisma.taskRun.updateMany({
+      where: { id: run.id, status: RunStatus.RUNNING },
+      data: { cancelRequestedAt: new Date() },
+    })
+
+    if (cancelled === 0) {
+      throw new ConflictError(ERROR_MESSAGES.RUN_NOT_ACTIVE)
+    }
+
+    // Runs executing in another sidecar process are stopped when it next polls
+    runQueue.stop(run.id, 'cancelled')
+    return await this.getRun(run.id, user)
+  }
+
+  /**
+   * A run's events as recorded in the database
+   * Used to replay runs whose live events are no longer held in memory; the
+   * last event is always the run's current status.
+   */
+  static getStoredEvents(run: { status: string; phases: Prisma.JsonValue; error: string | null }): RunEvent[] {
+    const events: RunEvent[] = []
+
+    for (const phase of run.phases as unknown as RunPhaseResult[]) {
+      events.push({
+        type: 'stage',
+        stage: phase.phase,
+        ...(phase.iteration !== undefined && { iteration: phase.iteration }),
+      })
+      if (phase.stdout) events.push({ type: 'output', stream: 'stdout', data: phase.stdout })
+      if (phase.stderr) events.push({ type: 'output', stream: 'stderr', data: phase.stderr })
+    }
+
+    events.push({ type: 'status', status: run.status as RunStatus, error: run.error })
+    return events
+  }
+
+  /**
+   * Mark runs left running by a process that died as errored
+   * Called on startup and then periodically, since executing runs do not
+   * survive a restart. Only runs whose heartbeat has gone stale are touched:
+   * fresh ones are still executing in a sidecar process. Queued runs stay in
+   * the queue.
+   */
+  static async recoverInterruptedRuns(): Promise<number> {
+    const staleBefore = new Date(Date.now() - getRunHeartbeatTimeoutMs())
+    const { count } = await prisma.taskRun.updateMany({
+      where: {
+        status: RunStatus.RUNNING,
+        OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: staleBefore } }],
+      },
+      data: {
+        status: RunStatus.ERROR,
+        error: 'Run was interrupted: the sidecar executing it stopped',
+        finishedAt: new Date(),
+      },
+    })
+    return count
+  }
+
+  /**
+   * Add each queued run's place in the queue
+   */
+  private static async withQueuePositions<T extends RunWithStatus>(runs: T[]): Promise<Array<T & { queuePosition: number | null }>> {
+    const positions = runs.some(run => run.status === RunStatus.QUEUED)
+      ? await runQueue.getPositions()
+      : new Map<string, number>()
+
+    return runs.map(run => ({ ...run, queuePosition: positions.get(run.id) ?? null }))
+  }
+
+  /**
+   * Store a run's recording and link it to the run
+   */
+  private static async saveRecording(runId: string, recorder: AsciicastRecorder): Promise<void> {
+    const key = getRecordingKey(runId)
+    await getStorageBackend().write(key, recorder.toBuffer(), 0o644)
+    await prisma.taskRun.update({ where: { id: runId }, data: { recording: key } })
+  }
+
+  /**
+   * Refuse to build a task version whose docker-compose.yaml has lint errors
+   * Drafts can be run before they are submitted, so the checks submission
+   * enforces (no privileged containers, host network or host bind mounts)
+   * are enforced before anything reaches the container runtime too.
+   */
+  static assertSafeEnvironment(snapshot: TaskHistory): void {
+    if (!snapshot.dockerComposeYaml?.trim()) return
+
+    const errors = lintDockerCompose(snapshot.dockerComposeYaml).filter(issue => issue.severity === 'error')
+    if (errors.length > 0) {
+      throw new ValidationError(
+        ERROR_MESSAGES.TASK_ENVIRONMENT_UNSAFE,
+        errors.map(({ field, ...issue }) => ({ ...issue, path: [field] }))
+      )
+    }
+  }
+
+  /**
+   * Write a task version to disk as a task directory
+   * Storage-only files (Dockerfile, binary fixtures) are written as they were
+   * in that version.
+   */
+  static async materialize(snapshot: TaskHistory, taskDir: string): Promise<void> {
+    const storageOnlyFiles = await TaskFileService.readVersionFiles(snapshot)
+    await fs.mkdir(path.join(taskDir, TESTS_DIR), { recursive: true })
+
+    for (const file of storageOnlyFiles) {
+      await writeTaskFile(taskDir, file.path, file.data, file.mode)
+    }
+
+    for (const [fileName, column] of Object.entries(TASK_FILE_COLUMNS)) {
+      const content = snapshot[column as TaskFileColumn]
+      if (content !== null) {
+        await writeTaskFile(taskDir, fileName, content, getDefaultFileMode(fileName))
+      }
+    }
+
+    for (const file of parseTestFiles(snapshot.testFiles)) {
+      await writeTaskFile(taskDir, `${TESTS_DIR}/${file.path}`, file.content, file.mode)
+    }
+  }
+
+  /**
+   * Execute a run claimed from the queue and record its phases, test results and status
+   * Aborting the controller with a RunStopReason kills the run; the run aborts
+   * itself when it exceeds its time limit.
+   */
+  static async executeRun(runId: string, controller: AbortController): Promise<void> {
+    const run = await prisma.taskRun.findUniqueOrThrow({ where: { id: runId } })
+    const snapshot = await prisma.taskHistory.findFirstOrThrow({
+      where: { taskId: run.taskId, version: run.version },
+    })
+
+    const runDir = path.join(getExecutionWorkDir(), runId)
+    const taskDir = path.join(runDir, 'task')
+    const backend = getExecutionBackend()
+    const signal = controller.signal
+    const phases: RunPhaseResult[] = []
+    let sandbox: ExecutionSandbox | undefined
+    let status: RunStatus = RunStatus.ERROR
+    let runError: string | null = null
+    let recorded = true // false when the run was no longer RUNNING as it finished
+
+    const timeLimitSec = getRunTimeLimitSec(run, snapshot, backend)
+    const deadline = setTimeout(() => controller.abort('timeout' satisfies RunStopReason), timeLimitSec * 1000)
+
+    // Runs queued before a restart have no live channel yet
+    if (!runEventHub.has(runId)) {
+      runEventHub.open(runId)
+    }
+
+    const recorder = new AsciicastRecorder({
+      width: RECORDING_WIDTH,
+      height: RECORDING_HEIGHT,
+      timestamp: Math.floor(Date.now() / 1000),
+      title: `${snapshot.title} v${snapshot.version}`,
+      env: { TERM: 'xterm-256color', SHELL: '/bin/bash' },
+    })
+
+    const publish = (event: RunEvent) => runEventHub.publish(runId, event)
+    const enterStage = (stage: RunStage, iteration?: number) =>
+      publish({ type: 'stage', stage, ...(iteration !== undefined && { iteration }) })
+
+    const limits = {
+      cpuLimit: snapshot.cpuLimit,
+      memoryLimitMb: snapshot.memoryLimitMb,
+      diskLimitMb: snapshot.diskLimitMb,
+      networkPolicy: snapshot.networkPolicy as NetworkPolicy,
+    }
+    let diskCheck: ReturnType<typeof setInterval> | undefined
+
+    // Checks are skipped while the previous one is still measuring
+    const watchDiskUsage = (current: ExecutionSandbox, limitMb: number) => {
+      let measuring = false
+      diskCheck = setInterval(async () => {
+        if (measuring) return
+        measuring = true
+        const usage = await current.getDiskUsage().catch(() => null)
+        measuring = false
+        if (usage !== null && usage > limitMb * 1024 * 1024 && !signal.aborted) {
+          controller.abort('disk-limit' satisfies RunStopReason)
+        }
+      }, DISK_CHECK_INTERVAL_MS)
+    }
+
+    const createSandbox = async (sandboxId: string, iteration?: number) => {
+      signal.throwIfAborted()
+      // Runs queued before these checks were enforced are stopped here
+      this.assertSafeEnvironment(snapshot)
+      enterStage('building', iteration)
+      sandbox = await backend.createSandbox(taskDir, sandboxId, {
+        onOutput: (stream, data) => {
+          recorder.output(data)
+          publish({ type: 'output', stream, data })
+        },
+        signal,
+        limits,
+      })
+      if (limits.diskLimitMb !== null) {
+        watchDiskUsage(sandbox, limits.diskLimitMb)
+      }
+      return sandbox
+    }
+
+    const disposeSandbox = async (iteration?: number) => {
+      clearInterval(diskCheck)
+      if (!sandbox) return
+      const current = sandbox
+      sandbox = undefined
+      enterStage('teardown', iteration)
+      await current.dispose()
+    }
+
+    const runPhase = async (phase: RunPhase, script: ScriptRun, iteration?: number) => {
+      enterStage(phase, iteration)
+      recorder.start(iteration === undefined ? RECORDING_MARKERS[phase] : `${RECORDING_MARKERS[phase]} · run ${iteration}`)
+      const result = await sandbox!.runScript(script).finally(() => recorder.stop())
+      phases.push({ phase, ...(iteration !== undefined && { iteration }), ...result })
+      await prisma.taskRun.update({
+        where: { id: runId },
+        data: { phases: phases as unknown as Prisma.InputJsonValue },
+      })
+      // A killed script returns like any other; stop instead of running the next one
+      signal.throwIfAborted()
+      return result
+    }
+
+    const testsRun: ScriptRun = {
+      files: [
+        { source: 'run-tests.sh', target: `${TEST_DIR}/run-tests.sh` },
+        { source: TESTS_DIR, target: TEST_DIR },
+      ],
+      script: `${TEST_DIR}/run-tests.sh`,
+      env: { TEST_DIR },
+      timeoutSec: snapshot.maxTestTimeoutSec,
+    }
+
+    // The solution and then the tests, in a fresh environment
+    const runOracle = async (sandboxId: string, iteration?: number): Promise<StabilityIteration> => {
+      await createSandbox(sandboxId, iteration)
+
+      await runPhase('solution', {
+        files: [{ source: 'solution.sh', target: SOLUTION_PATH }],
+        script: SOLUTION_PATH,
+        timeoutSec: snapshot.maxAgentTimeoutSec,
+      }, iteration)
+
+      // Tests are copied in only after the solution ran, so it cannot read them
+      const tests = await runPhase('tests', testsRun, iteration)
+
+      await disposeSandbox(iteration)
+
+      const testResults = parseTestOutput(tests.stdout)
+      return { passed: testsPassed(tests.exitCode, testResults), testResults }
+    }
+
+    try {
+      await prisma.taskRun.update({
+        where: { id: runId },
+        data: { deadlineAt: new Date(Date.now() + timeLimitSec * 1000) },
+      })
+      publish({ type: 'status', status: RunStatus.RUNNING })
+
+      if (!snapshot.solutionSh?.trim() || !snapshot.runTestsSh?.trim()) {
+        throw new Error('Both solution.sh and run-tests.sh are required to run a task')
+      }
+
+      await this.materialize(snapshot, taskDir)
+
+      if (run.mode === RunMode.STABILITY) {
+        const iterations: StabilityIteration[] = []
+
+        for (let iteration = 1; iteration <= run.iterations; iteration++) {
+          const result = await runOracle(`${runId}-${iteration}`, iteration)
+          iterations.push(result)
+
+          // Only failing iterations keep their output, to bound the size of the run
+          if (result.passed) {
+            for (const phase of phases.filter(phase => phase.iteration === iteration)) {
+              phase.stdout = ''
+              phase.stderr = ''
+            }
+          }
+        }
+
+        const report = buildStabilityReport(runId, snapshot.version, iterations)
+        status = getRunStatus(phases, report.stable)
+        await prisma.$transaction(async tx => {
+          const { count } = await tx.taskRun.updateMany({
+            where: { id: runId, status: RunStatus.RUNNING },
+            data: {
+              status,
+              phases: phases as unknown as Prisma.InputJsonValue,
+              testResults: iterations[iterations.length - 1].testResults as unknown as Prisma.InputJsonValue,
+              finishedAt: new Date(),
+            },
+          })
+          if (count === 0) {
+            recorded = false
+            return
+          }
+          await tx.taskHistory.update({
+            where: { id: snapshot.id },
+            data: { stabilityReport: report as unknown as Prisma.InputJsonValue },
+          })
+        })
+      } else {
+        // The null agent: the tests run on an environment nothing has touched
+        let nullPassed: boolean | undefined
+        if (run.mode === RunMode.VERIFICATION) {
+          await createSandbox(`${runId}-null`)
+          const nullTests = await runPhase('null-tests', testsRun)
+          const nullTestResults = parseTestOutput(nullTests.stdout)
+          nullPassed = testsPassed(nullTests.exitCode, nullTestResults)
+
+          await prisma.taskRun.update({
+            where: { id: runId },
+            data: { nullTestResults: nullTestResults as unknown as Prisma.InputJsonValue },
+          })
+          await disposeSandbox()
+        }
+
+        const oracle = await runOracle(runId)
+        const verdict = nullPassed === undefined ? null : getRunVerdict(oracle.passed, nullPassed)
+        status = getRunStatus(phases, verdict ? verdict === RunVerdict.DISCRIMINATING : oracle.passed)
+
+        const { count } = await prisma.taskRun.updateMany({
+          where: { id: runId, status: RunStatus.RUNNING },
+          data: {
+            status,
+            verdict,
+            testResults: oracle.testResults as unknown as Prisma.InputJsonValue,
+            finishedAt: new Date(),
+          },
+        })
+        recorded = count > 0
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        const reason = signal.reason as RunStopReason
+        if (reason === 'timeout') {
+          status = RunStatus.TIMED_OUT
+          runError = RUN_STOP_MESSAGES.timeout(timeLimitSec)
+        } else if (reason === 'disk-limit') {
+          // Exceeding a limit the task declared is the task's failure, not the executor's
+          status = RunStatus.FAILED
+          runError = RUN_STOP_MESSAGES.diskLimit(limits.diskLimitMb ?? 0)
+        } else {
+          status = RunStatus.CANCELLED
+          runError = RUN_STOP_MESSAGES.cancelled
+        }
+      } else {
+        console.error(`[TaskRunService] Run ${runId} failed:`, error)
+        status = RunStatus.ERROR
+        runError = error instanceof Error ? error.message : String(error)
+      }
+      await prisma.taskRun.updateMany({
+        where: { id: runId, status: RunStatus.RUNNING },
+        data: {
+          status,
+          error: runError,
+          finishedAt: new Date(),
+        },
+      })
+        .then(({ count }) => { recorded = count > 0 })
+        .catch(updateError => console.error(`[TaskRunService] Could not record failure of run ${runId}:`, updateError))
+    } finally {
+      clearTimeout(deadline)
+      await disposeSandbox().catch(error => console.error(`[TaskRunService] Cleanup of run ${runId} failed:`, error))
+      if (!recorder.isEmpty) {
+        await this.saveRecording(runId, recorder)
+          .catch(error => console.error(`[TaskRunService] Could not save recording of run ${runId}:`, error))
+      }
+      await fs.rm(runDir, { recursive: true, force: true })
+        .catch(error => console.error(`[TaskRunService] Could not remove ${runDir}:`, error))
+      // A run recovered as interrupted while it executed keeps the outcome recorded then
+      if (!recorded) {
+        const current = await prisma.taskRun.findUnique({ where: { id: runId }, select: { status: true, error: true } })
+          .catch(() => null)
+        if (current) {
+          status = current.status as RunStatus
+          runError = current.error
+        }
+      }
+      runEventHub.close(runId, { type: 'status', status, error: runError })
+    }
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Terminal Session Service
+ * Interactive shells into a task version's environment, for reviewers
+ *
+ * Opening a session only reserves it: the environment is built once the
+ * browser connects the session's WebSocket with the session's one-time token,
+ * and the build output is streamed to the socket before the shell starts. A
+ * session ends when the shell exits, the socket closes, the session reaches
+ * its time limit or no input arrives within the idle timeout. The environment
+ * is then torn down, and the session is recorded in the task's audit log with
+ * an asciicast transcript of the shell. Sessions live in this process and end
+ * with it. Each open session holds a slot of the run queue's global limit
+ * (RUN_MAX_CONCURRENT) until its environment is torn down, so sessions and
+ * runs together stay within it.
+ *
+ * TERMINAL_MAX_DURATION_SEC: longest a session may last, building included (default: 1800)
+ * TERMINAL_IDLE_TIMEOUT_SEC: longest a shell may go without input (default: 600)
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { WebSocket } from 'ws'
+import type { RawData } from 'ws'
+import type { IPty } from 'node-pty'
+import { prisma, AuditAction } from '@repo/db'
+import type { TaskHistory, User } from '@repo/db'
+import { ERROR_MESSAGES, NetworkPolicy } from '@repo/types'
+import type { TerminalEndReason, TerminalServerMessage, TerminalSession } from '@repo/types'
+import { ConflictError, ForbiddenError, NotFoundError } from '../lib/errors'
+import { getExecutionBackend, getExecutionWorkDir, ExecutionSandbox, ShellOptions } from '../lib/executor'
+import { AsciicastRecorder } from '../lib/recording'
+import { runQueue } from '../lib/run-queue'
+import { getStorageBackend } from '../lib/storage'
+import { terminalClientMessageSchema } from '../lib/schemas'
+import { TaskFileService } from './task-file.service'
+import { TaskRunService } from './task-run.service'
+
+/**
+ * How long a session waits for its WebSocket before it is discarded
+ */
+const CONNECT_TIMEOUT_MS = 60 * 1000
+
+/**
+ * Terminal size until the browser reports its own
+ */
+const DEFAULT_SHELL_SIZE: ShellOptions = { cols: 120, rows: 30 }
+
+const END_MESSAGES: Record<TerminalEndReason, string> = {
+  exited: 'The shell exited',
+  closed: 'The session was closed',
+  'time-limit': 'The session reached its time limit',
+  idle: 'The session was closed after receiving no input',
+  replaced: 'The session was replaced by a newer one',
+  error: 'The environment could not be started',
+}
+
+type NodeTimer = ReturnType<typeof setTimeout>
+
+interface ActiveSession {
+  info: TerminalSession
+  user: User
+  snapshot: TaskHistory
+  controller: AbortController
+  size: ShellOptions
+  socket?: WebSocket
+  sandbox?: ExecutionSandbox
+  shell?: IPty
+  recorder?: AsciicastRecorder
+  connectedAt?: Date
+  starting?: Promise<void>
+  timers: { connect?: NodeTimer; deadline?: NodeTimer; idle?: NodeTimer }
+  ended: boolean
+}
+
+const sessions = new Map<string, ActiveSession>()
+
+function getLimits() {
+  return {
+    maxDurationSec: Number(process.env.TERMINAL_MAX_DURATION_SEC) || 1800,
+    idleTimeoutSec: Number(process.env.TERMINAL_IDLE_TIMEOUT_SEC) || 600,
+  }
+}
+
+function getSessionDir(sessionId: string): string {
+  return path.join(getExecutionWorkDir(), `terminal-${sessionId}`)
+}
+
+function getTranscriptKey(sessionId: string): string {
+  return `terminals/${sessionId}/transcript.cast`
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function send(session: ActiveSession, message: TerminalServerMessage): void {
+  if (session.socket?.readyState === WebSocket.OPEN) {
+    session.socket.send(JSON.stringify(message))
+  }
+}
+
+export class TerminalSessionService {
+  /**
+   * Reserve a terminal session into the latest version of a task
+   * A user has one session at a time; opening another ends the previous one.
+   * Fails when runs and other sessions fill the run concurrency limit.
+   */
+  static async openSession(taskId: string, user: User): Promise<TerminalSession> {
+    if (user.role !== 'REVIEWER') {
+      throw new ForbiddenError(ERROR_MESSAGES.FORBIDDEN_REVIEWER_ONLY)
+    }
+
+    const task = await TaskFileService.getReadableTask(taskId, user)
+    const snapshot = await prisma.taskHistory.findFirst({
+      where: { taskId: task.id },
+      orderBy: { version: 'desc' },
+    })
+
+    if (!snapshot) {
+      throw new NotFoundError('Task version')
+    }
+
+    TaskRunService.assertSafeEnvironment(snapshot)
+    await TaskFileService.checkVersionFiles(snapshot)
+
+    // The previous session's slot is only free once its environment is gone
+    await Promise.all(
+      [...sessions.values()]
+        .filter(existing => existing.user.id === user.id)
+        .map(existing => this.endSession(existing, 'replaced'))
+    )
+
+    const id = randomUUID()
+    if (!(await runQueue.reserve(id))) {
+      throw new ConflictError(ERROR_MESSAGES.TERMINAL_CAPACITY)
+    }
+
+    const info: TerminalSession = {
+      id,
+      taskId: task.id,
+      version: snapshot.version,
+      token: randomBytes(32).toString('hex'),
+      ...getLimits(),
+    }
+    const session: ActiveSession = {
+      info,
+      user,
+      snapshot,
+      controller: new AbortController(),
+      size: DEFAULT_SHELL_SIZE,
+      timers: {},
+      ended: false,
+    }
+
+    // Never connected: nothing was started, so there is nothing to record
+    session.timers.connect = setTimeout(() => {
+      session.ended = true
+      sessions.delete(info.id)
+      runQueue.release(info.id)
+    }, CONNECT_TIMEOUT_MS)
+
+    sessions.set(info.id, session)
+    return info
+  }
+
+  /**
+   * Whether a WebSocket may connect to a session
+   */
+  static canConnect(sessionId: string, token: string): boolean {
+    const session = sessions.get(sessionId)
+    return !!session && !session.socket && !session.ended && tokensMatch(session.info.token, token)
+  }
+
+  /**
+   * Attach a session's WebSocket and start its environment
+   */
+  static connect(sessionId: string, socket: WebSocket): void {
+    const session = sessions.get(sessionId)
+    if (!session || session.socket || session.ended) {
+      socket.close(1008, ERROR_MESSAGES.TERMINAL_NOT_FOUND)
+      return
+    }
+
+    clearTimeout(session.timers.connect)
+    session.socket = socket
+    session.connectedAt = new Date()
+    session.timers.deadline = setTimeout(
+      () => void this.endSession(session, 'time-limit'),
+      session.info.maxDurationSec * 1000
+    )
+
+    socket.on('message', data => this.handleMessage(session, data))
+    socket.on('close', () => void this.endSession(session, 'closed'))
+
+    session.starting = this.start(session)
+  }
+
+  /**
+   * Get the transcript of a finished session as an asciicast file
+   */
+  static async getTranscript(sessionId: string, user: User): Promise<{ fileName: string; data: Buffer }> {
+    const entry = await prisma.auditLog.findFirst({
+      where: {
+        action: AuditAction.TERMINAL_SESSION,
+        metadata: { path: ['sessionId'], equals: sessionId },
+      },
+    })
+
+    if (!entry) {
+      throw new NotFoundError('Terminal session')
+    }
+
+    await TaskFileService.getReadableTask(entry.entityId, user)
+    const data = await getStorageBackend().read(getTranscriptKey(sessionId))
+
+    if (!data) {
+      throw new NotFoundError('Transcript')
+    }
+
+    return { fileName: `terminal-${sessionId}.cast`, data }
+  }
+
+  /**
+   * Build the environment and open the shell
+   * Never rejects; failures end the session.
+   */
+  private static async start(session: ActiveSession): Promise<void> {
+    const taskDir = path.join(getSessionDir(session.info.id), 'task')
+    const { snapshot } = session
+
+    try {
+      await TaskRunService.materialize(snapshot, taskDir)
+      session.sandbox = await getExecutionBackend().createSandbox(taskDir, `terminal-${session.info.id}`, {
+        // Build output comes from pipes, so its bare line feeds are made into terminal newlines
+        onOutput: (_stream, data) => send(session, { type: 'output', data: data.replace(/\r?\n/g, '\r\n') }),
+        signal: session.controller.signal,
+        limits: {
+          cpuLimit: snapshot.cpuLimit,
+          memoryLimitMb: snapshot.memoryLimitMb,
+          diskLimitMb: snapshot.diskLimitMb,
+          networkPolicy: snapshot.networkPolicy as NetworkPolicy,
+        },
+      })
+      if (session.ended) return
+
+      const recorder = new AsciicastRecorder({
+        width: session.size.cols,
+        height: session.size.rows,
+        timestamp: Math.floor(Date.now() / 1000),
+        title: `${snapshot.title} v${snapshot.version}`,
+        env: { TERM: 'xterm-256color', SHELL: '/bin/bash' },
+      })
+      recorder.start(`Shell opened by ${session.user.name || session.user.email}`)
+      session.recorder = recorder
+
+      const shell = session.sandbox.openShell(session.size)
+      session.shell = shell
+      shell.onData(data => {
+        recorder.output(data)
+        send(session, { type: 'output', data })
+      })
+      shell.onExit(() => void this.endSession(session, 'exited'))
+
+      this.resetIdleTimer(session)
+      const expiresAt = new Date(session.connectedAt!.getTime() + session.info.maxDurationSec * 1000)
+      send(session, { type: 'ready', expiresAt: expiresAt.toISOString() })
+    } catch (error) {
+      if (session.ended) return
+      console.error(`[TerminalSessionService] Session ${session.info.id} failed to start:`, error)
+      void this.endSession(session, 'error', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  private static handleMessage(session: ActiveSession, data: RawData): void {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(data.toString())
+    } catch {
+      return
+    }
+
+    const result = terminalClientMessageSchema.safeParse(parsed)
+    if (!result.success) return
+    const message = result.data
+
+    if (message.type === 'input') {
+      if (!session.shell) return
+      session.shell.write(message.data)
+      session.recorder?.input(message.data)
+      this.resetIdleTimer(session)
+    } else {
+      session.size = { cols: message.cols, rows: message.rows }
+      session.shell?.resize(message.cols, message.rows)
+    }
+  }
+
+  private static resetIdleTimer(session: ActiveSession): void {
+    clearTimeout(session.timers.idle)
+    session.timers.idle = setTimeout(
+      () => void this.endSession(session, 'idle'),
+      session.info.idleTimeoutSec * 1000
+    )
+  }
+
+  /**
+   * End a session: stop the shell, tear down the environment and record the session
+   */
+  private static async endSession(session: ActiveSession, reason: TerminalEndReason, detail?: string): Promise<void> {
+    if (session.ended) return
+    session.ended = true
+    sessions.delete(session.info.id)
+
+    const { id } = session.info
+    Object.values(session.timers).forEach(timer => clearTimeout(timer))
+    session.controller.abort()
+
+    send(session, { type: 'ended', reason, message: detail ? `${END_MESSAGES[reason]}: ${detail}` : END_MESSAGES[reason] })
+    session.socket?.close(1000)
+    session.shell?.kill()
+    session.recorder?.stop()
+
+    // Wait for a build in progress to give up before removing its directory
+    await session.starting
+    await session.sandbox?.dispose()
+      .catch(error => console.error(`[TerminalSessionService] Cleanup of session ${id} failed:`, error))
+    runQueue.release(id)
+    await fs.rm(getSessionDir(id), { recursive: true, force: true })
+      .catch(error => console.error(`[TerminalSessionService] Could not remove session ${id}:`, error))
+
+    await this.recordSession(session, reason)
+      .catch(error => console.error(`[TerminalSessionService] Could not record session ${id}:`, error))
+  }
+
+  /**
+   * Store the transcript and add the session to the task's audit log
+   */
+  private static async recordSession(session: ActiveSession, reason: TerminalEndReason): Promise<void> {
+    const { id, taskId, version } = session.info
+    const recorder = session.recorder
+    const hasTranscript = !!recorder && !recorder.isEmpty
+
+    if (hasTranscript) {
+      await getStorageBackend().write(getTranscriptKey(id), recorder.toBuffer(), 0o644)
+    }
+
+    const durationSec = session.connectedAt ? Math.round((Date.now() - session.connectedAt.getTime()) / 1000) : 0
+    await prisma.auditLog.create({
+      data: {
+        action: AuditAction.TERMINAL_SESSION,
+        entityType: 'task',
+        entityId: taskId,
+        userId: session.user.id,
+        userName: session.user.name || undefined,
+        userEmail: session.user.email,
+        metadata: {
+          sessionId: id,
+          version,
+          durationSec,
+          endReason: reason,
+          hasTranscript,
+        },
+      },
+    })
+  }
+}
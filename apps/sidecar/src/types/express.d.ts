@@ -0,0 +1,19 @@
+/**
+ * Express Type Augmentation
+ * Adds custom properties to Express Request object
+ */
+
+import { User } from '@repo/db'
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User
+      validatedBody?: unknown
+      validatedQuery?: unknown
+      validatedParams?: unknown
+    }
+  }
+}
+
+export {}
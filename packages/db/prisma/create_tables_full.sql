@@ -15,7 +15,7 @@ EXCEPTION
 END $$;
 
 DO $$ BEGIN
-  CREATE TYPE "TaskState" AS ENUM ('DRAFT', 'SUBMITTED', 'IN_REVIEW', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED');
+  CREATE TYPE "TaskState" AS ENUM ('DRAFT', 'SUBMITTED', 'IN_REVIEW', 'PARTIALLY_APPROVED', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED');
 EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
@@ -27,7 +27,31 @@ EXCEPTION
 END $$;
 
 DO $$ BEGIN
-  CREATE TYPE "AuditAction" AS ENUM ('TASK_CREATED', 'TASK_UPDATED', 'TASK_SUBMITTED', 'TASK_APPROVED', 'TASK_REJECTED', 'TASK_CHANGES_REQUESTED', 'TASK_DELETED', 'REVIEW_STARTED', 'REVIEW_SUBMITTED');
+  CREATE TYPE "AuditAction" AS ENUM ('TASK_CREATED', 'TASK_UPDATED', 'TASK_SUBMITTED', 'TASK_APPROVED', 'TASK_REJECTED', 'TASK_CHANGES_REQUESTED', 'TASK_DELETED', 'REVIEW_STARTED', 'REVIEW_SUBMITTED', 'REVIEW_DECISION_CHANGED', 'TERMINAL_SESSION', 'TASK_ASSIGNED', 'REVIEW_RELEASED', 'REVIEW_LEASE_EXPIRED', 'REVIEW_REASSIGNED', 'THREAD_OPENED', 'THREAD_REPLIED', 'THREAD_RESOLVED', 'THREAD_REOPENED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "RunStatus" AS ENUM ('QUEUED', 'RUNNING', 'PASSED', 'FAILED', 'TIMED_OUT', 'ERROR', 'CANCELLED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "RunMode" AS ENUM ('ORACLE', 'VERIFICATION', 'STABILITY');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "RunVerdict" AS ENUM ('DISCRIMINATING', 'VACUOUS', 'ORACLE_FAILED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "NetworkPolicy" AS ENUM ('NONE', 'RESTRICTED', 'ALLOWED');
 EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
@@ -36,6 +60,14 @@ END $$;
 ALTER TABLE "users" 
 ADD COLUMN IF NOT EXISTS "role" "UserRole" NOT NULL DEFAULT 'USER';
 
+-- Update users table to add review assignment preferences
+ALTER TABLE "users"
+ADD COLUMN IF NOT EXISTS "acceptsAssignments" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS "reviewCapacity" INTEGER,
+ADD COLUMN IF NOT EXISTS "reviewCategories" TEXT NOT NULL DEFAULT '',
+ADD COLUMN IF NOT EXISTS "lastAssignedAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "isReviewLead" BOOLEAN NOT NULL DEFAULT false;
+
 -- Create tasks table
 CREATE TABLE IF NOT EXISTS "tasks" (
   "id" TEXT NOT NULL PRIMARY KEY,
@@ -45,18 +77,45 @@ CREATE TABLE IF NOT EXISTS "tasks" (
   "categories" TEXT NOT NULL,
   "maxAgentTimeoutSec" INTEGER NOT NULL,
   "maxTestTimeoutSec" INTEGER NOT NULL,
+  "cpuLimit" DOUBLE PRECISION,
+  "memoryLimitMb" INTEGER,
+  "diskLimitMb" INTEGER,
+  "networkPolicy" "NetworkPolicy" NOT NULL DEFAULT 'RESTRICTED',
   "taskYaml" TEXT,
   "dockerComposeYaml" TEXT,
   "solutionSh" TEXT,
   "runTestsSh" TEXT,
-  "testsJson" TEXT,
+  "testFiles" JSONB NOT NULL DEFAULT '[]',
+  "storageOnlyFiles" JSONB NOT NULL DEFAULT '[]',
   "state" "TaskState" NOT NULL DEFAULT 'DRAFT',
   "authorId" TEXT NOT NULL,
   "reviewerId" TEXT,
+  "reviewLeaseExpiresAt" TIMESTAMP(3),
+  "assigneeId" TEXT,
+  "assignedAt" TIMESTAMP(3),
+  "submittedAt" TIMESTAMP(3),
   "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
   CONSTRAINT "tasks_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
-  CONSTRAINT "tasks_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+  CONSTRAINT "tasks_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT "tasks_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- Create rubric_templates table
+CREATE TABLE IF NOT EXISTS "rubric_templates" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "key" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "category" TEXT,
+  "difficulty" "Difficulty",
+  "criteria" JSONB NOT NULL,
+  "rules" JSONB NOT NULL DEFAULT '[]',
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdById" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "rubric_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
 );
 
 -- Create reviews table
@@ -66,9 +125,69 @@ CREATE TABLE IF NOT EXISTS "reviews" (
   "reviewerId" TEXT NOT NULL,
   "decision" "ReviewDecision" NOT NULL,
   "comment" TEXT,
+  "reasonCodes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "rubricTemplateId" TEXT,
+  "rubricScores" JSONB,
   "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
   CONSTRAINT "reviews_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE,
-  CONSTRAINT "reviews_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+  CONSTRAINT "reviews_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "reviews_rubricTemplateId_fkey" FOREIGN KEY ("rubricTemplateId") REFERENCES "rubric_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- Create review_reasons table
+CREATE TABLE IF NOT EXISTS "review_reasons" (
+  "code" TEXT NOT NULL PRIMARY KEY,
+  "label" TEXT NOT NULL,
+  "description" TEXT,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create review_comments table
+CREATE TABLE IF NOT EXISTS "review_comments" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "taskId" TEXT NOT NULL,
+  "authorId" TEXT NOT NULL,
+  "field" TEXT NOT NULL,
+  "lineStart" INTEGER NOT NULL,
+  "lineEnd" INTEGER NOT NULL,
+  "body" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "anchoredVersion" INTEGER NOT NULL,
+  "excerpt" TEXT NOT NULL,
+  "outdated" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "review_comments_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "review_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Create discussion_threads table
+CREATE TABLE IF NOT EXISTS "discussion_threads" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "taskId" TEXT NOT NULL,
+  "reviewId" TEXT,
+  "authorId" TEXT NOT NULL,
+  "resolvedAt" TIMESTAMP(3),
+  "resolvedById" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "discussion_threads_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "discussion_threads_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "discussion_threads_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "discussion_threads_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- Create thread_messages table
+CREATE TABLE IF NOT EXISTS "thread_messages" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "threadId" TEXT NOT NULL,
+  "authorId" TEXT NOT NULL,
+  "body" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "thread_messages_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "discussion_threads"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "thread_messages_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
 );
 
 -- Create audit_logs table
@@ -98,27 +217,86 @@ CREATE TABLE IF NOT EXISTS "task_history" (
   "categories" TEXT NOT NULL,
   "maxAgentTimeoutSec" INTEGER NOT NULL,
   "maxTestTimeoutSec" INTEGER NOT NULL,
+  "cpuLimit" DOUBLE PRECISION,
+  "memoryLimitMb" INTEGER,
+  "diskLimitMb" INTEGER,
+  "networkPolicy" "NetworkPolicy" NOT NULL DEFAULT 'RESTRICTED',
   "taskYaml" TEXT,
   "dockerComposeYaml" TEXT,
   "solutionSh" TEXT,
   "runTestsSh" TEXT,
-  "testsJson" TEXT,
+  "testFiles" JSONB NOT NULL DEFAULT '[]',
+  "storageOnlyFiles" JSONB NOT NULL DEFAULT '[]',
+  "stabilityReport" JSONB,
   "changedBy" TEXT NOT NULL,
   "changeType" TEXT NOT NULL,
   "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Create task_file_blobs table
+CREATE TABLE IF NOT EXISTS "task_file_blobs" (
+  "sha256" TEXT NOT NULL PRIMARY KEY,
+  "data" BYTEA NOT NULL,
+  "size" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create task_runs table
+CREATE TABLE IF NOT EXISTS "task_runs" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "taskId" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "mode" "RunMode" NOT NULL DEFAULT 'ORACLE',
+  "iterations" INTEGER NOT NULL DEFAULT 1,
+  "status" "RunStatus" NOT NULL DEFAULT 'QUEUED',
+  "verdict" "RunVerdict",
+  "runtime" TEXT,
+  "phases" JSONB NOT NULL DEFAULT '[]',
+  "testResults" JSONB NOT NULL DEFAULT '[]',
+  "nullTestResults" JSONB NOT NULL DEFAULT '[]',
+  "error" TEXT,
+  "recording" TEXT,
+  "triggeredById" TEXT NOT NULL,
+  "startedAt" TIMESTAMP(3),
+  "deadlineAt" TIMESTAMP(3),
+  "cancelRequestedAt" TIMESTAMP(3),
+  "heartbeatAt" TIMESTAMP(3),
+  "finishedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "task_runs_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "task_runs_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
 -- Create indexes
 CREATE INDEX IF NOT EXISTS "users_clerkId_idx" ON "users"("clerkId");
 CREATE INDEX IF NOT EXISTS "users_email_idx" ON "users"("email");
 CREATE INDEX IF NOT EXISTS "tasks_authorId_idx" ON "tasks"("authorId");
 CREATE INDEX IF NOT EXISTS "tasks_state_idx" ON "tasks"("state");
 CREATE INDEX IF NOT EXISTS "tasks_reviewerId_idx" ON "tasks"("reviewerId");
+CREATE INDEX IF NOT EXISTS "tasks_assigneeId_idx" ON "tasks"("assigneeId");
 CREATE INDEX IF NOT EXISTS "reviews_taskId_idx" ON "reviews"("taskId");
 CREATE INDEX IF NOT EXISTS "reviews_reviewerId_idx" ON "reviews"("reviewerId");
+CREATE INDEX IF NOT EXISTS "reviews_reasonCodes_idx" ON "reviews" USING GIN ("reasonCodes");
+CREATE UNIQUE INDEX IF NOT EXISTS "rubric_templates_key_version_key" ON "rubric_templates"("key", "version");
+CREATE INDEX IF NOT EXISTS "rubric_templates_isActive_idx" ON "rubric_templates"("isActive");
+CREATE INDEX IF NOT EXISTS "review_comments_taskId_idx" ON "review_comments"("taskId");
+CREATE INDEX IF NOT EXISTS "discussion_threads_taskId_idx" ON "discussion_threads"("taskId");
+CREATE INDEX IF NOT EXISTS "thread_messages_threadId_idx" ON "thread_messages"("threadId");
 CREATE INDEX IF NOT EXISTS "audit_logs_entityType_entityId_idx" ON "audit_logs"("entityType", "entityId");
 CREATE INDEX IF NOT EXISTS "audit_logs_userId_idx" ON "audit_logs"("userId");
 CREATE INDEX IF NOT EXISTS "audit_logs_action_idx" ON "audit_logs"("action");
 CREATE INDEX IF NOT EXISTS "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
 CREATE INDEX IF NOT EXISTS "task_history_taskId_version_idx" ON "task_history"("taskId", "version");
-CREATE INDEX IF NOT EXISTS "task_history_taskId_createdAt_idx" ON "task_history"("taskId", "createdAt");
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS "task_history_taskId_createdAt_idx" ON "task_history"("taskId", "createdAt");
+CREATE INDEX IF NOT EXISTS "task_runs_taskId_createdAt_idx" ON "task_runs"("taskId", "createdAt");
+CREATE INDEX IF NOT EXISTS "task_runs_status_idx" ON "task_runs"("status");
+
+-- Starting review reason catalog
+INSERT INTO "review_reasons" ("code", "label", "description") VALUES
+  ('TESTS_TOO_WEAK', 'Tests too weak', 'The tests pass for incorrect solutions or miss required behaviour'),
+  ('INSTRUCTION_AMBIGUOUS', 'Instruction ambiguous', 'The instruction can reasonably be read more than one way'),
+  ('SOLUTION_LEAKS', 'Solution leaks', 'The environment or tests give away the solution'),
+  ('NONDETERMINISTIC', 'Nondeterministic', 'The tests or environment behave differently between runs'),
+  ('ENVIRONMENT_BROKEN', 'Environment broken', 'The environment does not build or start as described'),
+  ('DIFFICULTY_MISRATED', 'Difficulty misrated', 'The task is much easier or harder than its difficulty says')
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,110 @@
+-- Migration: Replace the free-form testsJson text column with a typed testFiles array
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- testFiles holds the tests/ directory as [{ "path", "content", "mode" }].
+-- Existing testsJson values are converted from either supported shape:
+--   { "tests": [{ "path" | "name", "content", "mode"? }] }
+--   { "<path>": "<content>", ... }
+-- Values that are not valid JSON in either shape, or that name a path which
+-- would leave tests/ (absolute, "..", "." or empty segments, backslashes),
+-- are kept verbatim as a single "tests.json" file so no content is lost.
+-- Modes keep only their permission bits.
+
+-- Same rules as isValidTestFilePath in @repo/types
+CREATE OR REPLACE FUNCTION pg_temp.is_valid_test_file_path(file_path TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT file_path <> ''
+    AND position(E'\\' IN file_path) = 0
+    AND left(file_path, 1) <> '/'
+    AND NOT (string_to_array(file_path, '/') && ARRAY['', '.', '..'])
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.tests_json_to_test_files(tests_json TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  parsed JSONB;
+  files JSONB := '[]'::jsonb;
+  entry JSONB;
+  file_path TEXT;
+  file_key TEXT;
+  file_value JSONB;
+BEGIN
+  IF tests_json IS NULL OR btrim(tests_json) = '' THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  BEGIN
+    parsed := tests_json::jsonb;
+  EXCEPTION WHEN others THEN
+    parsed := NULL;
+  END;
+
+  IF parsed IS NOT NULL AND jsonb_typeof(parsed) = 'object' AND jsonb_typeof(parsed->'tests') = 'array' THEN
+    FOR entry IN SELECT * FROM jsonb_array_elements(parsed->'tests') LOOP
+      file_path := COALESCE(entry->>'path', entry->>'name');
+      IF file_path IS NULL
+        OR NOT pg_temp.is_valid_test_file_path(file_path)
+        OR jsonb_typeof(entry->'content') IS DISTINCT FROM 'string' THEN
+        parsed := NULL;
+        EXIT;
+      END IF;
+      files := files || jsonb_build_array(jsonb_build_object(
+        'path', file_path,
+        'content', entry->>'content',
+        'mode', COALESCE(
+          CASE WHEN jsonb_typeof(entry->'mode') = 'number' THEN floor((entry->>'mode')::numeric)::int & 511 END,
+          CASE WHEN file_path LIKE '%.sh' THEN 493 ELSE 420 END
+        )
+      ));
+    END LOOP;
+  ELSIF parsed IS NOT NULL AND jsonb_typeof(parsed) = 'object' THEN
+    FOR file_key, file_value IN SELECT * FROM jsonb_each(parsed) LOOP
+      IF jsonb_typeof(file_value) IS DISTINCT FROM 'string' OR NOT pg_temp.is_valid_test_file_path(file_key) THEN
+        parsed := NULL;
+        EXIT;
+      END IF;
+      files := files || jsonb_build_array(jsonb_build_object(
+        'path', file_key,
+        'content', file_value #>> '{}',
+        'mode', CASE WHEN file_key LIKE '%.sh' THEN 493 ELSE 420 END
+      ));
+    END LOOP;
+  ELSE
+    parsed := NULL;
+  END IF;
+
+  IF parsed IS NULL THEN
+    RETURN jsonb_build_array(jsonb_build_object('path', 'tests.json', 'content', tests_json, 'mode', 420));
+  END IF;
+
+  RETURN files;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tasks
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "testFiles" JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'testsJson'
+  ) THEN
+    UPDATE "tasks" SET "testFiles" = pg_temp.tests_json_to_test_files("testsJson");
+    ALTER TABLE "tasks" DROP COLUMN "testsJson";
+  END IF;
+END $$;
+
+-- Task history snapshots
+ALTER TABLE "task_history" ADD COLUMN IF NOT EXISTS "testFiles" JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'task_history' AND column_name = 'testsJson'
+  ) THEN
+    UPDATE "task_history" SET "testFiles" = pg_temp.tests_json_to_test_files("testsJson");
+    ALTER TABLE "task_history" DROP COLUMN "testsJson";
+  END IF;
+END $$;
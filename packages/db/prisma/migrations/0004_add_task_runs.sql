@@ -0,0 +1,31 @@
+-- Migration: Add task_runs for local execution of a task's solution and tests
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Each row is one execution of a task version (a task_history snapshot),
+-- created by the sidecar when a user starts a run.
+
+DO $$ BEGIN
+  CREATE TYPE "RunStatus" AS ENUM ('QUEUED', 'RUNNING', 'PASSED', 'FAILED', 'TIMED_OUT', 'ERROR');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "task_runs" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "taskId" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "status" "RunStatus" NOT NULL DEFAULT 'QUEUED',
+  "runtime" TEXT,
+  "phases" JSONB NOT NULL DEFAULT '[]',
+  "testResults" JSONB NOT NULL DEFAULT '[]',
+  "error" TEXT,
+  "triggeredById" TEXT NOT NULL,
+  "startedAt" TIMESTAMP(3),
+  "finishedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "task_runs_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "task_runs_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "task_runs_taskId_createdAt_idx" ON "task_runs"("taskId", "createdAt");
+CREATE INDEX IF NOT EXISTS "task_runs_status_idx" ON "task_runs"("status");
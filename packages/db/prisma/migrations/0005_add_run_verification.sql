@@ -0,0 +1,22 @@
+-- Migration: Add verification runs (oracle vs. null agent) to task_runs
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- A verification run executes run-tests.sh once on the untouched environment
+-- and once after solution.sh, and records whether the tests tell them apart.
+
+DO $$ BEGIN
+  CREATE TYPE "RunMode" AS ENUM ('ORACLE', 'VERIFICATION');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "RunVerdict" AS ENUM ('DISCRIMINATING', 'VACUOUS', 'ORACLE_FAILED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "task_runs"
+ADD COLUMN IF NOT EXISTS "mode" "RunMode" NOT NULL DEFAULT 'ORACLE',
+ADD COLUMN IF NOT EXISTS "verdict" "RunVerdict",
+ADD COLUMN IF NOT EXISTS "nullTestResults" JSONB NOT NULL DEFAULT '[]';
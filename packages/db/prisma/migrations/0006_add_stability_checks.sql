@@ -0,0 +1,13 @@
+-- Migration: Add stability checks (repeated oracle runs) to find flaky tests
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- A stability run repeats the oracle run of a task version; its per-test pass
+-- rates are stored on the version's task_history row.
+
+ALTER TYPE "RunMode" ADD VALUE IF NOT EXISTS 'STABILITY';
+
+ALTER TABLE "task_runs"
+ADD COLUMN IF NOT EXISTS "iterations" INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE "task_history"
+ADD COLUMN IF NOT EXISTS "stabilityReport" JSONB;
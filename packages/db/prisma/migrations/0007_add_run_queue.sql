@@ -0,0 +1,12 @@
+-- Migration: Queue task runs with concurrency limits, cancellation and deadlines
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Runs wait in the QUEUED status until the sidecar has capacity for them, so
+-- the queue survives restarts. A running run is killed at its deadline or when
+-- a cancellation is requested.
+
+ALTER TYPE "RunStatus" ADD VALUE IF NOT EXISTS 'CANCELLED';
+
+ALTER TABLE "task_runs"
+ADD COLUMN IF NOT EXISTS "deadlineAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "cancelRequestedAt" TIMESTAMP(3);
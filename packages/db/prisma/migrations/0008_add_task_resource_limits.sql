@@ -0,0 +1,28 @@
+-- Migration: Add per-task resource limits and network policy for execution
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Limits are snapshotted with each task version and enforced when the version
+-- is run. Existing tasks keep the unrestricted network they were written
+-- against; new tasks default to the restricted policy.
+
+DO $$ BEGIN
+  CREATE TYPE "NetworkPolicy" AS ENUM ('NONE', 'RESTRICTED', 'ALLOWED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "tasks"
+ADD COLUMN IF NOT EXISTS "cpuLimit" DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS "memoryLimitMb" INTEGER,
+ADD COLUMN IF NOT EXISTS "diskLimitMb" INTEGER,
+ADD COLUMN IF NOT EXISTS "networkPolicy" "NetworkPolicy" NOT NULL DEFAULT 'ALLOWED';
+
+ALTER TABLE "tasks" ALTER COLUMN "networkPolicy" SET DEFAULT 'RESTRICTED';
+
+ALTER TABLE "task_history"
+ADD COLUMN IF NOT EXISTS "cpuLimit" DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS "memoryLimitMb" INTEGER,
+ADD COLUMN IF NOT EXISTS "diskLimitMb" INTEGER,
+ADD COLUMN IF NOT EXISTS "networkPolicy" "NetworkPolicy" NOT NULL DEFAULT 'ALLOWED';
+
+ALTER TABLE "task_history" ALTER COLUMN "networkPolicy" SET DEFAULT 'RESTRICTED';
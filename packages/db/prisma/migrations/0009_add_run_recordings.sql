@@ -0,0 +1,8 @@
+-- Migration: Add terminal recordings of task runs
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- The sidecar records the output of a run's scripts as an asciicast v2 file
+-- in its storage backend; the column holds the recording's storage key.
+
+ALTER TABLE "task_runs"
+ADD COLUMN IF NOT EXISTS "recording" TEXT;
@@ -0,0 +1,21 @@
+-- Migration: Add TERMINAL_SESSION to AuditAction enum
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+-- Or apply via: ALTER TYPE "AuditAction" ADD VALUE 'TERMINAL_SESSION';
+
+-- Reviewers' terminal sessions into a task's environment are audited with
+-- their transcript. Add TERMINAL_SESSION to the enum if it doesn't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_enum
+    WHERE enumlabel = 'TERMINAL_SESSION'
+    AND enumtypid = (
+      SELECT oid
+      FROM pg_type
+      WHERE typname = 'AuditAction'
+    )
+  ) THEN
+    ALTER TYPE "AuditAction" ADD VALUE 'TERMINAL_SESSION';
+  END IF;
+END $$;
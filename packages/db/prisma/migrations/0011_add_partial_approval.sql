@@ -0,0 +1,38 @@
+-- Migration: Add multi-reviewer approval
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Tasks can need approvals from several reviewers. A task approved by some,
+-- but not yet all, of them is PARTIALLY_APPROVED, and only reviews made since
+-- the task was last submitted count toward its approval.
+
+-- Add PARTIALLY_APPROVED to the enum if it doesn't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_enum
+    WHERE enumlabel = 'PARTIALLY_APPROVED'
+    AND enumtypid = (
+      SELECT oid
+      FROM pg_type
+      WHERE typname = 'TaskState'
+    )
+  ) THEN
+    ALTER TYPE "TaskState" ADD VALUE 'PARTIALLY_APPROVED' AFTER 'IN_REVIEW';
+  END IF;
+END $$;
+
+ALTER TABLE "tasks"
+ADD COLUMN IF NOT EXISTS "submittedAt" TIMESTAMP(3);
+
+-- Existing tasks start their current round at their latest submission
+UPDATE "tasks" t
+SET "submittedAt" = (
+  SELECT MAX(a."createdAt")
+  FROM "audit_logs" a
+  WHERE a."entityType" = 'task'
+  AND a."entityId" = t."id"
+  AND a."action" = 'TASK_SUBMITTED'
+)
+WHERE t."submittedAt" IS NULL
+AND t."state" <> 'DRAFT';
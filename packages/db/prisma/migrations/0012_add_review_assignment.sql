@@ -0,0 +1,42 @@
+-- Migration: Add automatic review assignment
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Tasks awaiting review are assigned to a reviewer, chosen by category
+-- expertise, open load and round-robin among reviewers with spare capacity.
+-- Reviewers can opt out of assignments and set their own capacity.
+
+-- Add TASK_ASSIGNED to the AuditAction enum if it doesn't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_enum
+    WHERE enumlabel = 'TASK_ASSIGNED'
+    AND enumtypid = (
+      SELECT oid
+      FROM pg_type
+      WHERE typname = 'AuditAction'
+    )
+  ) THEN
+    ALTER TYPE "AuditAction" ADD VALUE 'TASK_ASSIGNED';
+  END IF;
+END $$;
+
+ALTER TABLE "users"
+ADD COLUMN IF NOT EXISTS "acceptsAssignments" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS "reviewCapacity" INTEGER,
+ADD COLUMN IF NOT EXISTS "reviewCategories" TEXT NOT NULL DEFAULT '',
+ADD COLUMN IF NOT EXISTS "lastAssignedAt" TIMESTAMP(3);
+
+ALTER TABLE "tasks"
+ADD COLUMN IF NOT EXISTS "assigneeId" TEXT,
+ADD COLUMN IF NOT EXISTS "assignedAt" TIMESTAMP(3);
+
+DO $$ BEGIN
+  ALTER TABLE "tasks"
+  ADD CONSTRAINT "tasks_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "tasks_assigneeId_idx" ON "tasks"("assigneeId");
@@ -0,0 +1,42 @@
+-- Migration: Add review leases
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- A reviewer's claim on a task in review lasts until its lease expires; the
+-- reviewer page renews it while open. Lapsed claims go back to SUBMITTED.
+-- Review leads can hand a claim to another reviewer.
+
+-- Add the lease actions to the AuditAction enum if they don't exist
+DO $$
+DECLARE
+  action TEXT;
+BEGIN
+  FOREACH action IN ARRAY ARRAY['REVIEW_RELEASED', 'REVIEW_LEASE_EXPIRED', 'REVIEW_REASSIGNED']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_enum
+      WHERE enumlabel = action
+      AND enumtypid = (
+        SELECT oid
+        FROM pg_type
+        WHERE typname = 'AuditAction'
+      )
+    ) THEN
+      EXECUTE format('ALTER TYPE "AuditAction" ADD VALUE %L', action);
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE "users"
+ADD COLUMN IF NOT EXISTS "isReviewLead" BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE "tasks"
+ADD COLUMN IF NOT EXISTS "reviewLeaseExpiresAt" TIMESTAMP(3);
+
+-- Tasks already in review get a fresh lease rather than being released at once
+UPDATE "tasks"
+SET "reviewLeaseExpiresAt" = CURRENT_TIMESTAMP + INTERVAL '30 minutes'
+WHERE "state" = 'IN_REVIEW' AND "reviewLeaseExpiresAt" IS NULL;
+
+-- To make someone a review lead:
+-- UPDATE "users" SET "isReviewLead" = true WHERE "email" = 'lead@example.com';
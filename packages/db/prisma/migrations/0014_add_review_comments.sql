@@ -0,0 +1,26 @@
+-- Migration: Add review_comments for inline comments on task files
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Each row is a reviewer's comment on a line range of one task file, made on
+-- a task version (a task_history snapshot). When the author resubmits, the
+-- range follows the lines through the diff, or the comment becomes outdated.
+
+CREATE TABLE IF NOT EXISTS "review_comments" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "taskId" TEXT NOT NULL,
+  "authorId" TEXT NOT NULL,
+  "field" TEXT NOT NULL,
+  "lineStart" INTEGER NOT NULL,
+  "lineEnd" INTEGER NOT NULL,
+  "body" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "anchoredVersion" INTEGER NOT NULL,
+  "excerpt" TEXT NOT NULL,
+  "outdated" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "review_comments_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "review_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "review_comments_taskId_idx" ON "review_comments"("taskId");
@@ -0,0 +1,56 @@
+-- Migration: Add discussion threads between task authors and reviewers
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- A thread is opened on a task, or on one of its reviews, and collects replies
+-- from the author and reviewers until someone marks it resolved. Deployments
+-- can require reviewers' threads to be resolved before the author resubmits.
+
+-- Add the discussion actions to the AuditAction enum if they don't exist
+DO $$
+DECLARE
+  action TEXT;
+BEGIN
+  FOREACH action IN ARRAY ARRAY['THREAD_OPENED', 'THREAD_REPLIED', 'THREAD_RESOLVED', 'THREAD_REOPENED']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_enum
+      WHERE enumlabel = action
+      AND enumtypid = (
+        SELECT oid
+        FROM pg_type
+        WHERE typname = 'AuditAction'
+      )
+    ) THEN
+      EXECUTE format('ALTER TYPE "AuditAction" ADD VALUE %L', action);
+    END IF;
+  END LOOP;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "discussion_threads" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "taskId" TEXT NOT NULL,
+  "reviewId" TEXT,
+  "authorId" TEXT NOT NULL,
+  "resolvedAt" TIMESTAMP(3),
+  "resolvedById" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "discussion_threads_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "discussion_threads_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "discussion_threads_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "discussion_threads_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS "thread_messages" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "threadId" TEXT NOT NULL,
+  "authorId" TEXT NOT NULL,
+  "body" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "thread_messages_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "discussion_threads"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "thread_messages_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "discussion_threads_taskId_idx" ON "discussion_threads"("taskId");
+CREATE INDEX IF NOT EXISTS "thread_messages_threadId_idx" ON "thread_messages"("threadId");
@@ -0,0 +1,37 @@
+-- Migration: Add review rubric templates and per-criterion scores on reviews
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- A rubric template lists the criteria reviewers score a task against (1-5)
+-- and rules that rule out lenient decisions for low scores. Editing a template
+-- adds a new version and deactivates the old one, so existing reviews keep
+-- pointing at the criteria they were scored against.
+
+CREATE TABLE IF NOT EXISTS "rubric_templates" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "key" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "category" TEXT,
+  "difficulty" "Difficulty",
+  "criteria" JSONB NOT NULL,
+  "rules" JSONB NOT NULL DEFAULT '[]',
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdById" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "rubric_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "rubric_templates_key_version_key" ON "rubric_templates"("key", "version");
+CREATE INDEX IF NOT EXISTS "rubric_templates_isActive_idx" ON "rubric_templates"("isActive");
+
+ALTER TABLE "reviews"
+ADD COLUMN IF NOT EXISTS "rubricTemplateId" TEXT,
+ADD COLUMN IF NOT EXISTS "rubricScores" JSONB;
+
+DO $$ BEGIN
+  ALTER TABLE "reviews"
+  ADD CONSTRAINT "reviews_rubricTemplateId_fkey" FOREIGN KEY ("rubricTemplateId") REFERENCES "rubric_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,30 @@
+-- Migration: Add the review reason catalog and reason codes on reviews
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Reviewers pick one or more reasons when rejecting a task or requesting
+-- changes, so the reasons tasks fail review can be filtered and reported on.
+-- Review leads manage the catalog; archived reasons stay on past reviews.
+
+CREATE TABLE IF NOT EXISTS "review_reasons" (
+  "code" TEXT NOT NULL PRIMARY KEY,
+  "label" TEXT NOT NULL,
+  "description" TEXT,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Starting catalog
+INSERT INTO "review_reasons" ("code", "label", "description") VALUES
+  ('TESTS_TOO_WEAK', 'Tests too weak', 'The tests pass for incorrect solutions or miss required behaviour'),
+  ('INSTRUCTION_AMBIGUOUS', 'Instruction ambiguous', 'The instruction can reasonably be read more than one way'),
+  ('SOLUTION_LEAKS', 'Solution leaks', 'The environment or tests give away the solution'),
+  ('NONDETERMINISTIC', 'Nondeterministic', 'The tests or environment behave differently between runs'),
+  ('ENVIRONMENT_BROKEN', 'Environment broken', 'The environment does not build or start as described'),
+  ('DIFFICULTY_MISRATED', 'Difficulty misrated', 'The task is much easier or harder than its difficulty says')
+ON CONFLICT ("code") DO NOTHING;
+
+ALTER TABLE "reviews"
+ADD COLUMN IF NOT EXISTS "reasonCodes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX IF NOT EXISTS "reviews_reasonCodes_idx" ON "reviews" USING GIN ("reasonCodes");
@@ -0,0 +1,14 @@
+-- Migration: Record the task files that only exist in the sidecar's file storage
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- storageOnlyFiles lists files with no column of their own, such as a
+-- Dockerfile or binary test fixtures, as [{ "path", "size", "mode" }]. The
+-- sidecar keeps it current on every file write and each version keeps a copy,
+-- so exports can tell when a task directory would be incomplete without them.
+-- Existing tasks start with an empty list until their files are next written.
+
+ALTER TABLE "tasks"
+ADD COLUMN IF NOT EXISTS "storageOnlyFiles" JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE "task_history"
+ADD COLUMN IF NOT EXISTS "storageOnlyFiles" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,11 @@
+-- Migration: Record a heartbeat on running task runs
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- The sidecar executing a run refreshes heartbeatAt while the run executes.
+-- On startup a sidecar marks only runs whose heartbeat has gone stale as
+-- interrupted, so runs other sidecar processes are still executing are left
+-- alone. Runs started before this column existed have no heartbeat and count
+-- as stale.
+
+ALTER TABLE "task_runs"
+ADD COLUMN IF NOT EXISTS "heartbeatAt" TIMESTAMP(3);
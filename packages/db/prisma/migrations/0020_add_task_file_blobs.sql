@@ -0,0 +1,16 @@
+-- Migration: Keep the content of storage-only task files per version
+-- Run this in: Supabase Dashboard > SQL Editor > New Query
+--
+-- Files with no column of their own (a Dockerfile, binary test fixtures) only
+-- lived in the sidecar's file storage, which holds the current task, so older
+-- versions were run with today's files. Their content is now stored by sha256
+-- and storageOnlyFiles entries record the hash. Entries written before this
+-- migration have no hash; those versions cannot be run or exported until the
+-- task's files are written again.
+
+CREATE TABLE IF NOT EXISTS "task_file_blobs" (
+  "sha256" TEXT NOT NULL PRIMARY KEY,
+  "data" BYTEA NOT NULL,
+  "size" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
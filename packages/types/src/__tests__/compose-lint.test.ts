@@ -0,0 +1,131 @@
+/**
+ * docker-compose.yaml Lint Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { lintDockerCompose, getComposeServiceNames } from '../compose-lint'
+
+function errors(source: string) {
+  return lintDockerCompose(source).filter(issue => issue.severity === 'error').map(issue => issue.rule)
+}
+
+const CLEAN = `services:
+  client:
+    build:
+      context: .
+    image: \${T_BENCH_TASK_DOCKER_CLIENT_IMAGE_NAME}
+    volumes:
+      - \${T_BENCH_TASK_LOGS_PATH}:\${T_BENCH_CONTAINER_LOGS_PATH}
+`
+
+describe('lintDockerCompose', () => {
+  it('should accept a Terminal-Bench style compose file', () => {
+    expect(lintDockerCompose(CLEAN)).toEqual([])
+  })
+
+  it('should report YAML syntax errors at their position', () => {
+    const [issue] = lintDockerCompose('services:\n  client: [\n')
+
+    expect(issue).toMatchObject({ rule: 'compose-syntax', severity: 'error', line: expect.any(Number) })
+  })
+
+  it('should require services and a client service', () => {
+    expect(errors('version: "3"\n')).toEqual(['missing-services'])
+    expect(errors('services:\n  db:\n    image: postgres:16\n    healthcheck: {}\n')).toEqual(['missing-client-service'])
+  })
+
+  it('should reject privileged containers and the host network', () => {
+    const issues = errors('services:\n  client:\n    build: .\n    privileged: true\n    network_mode: host\n')
+
+    expect(issues).toEqual(expect.arrayContaining(['privileged', 'host-network']))
+  })
+
+  it('should reject bind mounts outside the task directory', () => {
+    expect(errors('services:\n  client:\n    build: .\n    volumes:\n      - /etc:/host-etc\n')).toContain('bind-mount-outside-task')
+    expect(errors('services:\n  client:\n    build: .\n    volumes:\n      - ../..:/up\n')).toContain('bind-mount-outside-task')
+    expect(errors('services:\n  client:\n    build: .\n    volumes:\n      - ./data:/data\n')).toEqual([])
+  })
+
+  it('should reject networking that would get around the network policy', () => {
+    expect(errors('services:\n  client:\n    build: .\n    networks: [outside]\nnetworks:\n  outside: {}\n'))
+      .toEqual(['custom-network', 'custom-network'])
+  })
+
+  it('should warn about unpinned images, missing healthchecks and published ports', () => {
+    const warnings = lintDockerCompose('services:\n  client:\n    build: .\n  db:\n    image: postgres\n    ports: ["5432:5432"]\n')
+      .filter(issue => issue.severity === 'warning')
+      .map(issue => issue.rule)
+
+    expect(warnings).toEqual(expect.arrayContaining(['unpinned-image', 'missing-healthcheck', 'exposed-ports']))
+  })
+})
+
+describe('getComposeServiceNames', () => {
+  it('should list the services in order', () => {
+    expect(getComposeServiceNames('services:\n  client: {}\n  db: {}\n')).toEqual(['client', 'db'])
+  })
+
+  it('should return nothing for an unparseable file', () => {
+    expect(getComposeServiceNames('services: [\n')).toEqual([])
+  })
+})
+
+describe('lintDockerCompose host access', () => {
+  const service = (settings: string) => `services:\n  client:\n    build: .\n${settings}`
+
+  it('should reject climbing out of a harness path variable', () => {
+    expect(errors(service('    volumes:\n      - ${T_BENCH_TASK_BUILD_CONTEXT_DIR}/../../../..:/host\n')))
+      .toContain('bind-mount-outside-task')
+    expect(errors(service('    volumes:\n      - ${T_BENCH_CONTAINER_LOGS_PATH}:/logs\n')))
+      .toContain('bind-mount-outside-task')
+    expect(errors(service('    volumes:\n      - ${T_BENCH_TASK_LOGS_PATH}:/logs\n'))).toEqual([])
+  })
+
+  it('should reject host namespaces, capabilities, devices and security options', () => {
+    const issues = lintDockerCompose(service([
+      '    pid: host',
+      '    ipc: host',
+      '    userns_mode: host',
+      '    cap_add: [SYS_ADMIN]',
+      '    security_opt: ["seccomp:unconfined"]',
+      '    devices: ["/dev/sda:/dev/sda"]',
+      '',
+    ].join('\n'))).filter(issue => issue.rule === 'unsupported-key')
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Service "client" sets "pid", which task environments may not use',
+      'Service "client" sets "ipc", which task environments may not use',
+      'Service "client" sets "userns_mode", which task environments may not use',
+      'Service "client" sets "cap_add", which task environments may not use',
+      'Service "client" sets "security_opt", which task environments may not use',
+      'Service "client" sets "devices", which task environments may not use',
+    ])
+  })
+
+  it('should reject named volumes backed by a driver', () => {
+    const source = service('    volumes:\n      - root:/host\n') +
+      'volumes:\n  root:\n    driver_opts:\n      type: none\n      o: bind\n      device: /\n'
+
+    expect(errors(source)).toEqual(['unsupported-key'])
+  })
+
+  it('should reject build contexts and Dockerfiles outside the task directory', () => {
+    expect(errors('services:\n  client:\n    build:\n      context: /\n')).toEqual(['file-outside-task'])
+    expect(errors('services:\n  client:\n    build:\n      context: .\n      dockerfile: ../../Dockerfile\n')).toEqual(['file-outside-task'])
+    expect(errors('services:\n  client:\n    build: https://github.com/example/repo.git\n')).toEqual(['file-outside-task'])
+    expect(errors('services:\n  client:\n    build:\n      context: ${T_BENCH_TASK_BUILD_CONTEXT_DIR}\n      dockerfile: Dockerfile\n')).toEqual([])
+  })
+
+  it('should reject host files in env_file, configs and secrets', () => {
+    expect(errors(service('    env_file: /etc/environment\n'))).toEqual(['file-outside-task'])
+    expect(errors(service('    env_file:\n      - path: ../secrets.env\n'))).toEqual(['file-outside-task'])
+    expect(errors(service('    env_file: .env\n'))).toEqual([])
+    expect(errors(service('    secrets: [key]\n') + 'secrets:\n  key:\n    file: /root/.ssh/id_rsa\n'))
+      .toEqual(['unsupported-key', 'unsupported-key'])
+  })
+
+  it('should reject aliases that could hide values from the checks', () => {
+    expect(errors('x-base: &base\n  privileged: true\nservices:\n  client:\n    build: .\n    <<: *base\n'))
+      .toEqual(expect.arrayContaining(['yaml-alias', 'unsupported-key']))
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Line Anchor Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { reanchorLineRange } from '../line-anchors'
+
+const original = ['a', 'b', 'c', 'd', 'e'].join('\n')
+
+describe('reanchorLineRange', () => {
+  it('should keep the range when the content is unchanged', () => {
+    expect(reanchorLineRange(original, original, { lineStart: 2, lineEnd: 3 })).toEqual({ lineStart: 2, lineEnd: 3 })
+  })
+
+  it('should move the range when lines are inserted above it', () => {
+    const edited = ['new', 'new', 'a', 'b', 'c', 'd', 'e'].join('\n')
+
+    expect(reanchorLineRange(original, edited, { lineStart: 3, lineEnd: 4 })).toEqual({ lineStart: 5, lineEnd: 6 })
+  })
+
+  it('should move the range when lines are removed above it', () => {
+    const edited = ['c', 'd', 'e'].join('\n')
+
+    expect(reanchorLineRange(original, edited, { lineStart: 4, lineEnd: 5 })).toEqual({ lineStart: 2, lineEnd: 3 })
+  })
+
+  it('should be outdated when a line in the range changed', () => {
+    const edited = ['a', 'b', 'C', 'd', 'e'].join('\n')
+
+    expect(reanchorLineRange(original, edited, { lineStart: 2, lineEnd: 3 })).toBeNull()
+  })
+
+  it('should be outdated when lines are inserted inside the range', () => {
+    const edited = ['a', 'b', 'inserted', 'c', 'd', 'e'].join('\n')
+
+    expect(reanchorLineRange(original, edited, { lineStart: 2, lineEnd: 3 })).toBeNull()
+  })
+
+  it('should be outdated when the range was removed', () => {
+    const edited = ['a', 'e'].join('\n')
+
+    expect(reanchorLineRange(original, edited, { lineStart: 2, lineEnd: 3 })).toBeNull()
+  })
+})
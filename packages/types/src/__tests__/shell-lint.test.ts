@@ -0,0 +1,51 @@
+/**
+ * Shell Script Lint Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { lintShellScript } from '../shell-lint'
+
+function rules(source: string, field: 'solutionSh' | 'runTestsSh' = 'solutionSh') {
+  return lintShellScript(source, field).map(issue => issue.rule)
+}
+
+describe('lintShellScript', () => {
+  it('should accept a clean script', () => {
+    expect(lintShellScript('#!/bin/bash\nset -euo pipefail\necho "$HOME"\n', 'solutionSh')).toEqual([])
+  })
+
+  it('should require a shebang', () => {
+    const [issue] = lintShellScript('set -e\necho hi\n', 'solutionSh')
+
+    expect(issue).toMatchObject({ rule: 'missing-shebang', severity: 'error', field: 'solutionSh', line: 1 })
+  })
+
+  it('should accept errexit turned on with set -o errexit', () => {
+    expect(rules('#!/bin/bash\nset -o errexit\necho hi\n')).not.toContain('missing-set-e')
+    expect(rules('#!/bin/bash\necho hi\n')).toContain('missing-set-e')
+  })
+
+  it('should flag unquoted expansions but not quoted ones or ones in comments', () => {
+    const issues = lintShellScript('#!/bin/bash\nset -e\n# rm $DIR\necho "$A" $B\n', 'solutionSh')
+      .filter(issue => issue.rule === 'unquoted-variable')
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ line: 4 })
+  })
+
+  it('should not flag expansions inside [[ ]] tests', () => {
+    expect(rules('#!/bin/bash\nset -e\nif [[ $A == b ]]; then echo "ok"; fi\n')).not.toContain('unquoted-variable')
+  })
+
+  it('should only flag network fetches in run-tests.sh', () => {
+    const script = '#!/bin/bash\nset -e\ncurl -sSL https://example.com -o /tmp/x\n'
+
+    expect(rules(script, 'runTestsSh')).toContain('network-fetch-in-tests')
+    expect(rules(script, 'solutionSh')).not.toContain('network-fetch-in-tests')
+  })
+
+  it('should flag absolute paths outside /app', () => {
+    expect(rules('#!/bin/bash\nset -e\ncat /etc/passwd\n')).toContain('absolute-path-outside-app')
+    expect(rules('#!/bin/bash\nset -e\ncat /app/out.txt > /tmp/x\n')).not.toContain('absolute-path-outside-app')
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * task.yaml Unit Tests
+ * Validation and two-way sync with the structured task fields
+ */
+
+import { describe, it, expect } from 'vitest'
+import { Difficulty } from '../enums'
+import { reconcileTaskYaml, syncTaskYamlEdit, validateTaskYaml, writeTaskYamlFields } from '../task-yaml'
+import type { TaskYamlSyncState } from '../task-yaml'
+
+const TASK_YAML = [
+  '# Terminal-Bench task',
+  'instruction: |',
+  '  Do the thing.',
+  'difficulty: medium',
+  'category: testing',
+  'max_agent_timeout_sec: 300',
+  'max_test_timeout_sec: 60',
+  '',
+].join('\n')
+
+const FIELDS = {
+  title: 'The thing',
+  instruction: 'Do the thing.',
+  difficulty: Difficulty.MEDIUM,
+  categories: 'testing',
+  maxAgentTimeoutSec: 300,
+  maxTestTimeoutSec: 60,
+}
+
+describe('validateTaskYaml', () => {
+  it('should accept task.yaml that agrees with the fields', () => {
+    expect(validateTaskYaml(TASK_YAML, FIELDS)).toEqual([])
+  })
+
+  it('should position invalid values', () => {
+    const [issue] = validateTaskYaml(TASK_YAML.replace('difficulty: medium', 'difficulty: extreme'))
+
+    expect(issue).toMatchObject({ path: ['difficulty'], line: 4, column: 13 })
+  })
+
+  it('should report values that disagree with the fields', () => {
+    const issues = validateTaskYaml(TASK_YAML, { ...FIELDS, maxTestTimeoutSec: 120 })
+
+    expect(issues.map(issue => issue.path)).toEqual([['max_test_timeout_sec']])
+  })
+
+  it('should report values outside the task field limits', () => {
+    const issues = validateTaskYaml(
+      TASK_YAML
+        .replace('max_agent_timeout_sec: 300', 'max_agent_timeout_sec: 99999999')
+        .replace('  Do the thing.', `  ${'x'.repeat(10001)}`)
+    )
+
+    expect(issues.map(issue => issue.path)).toEqual([['max_agent_timeout_sec'], ['instruction']])
+  })
+})
+
+describe('writeTaskYamlFields', () => {
+  it('should keep comments and write multi-line instructions as a literal block', () => {
+    const written = writeTaskYamlFields(TASK_YAML, { instruction: 'Line one\nLine two', difficulty: Difficulty.HARD })
+
+    expect(written).toContain('# Terminal-Bench task')
+    expect(written).toContain('instruction: |')
+    expect(written).toContain('  Line two')
+    expect(written).toContain('difficulty: hard')
+  })
+
+  it('should not add a title task.yaml leaves out', () => {
+    expect(writeTaskYamlFields(TASK_YAML, { title: 'New title' })).toBe(TASK_YAML)
+  })
+})
+
+describe('reconcileTaskYaml', () => {
+  it('should let an edited task.yaml value win', () => {
+    const edited = TASK_YAML.replace('max_test_timeout_sec: 60', 'max_test_timeout_sec: 120')
+
+    const result = reconcileTaskYaml(edited, FIELDS, TASK_YAML)
+
+    expect(result?.fields.maxTestTimeoutSec).toBe(120)
+    expect(result?.sources).toEqual({ maxTestTimeoutSec: 'taskYaml' })
+  })
+
+  it('should write a changed column into an unchanged task.yaml', () => {
+    const result = reconcileTaskYaml(TASK_YAML, { ...FIELDS, difficulty: Difficulty.EASY }, TASK_YAML)
+
+    expect(result?.taskYaml).toContain('difficulty: easy')
+    expect(result?.sources).toEqual({ difficulty: 'fields' })
+  })
+
+  it('should leave invalid task.yaml values for validation to report', () => {
+    const invalid = TASK_YAML.replace('difficulty: medium', 'difficulty: extreme')
+
+    const result = reconcileTaskYaml(invalid, FIELDS, TASK_YAML)
+
+    expect(result?.taskYaml).toContain('difficulty: extreme')
+    expect(result?.fields.difficulty).toBe(Difficulty.MEDIUM)
+  })
+
+  it('should not let task.yaml values outside the field limits win', () => {
+    const edited = TASK_YAML.replace('max_agent_timeout_sec: 300', 'max_agent_timeout_sec: 99999999')
+
+    const result = reconcileTaskYaml(edited, FIELDS, TASK_YAML)
+
+    expect(result?.fields.maxAgentTimeoutSec).toBe(300)
+    expect(result?.taskYaml).toContain('max_agent_timeout_sec: 99999999')
+  })
+
+  it('should return null for unparseable task.yaml', () => {
+    expect(reconcileTaskYaml('instruction: [', FIELDS, null)).toBeNull()
+  })
+})
+
+describe('syncTaskYamlEdit', () => {
+  it('should mirror an instruction edit into task.yaml', () => {
+    const { edit, sources } = syncTaskYamlEdit<Partial<TaskYamlSyncState>>(
+      { ...FIELDS, taskYaml: TASK_YAML },
+      { instruction: 'Do it better.' }
+    )
+
+    expect(edit.taskYaml).toContain('Do it better.')
+    expect(sources).toEqual({ instruction: 'fields' })
+  })
+
+  it('should return an edit without task.yaml unchanged', () => {
+    const current = { ...FIELDS, taskYaml: null }
+
+    expect(syncTaskYamlEdit(current, { difficulty: Difficulty.HARD })).toEqual({
+      edit: { difficulty: Difficulty.HARD },
+      sources: {},
+    })
+  })
+})
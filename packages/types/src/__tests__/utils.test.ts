@@ -0,0 +1,69 @@
+/**
+ * Task File Helper Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseStorageOnlyFiles, parseTestFiles } from '../utils'
+
+describe('parseStorageOnlyFiles', () => {
+  it('should keep well-formed entries with their hashes', () => {
+    const files = parseStorageOnlyFiles([
+      { path: 'Dockerfile', size: 20, mode: 0o644, sha256: 'abc' },
+      { path: 'tests/fixture.bin', size: 4, mode: 0o755 },
+    ])
+
+    expect(files).toEqual([
+      { path: 'Dockerfile', size: 20, mode: 0o644, sha256: 'abc' },
+      { path: 'tests/fixture.bin', size: 4, mode: 0o755 },
+    ])
+  })
+
+  it('should drop entries whose path leaves the task directory', () => {
+    const files = parseStorageOnlyFiles([
+      { path: '../Dockerfile', size: 1, mode: 0o644 },
+      { path: '/etc/passwd', size: 1, mode: 0o644 },
+      { path: 'tests/../../x', size: 1, mode: 0o644 },
+    ])
+
+    expect(files).toEqual([])
+  })
+
+  it('should keep only permission bits of the mode', () => {
+    expect(parseStorageOnlyFiles([{ path: 'Dockerfile', size: 1, mode: 0o104755 }])[0].mode).toBe(0o755)
+  })
+
+  it('should return an empty list for values that are not arrays', () => {
+    expect(parseStorageOnlyFiles(null)).toEqual([])
+    expect(parseStorageOnlyFiles({ path: 'Dockerfile' })).toEqual([])
+  })
+})
+
+describe('parseTestFiles', () => {
+  it('should sort files and fill in default modes', () => {
+    const files = parseTestFiles([
+      { path: 'test_outputs.py', content: 'def test_x(): pass\n' },
+      { path: 'setup.sh', content: 'true\n' },
+    ])
+
+    expect(files).toEqual([
+      { path: 'setup.sh', content: 'true\n', mode: 0o755 },
+      { path: 'test_outputs.py', content: 'def test_x(): pass\n', mode: 0o644 },
+    ])
+  })
+
+  it('should drop legacy entries whose path leaves tests/', () => {
+    const files = parseTestFiles([
+      { path: '../run-tests.sh', content: 'evil\n' },
+      { path: '../../etc/cron.d/x', content: 'evil\n' },
+      { path: '/tmp/x', content: 'evil\n' },
+      { path: 'data/./x', content: 'evil\n' },
+      { path: 'data/input.txt', content: 'ok\n' },
+    ])
+
+    expect(files.map(file => file.path)).toEqual(['data/input.txt'])
+  })
+
+  it('should keep only permission bits of the mode', () => {
+    expect(parseTestFiles([{ path: 'run.sh', content: '', mode: 0o4777 }])[0].mode).toBe(0o777)
+  })
+})
@@ -0,0 +1,354 @@
+/**
+ * docker-compose.yaml Lint
+ * Terminal-Bench specific checks for a task's compose environment
+ *
+ * Compose files come from task authors and run on the sidecar's host, so the
+ * settings a file may use are allow-listed rather than the dangerous ones
+ * deny-listed: anything that could reach the host (host namespaces,
+ * capabilities, devices, host paths) has no place in a task environment.
+ */
+
+import { parseDocument, isMap, isScalar, isSeq, visit, LineCounter } from 'yaml'
+import type { Node, Pair, YAMLMap } from 'yaml'
+import type { LintIssue, LintSeverity } from './task-lint'
+
+/**
+ * Service the harness runs the agent and tests in
+ */
+export const COMPOSE_CLIENT_SERVICE = 'client'
+
+/**
+ * Environment variables the harness sets to host paths under its control
+ * (the task directory and the run's logs directory)
+ */
+const HARNESS_HOST_PATH_VARIABLES = ['T_BENCH_TASK_BUILD_CONTEXT_DIR', 'T_BENCH_TASK_LOGS_PATH']
+
+/**
+ * Top-level keys a compose file may use ("networks" is reported by its own rule)
+ */
+const ALLOWED_TOP_LEVEL_KEYS = new Set(['version', 'name', 'services', 'volumes', 'networks'])
+
+/**
+ * Service keys a compose file may use
+ */
+const ALLOWED_SERVICE_KEYS = new Set([
+  'build', 'image', 'container_name', 'hostname', 'platform',
+  'command', 'entrypoint', 'working_dir', 'user', 'environment', 'env_file',
+  'volumes', 'tmpfs', 'depends_on', 'healthcheck', 'restart', 'init',
+  'tty', 'stdin_open', 'labels', 'stop_signal', 'stop_grace_period',
+  'expose', 'ports', 'network_mode', 'networks', 'privileged',
+  'cpus', 'mem_limit', 'memswap_limit', 'shm_size', 'ulimits',
+])
+
+/**
+ * Keys of a service's long-syntax build
+ */
+const ALLOWED_BUILD_KEYS = new Set(['context', 'dockerfile', 'args', 'target', 'labels', 'cache_from'])
+
+/**
+ * Keys of a named volume; drivers and external volumes can map host paths
+ */
+const ALLOWED_VOLUME_KEYS = new Set(['name', 'labels'])
+
+/**
+ * Whether a key is a compose extension field ("x-...")
+ */
+function isExtensionKey(key: string): boolean {
+  return key.startsWith('x-')
+}
+
+export const COMPOSE_LINT_RULES = {
+  'compose-syntax': { severity: 'error', description: 'docker-compose.yaml must be valid YAML' },
+  'missing-services': { severity: 'error', description: 'docker-compose.yaml must define services' },
+  'missing-client-service': { severity: 'error', description: `A "${COMPOSE_CLIENT_SERVICE}" service is required` },
+  'privileged': { severity: 'error', description: 'Containers must not run privileged' },
+  'host-network': { severity: 'error', description: 'Containers must not use the host network' },
+  'custom-network': { severity: 'error', description: 'Networking is set by the task network policy, not by docker-compose.yaml' },
+  'bind-mount-outside-task': { severity: 'error', description: 'Bind mounts must stay inside the task directory' },
+  'file-outside-task': { severity: 'error', description: 'Build contexts, Dockerfiles and env files must stay inside the task directory' },
+  'unsupported-key': { severity: 'error', description: 'Only the compose settings task environments need are allowed' },
+  'yaml-alias': { severity: 'error', description: 'YAML anchors and aliases are not supported' },
+  'unpinned-image': { severity: 'warning', description: 'Images should be pinned to a tag other than latest' },
+  'missing-healthcheck': { severity: 'warning', description: 'Supporting services should define a healthcheck' },
+  'exposed-ports': { severity: 'warning', description: 'Services should not publish ports to the host' },
+} as const satisfies Record<string, { severity: LintSeverity; description: string }>
+
+export type ComposeLintRule = keyof typeof COMPOSE_LINT_RULES
+
+function findPair(map: YAMLMap, key: string): Pair<unknown, unknown> | undefined {
+  return map.items.find(pair => isScalar(pair.key) && pair.key.value === key) as Pair<unknown, unknown> | undefined
+}
+
+function scalarValue(node: unknown): unknown {
+  return isScalar(node) ? node.value : undefined
+}
+
+/**
+ * Split a short volume spec ("src:dst:ro") on colons outside ${...} references
+ */
+function splitVolumeSpec(spec: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let depth = 0
+
+  for (let i = 0; i < spec.length; i++) {
+    const char = spec[i]
+    if (char === '$' && spec[i + 1] === '{') depth++
+    if (char === '}' && depth > 0) depth--
+    if (char === ':' && depth === 0) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts
+}
+
+/**
+ * Whether a host path resolves outside the task directory
+ * Relative paths are resolved against the task root. A path may start with
+ * one of the harness's host path variables, but may not climb out of it;
+ * other variables, URLs and home or absolute paths cannot be checked and are
+ * treated as outside.
+ */
+function isOutsideTaskDir(source: string): boolean {
+  if (source.includes('$')) {
+    const match = /^\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))(.*)$/.exec(source)
+    const variable = match?.[1] ?? match?.[2]
+    const rest = match?.[3] ?? ''
+    if (!variable || !HARNESS_HOST_PATH_VARIABLES.includes(variable)) return true
+    if (rest.includes('$') || (rest !== '' && !rest.startsWith('/'))) return true
+    return rest.split('/').includes('..')
+  }
+  if (source.startsWith('/') || source.startsWith('~') || /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(source)) {
+    return true
+  }
+
+  let depth = 0
+  for (const segment of source.split('/')) {
+    if (segment === '..') depth--
+    else if (segment !== '.' && segment !== '') depth++
+    if (depth < 0) return true
+  }
+  return false
+}
+
+/**
+ * Whether a short volume source is a host path rather than a named volume
+ */
+function isHostPath(source: string): boolean {
+  return source.startsWith('.') || source.startsWith('/') || source.startsWith('~') ||
+    source.startsWith('$') || source.includes('/')
+}
+
+/**
+ * Whether an image reference is pinned to a tag other than latest (or a digest)
+ */
+function isPinnedImage(image: string): boolean {
+  if (image.includes('@')) return true
+  const name = image.slice(image.lastIndexOf('/') + 1)
+  const tagIndex = name.indexOf(':')
+  return tagIndex !== -1 && name.slice(tagIndex + 1) !== 'latest'
+}
+
+/**
+ * Names of the services docker-compose.yaml defines
+ * Returns an empty list when the source has no parseable "services" mapping.
+ */
+export function getComposeServiceNames(source: string): string[] {
+  const doc = parseDocument(source)
+  const root = doc.contents
+  const services = doc.errors.length === 0 && isMap(root) ? findPair(root, 'services') : undefined
+  if (!services || !isMap(services.value)) return []
+
+  return services.value.items.map(pair => String(scalarValue(pair.key)))
+}
+
+/**
+ * Lint docker-compose.yaml source
+ * Returns issues positioned at the offending node.
+ */
+export function lintDockerCompose(source: string): LintIssue[] {
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(source, { lineCounter })
+  const issues: LintIssue[] = []
+
+  const report = (rule: ComposeLintRule, message: string, node: unknown) => {
+    const { line, col } = lineCounter.linePos((node as Node | null)?.range?.[0] ?? 0)
+    issues.push({
+      rule,
+      severity: COMPOSE_LINT_RULES[rule].severity,
+      message,
+      field: 'dockerComposeYaml',
+      line,
+      column: col,
+    })
+  }
+
+  if (doc.errors.length > 0) {
+    for (const error of doc.errors) {
+      const [start] = error.linePos ?? [{ line: 1, col: 1 }]
+      issues.push({
+        rule: 'compose-syntax',
+        severity: COMPOSE_LINT_RULES['compose-syntax'].severity,
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+        field: 'dockerComposeYaml',
+        line: start.line,
+        column: start.col,
+      })
+    }
+    return issues
+  }
+
+  // Aliases would hide values from the checks below
+  visit(doc, {
+    Alias(_, node) {
+      report('yaml-alias', 'docker-compose.yaml may not use YAML aliases', node)
+    },
+  })
+
+  const root = doc.contents
+  const services = isMap(root) ? findPair(root, 'services') : undefined
+  if (!services || !isMap(services.value)) {
+    report('missing-services', 'docker-compose.yaml must define a "services" mapping', services?.key ?? root)
+    return issues
+  }
+
+  const checkKeys = (map: YAMLMap, allowed: Set<string>, describe: (key: string) => string) => {
+    for (const pair of map.items) {
+      const key = String(scalarValue(pair.key))
+      if (!allowed.has(key) && !isExtensionKey(key)) {
+        report('unsupported-key', describe(key), pair.key)
+      }
+    }
+  }
+
+  // Paths that are not plain strings cannot be checked and count as outside
+  const checkFile = (file: unknown, node: unknown, describe: (file: string) => string) => {
+    if (typeof file !== 'string' || isOutsideTaskDir(file)) {
+      report('file-outside-task', describe(String(file)), node)
+    }
+  }
+
+  checkKeys(root as YAMLMap, ALLOWED_TOP_LEVEL_KEYS, key => `docker-compose.yaml sets "${key}", which task environments may not use`)
+
+  const namedVolumes = findPair(root as YAMLMap, 'volumes')
+  if (namedVolumes && isMap(namedVolumes.value)) {
+    for (const pair of namedVolumes.value.items) {
+      const volumeName = String(scalarValue(pair.key))
+      if (isMap(pair.value)) {
+        checkKeys(pair.value, ALLOWED_VOLUME_KEYS, key => `Volume "${volumeName}" sets "${key}", which task environments may not use`)
+      }
+    }
+  }
+
+  const networks = findPair(root as YAMLMap, 'networks')
+  if (networks) {
+    report('custom-network', 'docker-compose.yaml defines networks; the task network policy sets up the network', networks.key)
+  }
+
+  const serviceMap = services.value as YAMLMap
+  if (!findPair(serviceMap, COMPOSE_CLIENT_SERVICE)) {
+    report(
+      'missing-client-service',
+      `Missing required service "${COMPOSE_CLIENT_SERVICE}"; the harness runs the agent and tests in it`,
+      services.key
+    )
+  }
+
+  for (const pair of serviceMap.items) {
+    const name = String(scalarValue(pair.key))
+    const service = pair.value
+    if (!isMap(service)) continue
+
+    checkKeys(service, ALLOWED_SERVICE_KEYS, key => `Service "${name}" sets "${key}", which task environments may not use`)
+
+    const privileged = findPair(service, 'privileged')
+    if (privileged && scalarValue(privileged.value) !== false) {
+      report('privileged', `Service "${name}" runs privileged`, privileged.value)
+    }
+
+    const build = findPair(service, 'build')
+    if (build && isMap(build.value)) {
+      checkKeys(build.value, ALLOWED_BUILD_KEYS, key => `Service "${name}" sets "build.${key}", which task environments may not use`)
+      const contextPair = findPair(build.value, 'context')
+      const context = contextPair ? scalarValue(contextPair.value) : '.'
+      checkFile(context, contextPair?.value ?? build.key, file => `Service "${name}" builds from "${file}", which is outside the task directory`)
+
+      const dockerfile = findPair(build.value, 'dockerfile')
+      if (dockerfile && typeof context === 'string') {
+        const file = scalarValue(dockerfile.value)
+        checkFile(
+          typeof file === 'string' && !file.startsWith('/') ? `${context.replace(/\/+$/, '')}/${file}` : file,
+          dockerfile.value,
+          () => `Service "${name}" uses Dockerfile "${String(file)}", which is outside the task directory`
+        )
+      }
+    } else if (build) {
+      checkFile(scalarValue(build.value), build.value, file => `Service "${name}" builds from "${file}", which is outside the task directory`)
+    }
+
+    const envFile = findPair(service, 'env_file')
+    if (envFile) {
+      const files = isSeq(envFile.value) ? envFile.value.items : [envFile.value]
+      for (const file of files) {
+        const filePath = isMap(file) ? scalarValue(findPair(file, 'path')?.value) : scalarValue(file)
+        checkFile(filePath, file, value => `Service "${name}" reads env file "${value}", which is outside the task directory`)
+      }
+    }
+
+    const networkMode = findPair(service, 'network_mode')
+    if (networkMode && scalarValue(networkMode.value) === 'host') {
+      report('host-network', `Service "${name}" uses the host network`, networkMode.value)
+    } else if (networkMode) {
+      report('custom-network', `Service "${name}" sets network_mode; the task network policy decides its network`, networkMode.value)
+    }
+
+    const serviceNetworks = findPair(service, 'networks')
+    if (serviceNetworks) {
+      report('custom-network', `Service "${name}" joins its own networks; the task network policy decides its network`, serviceNetworks.key)
+    }
+
+    const volumes = findPair(service, 'volumes')
+    if (volumes && isSeq(volumes.value)) {
+      for (const volume of volumes.value.items) {
+        let hostSource: string | undefined
+
+        if (isScalar(volume) && typeof volume.value === 'string') {
+          const parts = splitVolumeSpec(volume.value)
+          if (parts.length > 1 && isHostPath(parts[0])) hostSource = parts[0]
+        } else if (isMap(volume) && scalarValue(findPair(volume, 'type')?.value) === 'bind') {
+          const mountSource = scalarValue(findPair(volume, 'source')?.value)
+          if (typeof mountSource === 'string') hostSource = mountSource
+        }
+
+        if (hostSource !== undefined && isOutsideTaskDir(hostSource)) {
+          report(
+            'bind-mount-outside-task',
+            `Service "${name}" bind-mounts "${hostSource}", which is outside the task directory`,
+            volume
+          )
+        }
+      }
+    }
+
+    const image = findPair(service, 'image')
+    const imageName = scalarValue(image?.value)
+    if (typeof imageName === 'string' && !imageName.includes('${') && !isPinnedImage(imageName)) {
+      report('unpinned-image', `Service "${name}" uses image "${imageName}" without a pinned tag`, image!.value)
+    }
+
+    if (name !== COMPOSE_CLIENT_SERVICE && !findPair(service, 'healthcheck')) {
+      report('missing-healthcheck', `Service "${name}" has no healthcheck`, pair.key)
+    }
+
+    const ports = findPair(service, 'ports')
+    if (ports && isSeq(ports.value) && ports.value.items.length > 0) {
+      report('exposed-ports', `Service "${name}" publishes ports to the host; use "expose" for service-to-service traffic`, ports.value)
+    }
+  }
+
+  return issues
+}
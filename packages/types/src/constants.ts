@@ -3,7 +3,7 @@
  * Application-wide constants used across all packages
  */
 
-import { TaskState, ReviewDecision, Difficulty, AuditAction } from './enums'
+import { TaskState, ReviewDecision, Difficulty, AuditAction, RunStatus, RunVerdict, NetworkPolicy } from './enums'
 
 // ==================== State Machine Constants ====================
 
@@ -13,11 +13,30 @@ import { TaskState, ReviewDecision, Difficulty, AuditAction } from './enums'
 export const VALID_TASK_TRANSITIONS: Record<TaskState, TaskState[]> = {
   [TaskState.DRAFT]: [TaskState.SUBMITTED],
   [TaskState.SUBMITTED]: [TaskState.IN_REVIEW],
-  [TaskState.IN_REVIEW]: [TaskState.APPROVED, TaskState.REJECTED, TaskState.CHANGES_REQUESTED],
+  [TaskState.IN_REVIEW]: [
+    // The reviewer released their claim, or let its lease lapse
+    TaskState.SUBMITTED,
+    TaskState.PARTIALLY_APPROVED,
+    TaskState.APPROVED,
+    TaskState.REJECTED,
+    TaskState.CHANGES_REQUESTED,
+  ],
+  // Approved by some, but not yet all, of the reviewers the task needs
+  [TaskState.PARTIALLY_APPROVED]: [TaskState.APPROVED, TaskState.REJECTED, TaskState.CHANGES_REQUESTED],
   // Reviewers can change their decision after the fact
-  [TaskState.APPROVED]: [TaskState.REJECTED, TaskState.CHANGES_REQUESTED],
-  [TaskState.REJECTED]: [TaskState.SUBMITTED, TaskState.APPROVED, TaskState.CHANGES_REQUESTED],
-  [TaskState.CHANGES_REQUESTED]: [TaskState.SUBMITTED, TaskState.APPROVED, TaskState.REJECTED],
+  [TaskState.APPROVED]: [TaskState.PARTIALLY_APPROVED, TaskState.REJECTED, TaskState.CHANGES_REQUESTED],
+  [TaskState.REJECTED]: [
+    TaskState.SUBMITTED,
+    TaskState.PARTIALLY_APPROVED,
+    TaskState.APPROVED,
+    TaskState.CHANGES_REQUESTED,
+  ],
+  [TaskState.CHANGES_REQUESTED]: [
+    TaskState.SUBMITTED,
+    TaskState.PARTIALLY_APPROVED,
+    TaskState.APPROVED,
+    TaskState.REJECTED,
+  ],
 }
 
 /**
@@ -49,11 +68,21 @@ export const SUBMITTABLE_STATES: TaskState[] = [
 export const REVIEWABLE_STATES: TaskState[] = [
   TaskState.SUBMITTED,
   TaskState.IN_REVIEW,
+  TaskState.PARTIALLY_APPROVED,
   TaskState.APPROVED,
   TaskState.REJECTED,
   TaskState.CHANGES_REQUESTED,
 ]
 
+/**
+ * States in which a task waits on reviewers
+ */
+export const AWAITING_REVIEW_STATES: TaskState[] = [
+  TaskState.SUBMITTED,
+  TaskState.IN_REVIEW,
+  TaskState.PARTIALLY_APPROVED,
+]
+
 // ==================== UI Constants ====================
 
 /**
@@ -63,6 +92,7 @@ export const STATE_LABELS: Record<TaskState, string> = {
   [TaskState.DRAFT]: 'Draft',
   [TaskState.SUBMITTED]: 'Submitted for Review',
   [TaskState.IN_REVIEW]: 'In Review',
+  [TaskState.PARTIALLY_APPROVED]: 'Partially Approved',
   [TaskState.APPROVED]: 'Approved',
   [TaskState.REJECTED]: 'Rejected',
   [TaskState.CHANGES_REQUESTED]: 'Changes Requested',
@@ -100,6 +130,15 @@ export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
   [AuditAction.REVIEW_STARTED]: 'Started Review',
   [AuditAction.REVIEW_SUBMITTED]: 'Submitted Review',
   [AuditAction.REVIEW_DECISION_CHANGED]: 'Changed Review Decision',
+  [AuditAction.TERMINAL_SESSION]: 'Used Terminal',
+  [AuditAction.TASK_ASSIGNED]: 'Assigned Task',
+  [AuditAction.REVIEW_RELEASED]: 'Released Review',
+  [AuditAction.REVIEW_LEASE_EXPIRED]: 'Review Lease Expired',
+  [AuditAction.REVIEW_REASSIGNED]: 'Reassigned Review',
+  [AuditAction.THREAD_OPENED]: 'Started Discussion',
+  [AuditAction.THREAD_REPLIED]: 'Replied to Discussion',
+  [AuditAction.THREAD_RESOLVED]: 'Resolved Discussion',
+  [AuditAction.THREAD_REOPENED]: 'Reopened Discussion',
 }
 
 /**
@@ -109,6 +148,7 @@ export const STATE_BADGE_CLASSES: Record<TaskState, string> = {
   [TaskState.DRAFT]: 'badge-draft',
   [TaskState.SUBMITTED]: 'badge-submitted',
   [TaskState.IN_REVIEW]: 'badge-in-review',
+  [TaskState.PARTIALLY_APPROVED]: 'badge-partially-approved',
   [TaskState.APPROVED]: 'badge-approved',
   [TaskState.REJECTED]: 'badge-rejected',
   [TaskState.CHANGES_REQUESTED]: 'badge-changes',
@@ -130,11 +170,83 @@ export const STATE_COLORS: Record<TaskState, string> = {
   [TaskState.DRAFT]: 'text-muted-foreground',
   [TaskState.SUBMITTED]: 'text-amber-500',
   [TaskState.IN_REVIEW]: 'text-blue-500',
+  [TaskState.PARTIALLY_APPROVED]: 'text-teal-500',
   [TaskState.APPROVED]: 'text-emerald-500',
   [TaskState.REJECTED]: 'text-red-500',
   [TaskState.CHANGES_REQUESTED]: 'text-orange-500',
 }
 
+/**
+ * Task run status display labels
+ */
+export const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  [RunStatus.QUEUED]: 'Queued',
+  [RunStatus.RUNNING]: 'Running',
+  [RunStatus.PASSED]: 'Passed',
+  [RunStatus.FAILED]: 'Failed',
+  [RunStatus.TIMED_OUT]: 'Timed Out',
+  [RunStatus.ERROR]: 'Error',
+  [RunStatus.CANCELLED]: 'Cancelled',
+}
+
+/**
+ * Task run status color mappings
+ */
+export const RUN_STATUS_COLORS: Record<RunStatus, string> = {
+  [RunStatus.QUEUED]: 'text-muted-foreground',
+  [RunStatus.RUNNING]: 'text-blue-500',
+  [RunStatus.PASSED]: 'text-emerald-500',
+  [RunStatus.FAILED]: 'text-red-500',
+  [RunStatus.TIMED_OUT]: 'text-orange-500',
+  [RunStatus.ERROR]: 'text-red-500',
+  [RunStatus.CANCELLED]: 'text-muted-foreground',
+}
+
+/**
+ * Verification verdict display labels
+ */
+export const RUN_VERDICT_LABELS: Record<RunVerdict, string> = {
+  [RunVerdict.DISCRIMINATING]: 'Tests discriminate',
+  [RunVerdict.VACUOUS]: 'Tests are vacuous',
+  [RunVerdict.ORACLE_FAILED]: 'Solution fails tests',
+}
+
+/**
+ * Verification verdict explanations
+ */
+export const RUN_VERDICT_DESCRIPTIONS: Record<RunVerdict, string> = {
+  [RunVerdict.DISCRIMINATING]: 'run-tests.sh passes after solution.sh and fails on the untouched environment.',
+  [RunVerdict.VACUOUS]: 'run-tests.sh passes on the untouched environment, so the tests do not check the solution.',
+  [RunVerdict.ORACLE_FAILED]: 'run-tests.sh fails even after solution.sh, so the task cannot be solved as written.',
+}
+
+/**
+ * Verification verdict color mappings
+ */
+export const RUN_VERDICT_COLORS: Record<RunVerdict, string> = {
+  [RunVerdict.DISCRIMINATING]: 'text-emerald-500',
+  [RunVerdict.VACUOUS]: 'text-orange-500',
+  [RunVerdict.ORACLE_FAILED]: 'text-red-500',
+}
+
+/**
+ * Network policy display labels
+ */
+export const NETWORK_POLICY_LABELS: Record<NetworkPolicy, string> = {
+  [NetworkPolicy.NONE]: 'None',
+  [NetworkPolicy.RESTRICTED]: 'Restricted',
+  [NetworkPolicy.ALLOWED]: 'Allowed',
+}
+
+/**
+ * Network policy explanations
+ */
+export const NETWORK_POLICY_DESCRIPTIONS: Record<NetworkPolicy, string> = {
+  [NetworkPolicy.NONE]: 'The client container has no network, not even to the task\'s other services.',
+  [NetworkPolicy.RESTRICTED]: 'Containers reach each other but not the internet. Images are still built with network access.',
+  [NetworkPolicy.ALLOWED]: 'Containers have unrestricted network access, including the internet.',
+}
+
 // ==================== Validation Constants ====================
 
 /**
@@ -171,6 +283,118 @@ export const FIELD_LIMITS = {
   COMMENT: { MIN: 0, MAX: 2000 },
 } as const
 
+/**
+ * Independent approvals a task needs before it is approved, by difficulty
+ * The server can override these per deployment.
+ */
+export const DEFAULT_REQUIRED_APPROVALS: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 1,
+  [Difficulty.MEDIUM]: 1,
+  [Difficulty.HARD]: 2,
+}
+
+/**
+ * Allowed range of a reviewer's review capacity (open assignments at once)
+ */
+export const REVIEW_CAPACITY_LIMITS = { MIN: 1, MAX: 50 } as const
+
+/**
+ * How long a reviewer's claim on a task in review lasts without a heartbeat
+ * The server can override this per deployment.
+ */
+export const DEFAULT_REVIEW_LEASE_MINUTES = 30
+
+/**
+ * How often the reviewer page renews its claim while the reviewer has it open
+ */
+export const REVIEW_HEARTBEAT_INTERVAL_MS = 60 * 1000
+
+/**
+ * Network policy of new tasks
+ */
+export const DEFAULT_NETWORK_POLICY = NetworkPolicy.RESTRICTED
+
+/**
+ * Allowed range of each resource limit (CPU in cores, memory and disk in MB)
+ */
+export const RESOURCE_LIMITS = {
+  CPU: { MIN: 0.25, MAX: 16 },
+  MEMORY_MB: { MIN: 128, MAX: 65536 },
+  DISK_MB: { MIN: 256, MAX: 262144 },
+} as const
+
+/**
+ * Limits above which reviewers are warned that a task asks for unusually large resources
+ */
+export const LARGE_RESOURCE_THRESHOLDS = {
+  CPU: 4,
+  MEMORY_MB: 8192,
+  DISK_MB: 20480,
+} as const
+
+// ==================== Task Bundle Constants ====================
+
+/**
+ * Top-level files of a Terminal-Bench task and the Task column holding each
+ */
+export const TASK_FILE_COLUMNS = {
+  'task.yaml': 'taskYaml',
+  'docker-compose.yaml': 'dockerComposeYaml',
+  'solution.sh': 'solutionSh',
+  'run-tests.sh': 'runTestsSh',
+} as const
+
+/**
+ * Directory (relative to the task root) that holds test files
+ */
+export const TESTS_DIR = 'tests'
+
+/**
+ * Top-level files that are part of a task bundle but have no Task column
+ */
+export const EXTRA_TASK_FILES = ['Dockerfile'] as const
+
+/**
+ * File modes used when writing task files to disk
+ */
+export const FILE_MODES = {
+  FILE: 0o644,
+  EXECUTABLE: 0o755,
+} as const
+
+/**
+ * Maximum size of a single task file (in bytes)
+ */
+export const MAX_TASK_FILE_SIZE = 5 * 1024 * 1024
+
+// ==================== Task Run Constants ====================
+
+/**
+ * Run statuses that have not finished yet
+ */
+export const ACTIVE_RUN_STATUSES: RunStatus[] = [RunStatus.QUEUED, RunStatus.RUNNING]
+
+/**
+ * Maximum stdout/stderr kept per run phase (in bytes); older output is dropped
+ */
+export const MAX_RUN_OUTPUT_SIZE = 256 * 1024
+
+/**
+ * Maximum failure message kept per test case (in characters)
+ */
+export const MAX_TEST_MESSAGE_SIZE = 4 * 1024
+
+/**
+ * Largest terminal recording kept for a run (in bytes); later output is dropped
+ */
+export const MAX_RECORDING_SIZE = 5 * 1024 * 1024
+
+/**
+ * How many times a stability check repeats the oracle run
+ */
+export const DEFAULT_STABILITY_ITERATIONS = 5
+export const MAX_STABILITY_ITERATIONS = 20
+
 // ==================== Database Constants ====================
 
 /**
@@ -191,6 +415,13 @@ export const TASK_INCLUDE_AUTHOR_REVIEWER = {
       email: true,
     },
   },
+  assignee: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
 } as const
 
 /**
@@ -207,9 +438,12 @@ export const TASK_SELECT_LIST = {
   state: true,
   authorId: true,
   reviewerId: true,
+  reviewLeaseExpiresAt: true,
+  assigneeId: true,
+  assignedAt: true,
   createdAt: true,
   updatedAt: true,
-  // Exclude heavy fields: taskYaml, dockerComposeYaml, solutionSh, runTestsSh, testsJson
+  // Exclude heavy fields: taskYaml, dockerComposeYaml, solutionSh, runTestsSh, testFiles
   // Exclude timeout fields for list view (not needed)
 } as const
 
@@ -245,12 +479,14 @@ export const TASK_INCLUDE_FULL = {
 export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
+  ACCEPTED: 202,
   NO_CONTENT: 204,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
   UNPROCESSABLE_ENTITY: 422,
   INTERNAL_SERVER_ERROR: 500,
 } as const
@@ -271,4 +507,17 @@ export const ERROR_MESSAGES = {
   INTERNAL_ERROR: 'Internal server error',
   INVALID_TRANSITION: 'Invalid state transition',
   REQUIRED_FIELDS_MISSING: 'Required fields are missing',
+  TASK_YAML_INVALID: 'task.yaml is invalid or does not match the task fields',
+  TASK_LINT_FAILED: 'Task files have lint errors that must be fixed before submitting',
+  TASK_ENVIRONMENT_UNSAFE: 'docker-compose.yaml has lint errors that must be fixed before the task can run',
+  TASK_FILES_NOT_STORED: 'Files of this task version are no longer stored; save the task files again to create a version that can run',
+  RUN_NOT_FOUND: 'Run not found',
+  RUN_ALREADY_ACTIVE: 'A run for this task is already in progress',
+  RUN_NOT_ACTIVE: 'Run has already finished',
+  RUN_CANCEL_FORBIDDEN: 'Forbidden: Only the user who started the run or a reviewer can cancel it',
+  VERIFICATION_REQUIRED: 'Run verification on the latest version of the task before submitting',
+  VERIFICATION_FAILED: 'Verification must show that the tests pass with the solution and fail without it',
+  TERMINAL_NOT_FOUND: 'Terminal session not found or already connected',
+  TERMINAL_CAPACITY: 'All environments are in use by runs and terminal sessions; try again shortly',
+  THREADS_UNRESOLVED: "Reviewers' discussion threads must be resolved before resubmitting",
 } as const
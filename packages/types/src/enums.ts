@@ -18,6 +18,7 @@ export enum TaskState {
   DRAFT = 'DRAFT',
   SUBMITTED = 'SUBMITTED',
   IN_REVIEW = 'IN_REVIEW',
+  PARTIALLY_APPROVED = 'PARTIALLY_APPROVED',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
   CHANGES_REQUESTED = 'CHANGES_REQUESTED',
@@ -29,6 +30,34 @@ export enum ReviewDecision {
   REQUEST_CHANGES = 'REQUEST_CHANGES',
 }
 
+export enum RunStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  PASSED = 'PASSED',
+  FAILED = 'FAILED',
+  TIMED_OUT = 'TIMED_OUT',
+  ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum RunMode {
+  ORACLE = 'ORACLE', // solution.sh, then run-tests.sh
+  VERIFICATION = 'VERIFICATION', // run-tests.sh without the solution, then the oracle run
+  STABILITY = 'STABILITY', // The oracle run, repeated to find flaky tests
+}
+
+export enum RunVerdict {
+  DISCRIMINATING = 'DISCRIMINATING', // Tests pass with the solution and fail without it
+  VACUOUS = 'VACUOUS', // Tests pass without the solution
+  ORACLE_FAILED = 'ORACLE_FAILED', // Tests fail even with the solution
+}
+
+export enum NetworkPolicy {
+  NONE = 'NONE', // No network at all
+  RESTRICTED = 'RESTRICTED', // The task's own services only; no internet access
+  ALLOWED = 'ALLOWED', // Unrestricted network access
+}
+
 export enum AuditAction {
   TASK_CREATED = 'TASK_CREATED',
   TASK_UPDATED = 'TASK_UPDATED',
@@ -40,4 +69,13 @@ export enum AuditAction {
   REVIEW_STARTED = 'REVIEW_STARTED',
   REVIEW_SUBMITTED = 'REVIEW_SUBMITTED',
   REVIEW_DECISION_CHANGED = 'REVIEW_DECISION_CHANGED',
+  TERMINAL_SESSION = 'TERMINAL_SESSION',
+  TASK_ASSIGNED = 'TASK_ASSIGNED',
+  REVIEW_RELEASED = 'REVIEW_RELEASED',
+  REVIEW_LEASE_EXPIRED = 'REVIEW_LEASE_EXPIRED',
+  REVIEW_REASSIGNED = 'REVIEW_REASSIGNED',
+  THREAD_OPENED = 'THREAD_OPENED',
+  THREAD_REPLIED = 'THREAD_REPLIED',
+  THREAD_RESOLVED = 'THREAD_RESOLVED',
+  THREAD_REOPENED = 'THREAD_REOPENED',
 }
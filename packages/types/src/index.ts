@@ -4,7 +4,10 @@
  */
 
 // Import enums for use in type guards
-import { TaskState, ReviewDecision, Difficulty, UserRole } from './enums'
+import { TaskState, ReviewDecision, Difficulty, UserRole, RunStatus, RunMode, RunVerdict, NetworkPolicy } from './enums'
+import type { TaskFileField } from './line-anchors'
+import type { RubricCriterion, RubricRule, RubricScore, RubricScoreInput, RubricTemplate } from './review-rubrics'
+import type { ReviewReason, ReviewReasonReport } from './review-reasons'
 
 // Re-export enums first (needed by constants)
 export * from './enums'
@@ -12,6 +15,14 @@ export * from './enums'
 // Re-export constants and utilities
 export * from './constants'
 export * from './utils'
+export * from './task-yaml'
+export * from './task-resources'
+export * from './task-lint'
+export * from './compose-lint'
+export * from './shell-lint'
+export * from './line-anchors'
+export * from './review-rubrics'
+export * from './review-reasons'
 
 // ==================== Domain Models ====================
 
@@ -21,6 +32,11 @@ export interface User {
   email: string
   name: string | null
   role: UserRole
+  acceptsAssignments: boolean
+  reviewCapacity: number | null
+  reviewCategories: string
+  lastAssignedAt: Date | null
+  isReviewLead: boolean
   createdAt: Date
   updatedAt: Date
 }
@@ -39,19 +55,32 @@ export interface Task {
   categories: string
   maxAgentTimeoutSec: number
   maxTestTimeoutSec: number
+  cpuLimit: number | null // CPU cores
+  memoryLimitMb: number | null
+  diskLimitMb: number | null
+  networkPolicy: NetworkPolicy
   taskYaml: string | null
   dockerComposeYaml: string | null
   solutionSh: string | null
   runTestsSh: string | null
-  testsJson: string | null
+  testFiles: TestFile[]
+  storageOnlyFiles: StorageOnlyFile[] // Files only in the sidecar's file storage, kept current by the sidecar
   state: TaskState
   authorId: string
   reviewerId: string | null
+  reviewLeaseExpiresAt: Date | null // When the reviewer's claim lapses unless renewed
+  assigneeId: string | null // Reviewer the task was assigned to, while it awaits review
+  assignedAt: Date | null
+  submittedAt: Date | null // Start of the current review round
   createdAt: Date
   updatedAt: Date
   author?: UserSummary
   reviewer?: UserSummary
+  assignee?: UserSummary | null
   reviews?: Review[]
+  stabilityReport?: StabilityReport | null // Stability check of the latest version (reviewer views only)
+  reviewConsensus?: ReviewConsensus // Sign-offs in the current round (reviewer views only)
+  rubric?: RubricTemplate | null // Rubric reviews of the task are scored against (reviewer views only)
 }
 
 export interface Review {
@@ -60,10 +89,337 @@ export interface Review {
   reviewerId: string
   decision: ReviewDecision
   comment: string | null
+  reasonCodes: string[] // ReviewReason codes; required for rejections and change requests
+  rubricTemplateId: string | null // Rubric template version the review was scored against
+  rubricScores: RubricScore[] | null
   createdAt: Date
   reviewer?: UserSummary
 }
 
+/**
+ * A reviewer's comment on a line range of one of a task's files
+ * When the author resubmits, the range follows the lines through the diff,
+ * or the comment is marked outdated if they changed.
+ */
+export interface ReviewComment {
+  id: string
+  taskId: string
+  authorId: string
+  field: TaskFileField
+  lineStart: number // 1-based, inclusive
+  lineEnd: number
+  body: string
+  version: number // Task version the comment was made on
+  anchoredVersion: number // Task version lineStart and lineEnd refer to
+  excerpt: string // The commented lines, as they were when the comment was made
+  outdated: boolean
+  createdAt: Date
+  updatedAt: Date
+  author?: UserSummary
+}
+
+/**
+ * A discussion between the task's author and reviewers, on the task or on one of its reviews
+ * Threads opened by reviewers can be required to be resolved before the author resubmits.
+ */
+export interface DiscussionThread {
+  id: string
+  taskId: string
+  reviewId: string | null // Set when the thread discusses a review
+  authorId: string // Who opened the thread
+  resolvedAt: Date | null
+  resolvedById: string | null
+  createdAt: Date
+  updatedAt: Date
+  author?: UserSummary
+  resolvedBy?: UserSummary | null
+  messages?: ThreadMessage[] // Oldest first; the first one opened the thread
+}
+
+export interface ThreadMessage {
+  id: string
+  threadId: string
+  authorId: string
+  body: string
+  createdAt: Date
+  author?: UserSummary
+}
+
+/**
+ * A reviewer's standing decision in the current review round: their latest review
+ */
+export interface ReviewSignOff {
+  reviewId: string
+  reviewer: UserSummary
+  decision: ReviewDecision
+  createdAt: Date
+}
+
+/**
+ * Where a task stands against the number of approvals it needs
+ * Any rejection or change request in the round outweighs approvals until the
+ * reviewer who made it changes their decision or the author resubmits.
+ */
+export interface ReviewConsensus {
+  requiredApprovals: number
+  approvals: ReviewSignOff[]
+  objections: ReviewSignOff[] // Rejections and change requests
+  remainingApprovals: number
+}
+
+// ==================== Review Assignment ====================
+
+/**
+ * A reviewer's preferences for automatic assignment, and their current load
+ */
+export interface ReviewAssignmentSettings {
+  acceptsAssignments: boolean
+  reviewCapacity: number | null // null uses the default capacity
+  reviewCategories: string // Comma-separated categories of expertise
+  defaultCapacity: number
+  openAssignments: number
+}
+
+export interface UpdateReviewAssignmentSettingsDto {
+  acceptsAssignments?: boolean
+  reviewCapacity?: number | null
+  reviewCategories?: string
+}
+
+// ==================== Task Files ====================
+
+/**
+ * Columns on Task that hold the content of a task bundle file
+ */
+export type TaskFileColumn = 'taskYaml' | 'dockerComposeYaml' | 'solutionSh' | 'runTestsSh'
+
+/**
+ * A single file inside a task's tests/ directory
+ */
+export interface TestFile {
+  path: string // Relative to tests/
+  content: string
+  mode: number // Unix permission bits, e.g. 0o644
+}
+
+/**
+ * Metadata for a file stored by the sidecar
+ */
+export interface TaskFileInfo {
+  path: string // Relative to the task root, e.g. "tests/test_outputs.py"
+  size: number
+  mode: number
+  updatedAt: string
+}
+
+/**
+ * A file with no Task column that only exists in the sidecar's file storage
+ * (a Dockerfile, binary test fixtures)
+ */
+export interface StorageOnlyFile {
+  path: string // Relative to the task root
+  size: number
+  mode: number
+  sha256?: string // Key of the stored content; missing on entries recorded before content was kept
+}
+
+/**
+ * File content returned by the sidecar
+ */
+export interface TaskFileContent extends TaskFileInfo {
+  encoding: 'utf8' | 'base64'
+  content: string
+}
+
+// ==================== Task Runs ====================
+
+/**
+ * Steps of a task run, in execution order
+ * "null-tests" runs run-tests.sh on an untouched environment (verification runs only).
+ */
+export type RunPhase = 'null-tests' | 'solution' | 'tests'
+
+/**
+ * Outcome of running one script during a task run
+ */
+export interface RunPhaseResult {
+  phase: RunPhase
+  iteration?: number // Stability runs: which repetition of the oracle run (from 1)
+  exitCode: number | null // null when the script was killed
+  durationMs: number
+  stdout: string
+  stderr: string
+  timedOut: boolean
+}
+
+/**
+ * What a run is doing, as reported on its live log stream
+ */
+export type RunStage = 'building' | RunPhase | 'teardown'
+
+export type RunLogStream = 'stdout' | 'stderr'
+
+/**
+ * An event on a run's live log stream (sent over SSE as `event: <type>`)
+ */
+export type RunEvent =
+  | { type: 'stage'; stage: RunStage; iteration?: number }
+  | { type: 'output'; stream: RunLogStream; data: string }
+  | { type: 'status'; status: RunStatus; error?: string | null }
+
+/**
+ * Header line of an asciicast v2 terminal recording
+ */
+export interface AsciicastHeader {
+  version: 2
+  width: number
+  height: number
+  timestamp?: number // Unix time the recording started
+  title?: string
+  env?: Record<string, string>
+}
+
+/**
+ * An event line of an asciicast v2 recording: seconds since the start, the
+ * event type ("o" for output, "i" for input, "m" for a marker) and its data
+ */
+export type AsciicastEvent = [time: number, type: 'o' | 'i' | 'm', data: string]
+
+/**
+ * An interactive terminal session into a task version's environment
+ * The token authenticates the session's WebSocket and is only valid once.
+ */
+export interface TerminalSession {
+  id: string
+  taskId: string
+  version: number
+  token: string
+  maxDurationSec: number
+  idleTimeoutSec: number
+}
+
+/**
+ * Why a terminal session ended
+ */
+export type TerminalEndReason = 'exited' | 'closed' | 'time-limit' | 'idle' | 'replaced' | 'error'
+
+/**
+ * A message from the browser on a terminal session's WebSocket
+ */
+export type TerminalClientMessage =
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number }
+
+/**
+ * A message from the sidecar on a terminal session's WebSocket
+ * Output before "ready" comes from building the environment.
+ */
+export type TerminalServerMessage =
+  | { type: 'output'; data: string }
+  | { type: 'ready'; expiresAt: string }
+  | { type: 'ended'; reason: TerminalEndReason; message: string }
+
+export type RunTestStatus = 'passed' | 'failed' | 'skipped'
+
+/**
+ * Formats of run-tests.sh output that test results are parsed from
+ */
+export type TestOutputFormat = 'pytest' | 'junit' | 'tap'
+
+/**
+ * A single test case reported by run-tests.sh
+ */
+export interface RunTestResult {
+  name: string
+  status: RunTestStatus
+  durationMs?: number | null // When the output reports it
+  message?: string | null // Failure or skip reason, when the output reports it
+}
+
+/**
+ * An execution of a task version's solution and tests
+ */
+export interface TaskRun {
+  id: string
+  taskId: string
+  version: number // TaskHistory version that was run
+  mode: RunMode
+  iterations: number // Stability runs: how many times the oracle run repeats
+  status: RunStatus
+  verdict: RunVerdict | null // Set when a verification run finishes
+  runtime: string | null // Execution backend, e.g. "docker" or "process"
+  phases: RunPhaseResult[]
+  testResults: RunTestResult[]
+  nullTestResults: RunTestResult[] // Verification runs: results without the solution
+  error: string | null
+  recording: string | null // Storage key of the terminal recording, once the run has one
+  triggeredById: string
+  startedAt: Date | null
+  deadlineAt: Date | null // Set when the run starts; the run is killed if still running then
+  cancelRequestedAt: Date | null
+  heartbeatAt: Date | null // Refreshed while a sidecar executes the run
+  finishedAt: Date | null
+  createdAt: Date
+  queuePosition?: number | null // 1-based place in the run queue while QUEUED
+  triggeredBy?: UserSummary
+}
+
+/**
+ * The test results of one task version, from its latest finished run
+ */
+export interface VersionTestResults {
+  version: number
+  runId: string
+  mode: RunMode
+  status: RunStatus
+  finishedAt: Date | null
+  testResults: RunTestResult[]
+}
+
+/**
+ * A test whose outcome differs between two task versions
+ */
+export interface TestResultChange {
+  name: string
+  from: RunTestResult | null // null when the older version did not report the test
+  to: RunTestResult | null // null when the newer version did not report the test
+}
+
+/**
+ * Test outcomes of two task versions, side by side
+ */
+export interface TestResultComparison {
+  versions: number[] // Versions with a finished run that reported tests, newest first
+  from: VersionTestResults | null
+  to: VersionTestResults | null
+  changes: TestResultChange[]
+}
+
+/**
+ * How consistently one test passed across a stability check
+ */
+export interface TestStability {
+  name: string
+  passed: number // Iterations in which the test passed
+  failed: number
+  skipped: number
+  passRate: number // passed / iterations; iterations that did not report the test count as not passing
+  stable: boolean // Same non-failing outcome in every iteration
+}
+
+/**
+ * Result of a stability check, stored with the task version it ran against
+ */
+export interface StabilityReport {
+  runId: string
+  version: number
+  iterations: number
+  passedIterations: number // Iterations whose run-tests.sh passed
+  tests: TestStability[]
+  stable: boolean
+  createdAt: string
+}
+
 // ==================== API Request DTOs ====================
 
 export interface CreateTaskDto {
@@ -73,11 +429,15 @@ export interface CreateTaskDto {
   categories: string
   maxAgentTimeoutSec: number
   maxTestTimeoutSec: number
+  cpuLimit?: number | null
+  memoryLimitMb?: number | null
+  diskLimitMb?: number | null
+  networkPolicy?: NetworkPolicy
   taskYaml?: string
   dockerComposeYaml?: string
   solutionSh?: string
   runTestsSh?: string
-  testsJson?: string
+  testFiles?: TestFile[]
 }
 
 export interface UpdateTaskDto extends Partial<CreateTaskDto> {}
@@ -85,6 +445,49 @@ export interface UpdateTaskDto extends Partial<CreateTaskDto> {}
 export interface SubmitReviewDto {
   decision: ReviewDecision
   comment?: string
+  rubricScores?: RubricScoreInput[] // Required when the task has a rubric
+  reasonCodes?: string[] // Required when rejecting or requesting changes
+}
+
+export interface CreateReviewReasonDto {
+  code: string
+  label: string
+  description?: string | null
+}
+
+export interface UpdateReviewReasonDto {
+  label?: string
+  description?: string | null
+  isActive?: boolean
+}
+
+export interface SaveRubricTemplateDto {
+  name: string
+  description?: string | null
+  category?: string | null
+  difficulty?: Difficulty | null
+  criteria: RubricCriterion[]
+  rules: RubricRule[]
+}
+
+export interface ReassignReviewDto {
+  reviewerId: string
+}
+
+export interface CreateReviewCommentDto {
+  field: TaskFileField
+  lineStart: number
+  lineEnd: number
+  body: string
+}
+
+export interface CreateThreadDto {
+  body: string
+  reviewId?: string
+}
+
+export interface ReplyToThreadDto {
+  body: string
 }
 
 // ==================== API Response Types ====================
@@ -100,6 +503,10 @@ export interface TaskResponse {
   message?: string
 }
 
+export interface TaskImportResponse extends TaskResponse {
+  unrecognizedFiles: string[] // Archive paths that did not map to a task field
+}
+
 export interface TasksResponse {
   tasks: Task[]
 }
@@ -110,10 +517,66 @@ export interface ReviewResponse {
   message?: string
 }
 
+export interface TaskRunResponse {
+  run: TaskRun
+}
+
+export interface TaskRunsResponse {
+  runs: TaskRun[]
+}
+
 export interface UserResponse {
   user: User
 }
 
+export interface ReviewAssignmentSettingsResponse {
+  settings: ReviewAssignmentSettings
+}
+
+export interface ReviewLeaseResponse {
+  reviewLeaseExpiresAt: Date
+}
+
+export interface ReviewersResponse {
+  reviewers: UserSummary[]
+}
+
+export interface ReviewCommentResponse {
+  comment: ReviewComment
+}
+
+export interface ReviewCommentsResponse {
+  comments: ReviewComment[]
+}
+
+export interface DiscussionThreadResponse {
+  thread: DiscussionThread
+}
+
+export interface DiscussionThreadsResponse {
+  threads: DiscussionThread[]
+}
+
+export interface RubricTemplateResponse {
+  template: RubricTemplate
+}
+
+export interface RubricTemplatesResponse {
+  templates: RubricTemplate[]
+}
+
+export interface ReviewReasonResponse {
+  reason: ReviewReason
+}
+
+export interface ReviewReasonsResponse {
+  reasons: ReviewReason[]
+}
+
+export interface ReviewReasonReportResponse {
+  report: ReviewReasonReport
+}
+
 // ==================== Error Types ====================
 
 export interface ValidationError {
@@ -155,6 +618,14 @@ export function isReviewDecision(value: unknown): value is ReviewDecision {
   return typeof value === 'string' && Object.values(ReviewDecision).includes(value as ReviewDecision)
 }
 
+export function isRunStatus(value: unknown): value is RunStatus {
+  return typeof value === 'string' && Object.values(RunStatus).includes(value as RunStatus)
+}
+
+export function isRunMode(value: unknown): value is RunMode {
+  return typeof value === 'string' && Object.values(RunMode).includes(value as RunMode)
+}
+
 export function isUserRole(value: unknown): value is UserRole {
   return typeof value === 'string' && Object.values(UserRole).includes(value as UserRole)
 }
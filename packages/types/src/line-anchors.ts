@@ -0,0 +1,142 @@
+/**
+ * Line Anchors
+ * Where in a task's files an inline review comment points, and how that
+ * place moves when the files change between versions
+ */
+
+import type { Task, TaskFileColumn } from './index'
+import { TASK_FILE_COLUMNS } from './constants'
+import { parseTestFiles } from './utils'
+
+/**
+ * A file of a task: one of the file columns, or "tests/<path>" for a test file
+ */
+export type TaskFileField = TaskFileColumn | `tests/${string}`
+
+/**
+ * The file contents of a task or of one of its versions
+ */
+export type TaskFileContents = Pick<Task, TaskFileColumn> & { testFiles: unknown }
+
+export interface LineRange {
+  lineStart: number // 1-based, inclusive
+  lineEnd: number
+}
+
+/**
+ * Largest number of differing line pairs compared when re-anchoring
+ * Beyond it, anchors in the changed region are treated as outdated.
+ */
+const MAX_DIFF_CELLS = 4_000_000
+
+const FILE_COLUMNS = Object.values(TASK_FILE_COLUMNS) as TaskFileColumn[]
+
+/**
+ * Whether a string names a task file
+ */
+export function isTaskFileField(field: string): field is TaskFileField {
+  return FILE_COLUMNS.includes(field as TaskFileColumn) || (field.startsWith('tests/') && field.length > 'tests/'.length)
+}
+
+/**
+ * File name of a task file, as it appears in the task's directory
+ */
+export function getTaskFileName(field: TaskFileField): string {
+  const entry = Object.entries(TASK_FILE_COLUMNS).find(([, column]) => column === field)
+  return entry ? entry[0] : field
+}
+
+/**
+ * Content of a task file, or null if the task doesn't have it
+ */
+export function getTaskFileContent(files: TaskFileContents, field: TaskFileField): string | null {
+  if (FILE_COLUMNS.includes(field as TaskFileColumn)) {
+    return files[field as TaskFileColumn]
+  }
+  const path = field.slice('tests/'.length)
+  return parseTestFiles(files.testFiles).find(file => file.path === path)?.content ?? null
+}
+
+/**
+ * The lines of a range, joined back into text
+ */
+export function getLineExcerpt(content: string, { lineStart, lineEnd }: LineRange): string {
+  return content.split('\n').slice(lineStart - 1, lineEnd).join('\n')
+}
+
+/**
+ * For each old line, the index of the same line in the new content, or -1 if it was changed or removed
+ * Lines are matched by a longest common subsequence, after setting aside the
+ * unchanged start and end of the content.
+ */
+function matchLines(oldLines: string[], newLines: string[]): number[] {
+  const matches = new Array<number>(oldLines.length).fill(-1)
+
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    matches[prefix] = prefix
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    matches[oldLines.length - 1 - suffix] = newLines.length - 1 - suffix
+    suffix++
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+  const rows = oldMiddle.length
+  const columns = newMiddle.length
+  if (rows === 0 || columns === 0 || (rows + 1) * (columns + 1) > MAX_DIFF_CELLS) {
+    return matches
+  }
+
+  // lengths[i][j]: longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+  const width = columns + 1
+  const lengths = new Uint32Array((rows + 1) * width)
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  for (let i = 0, j = 0; i < rows && j < columns;) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      matches[prefix + i] = prefix + j
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Where a line range of the old content is in the new content
+ * Returns null (outdated) if any of its lines changed, was removed, or had
+ * lines inserted between them.
+ */
+export function reanchorLineRange(oldContent: string, newContent: string, range: LineRange): LineRange | null {
+  if (oldContent === newContent) return range
+
+  const matches = matchLines(oldContent.split('\n'), newContent.split('\n'))
+  const start = matches[range.lineStart - 1]
+  if (start === undefined || start < 0) return null
+
+  for (let line = range.lineStart; line <= range.lineEnd; line++) {
+    if (matches[line - 1] !== start + (line - range.lineStart)) return null
+  }
+
+  return { lineStart: start + 1, lineEnd: start + 1 + (range.lineEnd - range.lineStart) }
+}
@@ -0,0 +1,146 @@
+/**
+ * Review Reasons
+ * The catalog of reasons reviewers give for rejecting a task or requesting
+ * changes, and the report of which reasons come up most
+ */
+
+import { ReviewDecision } from './enums'
+import { parseCategories } from './utils'
+
+export const REVIEW_REASON_LIMITS = {
+  CODE_MAX: 50,
+  LABEL_MAX: 100,
+  DESCRIPTION_MAX: 500,
+  PER_REVIEW_MAX: 10,
+} as const
+
+/**
+ * Codes are upper snake case, e.g. TESTS_TOO_WEAK
+ */
+export const REVIEW_REASON_CODE_PATTERN = /^[A-Z][A-Z0-9_]*$/
+
+/**
+ * Decisions that need at least one reason
+ */
+export const REASON_REQUIRED_DECISIONS: ReviewDecision[] = [ReviewDecision.REJECT, ReviewDecision.REQUEST_CHANGES]
+
+export interface ReviewReason {
+  code: string
+  label: string
+  description: string | null
+  isActive: boolean // Archived reasons stay on past reviews but can't be picked
+  createdAt: Date
+  updatedAt: Date
+}
+
+export function requiresReviewReason(decision: ReviewDecision): boolean {
+  return REASON_REQUIRED_DECISIONS.includes(decision)
+}
+
+/**
+ * A reason's label from the catalog, or its code made readable (TESTS_TOO_WEAK -> "Tests too weak")
+ */
+export function getReviewReasonLabel(code: string, reasons?: Pick<ReviewReason, 'code' | 'label'>[]): string {
+  const reason = reasons?.find(r => r.code === code)
+  if (reason) return reason.label
+
+  const words = code.toLowerCase().split('_').filter(Boolean).join(' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// ==================== Report ====================
+
+export interface ReviewReasonCount {
+  code: string
+  count: number
+}
+
+/**
+ * How often each reason was given for one category's or author's tasks, most given first
+ */
+export interface ReviewReasonGroup {
+  key: string // Category name, or author ID
+  label: string // Category name, or author name/email
+  reviews: number // Rejections and change requests
+  reasons: ReviewReasonCount[]
+}
+
+export interface ReviewReasonReport {
+  reviews: number
+  reasons: ReviewReasonCount[]
+  byCategory: ReviewReasonGroup[]
+  byAuthor: ReviewReasonGroup[]
+}
+
+/**
+ * A rejection or change request, with the task it was on
+ */
+export interface ReasonedReview {
+  reasonCodes: string[]
+  task: {
+    categories: string
+    author: { id: string; name: string | null; email: string }
+  }
+}
+
+function sortCounts(counts: Map<string, number>): ReviewReasonCount[] {
+  return [...counts]
+    .map(([code, count]) => ({ code, count }))
+    .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code))
+}
+
+interface GroupTally {
+  label: string
+  reviews: number
+  counts: Map<string, number>
+}
+
+function tallyGroup(groups: Map<string, GroupTally>, key: string, label: string, codes: string[]): void {
+  const group = groups.get(key) ?? { label, reviews: 0, counts: new Map() }
+  group.reviews += 1
+  for (const code of codes) {
+    group.counts.set(code, (group.counts.get(code) ?? 0) + 1)
+  }
+  groups.set(key, group)
+}
+
+function toGroups(groups: Map<string, GroupTally>, topReasons: number): ReviewReasonGroup[] {
+  return [...groups]
+    .map(([key, group]) => ({
+      key,
+      label: group.label,
+      reviews: group.reviews,
+      reasons: sortCounts(group.counts).slice(0, topReasons),
+    }))
+    .sort((a, b) => b.reviews - a.reviews || a.label.localeCompare(b.label))
+}
+
+/**
+ * Tally the reasons given in rejections and change requests, overall, per
+ * category and per author, keeping each group's most given reasons
+ * A task in several categories counts toward each of them.
+ */
+export function summarizeReviewReasons(reviews: ReasonedReview[], topReasons = 5): ReviewReasonReport {
+  const overall = new Map<string, number>()
+  const byCategory = new Map<string, GroupTally>()
+  const byAuthor = new Map<string, GroupTally>()
+
+  for (const review of reviews) {
+    const codes = [...new Set(review.reasonCodes)]
+    for (const code of codes) {
+      overall.set(code, (overall.get(code) ?? 0) + 1)
+    }
+    for (const category of new Set(parseCategories(review.task.categories))) {
+      tallyGroup(byCategory, category, category, codes)
+    }
+    const { author } = review.task
+    tallyGroup(byAuthor, author.id, author.name || author.email, codes)
+  }
+
+  return {
+    reviews: reviews.length,
+    reasons: sortCounts(overall),
+    byCategory: toGroups(byCategory, topReasons),
+    byAuthor: toGroups(byAuthor, topReasons),
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Review Rubrics
+ * Criteria reviewers score a task against, and the decisions low scores rule out
+ *
+ * A rubric template is versioned: editing it creates a new version, so every
+ * review keeps pointing at the criteria it was scored against. A template can
+ * be limited to a category and/or a difficulty; a task is scored against the
+ * most specific active template that matches it.
+ */
+
+import { ReviewDecision } from './enums'
+import type { Difficulty } from './enums'
+import { DECISION_LABELS } from './constants'
+import { parseCategories } from './utils'
+
+export const RUBRIC_LIMITS = {
+  SCORE_MIN: 1,
+  SCORE_MAX: 5,
+  CRITERIA_MAX: 30,
+  NAME_MAX: 100,
+  LABEL_MAX: 100,
+  DESCRIPTION_MAX: 500,
+  NOTE_MAX: 1000,
+} as const
+
+export interface RubricCriterion {
+  id: string // Stable across versions of the template
+  label: string
+  description?: string
+}
+
+/**
+ * A rule such as "any criterion scored 1 forces REQUEST_CHANGES"
+ */
+export interface RubricRule {
+  maxScore: number // Applies when a criterion is scored at or below this
+  decision: ReviewDecision.REQUEST_CHANGES | ReviewDecision.REJECT // Least severe decision allowed then
+  criterionIds?: string[] // Criteria the rule applies to; all of them when omitted
+}
+
+export interface RubricTemplate {
+  id: string
+  key: string // Shared by every version of the template
+  version: number
+  name: string
+  description: string | null
+  category: string | null // Only for tasks in this category; null for any
+  difficulty: Difficulty | null // Only for tasks of this difficulty; null for any
+  criteria: RubricCriterion[]
+  rules: RubricRule[]
+  isActive: boolean // Only the latest version of a template in use is active
+  createdById: string
+  createdAt: Date
+}
+
+/**
+ * A reviewer's score for one criterion, stored with their review
+ * The label is copied from the template so the review reads the same later.
+ */
+export interface RubricScore {
+  criterionId: string
+  label: string
+  score: number
+  note?: string
+}
+
+export type RubricScoreInput = Omit<RubricScore, 'label'>
+
+/**
+ * The decision a set of scores requires, and which scores require it
+ */
+export interface RubricRequirement {
+  decision: ReviewDecision
+  reasons: string[] // e.g. "Test coverage scored 1"
+}
+
+const DECISION_SEVERITY: Record<ReviewDecision, number> = {
+  [ReviewDecision.APPROVE]: 0,
+  [ReviewDecision.REQUEST_CHANGES]: 1,
+  [ReviewDecision.REJECT]: 2,
+}
+
+/**
+ * Whether a decision is at least as severe as another (APPROVE < REQUEST_CHANGES < REJECT)
+ */
+export function isDecisionAtLeast(decision: ReviewDecision, minimum: ReviewDecision): boolean {
+  return DECISION_SEVERITY[decision] >= DECISION_SEVERITY[minimum]
+}
+
+/**
+ * Pick the template a task is scored against: the active one matching the
+ * task's category and difficulty most specifically (a category match outranks
+ * a difficulty match), or null when none applies
+ */
+export function selectRubricTemplate<T extends Pick<RubricTemplate, 'category' | 'difficulty' | 'isActive'>>(
+  templates: T[],
+  task: { categories: string; difficulty: Difficulty }
+): T | null {
+  const categories = parseCategories(task.categories).map(c => c.toLowerCase())
+  let selected: T | null = null
+  let selectedRank = -1
+
+  for (const template of templates) {
+    if (!template.isActive) continue
+    if (template.category && !categories.includes(template.category.toLowerCase())) continue
+    if (template.difficulty && template.difficulty !== task.difficulty) continue
+
+    const rank = (template.category ? 2 : 0) + (template.difficulty ? 1 : 0)
+    if (rank > selectedRank) {
+      selected = template
+      selectedRank = rank
+    }
+  }
+
+  return selected
+}
+
+/**
+ * The least severe decision the scores allow, or null when they allow any
+ */
+export function getRubricRequirement(
+  template: Pick<RubricTemplate, 'criteria' | 'rules'>,
+  scores: RubricScoreInput[]
+): RubricRequirement | null {
+  const labels = new Map(template.criteria.map(criterion => [criterion.id, criterion.label]))
+  let decision: ReviewDecision | null = null
+  const reasons = new Set<string>()
+
+  for (const rule of template.rules) {
+    for (const score of scores) {
+      if (score.score > rule.maxScore) continue
+      if (rule.criterionIds?.length && !rule.criterionIds.includes(score.criterionId)) continue
+
+      if (!decision || !isDecisionAtLeast(decision, rule.decision)) {
+        decision = rule.decision
+      }
+      reasons.add(`${labels.get(score.criterionId) ?? score.criterionId} scored ${score.score}`)
+    }
+  }
+
+  return decision ? { decision, reasons: [...reasons] } : null
+}
+
+/**
+ * Check a review's scores against its template
+ * Every criterion must be scored exactly once, within range, and the decision
+ * must be at least as severe as the rules require. Returns the problems found.
+ */
+export function validateRubricScores(
+  template: Pick<RubricTemplate, 'criteria' | 'rules'>,
+  scores: RubricScoreInput[],
+  decision: ReviewDecision
+): string[] {
+  const errors: string[] = []
+  const criterionIds = new Set(template.criteria.map(criterion => criterion.id))
+  const scored = new Set<string>()
+
+  for (const score of scores) {
+    if (!criterionIds.has(score.criterionId)) {
+      errors.push(`Unknown criterion: ${score.criterionId}`)
+    } else if (scored.has(score.criterionId)) {
+      errors.push(`Criterion scored more than once: ${score.criterionId}`)
+    }
+    if (!Number.isInteger(score.score) || score.score < RUBRIC_LIMITS.SCORE_MIN || score.score > RUBRIC_LIMITS.SCORE_MAX) {
+      errors.push(`Scores must be whole numbers from ${RUBRIC_LIMITS.SCORE_MIN} to ${RUBRIC_LIMITS.SCORE_MAX}`)
+    }
+    scored.add(score.criterionId)
+  }
+
+  const missing = template.criteria.filter(criterion => !scored.has(criterion.id))
+  if (missing.length > 0) {
+    errors.push(`Score every criterion. Missing: ${missing.map(criterion => criterion.label).join(', ')}`)
+  }
+
+  const requirement = getRubricRequirement(template, scores)
+  if (requirement && !isDecisionAtLeast(decision, requirement.decision)) {
+    errors.push(
+      `${requirement.reasons.join(', ')}, so the decision can be no more lenient than ${DECISION_LABELS[requirement.decision]}`
+    )
+  }
+
+  return errors
+}
@@ -0,0 +1,325 @@
+/**
+ * Shell Script Lint
+ * ShellCheck-style checks for solution.sh and run-tests.sh, implemented
+ * without an external binary
+ *
+ * The script is first reduced to a "mask" of the same length in which quoted
+ * text becomes placeholder characters and comments and heredoc bodies become
+ * blanks. Checks then run over the mask, so quoting and comments never need
+ * to be handled twice, and positions map straight back to the source.
+ */
+
+import type { LintIssue, LintSeverity } from './task-lint'
+
+export const SHELL_LINT_RULES = {
+  'missing-shebang': { severity: 'error', description: 'Scripts must start with a shebang line' },
+  'missing-set-e': { severity: 'warning', description: 'Scripts should exit on the first failing command' },
+  'unquoted-variable': { severity: 'warning', description: 'Variable expansions should be double-quoted' },
+  'network-fetch-in-tests': { severity: 'warning', description: 'Tests should not fetch from the network' },
+  'absolute-path-outside-app': { severity: 'warning', description: 'Absolute paths should stay under /app' },
+} as const satisfies Record<string, { severity: LintSeverity; description: string }>
+
+export type ShellLintRule = keyof typeof SHELL_LINT_RULES
+
+export type ShellScriptField = 'solutionSh' | 'runTestsSh'
+
+/**
+ * Absolute paths that are fine to use outside /app
+ */
+const ALLOWED_PATH_PREFIXES = ['/app', '/tmp', '/dev', '/proc', '/bin', '/sbin', '/usr/bin', '/usr/sbin', '/usr/local/bin']
+
+/**
+ * Words that can precede the command name in a simple command
+ */
+const COMMAND_PREFIX_WORDS = new Set([
+  'if', 'then', 'else', 'elif', 'while', 'until', 'do', '!', '{', '}',
+  'time', 'sudo', 'exec', 'command', 'nohup', 'env', 'xargs',
+])
+
+const NETWORK_COMMANDS = new Set(['curl', 'wget'])
+
+const QUOTED = 'x'
+
+interface Span {
+  start: number
+  end: number
+}
+
+interface Token extends Span {
+  text: string
+}
+
+/**
+ * Reduce a script to its unquoted structure
+ * Returns the mask and spans (arithmetic and [[ ]] tests) where unquoted
+ * expansions are not word-split.
+ */
+function maskScript(source: string): { mask: string[]; noSplit: Span[] } {
+  const mask = source.split('')
+  const noSplit: Span[] = []
+  // Context stack: double quotes, or a $( ) substitution with its paren depth
+  const stack: { type: 'dquote' | 'subst'; depth: number }[] = []
+  const pendingHeredocs: { delimiter: string; stripTabs: boolean }[] = []
+  const blank = (from: number, to: number) => {
+    for (let j = from; j < to; j++) {
+      if (mask[j] !== '\n') mask[j] = ' '
+    }
+  }
+
+  let i = 0
+  while (i < source.length) {
+    const char = source[i]
+    const top = stack[stack.length - 1]
+    const inDquote = top?.type === 'dquote'
+
+    if (char === '\\') {
+      if (source[i + 1] === '\n') {
+        mask[i] = ' '
+        mask[i + 1] = ' '
+      } else if (i + 1 < source.length) {
+        mask[i + 1] = QUOTED
+      }
+      i += 2
+      continue
+    }
+
+    if (char === '$' && source[i + 1] === '(' && source[i + 2] !== '(') {
+      stack.push({ type: 'subst', depth: 0 })
+      i += 2
+      continue
+    }
+
+    if (inDquote) {
+      if (char === '"') {
+        stack.pop()
+      } else if (char !== '\n') {
+        mask[i] = QUOTED
+      }
+      i++
+      continue
+    }
+
+    if (char === '"') {
+      stack.push({ type: 'dquote', depth: 0 })
+      i++
+      continue
+    }
+
+    if (char === "'") {
+      const close = source.indexOf("'", i + 1)
+      const end = close === -1 ? source.length : close
+      for (let j = i + 1; j < end; j++) {
+        if (mask[j] !== '\n') mask[j] = QUOTED
+      }
+      i = end + 1
+      continue
+    }
+
+    if (top?.type === 'subst') {
+      if (char === '(') top.depth++
+      if (char === ')') {
+        if (top.depth === 0) stack.pop()
+        else top.depth--
+      }
+    }
+
+    // Arithmetic: $(( )) and (( )) never word-split
+    if (char === '(' && source[i + 1] === '(') {
+      const close = source.indexOf('))', i + 2)
+      const end = close === -1 ? source.length : close + 2
+      noSplit.push({ start: i, end })
+      i = end
+      continue
+    }
+
+    if (char === '[' && source[i + 1] === '[') {
+      const close = source.indexOf(']]', i + 2)
+      const end = close === -1 ? source.length : close + 2
+      noSplit.push({ start: i, end })
+    }
+
+    // Comments start at the beginning of a word
+    if (char === '#' && (i === 0 || /[\s;&|()]/.test(source[i - 1]))) {
+      const newline = source.indexOf('\n', i)
+      const end = newline === -1 ? source.length : newline
+      blank(i, end)
+      i = end
+      continue
+    }
+
+    if (char === '<' && source[i + 1] === '<' && source[i + 2] !== '<') {
+      const match = /^<<(-?)\s*(['"]?)([A-Za-z_][A-Za-z0-9_]*)\2/.exec(source.slice(i))
+      if (match) {
+        pendingHeredocs.push({ delimiter: match[3], stripTabs: match[1] === '-' })
+        i += match[0].length
+        continue
+      }
+    }
+
+    // Heredoc bodies start on the line after the redirection
+    if (char === '\n' && pendingHeredocs.length > 0) {
+      let position = i + 1
+      for (const heredoc of pendingHeredocs) {
+        while (position < source.length) {
+          const newline = source.indexOf('\n', position)
+          const lineEnd = newline === -1 ? source.length : newline
+          const line = source.slice(position, lineEnd)
+          blank(position, lineEnd)
+          position = lineEnd + 1
+          if ((heredoc.stripTabs ? line.replace(/^\t+/, '') : line) === heredoc.delimiter) break
+        }
+      }
+      pendingHeredocs.length = 0
+      i = position
+      continue
+    }
+
+    i++
+  }
+
+  return { mask, noSplit }
+}
+
+/**
+ * Split the mask into simple commands and their whitespace-separated words
+ */
+function splitCommands(mask: string[], source: string): Token[][] {
+  const commands: Token[][] = []
+  let words: Token[] = []
+  let wordStart = -1
+
+  const endWord = (end: number) => {
+    if (wordStart !== -1) {
+      words.push({ start: wordStart, end, text: source.slice(wordStart, end) })
+      wordStart = -1
+    }
+  }
+  const endCommand = () => {
+    if (words.length > 0) commands.push(words)
+    words = []
+  }
+
+  for (let i = 0; i <= mask.length; i++) {
+    const char = i < mask.length ? mask[i] : '\n'
+
+    if (/[\n;&|()`]/.test(char)) {
+      endWord(i)
+      endCommand()
+    } else if (/\s/.test(char)) {
+      endWord(i)
+    } else if (wordStart === -1) {
+      wordStart = i
+    }
+  }
+
+  return commands
+}
+
+/**
+ * Skip leading assignments and prefix words to find the command name
+ */
+function commandName(words: Token[]): Token | undefined {
+  return words.find(word =>
+    !COMMAND_PREFIX_WORDS.has(word.text) && !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word.text)
+  )
+}
+
+function unquote(text: string): string {
+  return text.replace(/["']/g, '')
+}
+
+/**
+ * Whether a `set` command turns on errexit
+ */
+function enablesErrexit(words: Token[]): boolean {
+  const args = words.slice(1).map(word => word.text)
+  return args.some((arg, index) =>
+    /^-[a-zA-Z]*e/.test(arg) || (arg === '-o' && args[index + 1] === 'errexit')
+  )
+}
+
+/**
+ * Lint a shell script
+ * Network fetches are only flagged in run-tests.sh.
+ */
+export function lintShellScript(source: string, field: ShellScriptField): LintIssue[] {
+  const issues: LintIssue[] = []
+  const lineStarts = [0]
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1)
+  }
+
+  const report = (rule: ShellLintRule, message: string, offset: number) => {
+    let line = 0
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++
+    issues.push({
+      rule,
+      severity: SHELL_LINT_RULES[rule].severity,
+      message,
+      field,
+      line: line + 1,
+      column: offset - lineStarts[line] + 1,
+    })
+  }
+
+  const firstLine = source.split('\n')[0]
+  if (!firstLine.startsWith('#!')) {
+    report('missing-shebang', 'Missing shebang line, e.g. "#!/bin/bash"', 0)
+  }
+
+  const { mask, noSplit } = maskScript(source)
+  const commands = splitCommands(mask, source)
+
+  const hasErrexit = /^#!.*\s-[a-zA-Z]*e/.test(firstLine) || commands.some(words => {
+    const name = commandName(words)
+    return name?.text === 'set' && enablesErrexit(words.slice(words.indexOf(name)))
+  })
+  if (!hasErrexit) {
+    report('missing-set-e', 'Script does not enable "set -e"; failing commands will be ignored', 0)
+  }
+
+  for (const words of commands) {
+    const name = commandName(words)
+
+    if (field === 'runTestsSh' && name && NETWORK_COMMANDS.has(name.text)) {
+      report(
+        'network-fetch-in-tests',
+        `"${name.text}" fetches from the network; tests should run offline against the environment`,
+        name.start
+      )
+    }
+
+    const isCase = words[0]?.text === 'case'
+
+    for (const [index, word] of words.entries()) {
+      // Unquoted expansions (special parameters like $? and $# are numeric and safe)
+      const isAssignment = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/.test(word.text)
+      if (!isAssignment && !(isCase && index === 1)) {
+        for (let i = word.start; i < word.end; i++) {
+          if (mask[i] !== '$' || !/[A-Za-z_{@*0-9]/.test(mask[i + 1] ?? '')) continue
+          if (source.startsWith('${#', i)) continue
+          if (noSplit.some(span => i >= span.start && i < span.end)) continue
+
+          const variable = /^\$(\{[^}]*\}|[A-Za-z_][A-Za-z0-9_]*|[@*0-9])/.exec(source.slice(i))?.[0] ?? '$'
+          report('unquoted-variable', `Double-quote ${variable} to prevent word splitting and globbing`, i)
+        }
+      }
+
+      // Absolute paths, including redirection targets and --flag=/path values
+      const pathMatch = /^(?:\d*[<>]+&?|[A-Za-z0-9_-]*=)?(\/[A-Za-z0-9._\-/]*)/.exec(unquote(word.text))
+      if (pathMatch && pathMatch[1].length > 1) {
+        const path = pathMatch[1]
+        const allowed = ALLOWED_PATH_PREFIXES.some(prefix => path === prefix || path.startsWith(`${prefix}/`))
+        if (!allowed) {
+          report(
+            'absolute-path-outside-app',
+            `Absolute path "${path}" is outside /app`,
+            word.start
+          )
+        }
+      }
+    }
+  }
+
+  return issues
+}
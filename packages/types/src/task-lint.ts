@@ -0,0 +1,68 @@
+/**
+ * Task Lint
+ * Static checks over a task's files that flag problems reviewers otherwise catch by eye
+ */
+
+import type { TaskFileColumn } from './index'
+import { lintDockerCompose } from './compose-lint'
+import { lintShellScript } from './shell-lint'
+
+export type LintSeverity = 'error' | 'warning'
+
+/**
+ * A single lint finding, positioned in its file (1-based)
+ */
+export interface LintIssue {
+  rule: string
+  severity: LintSeverity
+  message: string
+  field: TaskFileColumn
+  line: number
+  column: number
+}
+
+export interface TaskLintResult {
+  issues: LintIssue[]
+  errorCount: number
+  warningCount: number
+}
+
+/**
+ * Task file contents the linters look at
+ */
+export type LintableTaskFiles = Partial<Record<TaskFileColumn, string | null>>
+
+/**
+ * Order issues by file, then position, and count them by severity
+ */
+export function summarizeLintIssues(issues: LintIssue[]): TaskLintResult {
+  const sorted = [...issues].sort((a, b) =>
+    a.field.localeCompare(b.field) || a.line - b.line || a.column - b.column
+  )
+
+  return {
+    issues: sorted,
+    errorCount: sorted.filter(issue => issue.severity === 'error').length,
+    warningCount: sorted.filter(issue => issue.severity === 'warning').length,
+  }
+}
+
+/**
+ * Run every linter over a task's files
+ * Empty files produce no issues.
+ */
+export function lintTaskFiles(files: LintableTaskFiles): TaskLintResult {
+  const issues: LintIssue[] = []
+
+  if (files.dockerComposeYaml?.trim()) {
+    issues.push(...lintDockerCompose(files.dockerComposeYaml))
+  }
+  if (files.solutionSh?.trim()) {
+    issues.push(...lintShellScript(files.solutionSh, 'solutionSh'))
+  }
+  if (files.runTestsSh?.trim()) {
+    issues.push(...lintShellScript(files.runTestsSh, 'runTestsSh'))
+  }
+
+  return summarizeLintIssues(issues)
+}
@@ -0,0 +1,163 @@
+/**
+ * Task Resource Limits
+ * CPU, memory, disk and network settings of a task, and how they are carried
+ * into task.yaml and a docker-compose override
+ */
+
+import { parse, parseDocument, stringify, isMap } from 'yaml'
+import type { YAMLMap } from 'yaml'
+import { NetworkPolicy } from './enums'
+import { LARGE_RESOURCE_THRESHOLDS } from './constants'
+import { COMPOSE_CLIENT_SERVICE, getComposeServiceNames } from './compose-lint'
+
+export interface TaskResourceLimits {
+  cpuLimit: number | null // CPU cores
+  memoryLimitMb: number | null
+  diskLimitMb: number | null
+  networkPolicy: NetworkPolicy
+}
+
+/**
+ * task.yaml keys the resource limits are written to
+ */
+export const TASK_YAML_RESOURCE_KEYS: Record<keyof TaskResourceLimits, string> = {
+  cpuLimit: 'cpu_limit',
+  memoryLimitMb: 'memory_limit_mb',
+  diskLimitMb: 'disk_limit_mb',
+  networkPolicy: 'network_policy',
+}
+
+/**
+ * Compose file the resource limits are exported to, next to docker-compose.yaml
+ */
+export const COMPOSE_OVERRIDE_FILE = 'docker-compose.override.yaml'
+
+/**
+ * Extract resource limits from a parsed task.yaml document
+ * Numeric strings become numbers and the network policy is upper-cased;
+ * anything else is passed through so schema validation can report it.
+ */
+export function taskYamlDocumentToResourceLimits(doc: unknown): Partial<TaskResourceLimits> {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    return {}
+  }
+
+  const data = doc as Record<string, unknown>
+  const limits: Record<string, unknown> = {}
+
+  for (const [field, key] of Object.entries(TASK_YAML_RESOURCE_KEYS)) {
+    const value = data[key]
+    if (value === undefined || value === null) continue
+
+    if (field === 'networkPolicy') {
+      limits[field] = typeof value === 'string' ? value.trim().toUpperCase() : value
+    } else {
+      limits[field] = typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value
+    }
+  }
+
+  return limits as Partial<TaskResourceLimits>
+}
+
+/**
+ * Parse task.yaml source and extract resource limits
+ * Throws on YAML syntax errors.
+ */
+export function extractTaskYamlResourceLimits(source: string): Partial<TaskResourceLimits> {
+  return taskYamlDocumentToResourceLimits(parse(source))
+}
+
+/**
+ * Write resource limits into task.yaml
+ * Unset limits are removed; comments, key order and other keys are preserved.
+ * Returns the source unchanged when it is not a parseable mapping.
+ */
+export function writeTaskYamlResourceLimits(source: string, limits: TaskResourceLimits): string {
+  const doc = parseDocument(source)
+  if (doc.errors.length > 0 || !isMap(doc.contents)) {
+    return source
+  }
+
+  const root = doc.contents as YAMLMap<unknown, unknown>
+  for (const [field, key] of Object.entries(TASK_YAML_RESOURCE_KEYS)) {
+    const value = limits[field as keyof TaskResourceLimits]
+    if (value === null) {
+      root.delete(key)
+    } else {
+      root.set(key, field === 'networkPolicy' ? String(value).toLowerCase() : value)
+    }
+  }
+
+  return doc.toString()
+}
+
+/**
+ * Build a docker-compose override that applies resource limits to the
+ * services of docker-compose.yaml
+ * CPU and memory are capped on every service. RESTRICTED makes the default
+ * network internal, so services reach each other but not the internet; NONE
+ * also takes the client off the network entirely. This relies on every
+ * service using the default network, which the "custom-network" lint rule
+ * enforces. Compose cannot cap disk usage portably, so the disk limit is
+ * left to the executor. Returns null when there is nothing to override.
+ */
+export function buildComposeOverride(limits: TaskResourceLimits, dockerComposeYaml: string): string | null {
+  const serviceLimits: Record<string, unknown> = {}
+  if (limits.cpuLimit !== null) {
+    serviceLimits.cpus = limits.cpuLimit
+  }
+  if (limits.memoryLimitMb !== null) {
+    // Equal limits keep the container from swapping past its memory limit
+    serviceLimits.mem_limit = `${limits.memoryLimitMb}m`
+    serviceLimits.memswap_limit = `${limits.memoryLimitMb}m`
+  }
+
+  const serviceNames = getComposeServiceNames(dockerComposeYaml)
+  if (!serviceNames.includes(COMPOSE_CLIENT_SERVICE)) {
+    serviceNames.push(COMPOSE_CLIENT_SERVICE)
+  }
+
+  const services: Record<string, Record<string, unknown>> = {}
+  for (const name of serviceNames) {
+    const service = { ...serviceLimits }
+    if (name === COMPOSE_CLIENT_SERVICE && limits.networkPolicy === NetworkPolicy.NONE) {
+      service.network_mode = 'none'
+    }
+    if (Object.keys(service).length > 0) {
+      services[name] = service
+    }
+  }
+
+  const override: Record<string, unknown> = {}
+  if (Object.keys(services).length > 0) {
+    override.services = services
+  }
+  if (limits.networkPolicy !== NetworkPolicy.ALLOWED) {
+    override.networks = { default: { internal: true } }
+  }
+
+  return Object.keys(override).length > 0 ? stringify(override) : null
+}
+
+/**
+ * Resource settings a reviewer should double-check: network access and
+ * limits above LARGE_RESOURCE_THRESHOLDS
+ */
+export function getResourceWarnings(limits: TaskResourceLimits): string[] {
+  const warnings: string[] = []
+
+  if (limits.networkPolicy === NetworkPolicy.ALLOWED) {
+    warnings.push('Task requests unrestricted network access; check that the solution and tests do not depend on the internet.')
+  }
+  if (limits.cpuLimit !== null && limits.cpuLimit > LARGE_RESOURCE_THRESHOLDS.CPU) {
+    warnings.push(`Task requests ${limits.cpuLimit} CPU cores (more than ${LARGE_RESOURCE_THRESHOLDS.CPU}).`)
+  }
+  if (limits.memoryLimitMb !== null && limits.memoryLimitMb > LARGE_RESOURCE_THRESHOLDS.MEMORY_MB) {
+    warnings.push(`Task requests ${limits.memoryLimitMb} MB of memory (more than ${LARGE_RESOURCE_THRESHOLDS.MEMORY_MB} MB).`)
+  }
+  if (limits.diskLimitMb !== null && limits.diskLimitMb > LARGE_RESOURCE_THRESHOLDS.DISK_MB) {
+    warnings.push(`Task requests ${limits.diskLimitMb} MB of disk (more than ${LARGE_RESOURCE_THRESHOLDS.DISK_MB} MB).`)
+  }
+
+  return warnings
+}
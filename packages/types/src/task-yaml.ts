@@ -0,0 +1,638 @@
+/**
+ * task.yaml Helpers
+ * Mapping between a Terminal-Bench task.yaml and the structured Task fields
+ */
+
+import { parse, parseDocument, stringify, isMap, isScalar, isSeq, LineCounter, Scalar } from 'yaml'
+import type { Node, Pair, YAMLMap } from 'yaml'
+import { Difficulty, NetworkPolicy } from './enums'
+import { FIELD_LIMITS, MIN_TIMEOUTS, MAX_TIMEOUTS } from './constants'
+
+/**
+ * Task fields that can be derived from task.yaml
+ */
+export interface TaskYamlFields {
+  title?: string
+  instruction?: string
+  difficulty?: Difficulty
+  categories?: string
+  maxAgentTimeoutSec?: number
+  maxTestTimeoutSec?: number
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value)
+  }
+  return undefined
+}
+
+function asStringList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map(v => v.trim()).filter(v => v.length > 0)
+  }
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0)
+  }
+  return []
+}
+
+/**
+ * Extract structured task fields from a parsed task.yaml document
+ * Unknown difficulty values are upper-cased and passed through so schema
+ * validation can report them.
+ */
+export function taskYamlDocumentToFields(doc: unknown): TaskYamlFields {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    return {}
+  }
+
+  const data = doc as Record<string, unknown>
+  const fields: TaskYamlFields = {}
+
+  const title = asString(data.title)
+  if (title !== undefined) fields.title = title
+
+  const instruction = asString(data.instruction)
+  if (instruction !== undefined) fields.instruction = instruction
+
+  const difficulty = asString(data.difficulty)
+  if (difficulty !== undefined) fields.difficulty = difficulty.trim().toUpperCase() as Difficulty
+
+  // task.yaml has a single "category" plus free-form "tags"; some tasks use "categories"
+  const categories = data.categories !== undefined
+    ? asStringList(data.categories)
+    : [...asStringList(data.category), ...asStringList(data.tags)]
+  if (categories.length > 0) {
+    fields.categories = Array.from(new Set(categories.map(c => c.trim()))).join(',')
+  }
+
+  const maxAgentTimeoutSec = asNumber(data.max_agent_timeout_sec)
+  if (maxAgentTimeoutSec !== undefined) fields.maxAgentTimeoutSec = maxAgentTimeoutSec
+
+  const maxTestTimeoutSec = asNumber(data.max_test_timeout_sec)
+  if (maxTestTimeoutSec !== undefined) fields.maxTestTimeoutSec = maxTestTimeoutSec
+
+  return fields
+}
+
+/**
+ * Parse task.yaml source and extract structured task fields
+ * Throws on YAML syntax errors.
+ */
+export function extractTaskYamlFields(source: string): TaskYamlFields {
+  return taskYamlDocumentToFields(parse(source))
+}
+
+/**
+ * Build a task.yaml document from structured task fields
+ * Used when a task has no task.yaml of its own. The first category becomes
+ * "category" and the rest become "tags", mirroring the Terminal-Bench layout.
+ */
+export function buildTaskYaml(fields: Required<Omit<TaskYamlFields, 'title'>>): string {
+  const [category, ...tags] = fields.categories
+    .split(',')
+    .map(c => c.trim())
+    .filter(c => c.length > 0)
+
+  return stringify({
+    instruction: fields.instruction,
+    difficulty: fields.difficulty.toLowerCase(),
+    ...(category && { category }),
+    ...(tags.length > 0 && { tags }),
+    max_agent_timeout_sec: fields.maxAgentTimeoutSec,
+    max_test_timeout_sec: fields.maxTestTimeoutSec,
+  })
+}
+
+// ==================== Validation ====================
+
+/**
+ * A problem found in task.yaml, positioned at the offending node (1-based)
+ */
+export interface TaskYamlIssue {
+  path: string[] // Key path inside task.yaml, empty for document-level problems
+  message: string
+  line: number
+  column: number
+}
+
+type TaskYamlValueType = 'string' | 'number' | 'boolean' | 'string-list' | 'string-or-list'
+
+/**
+ * Known top-level task.yaml keys and their types
+ * Keys not listed here are allowed and left unchecked.
+ */
+const TASK_YAML_KEYS: Record<string, { type: TaskYamlValueType; required?: boolean }> = {
+  instruction: { type: 'string', required: true },
+  difficulty: { type: 'string', required: true },
+  max_agent_timeout_sec: { type: 'number', required: true },
+  max_test_timeout_sec: { type: 'number', required: true },
+  title: { type: 'string' },
+  category: { type: 'string' },
+  categories: { type: 'string-or-list' },
+  tags: { type: 'string-list' },
+  author_name: { type: 'string' },
+  author_email: { type: 'string' },
+  parser_name: { type: 'string' },
+  run_tests_in_same_shell: { type: 'boolean' },
+  expert_time_estimate_min: { type: 'number' },
+  junior_time_estimate_min: { type: 'number' },
+  cpu_limit: { type: 'number' },
+  memory_limit_mb: { type: 'number' },
+  disk_limit_mb: { type: 'number' },
+  network_policy: { type: 'string' },
+}
+
+const TYPE_LABELS: Record<TaskYamlValueType, string> = {
+  'string': 'a string',
+  'number': 'a number',
+  'boolean': 'true or false',
+  'string-list': 'a list of strings',
+  'string-or-list': 'a string or a list of strings',
+}
+
+/**
+ * Bounds task.yaml values share with the task columns (as createTaskSchema enforces them)
+ */
+const TEXT_LIMITS = {
+  title: FIELD_LIMITS.TITLE.MAX,
+  instruction: FIELD_LIMITS.INSTRUCTION.MAX,
+  categories: FIELD_LIMITS.CATEGORIES.MAX,
+} as const
+
+const TIMEOUT_LIMITS = {
+  max_agent_timeout_sec: { min: MIN_TIMEOUTS.AGENT, max: MAX_TIMEOUTS.AGENT },
+  max_test_timeout_sec: { min: MIN_TIMEOUTS.TEST, max: MAX_TIMEOUTS.TEST },
+} as const
+
+function isStringScalar(node: unknown): boolean {
+  return isScalar(node) && typeof node.value === 'string'
+}
+
+function matchesType(node: unknown, type: TaskYamlValueType): boolean {
+  switch (type) {
+    case 'string':
+      return isStringScalar(node)
+    case 'number':
+      return isScalar(node) && typeof node.value === 'number'
+    case 'boolean':
+      return isScalar(node) && typeof node.value === 'boolean'
+    case 'string-list':
+      return isSeq(node) && node.items.every(isStringScalar)
+    case 'string-or-list':
+      return isStringScalar(node) || (isSeq(node) && node.items.every(isStringScalar))
+  }
+}
+
+function findPair(map: YAMLMap, key: string): Pair<unknown, unknown> | undefined {
+  return map.items.find(pair => isScalar(pair.key) && pair.key.value === key) as Pair<unknown, unknown> | undefined
+}
+
+function sameCategories(a: string, b: string): boolean {
+  const normalize = (value: string) =>
+    Array.from(new Set(value.split(',').map(c => c.trim().toLowerCase()).filter(c => c.length > 0))).sort().join(',')
+  return normalize(a) === normalize(b)
+}
+
+/**
+ * Validate task.yaml against the Terminal-Bench task schema
+ * When the task's structured fields are given, also report every field that
+ * task.yaml contradicts. Returns an empty list when the document is valid.
+ */
+export function validateTaskYaml(
+  source: string,
+  fields?: Required<TaskYamlFields>
+): TaskYamlIssue[] {
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(source, { lineCounter })
+  const issues: TaskYamlIssue[] = []
+
+  const positionOf = (offset: number | undefined) => {
+    const { line, col } = lineCounter.linePos(offset ?? 0)
+    return { line, column: col }
+  }
+  const nodePosition = (node: unknown) => positionOf((node as Node | null)?.range?.[0])
+
+  for (const error of doc.errors) {
+    const [start] = error.linePos ?? [{ line: 1, col: 1 }]
+    issues.push({
+      path: [],
+      // Drop the "at line X, column Y:" suffix and code excerpt; the position is reported separately
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      line: start.line,
+      column: start.col,
+    })
+  }
+  if (issues.length > 0) {
+    return issues
+  }
+
+  const root = doc.contents
+  if (!isMap(root)) {
+    return [{ path: [], message: 'task.yaml must be a mapping of keys to values', ...nodePosition(root) }]
+  }
+
+  const rootPosition = nodePosition(root)
+
+  for (const [key, spec] of Object.entries(TASK_YAML_KEYS)) {
+    const pair = findPair(root, key)
+
+    if (!pair) {
+      if (spec.required) {
+        issues.push({ path: [key], message: `Missing required key "${key}"`, ...rootPosition })
+      }
+      continue
+    }
+
+    if (!matchesType(pair.value, spec.type)) {
+      issues.push({
+        path: [key],
+        message: `"${key}" must be ${TYPE_LABELS[spec.type]}`,
+        ...nodePosition(pair.value ?? pair.key),
+      })
+    }
+  }
+
+  if (!findPair(root, 'category') && !findPair(root, 'categories')) {
+    issues.push({ path: ['category'], message: 'Missing required key "category"', ...rootPosition })
+  }
+
+  const difficulty = findPair(root, 'difficulty')
+  if (difficulty && isStringScalar(difficulty.value)) {
+    const value = String((difficulty.value as { value: string }).value).trim().toUpperCase()
+    if (!Object.values(Difficulty).includes(value as Difficulty)) {
+      issues.push({
+        path: ['difficulty'],
+        message: `"difficulty" must be one of ${Object.values(Difficulty).map(d => d.toLowerCase()).join(', ')}`,
+        ...nodePosition(difficulty.value),
+      })
+    }
+  }
+
+  for (const key of ['max_agent_timeout_sec', 'max_test_timeout_sec', 'memory_limit_mb', 'disk_limit_mb']) {
+    const pair = findPair(root, key)
+    if (pair && isScalar(pair.value) && typeof pair.value.value === 'number') {
+      const value = pair.value.value
+      if (!Number.isInteger(value) || value <= 0) {
+        issues.push({ path: [key], message: `"${key}" must be a positive integer`, ...nodePosition(pair.value) })
+      }
+    }
+  }
+
+  for (const [key, limits] of Object.entries(TIMEOUT_LIMITS)) {
+    const pair = findPair(root, key)
+    if (pair && isScalar(pair.value) && typeof pair.value.value === 'number' && Number.isInteger(pair.value.value)) {
+      const value = pair.value.value
+      if (value < limits.min || value > limits.max) {
+        issues.push({
+          path: [key],
+          message: `"${key}" must be between ${limits.min} and ${limits.max} seconds`,
+          ...nodePosition(pair.value),
+        })
+      }
+    }
+  }
+
+  for (const key of ['title', 'instruction'] as const) {
+    const pair = findPair(root, key)
+    if (pair && isStringScalar(pair.value) && String((pair.value as { value: string }).value).length > TEXT_LIMITS[key]) {
+      issues.push({
+        path: [key],
+        message: `"${key}" must be at most ${TEXT_LIMITS[key]} characters`,
+        ...nodePosition(pair.value),
+      })
+    }
+  }
+
+  const categories = taskYamlDocumentToFields(root.toJSON()).categories
+  if (categories !== undefined && categories.length > TEXT_LIMITS.categories) {
+    const key = findPair(root, 'categories') ? 'categories' : 'category'
+    issues.push({
+      path: [key],
+      message: `Categories must be at most ${TEXT_LIMITS.categories} characters in total`,
+      ...nodePosition(findPair(root, key)?.value ?? root),
+    })
+  }
+
+  const cpuLimit = findPair(root, 'cpu_limit')
+  if (cpuLimit && isScalar(cpuLimit.value) && typeof cpuLimit.value.value === 'number' && cpuLimit.value.value <= 0) {
+    issues.push({ path: ['cpu_limit'], message: '"cpu_limit" must be a positive number', ...nodePosition(cpuLimit.value) })
+  }
+
+  const networkPolicy = findPair(root, 'network_policy')
+  if (networkPolicy && isStringScalar(networkPolicy.value)) {
+    const value = String((networkPolicy.value as { value: string }).value).trim().toUpperCase()
+    if (!Object.values(NetworkPolicy).includes(value as NetworkPolicy)) {
+      issues.push({
+        path: ['network_policy'],
+        message: `"network_policy" must be one of ${Object.values(NetworkPolicy).map(p => p.toLowerCase()).join(', ')}`,
+        ...nodePosition(networkPolicy.value),
+      })
+    }
+  }
+
+  if (issues.length > 0 || !fields) {
+    return issues
+  }
+
+  // Structural checks passed; compare the values with the structured fields
+  const yamlFields = taskYamlDocumentToFields(root.toJSON())
+  const mismatch = (key: string, message: string) => {
+    const pair = findPair(root, key)
+    issues.push({ path: [key], message, ...nodePosition(pair?.value ?? root) })
+  }
+
+  if (yamlFields.title !== undefined && yamlFields.title.trim() !== fields.title.trim()) {
+    mismatch('title', `title "${yamlFields.title}" does not match the task title "${fields.title}"`)
+  }
+  if (yamlFields.instruction !== undefined && yamlFields.instruction.trim() !== fields.instruction.trim()) {
+    mismatch('instruction', 'instruction does not match the task instruction')
+  }
+  if (yamlFields.difficulty !== undefined && yamlFields.difficulty !== fields.difficulty) {
+    mismatch(
+      'difficulty',
+      `difficulty "${yamlFields.difficulty.toLowerCase()}" does not match the task difficulty "${fields.difficulty.toLowerCase()}"`
+    )
+  }
+  if (yamlFields.categories !== undefined && !sameCategories(yamlFields.categories, fields.categories)) {
+    mismatch(
+      findPair(root, 'categories') ? 'categories' : 'category',
+      `categories "${yamlFields.categories}" do not match the task categories "${fields.categories}"`
+    )
+  }
+  if (yamlFields.maxAgentTimeoutSec !== undefined && yamlFields.maxAgentTimeoutSec !== fields.maxAgentTimeoutSec) {
+    mismatch(
+      'max_agent_timeout_sec',
+      `max_agent_timeout_sec ${yamlFields.maxAgentTimeoutSec} does not match the task agent timeout ${fields.maxAgentTimeoutSec}`
+    )
+  }
+  if (yamlFields.maxTestTimeoutSec !== undefined && yamlFields.maxTestTimeoutSec !== fields.maxTestTimeoutSec) {
+    mismatch(
+      'max_test_timeout_sec',
+      `max_test_timeout_sec ${yamlFields.maxTestTimeoutSec} does not match the task test timeout ${fields.maxTestTimeoutSec}`
+    )
+  }
+
+  return issues
+}
+
+// ==================== Field Sync ====================
+
+/**
+ * Task fields stored both as columns and inside task.yaml
+ */
+export const TASK_YAML_SYNCED_FIELDS = [
+  'title',
+  'instruction',
+  'difficulty',
+  'categories',
+  'maxAgentTimeoutSec',
+  'maxTestTimeoutSec',
+] as const
+
+export type TaskYamlSyncedField = typeof TASK_YAML_SYNCED_FIELDS[number]
+export type TaskYamlSyncedFields = Pick<Required<TaskYamlFields>, TaskYamlSyncedField>
+
+/**
+ * Synced fields task.yaml may leave out (Terminal-Bench task.yaml has no title)
+ * They are kept in sync only when task.yaml already has them.
+ */
+const OPTIONAL_SYNCED_FIELDS: readonly TaskYamlSyncedField[] = ['title']
+
+/**
+ * Which side's value was kept when task.yaml and a column disagreed
+ */
+export type TaskYamlSyncSource = 'taskYaml' | 'fields'
+
+/**
+ * Whether a synced value is usable as a column value, within the column's bounds
+ */
+function isValidSyncedValue(field: TaskYamlSyncedField, value: unknown): boolean {
+  switch (field) {
+    case 'title':
+    case 'instruction':
+      return typeof value === 'string' && value.trim().length > 0 && value.length <= TEXT_LIMITS[field]
+    case 'difficulty':
+      return Object.values(Difficulty).includes(value as Difficulty)
+    case 'categories':
+      return typeof value === 'string' &&
+        value.split(',').some(c => c.trim().length > 0) &&
+        value.length <= TEXT_LIMITS.categories
+    case 'maxAgentTimeoutSec':
+    case 'maxTestTimeoutSec': {
+      const limits = TIMEOUT_LIMITS[field === 'maxAgentTimeoutSec' ? 'max_agent_timeout_sec' : 'max_test_timeout_sec']
+      return typeof value === 'number' && Number.isInteger(value) && value >= limits.min && value <= limits.max
+    }
+  }
+}
+
+/**
+ * Compare two values of a synced field (categories compare as sets, text
+ * ignoring surrounding whitespace)
+ */
+export function isSameSyncedValue(field: TaskYamlSyncedField, a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    if (field === 'categories') return sameCategories(a, b)
+    if (field === 'title' || field === 'instruction') return a.trim() === b.trim()
+  }
+  return a === b
+}
+
+/**
+ * Read the synced fields from task.yaml
+ * Only valid values are returned, so a half-typed document never clobbers a
+ * column. Returns null when the YAML cannot be parsed.
+ */
+export function readTaskYamlSyncedFields(source: string): Partial<TaskYamlSyncedFields> | null {
+  let fields: TaskYamlFields
+  try {
+    fields = extractTaskYamlFields(source)
+  } catch {
+    return null
+  }
+
+  const synced: Partial<TaskYamlSyncedFields> = {}
+  for (const field of TASK_YAML_SYNCED_FIELDS) {
+    if (isValidSyncedValue(field, fields[field])) {
+      Object.assign(synced, { [field]: fields[field] })
+    }
+  }
+  return synced
+}
+
+/**
+ * Write synced field values into task.yaml
+ * Comments, key order and unrelated keys are preserved; invalid values are
+ * skipped. Returns the source unchanged when it is not a parseable mapping.
+ */
+export function writeTaskYamlFields(source: string, fields: Partial<TaskYamlSyncedFields>): string {
+  const doc = parseDocument(source)
+  if (doc.errors.length > 0 || !isMap(doc.contents)) {
+    return source
+  }
+
+  const root = doc.contents as YAMLMap<unknown, unknown>
+  let changed = false
+  const set = (key: string, value: unknown) => {
+    root.set(key, value)
+    changed = true
+  }
+
+  for (const field of TASK_YAML_SYNCED_FIELDS) {
+    const value = fields[field]
+    if (!isValidSyncedValue(field, value)) continue
+
+    switch (field) {
+      case 'title':
+        if (findPair(root, 'title')) set('title', value)
+        break
+      case 'instruction': {
+        // Multi-line instructions read best as a literal block, as authors write them
+        const node = doc.createNode(value) as Scalar
+        if (String(value).includes('\n')) node.type = Scalar.BLOCK_LITERAL
+        set('instruction', node)
+        break
+      }
+      case 'difficulty':
+        set('difficulty', String(value).toLowerCase())
+        break
+      case 'maxAgentTimeoutSec':
+        set('max_agent_timeout_sec', value)
+        break
+      case 'maxTestTimeoutSec':
+        set('max_test_timeout_sec', value)
+        break
+      case 'categories': {
+        const categories = asStringList(value)
+        const existing = findPair(root, 'categories')
+        if (existing) {
+          // Keep the author's choice of list or comma-separated string
+          set('categories', isSeq(existing.value) ? categories : categories.join(', '))
+        } else {
+          const [category, ...tags] = categories
+          set('category', category)
+          if (tags.length > 0) {
+            set('tags', tags)
+          } else if (findPair(root, 'tags')) {
+            root.delete('tags')
+            changed = true
+          }
+        }
+        break
+      }
+    }
+  }
+
+  return changed ? doc.toString() : source
+}
+
+export interface TaskYamlReconciliation {
+  taskYaml: string
+  fields: TaskYamlSyncedFields
+  sources: Partial<Record<TaskYamlSyncedField, TaskYamlSyncSource>> // Only fields that disagreed
+}
+
+/**
+ * Make task.yaml and the structured fields agree after an edit
+ * For each field that disagrees, task.yaml wins if its value was changed by
+ * this edit (compared with the previous task.yaml); otherwise the column wins
+ * and is written into task.yaml. Values task.yaml has but that are invalid
+ * are left alone for validation to report. Returns null when task.yaml
+ * cannot be parsed.
+ */
+export function reconcileTaskYaml(
+  taskYaml: string,
+  fields: TaskYamlSyncedFields,
+  previousTaskYaml: string | null
+): TaskYamlReconciliation | null {
+  const doc = parseDocument(taskYaml)
+  if (doc.errors.length > 0 || !isMap(doc.contents)) {
+    return null
+  }
+
+  const rawFields = taskYamlDocumentToFields(doc.toJSON())
+  const yamlFields = readTaskYamlSyncedFields(taskYaml) ?? {}
+  const previousFields = previousTaskYaml ? readTaskYamlSyncedFields(previousTaskYaml) ?? {} : {}
+
+  const result: TaskYamlSyncedFields = { ...fields }
+  const toYaml: Partial<TaskYamlSyncedFields> = {}
+  const sources: TaskYamlReconciliation['sources'] = {}
+
+  for (const field of TASK_YAML_SYNCED_FIELDS) {
+    const yamlValue = yamlFields[field]
+
+    if (yamlValue === undefined) {
+      // Present but invalid: leave it for validation rather than overwrite the author's text.
+      // Optional fields the author left out stay out.
+      if (rawFields[field] !== undefined || OPTIONAL_SYNCED_FIELDS.includes(field)) continue
+      Object.assign(toYaml, { [field]: fields[field] })
+      sources[field] = 'fields'
+      continue
+    }
+
+    if (isSameSyncedValue(field, yamlValue, fields[field])) continue
+
+    if (!isSameSyncedValue(field, yamlValue, previousFields[field])) {
+      Object.assign(result, { [field]: yamlValue })
+      sources[field] = 'taskYaml'
+    } else {
+      Object.assign(toYaml, { [field]: fields[field] })
+      sources[field] = 'fields'
+    }
+  }
+
+  return {
+    taskYaml: writeTaskYamlFields(taskYaml, toYaml),
+    fields: result,
+    sources,
+  }
+}
+
+/**
+ * A task's task.yaml and the columns it duplicates
+ */
+export type TaskYamlSyncState = TaskYamlSyncedFields & { taskYaml: string | null }
+
+/**
+ * Canonicalize an edit so task.yaml and the columns it duplicates agree
+ * Fields the edit leaves out keep their current values. Returns the edit with
+ * the reconciled task.yaml and the columns task.yaml won, and for each field
+ * that disagreed, which side won. An edit leaving task.yaml empty or
+ * unparseable is returned unchanged.
+ */
+export function syncTaskYamlEdit<T extends Partial<TaskYamlSyncState>>(
+  current: TaskYamlSyncState,
+  edit: T
+): { edit: T; sources: TaskYamlReconciliation['sources'] } {
+  const taskYaml = edit.taskYaml !== undefined ? edit.taskYaml : current.taskYaml
+  if (!taskYaml || !taskYaml.trim()) {
+    return { edit, sources: {} }
+  }
+
+  const fields = Object.fromEntries(
+    TASK_YAML_SYNCED_FIELDS.map(field => [field, edit[field] ?? current[field]])
+  ) as TaskYamlSyncedFields
+
+  const reconciled = reconcileTaskYaml(taskYaml, fields, current.taskYaml)
+  if (!reconciled) {
+    return { edit, sources: {} }
+  }
+
+  const synced: T = { ...edit }
+  if (reconciled.taskYaml !== taskYaml) {
+    synced.taskYaml = reconciled.taskYaml
+  }
+  for (const field of TASK_YAML_SYNCED_FIELDS) {
+    if (reconciled.sources[field] === 'taskYaml') {
+      Object.assign(synced, { [field]: reconciled.fields[field] })
+    }
+  }
+
+  return { edit: synced, sources: reconciled.sources }
+}
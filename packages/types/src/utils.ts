@@ -22,8 +22,11 @@ import {
   STATE_BADGE_CLASSES,
   DIFFICULTY_BADGE_CLASSES,
   STATE_COLORS,
+  FILE_MODES,
 } from './constants'
 
+import type { TestFile, StorageOnlyFile } from './index'
+
 // ==================== State Machine Logic ====================
 
 /**
@@ -148,6 +151,86 @@ export function formatCategories(categories: string[]): string {
   return categories.filter(c => c.trim()).join(', ')
 }
 
+// ==================== Task File Helpers ====================
+
+/**
+ * Check that a tests/ file path is relative and stays inside tests/
+ * (storage-only file paths are checked the same way against the task root)
+ */
+export function isValidTestFilePath(path: string): boolean {
+  if (!path || path.includes('\0') || path.includes('\\') || path.startsWith('/')) {
+    return false
+  }
+  return path.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..')
+}
+
+/**
+ * Sort test files by path and fill in default modes
+ */
+export function normalizeTestFiles(files: Array<Omit<TestFile, 'mode'> & { mode?: number }>): TestFile[] {
+  return [...files]
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+    .map(file => ({
+      path: file.path,
+      content: file.content,
+      mode: file.mode ?? getDefaultFileMode(file.path),
+    }))
+}
+
+/**
+ * Read test files from a stored JSON value (Task or TaskHistory testFiles)
+ * Entries that are not { path, content, mode? } objects, or whose path would
+ * leave tests/, are dropped; modes keep only their permission bits.
+ */
+export function parseTestFiles(value: unknown): TestFile[] {
+  if (!Array.isArray(value)) return []
+
+  return normalizeTestFiles(
+    value
+      .filter((entry): entry is TestFile =>
+        !!entry &&
+        typeof entry === 'object' &&
+        typeof entry.path === 'string' &&
+        isValidTestFilePath(entry.path) &&
+        typeof entry.content === 'string' &&
+        (entry.mode === undefined || typeof entry.mode === 'number')
+      )
+      .map(entry => ({ ...entry, mode: entry.mode === undefined ? undefined : entry.mode & 0o777 }))
+  )
+}
+
+/**
+ * Read storage-only file entries from a stored JSON value (Task or TaskHistory storageOnlyFiles)
+ * Entries that are not { path, size, mode, sha256? } objects are dropped.
+ */
+export function parseStorageOnlyFiles(value: unknown): StorageOnlyFile[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter((entry): entry is StorageOnlyFile =>
+      !!entry &&
+      typeof entry === 'object' &&
+      typeof entry.path === 'string' &&
+      isValidTestFilePath(entry.path) &&
+      typeof entry.size === 'number' &&
+      typeof entry.mode === 'number' &&
+      (entry.sha256 === undefined || typeof entry.sha256 === 'string')
+    )
+    .map(entry => ({
+      path: entry.path,
+      size: entry.size,
+      mode: entry.mode & 0o777,
+      ...(entry.sha256 !== undefined && { sha256: entry.sha256 }),
+    }))
+}
+
+/**
+ * Default file mode for a task file (shell scripts are executable)
+ */
+export function getDefaultFileMode(path: string): number {
+  return path.endsWith('.sh') ? FILE_MODES.EXECUTABLE : FILE_MODES.FILE
+}
+
 // ==================== Permission Helpers ====================
 
 /**